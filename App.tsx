@@ -1,18 +1,77 @@
 
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { GoogleGenAI } from "@google/genai";
-import * as pdfjsLib from 'pdfjs-dist';
-import type { Report } from './types';
-import { STATIONARY_ITEMS_ROW1, STATIONARY_ITEMS_ROW2, CAMPUS_OPTIONS } from './constants';
-
-interface StockItem {
-    quantity: number;
-    lastInDate: string;
-    lastOutDate: string;
-    lastUpdateQuantity: number;
-}
+import type { Campus, CatalogItem, ExtraLine, ItemPrice, PurchaseOrder, Report, ReportStatus, RequestSchedule, RequestTemplate, StockItem, StockMovement, StockTransfer, User } from './types';
+import { activeCatalogItems, catalogItemIds, itemLabel } from './catalog';
+import { campusName, locationName, stockLocations } from './campuses';
+import {
+    deriveStock,
+    emptyStockItem,
+    findInsufficientStock,
+    movementsAtLocation,
+    movementsForReportChange,
+    movementsForTransfer,
+    stockQuantities,
+} from './stockLedger';
+import { findLowStock, isLowStock } from './reorder';
+import { quantitiesOnOrder } from './purchasing';
+import { bilingualLabel } from './pdfParser';
+import { parsePdf } from './pdfImport';
+import { createKhmerPdf } from './pdfFonts';
+import { quantityAfterImport, reportImportRows, reportsToImport, stockBeforeImportedReports, stockImportRows } from './importPreview';
+import type { ImportAction, ReportImportRow, StockImportRow } from './importPreview';
+import { reportSheet, stockSheet } from './spreadsheet';
+import type { StockSheetLine } from './spreadsheet';
+import { downloadBlob, downloadCsv, downloadWorkbook, readSpreadsheet } from './spreadsheetFiles';
+import type { ReadSheet } from './spreadsheetFiles';
+import * as api from './api';
+import { migrateLocalStorageToServer } from './legacyStorage';
+import { canManageBackups, canManageBudgets, canManageCampuses, canManageStock, canManageUsers } from './permissions';
+import { applyTransition, canSignHandover, isEditableStatus, isMissingHandover, normalizeLegacyStatus, transitionError } from './workflow';
+import { CustomButton } from './components/CustomButton';
+import { ConfirmationModal } from './components/ConfirmationModal';
+import { StockHistoryModal } from './components/StockHistoryModal';
+import { LoginScreen } from './components/LoginScreen';
+import { UserManagementPanel } from './components/UserManagementPanel';
+import { ReportWorkflowPanel, StatusBadge } from './components/ReportWorkflowPanel';
+import { HandoverPanel } from './components/HandoverPanel';
+import { StockTransferPanel } from './components/StockTransferPanel';
+import { CatalogPanel } from './components/CatalogPanel';
+import { CampusDirectoryPanel } from './components/CampusDirectoryPanel';
+import { BudgetPanel } from './components/BudgetPanel';
+import { RecurringRequestsPanel } from './components/RecurringRequestsPanel';
+import { TemplatePicker } from './components/TemplatePicker';
+import { AuditLogPanel } from './components/AuditLogPanel';
+import { RequestCostPanel } from './components/RequestCostPanel';
+import { ExtraLinesEditor } from './components/ExtraLinesEditor';
+import { OfflineQueuePanel } from './components/OfflineQueuePanel';
+import { LowStockAlertsPanel } from './components/LowStockAlertsPanel';
+import { StockForecastPanel } from './components/StockForecastPanel';
+import { PurchaseOrderPanel } from './components/PurchaseOrderPanel';
+import { addReportSections, calculateReportTotal, formatReportForDisplay } from './reportPdf';
+import { addStockSections } from './stockPdf';
+import { ImportPreviewPanel } from './components/ImportPreviewPanel';
+import { SpreadsheetImportPanel } from './components/SpreadsheetImportPanel';
+import { AnalyticsDashboardPanel } from './components/AnalyticsDashboardPanel';
+import { useLanguage } from './components/LanguageProvider';
+import { buildAnalytics } from './analytics';
+import { addDays } from './dates';
+import { addAnalyticsSection } from './analyticsPdf';
+import { buildStockForecast } from './forecast';
+import { addForecastSection } from './forecastPdf';
+import { budgetFor, budgetLeftAfter, monthRange, reportCost, spendingByCampus } from './costing';
+import type { BudgetStatus } from './costing';
+import { SPENDING_PDF_TITLE, addSpendingSections } from './spendingPdf';
+import { REPORT_LINK_PARAM, addDeliveryNote, formatRequestNumber, reportLink } from './deliveryNote';
+import type { DeliveryNoteSize } from './deliveryNote';
+import { UNDO_WINDOW_HOURS } from './audit';
+import { cleanExtraLines } from './extraLines';
+import { applyQueuedChanges, isOfflineError, loadQueue, onQueueChanged, queueChange, sendQueuedChanges, updateQueue } from './offlineQueue';
+import type { QueuedChange, QueuedChangeInput } from './offlineQueue';
+import { clearApiCache, onSyncRequested, requestBackgroundSync } from './pwa';
+import { onOtherTabChange } from './tabSync';
+import { LANGUAGES, LANGUAGE_NAMES, ROLE_MESSAGES, STATUS_MESSAGES, formatDate as formatDateIn } from './i18n';
+import type { MessageKey } from './i18n';
 
 const initialFormData: Omit<Report, 'id'> = {
   requesterName: '',
@@ -20,195 +79,61 @@ const initialFormData: Omit<Report, 'id'> = {
   importDate: '',
   exportDate: '',
   items: {},
-  status: 'Process',
+  status: 'Submitted',
+  extraLines: [],
+  purpose: '',
+  remarks: '',
 };
 
 const initialReports: Report[] = [];
 
-const LOCAL_STORAGE_KEY_REPORTS = 'stationaryAppReports';
-const LOCAL_STORAGE_KEY_FORM_DATA = 'stationaryAppFormData';
-const LOCAL_STORAGE_KEY_SELECTED_ID = 'stationaryAppSelectedId';
-const LOCAL_STORAGE_KEY_STOCK = 'stationaryAppStock';
-
-// Configure pdf.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.4.168/build/pdf.worker.mjs`;
-
-// Helper functions for display logic
-const formatItemsForDisplay = (items: Record<string, number> | string[]): string => {
-    if (!items) return '';
-    // Legacy support for old data format
-    if (Array.isArray(items)) {
-        return items.length > 0 ? items.join(', ') : 'N/A';
-    }
-    if (typeof items === 'object') {
-        const entries = Object.entries(items).filter(([, quantity]) => quantity > 0);
-        if (entries.length === 0) return 'N/A';
-        return entries.map(([item, quantity]) => `${item} (${quantity})`).join(', ');
-    }
-    return 'N/A';
-};
-
-const calculateTotalItems = (items: Record<string, number> | string[]): number => {
-    if (!items) return 0;
-    // Legacy support for old data format
-    if (Array.isArray(items)) {
-        return items.length;
-    }
-    if (typeof items === 'object') {
-        return Object.values(items).reduce((sum, quantity) => sum + (Number(quantity) || 0), 0);
-    }
-    return 0;
+const BACKUP_SECTION_MESSAGES: Record<api.BackupSection, MessageKey> = {
+    campuses: 'backup.campuses',
+    catalogItems: 'backup.catalogItems',
+    reports: 'backup.reports',
+    stockMovements: 'backup.stockMovements',
+    transfers: 'backup.transfers',
+    purchaseOrders: 'backup.purchaseOrders',
+    itemPrices: 'backup.itemPrices',
+    campusBudgets: 'backup.campusBudgets',
+    requestTemplates: 'backup.requestTemplates',
+    requestSchedules: 'backup.requestSchedules',
+    auditLog: 'backup.auditLog',
 };
 
+const WEEK_LABEL_FORMAT: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+const MONTH_LABEL_FORMAT: Intl.DateTimeFormatOptions = { month: 'long', year: 'numeric' };
 
-// Helper components defined outside the main component to prevent re-creation on re-renders.
-
-interface CustomButtonProps {
-    onClick: () => void;
-    disabled?: boolean;
-    color: 'blue' | 'green' | 'red' | 'gray' | 'black';
-    children: React.ReactNode;
-    isIconOnly?: boolean;
-    title?: string;
+// A checked backup waiting for the admin to confirm the restore
+interface PendingRestore {
+    fileName: string;
+    backup: unknown;
+    summary: api.BackupSummary;
 }
 
-const CustomButton: React.FC<CustomButtonProps> = ({ onClick, disabled = false, color, children, isIconOnly = false, title }) => {
-    const colorClasses = {
-        blue: 'bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500',
-        green: 'bg-green-600 hover:bg-green-700 focus:ring-green-500',
-        red: 'bg-red-600 hover:bg-red-700 focus:ring-red-500',
-        gray: 'bg-gray-500 hover:bg-gray-600 focus:ring-gray-500',
-        black: 'bg-black hover:bg-gray-800 focus:ring-gray-700',
-    };
-    const paddingClasses = isIconOnly ? 'p-3' : 'px-6 py-2';
-    return (
-        <button
-            type="button"
-            onClick={onClick}
-            disabled={disabled}
-            title={title}
-            className={`flex items-center justify-center ${paddingClasses} text-white font-semibold rounded-full shadow-md transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 ${colorClasses[color]} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
-        >
-            {children}
-        </button>
-    );
-};
-
-
-interface ConfirmationModalProps {
-    isOpen: boolean;
-    onConfirm: () => void;
-    onCancel: () => void;
-    title: string;
-    children: React.ReactNode;
-    confirmButtonText?: string;
+// A parsed PDF waiting for the stock keeper to decide what to keep
+interface ImportPreview {
+    fileName: string;
+    reportRows: ReportImportRow[];
+    stockRows: StockImportRow[] | null;
+    stockLocation: string;
 }
 
-const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, onConfirm, onCancel, title, children, confirmButtonText = 'Confirm' }) => {
-    useEffect(() => {
-        const handleEsc = (event: KeyboardEvent) => {
-            if (event.key === 'Escape') {
-                onCancel();
-            }
-        };
-        if (isOpen) {
-            window.addEventListener('keydown', handleEsc);
-        }
-
-        return () => {
-            window.removeEventListener('keydown', handleEsc);
-        };
-    }, [isOpen, onCancel]);
-
-    if (!isOpen) return null;
-
-    return (
-        <div 
-            className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4" 
-            aria-labelledby="modal-title" 
-            role="dialog" 
-            aria-modal="true"
-            onClick={onCancel}
-        >
-            <div 
-                className="bg-white rounded-xl shadow-2xl p-6 sm:p-8 w-full max-w-md transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale"
-                onClick={e => e.stopPropagation()} // Prevent closing when clicking inside the modal
-            >
-                <div className="sm:flex sm:items-start">
-                    <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-red-100 sm:mx-0 sm:h-10 sm:w-10">
-                        <svg className="h-6 w-6 text-red-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="2" stroke="currentColor" aria-hidden="true">
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                        </svg>
-                    </div>
-                    <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left">
-                        <h3 className="text-xl leading-6 font-bold text-gray-900" id="modal-title">{title}</h3>
-                        <div className="mt-2">
-                            <div className="text-sm text-gray-600">{children}</div>
-                        </div>
-                    </div>
-                </div>
-                <div className="mt-6 sm:mt-8 sm:flex sm:flex-row-reverse gap-3">
-                    <button
-                        type="button"
-                        className="w-full inline-flex justify-center rounded-full border border-transparent shadow-sm px-6 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 sm:w-auto sm:text-sm"
-                        onClick={onConfirm}
-                    >
-                        {confirmButtonText}
-                    </button>
-                    <button
-                        type="button"
-                        className="mt-3 w-full inline-flex justify-center rounded-full border border-gray-300 shadow-sm px-6 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm"
-                        onClick={onCancel}
-                    >
-                        Cancel
-                    </button>
-                </div>
-            </div>
-            <style>{`
-                @keyframes fade-in-scale {
-                    from { transform: scale(0.95); opacity: 0; }
-                    to { transform: scale(1); opacity: 1; }
-                }
-                .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }
-            `}</style>
-        </div>
-    );
-};
+// Only UI state stays in the browser; reports and stock live on the API server.
+const LOCAL_STORAGE_KEY_FORM_DATA = 'stationaryAppFormData';
+const LOCAL_STORAGE_KEY_SELECTED_ID = 'stationaryAppSelectedId';
 
 
 export default function App() {
-    const [reports, setReports] = useState<Report[]>(() => {
-        try {
-            const savedReportsJSON = window.localStorage.getItem(LOCAL_STORAGE_KEY_REPORTS);
-            if (savedReportsJSON) {
-                const savedReports = JSON.parse(savedReportsJSON);
-                if (Array.isArray(savedReports)) {
-                    // Data migration for backward compatibility
-                    return savedReports.map((report: any) => {
-                        const newReport = { ...report };
-                        // Migrate items from string[] to Record<string, number>
-                        if (Array.isArray(newReport.items)) {
-                            const newItems: Record<string, number> = {};
-                            newReport.items.forEach((item: string) => {
-                                newItems[item] = (newItems[item] || 0) + 1;
-                            });
-                            newReport.items = newItems;
-                        } else if (!newReport.items || typeof newReport.items !== 'object') {
-                            newReport.items = {};
-                        }
-                        // Add default status if missing
-                        if (newReport.status !== 'Done') {
-                            newReport.status = 'Process';
-                        }
-                        return newReport;
-                    });
-                }
-            }
-        } catch (error) {
-            console.error("Error reading reports from localStorage:", error);
-        }
-        return initialReports;
-    });
+    const { language, setLanguage, t, tRich, formatDate } = useLanguage();
+    const [currentUser, setCurrentUser] = useState<User | null>(null);
+    const [isCheckingSession, setIsCheckingSession] = useState(api.hasSession);
+    const [isManagingUsers, setIsManagingUsers] = useState(false);
+    const [reports, setReports] = useState<Report[]>(initialReports);
+    // Request changes made offline, waiting to be sent to the server
+    const [queuedChanges, setQueuedChanges] = useState<QueuedChange[]>(loadQueue);
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [isSyncing, setIsSyncing] = useState(false);
 
     const [formData, setFormData] = useState<Omit<Report, 'id'>>(() => {
         try {
@@ -227,9 +152,10 @@ export default function App() {
                     if (!savedFormData.items || typeof savedFormData.items !== 'object') {
                        savedFormData.items = {};
                     }
-                    if (savedFormData.status !== 'Done') {
-                        savedFormData.status = 'Process';
+                    if (!Array.isArray(savedFormData.extraLines)) {
+                        savedFormData.extraLines = [];
                     }
+                    savedFormData.status = normalizeLegacyStatus(savedFormData.status);
                     return savedFormData;
                 }
             }
@@ -251,76 +177,86 @@ export default function App() {
         return null;
     });
 
-    const [stock, setStock] = useState<Record<string, StockItem>>(() => {
-        const allItems = new Set([...STATIONARY_ITEMS_ROW1, ...STATIONARY_ITEMS_ROW2]);
-        let savedStock: Record<string, any> = {};
-    
-        try {
-            const savedStockJSON = window.localStorage.getItem(LOCAL_STORAGE_KEY_STOCK);
-            if (savedStockJSON) {
-                savedStock = JSON.parse(savedStockJSON);
-            }
-        } catch (error) {
-            console.error("Error reading stock from localStorage:", error);
-        }
-        
-        const migratedStock: Record<string, StockItem> = {};
-        const today = new Date().toISOString().split('T')[0];
-    
-        allItems.forEach(item => {
-            const stockItem = savedStock[item];
-            if (stockItem !== undefined) {
-                if (typeof stockItem === 'number') {
-                    // Migrate from: number
-                    migratedStock[item] = { quantity: stockItem, lastInDate: today, lastOutDate: '', lastUpdateQuantity: 0 };
-                } else if (typeof stockItem === 'object' && stockItem !== null && 'dateAdded' in stockItem) {
-                    // Migrate from: { quantity, dateAdded }
-                    migratedStock[item] = { 
-                        quantity: Number(stockItem.quantity) || 0,
-                        lastInDate: stockItem.dateAdded || today,
-                        lastOutDate: '', // Add new field
-                        lastUpdateQuantity: 0
-                    };
-                } else if (typeof stockItem === 'object' && stockItem !== null && 'quantity' in stockItem && 'lastInDate' in stockItem) {
-                    // Already in the current format or newer, just ensure all fields exist
-                     migratedStock[item] = {
-                        quantity: Number(stockItem.quantity) || 0,
-                        lastInDate: stockItem.lastInDate || '',
-                        lastOutDate: stockItem.lastOutDate || '',
-                        lastUpdateQuantity: Number(stockItem.lastUpdateQuantity) || 0
-                     };
-                } else {
-                    // Invalid data, initialize fresh
-                    migratedStock[item] = { quantity: 0, lastInDate: '', lastOutDate: '', lastUpdateQuantity: 0 };
-                }
-            } else {
-                // New item not in storage, initialize
-                migratedStock[item] = { quantity: 0, lastInDate: '', lastOutDate: '', lastUpdateQuantity: 0 };
-            }
-        });
-        
-        return migratedStock;
-    });
+    const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const [catalog, setCatalog] = useState<CatalogItem[]>([]);
+    const [isManagingCatalog, setIsManagingCatalog] = useState(false);
+    const [campuses, setCampuses] = useState<Campus[]>([]);
+    const [isManagingCampuses, setIsManagingCampuses] = useState(false);
+    const [prices, setPrices] = useState<ItemPrice[]>([]);
+    const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+    const [isManagingBudgets, setIsManagingBudgets] = useState(false);
+    const [templates, setTemplates] = useState<RequestTemplate[]>([]);
+    const [schedules, setSchedules] = useState<RequestSchedule[]>([]);
+    const [isManagingRecurring, setIsManagingRecurring] = useState(false);
+    const [isViewingAuditLog, setIsViewingAuditLog] = useState(false);
+    const openStockLocations = useMemo(() => stockLocations(campuses), [campuses]);
+    const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+    const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+    // The stock panel shows one location, or every location added together when this is ''
+    const [stockLocation, setStockLocation] = useState('');
+    const locationMovements = useMemo(() => movementsAtLocation(stockMovements, stockLocation || null), [stockMovements, stockLocation]);
+    const stock = useMemo(() => deriveStock(locationMovements, catalogItemIds(catalog)), [locationMovements, catalog]);
+    // Exported PDFs always name the location in English; the interface shows it in the chosen language
+    const stockLocationName = stockLocation ? locationName(campuses, stockLocation) : 'All Locations';
+    const stockLocationLabel = stockLocation ? stockLocationName : t('stock.allLocations');
+    const lowStock = useMemo(() => findLowStock(catalog, stock), [catalog, stock]);
+    const onOrder = useMemo(() => quantitiesOnOrder(purchaseOrders, stockLocation || null), [purchaseOrders, stockLocation]);
+    const forecast = useMemo(
+        () => buildStockForecast(reports, stock, catalog, purchaseOrders, stockLocation || null, new Date().toISOString().split('T')[0]),
+        [reports, stock, catalog, purchaseOrders, stockLocation]
+    );
+    const forecastByItem = useMemo(() => Object.fromEntries(forecast.lines.map(line => [line.item.id, line])), [forecast]);
+    const itemsRunningOut = forecast.lines.filter(line => line.runsOutBeforeDelivery).length;
 
     const [campusFilter, setCampusFilter] = useState('');
     const [descriptionFilter, setDescriptionFilter] = useState('');
     const [selectedMonth, setSelectedMonth] = useState<string>('');
     const [selectedWeek, setSelectedWeek] = useState<string>('');
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
+    const [isViewingDashboard, setIsViewingDashboard] = useState(false);
+    const [includeAnalyticsInPdf, setIncludeAnalyticsInPdf] = useState(true);
+    const [deliveryNoteSize, setDeliveryNoteSize] = useState<DeliveryNoteSize>('a5');
+    // The request a scanned delivery note links to, until the data is loaded and it can be opened
+    const [linkedReportId, setLinkedReportId] = useState(() => new URLSearchParams(window.location.search).get(REPORT_LINK_PARAM));
     const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
     const saveTimeoutRef = useRef<number | null>(null);
-    const reportsDidMount = useRef(false);
-    const stockDidMount = useRef(false);
 
     // Stock Management State
     const [isEditingStock, setIsEditingStock] = useState(false);
     const [tempStock, setTempStock] = useState<Record<string, StockItem>>(stock);
+    // The stock the edit started from, so saving only changes the items the user changed
+    const stockBeforeEditRef = useRef<Record<string, StockItem>>({});
     const [isConfirmingClearStock, setIsConfirmingClearStock] = useState(false);
+    const [historyItem, setHistoryItem] = useState<string | null>(null);
+    const [isTransferringStock, setIsTransferringStock] = useState(false);
+    const [isViewingLowStock, setIsViewingLowStock] = useState(false);
+    const [isViewingForecast, setIsViewingForecast] = useState(false);
+    const [isManagingPurchaseOrders, setIsManagingPurchaseOrders] = useState(false);
+    const [purchaseOrderToCancel, setPurchaseOrderToCancel] = useState<PurchaseOrder | null>(null);
 
 
     // PDF Import State
     const [isImporting, setIsImporting] = useState(false);
     const importFileRef = useRef<HTMLInputElement>(null);
+    const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+    const [isConfirmingImport, setIsConfirmingImport] = useState(false);
+
+    // Spreadsheet Import State
+    const [sheetImport, setSheetImport] = useState<{ fileName: string; sheets: ReadSheet[] } | null>(null);
+    const sheetFileRef = useRef<HTMLInputElement>(null);
+
+    // Backup State
+    const [isBackingUp, setIsBackingUp] = useState(false);
+    const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null);
+    const restoreFileRef = useRef<HTMLInputElement>(null);
+    const importLocationStock = useMemo(
+        () => importPreview ? deriveStock(movementsAtLocation(stockMovements, importPreview.stockLocation), catalogItemIds(catalog)) : {},
+        [importPreview, stockMovements, catalog]
+    );
 
 
     const triggerSaveStatus = useCallback(() => {
@@ -334,30 +270,179 @@ export default function App() {
     }, []);
 
     useEffect(() => {
-        if (reportsDidMount.current) {
-            try {
-                window.localStorage.setItem(LOCAL_STORAGE_KEY_REPORTS, JSON.stringify(reports));
-                triggerSaveStatus();
-            } catch (error) {
-                console.error("Error saving reports to localStorage:", error);
-                alert("Error: Could not save your reports. Your browser's local storage may be full or disabled. Please check your browser settings and try again.");
+        api.setUnauthorizedHandler(() => setCurrentUser(null));
+        if (api.hasSession()) {
+            api.fetchCurrentUser()
+                .then(setCurrentUser)
+                .catch(error => console.error("Error restoring the session:", error))
+                .finally(() => setIsCheckingSession(false));
+        }
+        return () => api.setUnauthorizedHandler(null);
+    }, []);
+
+    const isStockManager = canManageStock(currentUser);
+    // Requesters tied to a campus can only request for that campus
+    const lockedCampus = currentUser && !isStockManager ? currentUser.campus : '';
+
+    // Everything the signed-in user works with, as the server has it now, with their unsent offline changes on top
+    const fetchData = useCallback(async () => {
+        if (!currentUser) return;
+        const [loadedCampuses, loadedCatalog, loadedPrices, loadedReports, loadedTemplates, loadedSchedules, loadedMovements, loadedTransfers, loadedPurchaseOrders] = await Promise.all([
+            api.fetchCampuses(),
+            api.fetchCatalog(),
+            api.fetchItemPrices(),
+            api.fetchReports(),
+            api.fetchTemplates(),
+            api.fetchSchedules(),
+            canManageStock(currentUser) ? api.fetchStockMovements() : Promise.resolve([]),
+            canManageStock(currentUser) ? api.fetchTransfers() : Promise.resolve([]),
+            canManageStock(currentUser) ? api.fetchPurchaseOrders() : Promise.resolve([]),
+        ]);
+        setCampuses(loadedCampuses);
+        setCatalog(loadedCatalog);
+        setPrices(loadedPrices);
+        setReports(applyQueuedChanges(loadedReports, loadQueue(), currentUser.id));
+        setTemplates(loadedTemplates);
+        setSchedules(loadedSchedules);
+        setStockMovements(loadedMovements);
+        setTransfers(loadedTransfers);
+        setPurchaseOrders(loadedPurchaseOrders);
+    }, [currentUser]);
+
+    const loadData = useCallback(async () => {
+        if (!currentUser) return;
+        setIsLoading(true);
+        setLoadError(null);
+        try {
+            // Only stock keepers may upload this browser's old data; requesters leave it for them
+            const migration = canManageStock(currentUser) ? await migrateLocalStorageToServer() : null;
+            if (migration) {
+                const stockNote = migration.stockSkipped
+                    ? t('load.migratedStockSkipped')
+                    : migration.stockRejected
+                        ? t('load.migratedStockRejected', { reason: migration.stockRejected })
+                        : t('load.migratedStock', { movements: migration.importedStockMovements });
+                const rejectedNote = migration.rejectedReports.length > 0
+                    ? `\n\n${t('load.migratedRejected', { count: migration.rejectedReports.length })}\n${migration.rejectedReports.map(({ id, reason }) => `${id}: ${reason}`).join('\n')}`
+                    : '';
+                alert(`${t('load.migrated', { reports: migration.importedReports })} ${stockNote}${rejectedNote}`);
             }
-        } else {
-            reportsDidMount.current = true;
+            await fetchData();
+        } catch (error) {
+            console.error("Error loading data from the server:", error);
+            setLoadError(error instanceof Error ? error.message : t('common.unknownError'));
+        } finally {
+            setIsLoading(false);
         }
-    }, [reports, triggerSaveStatus]);
+    }, [currentUser, fetchData, t]);
 
     useEffect(() => {
-        if (stockDidMount.current) {
-            try {
-                window.localStorage.setItem(LOCAL_STORAGE_KEY_STOCK, JSON.stringify(stock));
-            } catch (error) {
-                console.error("Error saving stock to localStorage:", error);
-            }
-        } else {
-            stockDidMount.current = true;
+        loadData();
+    }, [loadData]);
+
+    // Picks up what other tabs save, without the loading state a full load shows. A failed refresh leaves the data
+    // as it was; saving from it is refused if it has gone out of date.
+    const refreshData = useCallback(() => {
+        fetchData().catch(error => console.error("Error refreshing the data:", error));
+    }, [fetchData]);
+
+    useEffect(() => onOtherTabChange(refreshData), [refreshData]);
+
+    // Another tab queued, sent or discarded offline changes
+    useEffect(() => onQueueChanged(() => {
+        setQueuedChanges(loadQueue());
+        refreshData();
+    }), [refreshData]);
+
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    // Sends the changes queued while offline. Changes queued while sending wait for the next round.
+    const syncQueuedChanges = useCallback(async () => {
+        if (!currentUser || isSyncing) return;
+        if (!loadQueue().some(change => change.userId === currentUser.id && !change.conflict)) return;
+        setIsSyncing(true);
+        try {
+            const { queue, sent } = await sendQueuedChanges(currentUser.id);
+            setQueuedChanges(queue);
+            if (sent > 0) await loadData();
+        } finally {
+            setIsSyncing(false);
         }
-    }, [stock]);
+    }, [currentUser, isSyncing, loadData]);
+
+    useEffect(() => onSyncRequested(syncQueuedChanges), [syncQueuedChanges]);
+
+    // Whatever was left from the last session goes out as soon as the user is signed in again
+    useEffect(() => {
+        if (currentUser) syncQueuedChanges();
+    }, [currentUser]);
+
+    const myQueuedChanges = useMemo(
+        () => queuedChanges.filter(change => change.userId === currentUser?.id),
+        [queuedChanges, currentUser]
+    );
+    // Reports whose latest changes have not reached the server yet
+    const unsyncedReportIds = useMemo(() => new Set(myQueuedChanges.map(change => change.reportId)), [myQueuedChanges]);
+
+    const queueOfflineChange = useCallback((change: QueuedChangeInput) => {
+        setQueuedChanges(updateQueue(queue => queueChange(queue, change)));
+        requestBackgroundSync();
+    }, []);
+
+    const handleSendAnyway = useCallback((id: string) => {
+        setQueuedChanges(updateQueue(queue => queue.map(change => change.id === id ? { ...change, conflict: undefined, base: undefined } : change)));
+        syncQueuedChanges();
+    }, [syncQueuedChanges]);
+
+    // The report goes back to the server's copy
+    const handleDiscardChange = useCallback((id: string) => {
+        setQueuedChanges(updateQueue(queue => queue.filter(change => change.id !== id)));
+        loadData();
+    }, [loadData]);
+
+    // Budget spending covers requests this user may not see, so the server works it out again whenever
+    // the requests or prices change
+    useEffect(() => {
+        if (!currentUser) return;
+        api.fetchBudgets()
+            .then(setBudgets)
+            .catch(error => console.error("Error loading budgets:", error));
+    }, [currentUser, reports, prices]);
+
+    const handleLogout = useCallback(async () => {
+        try {
+            await api.logout();
+        } catch (error) {
+            console.error("Error signing out:", error);
+        }
+        await clearApiCache();
+        setCurrentUser(null);
+        setIsManagingUsers(false);
+        setIsManagingCatalog(false);
+        setIsManagingCampuses(false);
+        setIsManagingBudgets(false);
+        setIsManagingRecurring(false);
+        setIsViewingAuditLog(false);
+        setReports(initialReports);
+        setStockMovements([]);
+        setTransfers([]);
+        setPurchaseOrders([]);
+        setPrices([]);
+        setBudgets([]);
+        setTemplates([]);
+        setSchedules([]);
+        setFormData(initialFormData);
+        setSelectedReportId(null);
+    }, []);
 
     useEffect(() => {
         if (!isEditingStock) {
@@ -381,7 +466,7 @@ export default function App() {
         }
     }, [selectedReportId]);
 
-    const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
         setFormData(prev => ({ ...prev, [name]: value as any }));
     }, []);
@@ -399,56 +484,64 @@ export default function App() {
         });
     }, []);
 
+    const handleExtraLinesChange = useCallback((extraLines: ExtraLine[]) => {
+        setFormData(prev => ({ ...prev, extraLines }));
+    }, []);
+
     const clearForm = useCallback(() => {
         setFormData(initialFormData);
         setSelectedReportId(null);
     }, []);
 
-    const handleAddReport = useCallback(() => {
-        if (!formData.requesterName || !formData.campus || !formData.importDate || !formData.exportDate) {
-            alert("Please fill all fields, including dates.");
+    const handleAddReport = useCallback(async () => {
+        if (!currentUser) return;
+        const campus = lockedCampus || formData.campus;
+        if (!campus || !formData.importDate || !formData.exportDate) {
+            alert(t('form.fillAllFields'));
             return;
         }
-    
-        // --- Stock Logic ---
-        if (formData.status === 'Done') {
-            const itemsToDeduct = formData.items;
-            const insufficientItems: string[] = [];
-            for (const [item, quantity] of Object.entries(itemsToDeduct)) {
-                if ((stock[item]?.quantity || 0) < quantity) {
-                    insufficientItems.push(`${item} (requested ${quantity}, available ${stock[item]?.quantity || 0})`);
-                }
-            }
-    
-            if (insufficientItems.length > 0) {
-                alert(`Cannot add report. Insufficient stock for: ${insufficientItems.join(', ')}.`);
-                return; // Block the action
-            }
-    
-            // Deduct from stock
-            setStock(prevStock => {
-                const newStock = JSON.parse(JSON.stringify(prevStock)); // Deep copy
-                const today = new Date().toISOString().split('T')[0];
-                for (const [item, quantity] of Object.entries(itemsToDeduct)) {
-                    const numQuantity = Number(quantity) || 0;
-                    if (newStock[item]) {
-                        newStock[item].quantity = (newStock[item].quantity || 0) - numQuantity;
-                        newStock[item].lastOutDate = today;
-                        newStock[item].lastUpdateQuantity = -numQuantity;
-                    }
-                }
-                return newStock;
-            });
+        const extraLines = cleanExtraLines(formData.extraLines);
+        if (!extraLines) {
+            alert(t('form.incompleteOtherItem'));
+            return;
         }
-        // --- End Stock Logic ---
     
         const newReport: Report = {
             id: new Date().toISOString(),
             ...formData,
+            extraLines,
+            campus,
+            requesterName: currentUser.displayName,
+            requesterId: currentUser.id,
         };
-        setReports(prev => [...prev, newReport]);
-        clearForm();
-    }, [formData, clearForm, stock]);
+
+        // --- Stock Check (the server checks again before posting the movements) ---
+        const insufficientItems = findInsufficientStock(movementsForReportChange(null, newReport, newReport.id), stockMovements);
+        if (insufficientItems.length > 0) {
+            alert(`${t('error.cannotAddReport')} ${t('error.insufficientStock', { items: insufficientItems.join(', ') })}`);
+            return; // Block the action
+        }
+
+        setIsSaving(true);
+        try {
+            const { report, movements } = await api.createReport(newReport);
+            setReports(prev => [...prev, report]);
+            setStockMovements(prev => [...prev, ...movements]);
+            clearForm();
+            triggerSaveStatus();
+        } catch (error) {
+            if (isOfflineError(error)) {
+                queueOfflineChange({ userId: currentUser.id, kind: 'create', reportId: newReport.id, report: newReport });
+                setReports(prev => [...prev, newReport]);
+                clearForm();
+                return;
+            }
+            console.error("Error adding report:", error);
+            alert(`${t('error.cannotAddReport')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [formData, clearForm, stockMovements, triggerSaveStatus, currentUser, lockedCampus, queueOfflineChange, t]);
 
     const handleSelectReport = useCallback((report: Report) => {
         setSelectedReportId(report.id);
@@ -460,136 +553,185 @@ export default function App() {
             items: report.items && typeof report.items === 'object' && !Array.isArray(report.items) 
                    ? { ...report.items }
                    : {}, // The migration should prevent array items, but this is a safeguard.
-            status: report.status || 'Process'
+            status: report.status,
+            extraLines: (report.extraLines || []).map(line => ({ ...line })),
+            purpose: report.purpose || '',
+            remarks: report.remarks || '',
+            revision: report.revision,
         });
     }, []);
 
-    const handleUpdateReport = useCallback(() => {
+    const handleUpdateReport = useCallback(async () => {
         if (!selectedReportId) return;
     
         const originalReport = reports.find(r => r.id === selectedReportId);
         if (!originalReport) return;
-    
-        const updatedData = formData;
-        const insufficientItems: string[] = [];
-        const originalItems = originalReport.items || {};
-        const updatedItems = updatedData.items || {};
-    
-        // --- Stock Check Logic (Run this before any state updates) ---
-        if (originalReport.status === 'Process' && updatedData.status === 'Done') {
-            // Case 1: Transitioning from Process to Done. Check all new items against current stock.
-            for (const [item, quantity] of Object.entries(updatedItems)) {
-                if ((stock[item]?.quantity || 0) < quantity) {
-                    insufficientItems.push(`${item} (requested ${quantity}, available ${stock[item]?.quantity || 0})`);
-                }
-            }
-        } else if (originalReport.status === 'Done' && updatedData.status === 'Done') {
-            // Case 2: Staying as Done. Check only the *additional* items being requested (the delta).
-            const allItems = new Set([...Object.keys(originalItems), ...Object.keys(updatedItems)]);
-            allItems.forEach(item => {
-                const originalQty = Number(originalItems[item] || 0);
-                const updatedQty = Number(updatedItems[item] || 0);
-                const delta = updatedQty - originalQty; // A positive delta means more items are being taken.
-    
-                if (delta > 0 && (stock[item]?.quantity || 0) < delta) {
-                     insufficientItems.push(`${item} (requested ${delta} more, available ${stock[item]?.quantity || 0})`);
-                }
-            });
+        const extraLines = cleanExtraLines(formData.extraLines);
+        if (!extraLines) {
+            alert(t('form.incompleteOtherItem'));
+            return;
         }
     
+        // Status only changes through the workflow buttons
+        const updatedReport: Report = { ...originalReport, ...formData, extraLines, status: originalReport.status };
+
+        // --- Stock Check ---
+        // Only the difference between what the report held before and after the edit is posted.
+        // Editable requests hold no stock yet, so this only matters if that ever changes.
+        const insufficientItems = findInsufficientStock(movementsForReportChange(originalReport, updatedReport, originalReport.id), stockMovements);
         if (insufficientItems.length > 0) {
-            alert(`Cannot update report. Insufficient stock for: ${insufficientItems.join(', ')}.`);
+            alert(`${t('error.cannotUpdateReport')} ${t('error.insufficientStock', { items: insufficientItems.join(', ') })}`);
             return; // Block the update
         }
-        // --- End Stock Check Logic ---
-    
-        // --- Stock Update Logic ---
-        setStock(prevStock => {
-            const newStock = JSON.parse(JSON.stringify(prevStock)); // Deep copy
-            const today = new Date().toISOString().split('T')[0];
-    
-            // Case 1: Process -> Done (Deduct new items)
-            if (originalReport.status === 'Process' && updatedData.status === 'Done') {
-                for (const [item, quantity] of Object.entries(updatedItems)) {
-                    const numQuantity = Number(quantity) || 0;
-                    if (newStock[item]) {
-                         newStock[item].quantity -= numQuantity;
-                         newStock[item].lastOutDate = today;
-                         newStock[item].lastUpdateQuantity = -numQuantity;
-                    }
-                }
-            }
-            // Case 2: Done -> Process (Add back old items)
-            else if (originalReport.status === 'Done' && updatedData.status === 'Process') {
-                for (const [item, quantity] of Object.entries(originalItems)) {
-                    const numQuantity = Number(quantity) || 0;
-                    if (newStock[item]) {
-                        newStock[item].quantity += numQuantity;
-                        newStock[item].lastInDate = today;
-                        newStock[item].lastUpdateQuantity = numQuantity;
-                    }
-                }
+
+        setIsSaving(true);
+        try {
+            const { report, movements } = await api.updateReport(updatedReport);
+            setReports(prev => prev.map(r => r.id === report.id ? report : r));
+            setStockMovements(prev => [...prev, ...movements]);
+            clearForm();
+            triggerSaveStatus();
+        } catch (error) {
+            if (isOfflineError(error) && currentUser) {
+                queueOfflineChange({ userId: currentUser.id, kind: 'update', reportId: updatedReport.id, report: updatedReport, base: originalReport });
+                setReports(prev => prev.map(r => r.id === updatedReport.id ? updatedReport : r));
+                clearForm();
+                return;
             }
-            // Case 3: Done -> Done (Calculate delta)
-            else if (originalReport.status === 'Done' && updatedData.status === 'Done') {
-                const allItems = new Set([...Object.keys(originalItems), ...Object.keys(updatedItems)]);
-                allItems.forEach(item => {
-                    const originalQty = Number(originalItems[item] || 0);
-                    const updatedQty = Number(updatedItems[item] || 0);
-                    const delta = originalQty - updatedQty; // positive: items returned, negative: more items taken
-                    if (newStock[item] && delta !== 0) {
-                        newStock[item].quantity += delta;
-                        newStock[item].lastUpdateQuantity = delta;
-                        if (delta > 0) { // Items returned to stock
-                            newStock[item].lastInDate = today;
-                        } else { // More items taken from stock
-                            newStock[item].lastOutDate = today;
-                        }
-                    }
+            console.error("Error updating report:", error);
+            alert(`${t('error.cannotUpdateReport')} ${error instanceof Error ? error.message : ''}`);
+            if (api.isConflictError(error)) refreshData();
+        } finally {
+            setIsSaving(false);
+        }
+    }, [selectedReportId, formData, clearForm, reports, stockMovements, triggerSaveStatus, currentUser, queueOfflineChange, refreshData, t]);
+
+    const handleTransition = useCallback(async (to: ReportStatus, reason: string, location?: string) => {
+        if (!currentUser || !selectedReportId) return;
+
+        const originalReport = reports.find(r => r.id === selectedReportId);
+        if (!originalReport) return;
+
+        const error = transitionError(originalReport, to, currentUser, reason);
+        if (error) {
+            alert(t(error.key, { from: t(STATUS_MESSAGES[error.params.from]), to: t(STATUS_MESSAGES[error.params.to]) }));
+            return;
+        }
+
+        // --- Stock Check (fulfilling a request takes its items out of stock at the chosen location) ---
+        const transitionedReport = { ...applyTransition(originalReport, to, currentUser, reason), fulfilledFrom: location };
+        const insufficientItems = findInsufficientStock(
+            movementsForReportChange(originalReport, transitionedReport, originalReport.id),
+            stockMovements
+        );
+        if (insufficientItems.length > 0) {
+            alert(`${t('error.cannotMoveRequest', { status: t(STATUS_MESSAGES[to]) })} ${t('error.insufficientStock', { items: insufficientItems.join(', ') })}`);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const { report, movements } = await api.transitionReport(originalReport.id, to, reason, location, originalReport.revision);
+            setReports(prev => prev.map(r => r.id === report.id ? report : r));
+            setStockMovements(prev => [...prev, ...movements]);
+            setFormData(prev => ({ ...prev, status: report.status, revision: report.revision }));
+            triggerSaveStatus();
+        } catch (error) {
+            // Fulfilling a request moves stock, which only the server can check
+            if (isOfflineError(error) && to !== 'Fulfilled') {
+                queueOfflineChange({
+                    userId: currentUser.id, kind: 'transition', reportId: originalReport.id, report: transitionedReport, base: originalReport, to, reason,
                 });
+                setReports(prev => prev.map(r => r.id === originalReport.id ? transitionedReport : r));
+                setFormData(prev => ({ ...prev, status: to }));
+                return;
             }
-            // Case 4: Process -> Process (No stock change)
-            
-            return newStock;
-        });
-        // --- End Stock Update Logic ---
-    
-        setReports(prev =>
-            prev.map(r =>
-                r.id === selectedReportId ? { ...r, ...updatedData } : r
-            )
-        );
-        clearForm();
-    }, [selectedReportId, formData, clearForm, reports, stock]);
+            console.error("Error changing report status:", error);
+            alert(`${t('error.cannotMoveRequest', { status: t(STATUS_MESSAGES[to]) })} ${error instanceof Error ? error.message : ''}`);
+            if (api.isConflictError(error)) refreshData();
+        } finally {
+            setIsSaving(false);
+        }
+    }, [currentUser, selectedReportId, reports, stockMovements, triggerSaveStatus, queueOfflineChange, refreshData, t]);
     
-    const handleConfirmDelete = useCallback(() => {
+    const handleSignHandover = useCallback(async (receiverName: string, signature: string) => {
+        const originalReport = reports.find(r => r.id === selectedReportId);
+        if (!originalReport) return;
+
+        setIsSaving(true);
+        try {
+            const { report } = await api.signHandover(originalReport.id, receiverName, signature, originalReport.revision);
+            setReports(prev => prev.map(r => r.id === report.id ? report : r));
+            setFormData(prev => ({ ...prev, revision: report.revision }));
+            triggerSaveStatus();
+        } catch (error) {
+            console.error("Error saving the handover signature:", error);
+            alert(`${t('error.cannotSaveSignature')} ${error instanceof Error ? error.message : ''}`);
+            if (api.isConflictError(error)) refreshData();
+        } finally {
+            setIsSaving(false);
+        }
+    }, [selectedReportId, reports, triggerSaveStatus, refreshData, t]);
+
+    const handleRemoveHandover = useCallback(async () => {
+        const originalReport = reports.find(r => r.id === selectedReportId);
+        if (!originalReport) return;
+
+        setIsSaving(true);
+        try {
+            const { report } = await api.clearHandover(originalReport.id, originalReport.revision);
+            setReports(prev => prev.map(r => r.id === report.id ? report : r));
+            setFormData(prev => ({ ...prev, revision: report.revision }));
+            triggerSaveStatus();
+        } catch (error) {
+            console.error("Error removing the handover signature:", error);
+            alert(`${t('error.cannotRemoveSignature')} ${error instanceof Error ? error.message : ''}`);
+            if (api.isConflictError(error)) refreshData();
+        } finally {
+            setIsSaving(false);
+        }
+    }, [selectedReportId, reports, triggerSaveStatus, refreshData, t]);
+
+    const handleConfirmDelete = useCallback(async () => {
         if (!selectedReportId) return;
-    
-        // --- Stock Logic ---
-        const reportToDelete = reports.find(r => r.id === selectedReportId);
-        if (reportToDelete && reportToDelete.status === 'Done') {
-            const itemsToAddBack = reportToDelete.items;
-            setStock(prevStock => {
-                const newStock = JSON.parse(JSON.stringify(prevStock)); // Deep copy
-                const today = new Date().toISOString().split('T')[0];
-                for (const [item, quantity] of Object.entries(itemsToAddBack)) {
-                    const numQuantity = Number(quantity) || 0;
-                    if (newStock[item]) {
-                        newStock[item].quantity += numQuantity;
-                        newStock[item].lastInDate = today;
-                        newStock[item].lastUpdateQuantity = numQuantity;
-                    }
-                }
-                return newStock;
-            });
+
+        setIsSaving(true);
+        try {
+            // The server returns the stock to inventory if the report had taken any
+            const { movements } = await api.deleteReport(selectedReportId, reports.find(r => r.id === selectedReportId)?.revision);
+            setStockMovements(prev => [...prev, ...movements]);
+            setReports(prev => prev.filter(r => r.id !== selectedReportId));
+            clearForm();
+            triggerSaveStatus();
+        } catch (error) {
+            const originalReport = reports.find(r => r.id === selectedReportId);
+            if (isOfflineError(error) && currentUser && originalReport) {
+                queueOfflineChange({ userId: currentUser.id, kind: 'delete', reportId: selectedReportId, base: originalReport });
+                setReports(prev => prev.filter(r => r.id !== selectedReportId));
+                clearForm();
+                return;
+            }
+            console.error("Error deleting report:", error);
+            alert(`${t('error.cannotDeleteReport')} ${error instanceof Error ? error.message : ''}`);
+            if (api.isConflictError(error)) refreshData();
+        } finally {
+            setIsSaving(false);
+            setIsConfirmingDelete(false);
         }
-        // --- End Stock Logic ---
-    
-        setReports(prev => prev.filter(r => r.id !== selectedReportId));
-        clearForm();
-        setIsConfirmingDelete(false);
-    }, [selectedReportId, clearForm, reports]);
+    }, [selectedReportId, clearForm, triggerSaveStatus, reports, currentUser, queueOfflineChange, refreshData, t]);
     
+    // An undone change brings back a deleted or earlier version of a report, or earlier stock quantities
+    const handleUndone = useCallback(({ report, movements }: api.UndoResult) => {
+        if (report) {
+            setReports(prev => prev.some(existing => existing.id === report.id)
+                ? prev.map(existing => existing.id === report.id ? report : existing)
+                : [...prev, report]);
+            if (report.id === selectedReportId) clearForm();
+        }
+        setStockMovements(prev => [...prev, ...movements]);
+        triggerSaveStatus();
+    }, [selectedReportId, clearForm, triggerSaveStatus]);
+
     const handleDeleteReport = useCallback(() => {
         if (!selectedReportId) return;
         setIsConfirmingDelete(true);
@@ -616,7 +758,7 @@ export default function App() {
     };
 
     const availableWeeks = useMemo(() => {
-        const weeks = new Map<string, string>(); // Map of 'YYYY-MM-DD' -> 'Week of Mon DD, YYYY'
+        const weeks = new Map<string, Date>(); // Map of 'YYYY-MM-DD' -> the Monday starting the week
         const reportsToProcess = selectedMonth
             ? reports.filter(r => r.importDate.startsWith(selectedMonth))
             : reports;
@@ -627,8 +769,7 @@ export default function App() {
                     const startOfWeek = getStartOfWeek(report.importDate);
                     const startOfWeekISO = startOfWeek.toISOString().split('T')[0];
                     if (!weeks.has(startOfWeekISO)) {
-                        const weekLabel = `Week of ${startOfWeek.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
-                        weeks.set(startOfWeekISO, weekLabel);
+                        weeks.set(startOfWeekISO, startOfWeek);
                     }
                 } catch(e) {
                     // Ignore invalid dates
@@ -637,7 +778,7 @@ export default function App() {
         });
 
         return Array.from(weeks.entries())
-            .map(([value, label]) => ({ value, label }))
+            .map(([value, start]) => ({ value, start }))
             .sort((a, b) => b.value.localeCompare(a.value)); // Sort descending
     }, [reports, selectedMonth]);
 
@@ -653,7 +794,8 @@ export default function App() {
     const filteredReports = useMemo(() => reports.filter(report => {
         const campusMatch = campusFilter ? report.campus === campusFilter : true;
         const descriptionMatch = descriptionFilter
-            ? formatItemsForDisplay(report.items).toLowerCase().includes(descriptionFilter.toLowerCase())
+            ? [formatReportForDisplay(report, catalog), report.purpose || '', report.remarks || '', formatRequestNumber(report)]
+                .some(text => text.toLowerCase().includes(descriptionFilter.toLowerCase()))
             : true;
 
         let dateMatch = true;
@@ -672,7 +814,7 @@ export default function App() {
         }
         
         return campusMatch && descriptionMatch && dateMatch;
-    }), [reports, campusFilter, selectedMonth, selectedWeek, descriptionFilter]);
+    }), [reports, campusFilter, selectedMonth, selectedWeek, descriptionFilter, catalog]);
 
     const itemCounts = useMemo(() => {
         return filteredReports.reduce((acc, report) => {
@@ -685,299 +827,336 @@ export default function App() {
         }, {} as Record<string, number>);
     }, [filteredReports]);
     
-    const reportToDelete = useMemo(() =>
+    const analytics = useMemo(
+        () => buildAnalytics(filteredReports, selectedMonth, selectedWeek),
+        [filteredReports, selectedMonth, selectedWeek]
+    );
+
+    const selectedReport = useMemo(() =>
         selectedReportId ? reports.find(r => r.id === selectedReportId) : null,
         [reports, selectedReportId]
     );
+    // The request being edited has been saved or deleted since it was opened, in another tab or by someone else
+    const isSelectedReportDeleted = isEditing && !selectedReport && !isLoading;
+    const isFormOutOfDate = !!selectedReport && formData.revision !== undefined && selectedReport.revision !== formData.revision;
 
-    const handleExportPDF = useCallback(() => {
-        if (filteredReports.length === 0 && Object.keys(stock).length === 0) {
-            alert("No data to export.");
-            return;
+    // Opens the request behind a scanned delivery note once the signed-in user's data is loaded, then takes the
+    // link out of the address bar so reloading does not open it again
+    useEffect(() => {
+        if (!linkedReportId || !currentUser || isLoading) return;
+        const report = reports.find(r => r.id === linkedReportId);
+        if (report) {
+            handleSelectReport(report);
+        } else if (!loadError) {
+            alert(t('load.linkedReportNotFound'));
         }
-    
-        const doneReports = filteredReports.filter(r => (r.status || 'Process') === 'Done');
-        const processReports = filteredReports.filter(r => (r.status || 'Process') === 'Process');
-    
-        const calculateItemCounts = (reports: Report[]) => {
-            return reports.reduce((acc, report) => {
-                if (report.items && typeof report.items === 'object') {
-                    for (const [item, quantity] of Object.entries(report.items)) {
-                        acc[item] = (acc[item] || 0) + (Number(quantity) || 0);
-                    }
-                }
-                return acc;
-            }, {} as Record<string, number>);
-        };
-    
-        const itemCountsDone = calculateItemCounts(doneReports);
-        const itemCountsProcess = calculateItemCounts(processReports);
-        const itemCountsTotal = calculateItemCounts(filteredReports); // Grand total
-    
-        const doc = new jsPDF();
-        
+        setLinkedReportId(null);
+        const url = new URL(window.location.href);
+        url.searchParams.delete(REPORT_LINK_PARAM);
+        window.history.replaceState(null, '', url.toString());
+    }, [linkedReportId, currentUser, isLoading, loadError, reports, handleSelectReport, t]);
+    // Archived items stay on the form while the selected report still asks for them
+    const requestableItems = useMemo(
+        () => catalog.filter(item => item.active || formData.items[item.id]),
+        [catalog, formData.items]
+    );
+
+    // Only stock keepers edit existing requests, and only until they are fulfilled or closed
+    const canEditForm = !isEditing || (isStockManager && !!selectedReport && isEditableStatus(selectedReport.status));
+
+    // The request in the form, costed and set against its campus's budget
+    const formCampus = lockedCampus || formData.campus;
+    const formCost = useMemo(() => reportCost(formData, prices), [formData, prices]);
+    const formBudget = formCampus && formData.importDate ? budgetFor(budgets, formCampus, formData.importDate) : undefined;
+    const formBudgetLeft = formBudget
+        ? budgetLeftAfter(formBudget, { ...formData, campus: formCampus }, selectedReport || null, prices)
+        : 0;
+
+    // The period and campus the filters pick, as printed on the report PDFs
+    const pdfFilterNames = useCallback(() => {
         let periodName = 'All Time';
         if (selectedWeek) {
             const weekData = availableWeeks.find(w => w.value === selectedWeek);
-            periodName = weekData ? weekData.label : `Week of ${selectedWeek}`;
+            periodName = `Week of ${weekData ? formatDateIn('en', weekData.start, WEEK_LABEL_FORMAT) : selectedWeek}`;
         } else if (selectedMonth) {
-            periodName = new Date(selectedMonth + '-02').toLocaleString('en-US', { month: 'long', year: 'numeric' });
+            periodName = formatDateIn('en', new Date(selectedMonth + '-02'), MONTH_LABEL_FORMAT);
         }
-        const campusName = campusFilter || 'All Campuses';
-    
-        doc.setFontSize(18);
-        doc.text('Stationary Report', 14, 22);
-        doc.setFontSize(12);
-        doc.text(`Campus: ${campusName}`, 14, 30);
-        doc.text(`Period: ${periodName}`, 14, 36);
-    
-        let currentY = 45;
-
-        // --- Overall Summary Section ---
-        if (Object.keys(itemCountsTotal).length > 0) {
-            doc.setFontSize(16);
-            doc.setTextColor(45, 55, 72);
-            doc.text('Overall Summary', 14, currentY);
-            currentY += 8;
-    
-            doc.setFontSize(14);
-            doc.setTextColor(0, 0, 0);
-            doc.text('Grand Total (All Statuses)', 14, currentY);
-            currentY += 7;
-            doc.setFontSize(10);
-            const summaryText = Object.entries(itemCountsTotal).map(([item, count]) => `${item}: ${count}`).join(' | ');
-            const splitSummary = doc.splitTextToSize(summaryText, 180);
-            doc.text(splitSummary, 14, currentY);
-            currentY += (splitSummary.length * 4) + 5;
+        const campusFilterName = campusFilter ? campusName(campuses, campusFilter) : 'All Campuses';
+        return { periodName, campusFilterName };
+    }, [selectedWeek, selectedMonth, availableWeeks, campusFilter, campuses]);
+
+    const handleExportPDF = useCallback(async () => {
+        if (filteredReports.length === 0 && Object.keys(stock).length === 0) {
+            alert(t('error.noDataToExport'));
+            return;
         }
-    
-        const addSectionToPdf = (title: string, reports: Report[], counts: Record<string, number>, startY: number): number => {
-            if (reports.length === 0) {
-                return startY;
-            }
-    
-            if (startY > 45) { // Check ensures it's not the very first section on the page
-                startY += 10;
-            }
-    
-            doc.setFontSize(16);
-            doc.setTextColor(45, 55, 72);
-            doc.text(title, 14, startY);
-            startY += 8;
-            
-            if (Object.keys(counts).length > 0) {
-                doc.setFontSize(14);
-                doc.setTextColor(0, 0, 0);
-                doc.text('Summary (Total Items)', 14, startY);
-                startY += 7;
-                doc.setFontSize(10);
-                const summaryText = Object.entries(counts).map(([item, count]) => `${item}: ${count}`).join(' | ');
-                const splitSummary = doc.splitTextToSize(summaryText, 180);
-                doc.text(splitSummary, 14, startY);
-                startY += (splitSummary.length * 4) + 5;
-            }
-    
-            const tableColumns = ["Requester Name", "Campus", "Import Date", "Export Date", "Description", "Total"];
-            const tableRows = reports.map(report => [
-                report.requesterName,
-                report.campus,
-                report.importDate,
-                report.exportDate,
-                formatItemsForDisplay(report.items),
-                calculateTotalItems(report.items).toString(),
-            ]);
-    
-            autoTable(doc, {
-                head: [tableColumns],
-                body: tableRows,
-                startY: startY,
-                theme: 'grid',
-                headStyles: { fillColor: [45, 55, 72] },
-            });
-            
-            return (doc as any).lastAutoTable.finalY;
-        };
-    
-        currentY = addSectionToPdf('Status: Done', doneReports, itemCountsDone, currentY);
-        currentY = addSectionToPdf('Status: Process', processReports, itemCountsProcess, currentY);
-    
-        // --- Stock Inventory Section ---
-        let lastY = (doc as any).lastAutoTable.finalY || currentY;
-        if (lastY > 250) { // Check if new page is needed
-            doc.addPage();
-            lastY = 20;
-        } else {
-            lastY += 15;
+
+        let pdf;
+        try {
+            pdf = await createKhmerPdf();
+        } catch (error) {
+            console.error("Error loading the PDF fonts:", error);
+            alert(`${t('error.cannotExportPdf')} ${error instanceof Error ? error.message : ''}`);
+            return;
         }
-    
-        doc.setFontSize(16);
-        doc.setTextColor(45, 55, 72);
-        doc.text('Current Stock Inventory', 14, lastY);
-        lastY += 8;
-
-        const stockTableColumns = ["Item", "Quantity in Stock", "Date Added"];
-        const stockTableRows = Object.entries(stock)
-            .sort(([a], [b]) => a.localeCompare(b))
-            .map(([item, { quantity, lastInDate }]) => [
-                item,
-                quantity.toString(),
-                lastInDate || 'N/A'
-            ]);
+        const { doc, writer } = pdf;
         
-        autoTable(doc, {
-            head: [stockTableColumns],
-            body: stockTableRows,
-            startY: lastY,
-            theme: 'grid',
-            headStyles: { fillColor: [80, 80, 80] },
-        });
+        // The document itself stays in English, whatever the interface language
+        const { periodName, campusFilterName } = pdfFilterNames();
 
-        const fileName = `Stationary_Report_${campusName.replace(/ /g, '_')}_${periodName.replace(/ /g, '_')}.pdf`;
+        // Stock keepers only; requesters do not load stock
+        addReportSections(doc, writer, filteredReports, catalog, campuses, { periodName, campusFilterName },
+            isStockManager ? { stock, locationName: stockLocationName } : null);
+
+        // --- Analytics Section (the dashboard as shown, when it is open and meant for the report) ---
+        if (isViewingDashboard && includeAnalyticsInPdf) {
+            addAnalyticsSection(doc, writer, analytics, catalog, campuses);
+        }
+
+        const fileName = `Stationary_Report_${campusFilterName.replace(/ /g, '_')}_${periodName.replace(/ /g, '_')}.pdf`;
         doc.save(fileName);
-    }, [filteredReports, campusFilter, selectedMonth, selectedWeek, stock, availableWeeks]);
-    
-    const handleTriggerPdfImport = useCallback(() => {
-        importFileRef.current?.click();
-    }, []);
+    }, [filteredReports, pdfFilterNames, stock, stockLocationName, isStockManager, catalog, campuses, isViewingDashboard, includeAnalyticsInPdf, analytics, t]);
 
-    const handlePdfImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file) return;
-    
-        setIsImporting(true);
-    
+    // What the filtered requests cost per campus and item, with the budgets of the filtered campus and period
+    const handleExportSpendingPDF = useCallback(async () => {
+        let pdf;
         try {
-            const arrayBuffer = await file.arrayBuffer();
-    
-            // Extract text from PDF
-            const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-            const numPages = pdf.numPages;
-            let fullText = '';
-            for (let i = 1; i <= numPages; i++) {
-                const page = await pdf.getPage(i);
-                const textContent = await page.getTextContent();
-                const pageText = textContent.items.map((item: any) => item.str).join(' ');
-                fullText += pageText + '\n\n';
-            }
-    
-            if (!fullText.trim()) {
-                throw new Error("Could not extract any text from the PDF.");
-            }
-    
-            // Use AI to parse the text
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-            const prompt = `
-                The following text was extracted from a PDF file. It contains one or more tables for stationary reports and a table for stock inventory.
-                Please parse this text and convert it into a single JSON object.
-                This JSON object must have two top-level keys: "reports" and "stock".
-
-                1.  The "reports" key should contain a JSON array of report objects. Each object in the array should have these properties: "requesterName", "campus", "importDate", "exportDate", "items", and "status".
-                    -   "requesterName": string
-                    -   "campus": string
-                    -   "importDate": string, in "YYYY-MM-DD" format.
-                    -   "exportDate": string, in "YYYY-MM-DD" format.
-                    -   "status": string, either "Process" or "Done".
-                    -   "items": an object where keys are item names (string) and values are quantities (number). A description "Bk (5), Card (2)" should become \`{ "Bk": 5, "Card": 2 }\`. Empty descriptions result in an empty object {}.
-
-                2.  The "stock" key should contain a JSON object representing the stock inventory from the "Current Stock Inventory" table. This table only has "Item", "Quantity in Stock", and "Date Added" columns.
-                    -   The keys of this object should be the item names (string).
-                    -   The values should be objects with two properties: "quantity" (number) and "lastInDate" (string, in "YYYY-MM-DD" format or "N/A").
-                    -   The "lastOutDate" is not present in the source table, so do not include it in the output.
-                    -   Example: \`{ "Bk": { "quantity": 100, "lastInDate": "2024-05-10" } }\`
-
-                Here is the text to parse:
-                ---
-                ${fullText}
-                ---
-
-                Return ONLY the single JSON object, without any surrounding text or markdown.
-            `;
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                },
-            });
+            pdf = await createKhmerPdf();
+        } catch (error) {
+            console.error("Error loading the PDF fonts:", error);
+            alert(`${t('error.cannotExportPdf')} ${error instanceof Error ? error.message : ''}`);
+            return;
+        }
+        const { doc, writer } = pdf;
+        const { periodName, campusFilterName } = pdfFilterNames();
 
-            let jsonStr = response.text.trim();
-            const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-            const match = jsonStr.match(fenceRegex);
-            if (match && match[2]) {
-              jsonStr = match[2].trim();
-            }
-            
-            const parsedData = JSON.parse(jsonStr);
+        let period: { startDate: string; endDate: string } | null = null;
+        if (selectedWeek) {
+            period = { startDate: selectedWeek, endDate: addDays(selectedWeek, 6) };
+        } else if (selectedMonth) {
+            period = monthRange(selectedMonth);
+        }
+        const periodBudgets = budgets
+            .filter(budget => (!campusFilter || budget.campus === campusFilter)
+                && (!period || (budget.startDate <= period.endDate && period.startDate <= budget.endDate)))
+            .sort((a, b) => a.startDate.localeCompare(b.startDate) || campusName(campuses, a.campus).localeCompare(campusName(campuses, b.campus)));
 
-            if (!parsedData || typeof parsedData !== 'object') {
-                throw new Error("AI response is not a valid JSON object.");
-            }
-            
-            // Process Reports
-            const parsedReports = parsedData.reports;
-            if (!Array.isArray(parsedReports)) {
-                throw new Error("AI did not return a valid array of reports in the 'reports' key.");
-            }
-    
-            const newReports: Report[] = parsedReports.map((item: any) => {
-                const status: 'Process' | 'Done' = item.status === 'Done' ? 'Done' : 'Process';
-                const items: Record<string, number> = item.items && typeof item.items === 'object' && !Array.isArray(item.items) ? item.items : {};
-                
-                return {
-                    ...initialFormData,
-                    id: `imported-${new Date().toISOString()}-${Math.random()}`,
-                    requesterName: item.requesterName || '',
-                    campus: item.campus || '',
-                    importDate: item.importDate || '',
-                    exportDate: item.exportDate || '',
-                    items: items,
-                    status: status,
-                }
-            }).filter(r => r.requesterName && r.campus && r.importDate);
+        doc.setFontSize(18);
+        writer.text(bilingualLabel(SPENDING_PDF_TITLE, ' '), 14, 22);
+        doc.setFontSize(12);
+        writer.text(`Campus: ${campusFilterName}`, 14, 30);
+        doc.text(`Period: ${periodName}`, 14, 36);
+
+        addSpendingSections(doc, writer, spendingByCampus(filteredReports, prices), periodBudgets, catalog, campuses, language, 48);
+
+        doc.save(`Spending_Report_${campusFilterName.replace(/ /g, '_')}_${periodName.replace(/ /g, '_')}.pdf`);
+    }, [filteredReports, prices, budgets, pdfFilterNames, selectedWeek, selectedMonth, campusFilter, catalog, campuses, language, t]);
+
+    // The slip for the selected request as last saved, to print and sign when its items are handed over
+    const handleExportDeliveryNote = useCallback(async () => {
+        if (!selectedReport) return;
+        let pdf;
+        try {
+            pdf = await createKhmerPdf(deliveryNoteSize);
+        } catch (error) {
+            console.error("Error loading the PDF fonts:", error);
+            alert(`${t('error.cannotExportPdf')} ${error instanceof Error ? error.message : ''}`);
+            return;
+        }
+        const { doc, writer } = pdf;
+        addDeliveryNote(doc, writer, selectedReport, catalog, campuses, reportLink(selectedReport.id), language);
+        doc.save(`Delivery_Note_${formatRequestNumber(selectedReport)}.pdf`);
+    }, [selectedReport, deliveryNoteSize, catalog, campuses, language, t]);
     
-            // Process Stock
-            const parsedStock = parsedData.stock;
-            if (!parsedStock || typeof parsedStock !== 'object') {
-                throw new Error("AI did not return a valid object in the 'stock' key.");
-            }
+    // Every open location's stock, for the stock sheet
+    const stockByLocation = useCallback(() => Object.fromEntries(openStockLocations.map(location => [
+        location.id,
+        deriveStock(movementsAtLocation(stockMovements, location.id), catalogItemIds(catalog)),
+    ])), [openStockLocations, stockMovements, catalog]);
 
-            const newStock: Record<string, StockItem> = {};
-
-            for (const item in parsedStock) {
-                if (Object.prototype.hasOwnProperty.call(parsedStock, item)) {
-                    const stockItem = parsedStock[item];
-                    if (stockItem && typeof stockItem.quantity === 'number') {
-                       newStock[item] = {
-                           quantity: stockItem.quantity,
-                           lastInDate: (typeof stockItem.lastInDate === 'string' && stockItem.lastInDate !== 'N/A') ? stockItem.lastInDate : '',
-                           lastOutDate: '', // Reset on import as it's not in the PDF
-                           lastUpdateQuantity: 0,
-                       };
-                    }
-                }
+    const handleExportReportsSheet = useCallback(async (format: 'xlsx' | 'csv') => {
+        const today = new Date().toISOString().split('T')[0];
+        const reportsSheet = reportSheet(filteredReports, catalog, campuses);
+        try {
+            if (format === 'csv') {
+                downloadCsv(reportsSheet, `Stationary_Report_${today}.csv`);
+            } else {
+                // Requesters have no access to stock, so their workbook only holds their reports
+                const sheets = isStockManager ? [reportsSheet, stockSheet(catalog, openStockLocations, stockByLocation())] : [reportsSheet];
+                await downloadWorkbook(sheets, `Stationary_Report_${today}.xlsx`);
             }
+        } catch (error) {
+            console.error("Error exporting spreadsheet:", error);
+            alert(`${t('error.cannotExportSpreadsheet')} ${error instanceof Error ? error.message : ''}`);
+        }
+    }, [filteredReports, catalog, campuses, isStockManager, openStockLocations, stockByLocation, t]);
+
+    const handleExportStockSheet = useCallback(() => {
+        downloadCsv(stockSheet(catalog, openStockLocations, stockByLocation()), `Stock_${new Date().toISOString().split('T')[0]}.csv`);
+    }, [catalog, openStockLocations, stockByLocation]);
+
+    const handleSheetFileChosen = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setIsImporting(true);
+        try {
+            const sheets = (await readSpreadsheet(file)).filter(sheet => sheet.rows.length > 0);
+            if (sheets.length === 0) throw new Error(t('error.sheetHasNoRows'));
+            setSheetImport({ fileName: file.name, sheets });
+        } catch (error) {
+            console.error("Failed to read spreadsheet:", error);
+            alert(`${t('error.cannotReadSpreadsheet')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsImporting(false);
+            e.target.value = '';
+        }
+    }, [t]);
+
+    const handleImportSheetReports = useCallback(async (imported: Omit<Report, 'id'>[]): Promise<boolean> => {
+        setIsSaving(true);
+        try {
+            const { reports: savedReports, movements } = await api.importReports(imported.map(report => ({
+                ...report,
+                id: `imported-${new Date().toISOString()}-${Math.random()}`,
+            })));
+            setReports(prev => [...prev, ...savedReports]);
+            setStockMovements(prev => [...prev, ...movements]);
+            triggerSaveStatus();
+            return true;
+        } catch (error) {
+            console.error("Error importing reports:", error);
+            alert(`${t('error.cannotImportReports')} ${error instanceof Error ? error.message : ''}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [triggerSaveStatus, t]);
+
+    const handleImportSheetStock = useCallback(async (location: string, lines: StockSheetLine[]): Promise<boolean> => {
+        // Only the items on the sheet change; the others keep their quantity, as do items another tab changed meanwhile
+        const current = stockQuantities(deriveStock(movementsAtLocation(stockMovements, location), catalogItemIds(catalog)));
+        const targets = { ...current };
+        lines.forEach(line => {
+            targets[line.item] = line.quantity;
+        });
+
+        setIsSaving(true);
+        try {
+            const { movements } = await api.setStockQuantities(targets, 'import', { location, note: sheetImport?.fileName, expected: current });
+            setStockMovements(prev => [...prev, ...movements]);
+            triggerSaveStatus();
+            return true;
+        } catch (error) {
+            console.error("Error importing stock:", error);
+            alert(`${t('error.cannotImportStock')} ${error instanceof Error ? error.message : ''}`);
+            if (api.isConflictError(error)) refreshData();
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [stockMovements, catalog, sheetImport, triggerSaveStatus, refreshData, t]);
+
+    const handleTriggerPdfImport = useCallback(() => {
+        importFileRef.current?.click();
+    }, []);
 
-            setReports(newReports);
-            setStock(newStock);
-            alert(`Successfully imported ${newReports.length} reports and replaced the stock inventory.`);
+    const handlePdfImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
     
+        setIsImporting(true);
+    
+        try {
+            const parsed = await parsePdf(await file.arrayBuffer(), catalog, campuses);
+            // Stock goes back to the location the PDF was exported from, or the central warehouse for
+            // consolidated and foreign documents, unless the stock keeper picks another one
+            const location = openStockLocations.find(candidate => candidate.name === parsed.stockLocationName) || openStockLocations[0];
+            setImportPreview({
+                fileName: file.name,
+                reportRows: reportImportRows(parsed.reports, reports),
+                stockRows: parsed.stock ? stockImportRows(parsed.stock) : null,
+                stockLocation: location.id,
+            });
         } catch (error) {
             console.error("Failed to import PDF:", error);
-            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-            alert(`Error importing PDF: ${errorMessage}`);
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError');
+            alert(t('error.importPdf', { error: errorMessage }));
         } finally {
             setIsImporting(false);
             if (e.target) {
                 e.target.value = ''; // Reset file input
             }
         }
-    }, [setReports, setStock]);
+    }, [reports, catalog, campuses, openStockLocations, t]);
+
+    const handleImportReportAction = useCallback((index: number, action: ImportAction) => {
+        setImportPreview(prev => prev && {
+            ...prev,
+            reportRows: prev.reportRows.map((row, i) => i === index ? { ...row, action } : row),
+        });
+    }, []);
+
+    const handleImportStockAction = useCallback((index: number, action: ImportAction) => {
+        setImportPreview(prev => prev && prev.stockRows ? {
+            ...prev,
+            stockRows: prev.stockRows.map((row, i) => i === index ? { ...row, action } : row),
+        } : prev);
+    }, []);
+
+    const handleImportStockLocation = useCallback((location: string) => {
+        setImportPreview(prev => prev && { ...prev, stockLocation: location });
+    }, []);
+
+    // The stock lines whose quantity the import actually changes
+    const importStockChanges = useMemo(() => (importPreview?.stockRows || [])
+        .map(row => ({ row, current: importLocationStock[row.item]?.quantity || 0 }))
+        .filter(({ row, current }) => quantityAfterImport(row, current) !== current),
+    [importPreview, importLocationStock]);
+
+    const handleConfirmImport = useCallback(async () => {
+        if (!importPreview) return;
+        setIsSaving(true);
+        try {
+            const importedReports = reportsToImport(importPreview.reportRows, importPreview.stockLocation,
+                () => `imported-${new Date().toISOString()}-${Math.random()}`);
+            // The stock lines are set before the reports, in the same request, so the fulfilled reports have the items
+            // to take. Only the imported items change; the others keep their quantity, as do items another tab changed meanwhile
+            const current = stockQuantities(deriveStock(movementsAtLocation(stockMovements, importPreview.stockLocation), catalogItemIds(catalog)));
+            const reportMovements = importedReports.flatMap(report =>
+                movementsForReportChange(reports.find(existing => existing.id === report.id) || null, report, report.id));
+            const targets = stockBeforeImportedReports(importPreview.stockRows || [], current, reportMovements, importPreview.stockLocation);
+            const stockChanges = Object.keys(targets).some(item => targets[item] !== current[item]);
+
+            if (importedReports.length > 0 || stockChanges) {
+                const { reports: savedReports, movements } = await api.importReports(importedReports, stockChanges ? {
+                    location: importPreview.stockLocation,
+                    quantities: targets,
+                    expected: current,
+                    note: importPreview.fileName,
+                } : undefined);
+                setReports(prev => [
+                    ...prev.map(existing => savedReports.find(saved => saved.id === existing.id) || existing),
+                    ...savedReports.filter(saved => !prev.some(existing => existing.id === saved.id)),
+                ]);
+                setStockMovements(prev => [...prev, ...movements]);
+            }
+
+            setImportPreview(null);
+            triggerSaveStatus();
+        } catch (error) {
+            console.error("Error importing PDF:", error);
+            alert(`${t('error.cannotImportPdf')} ${error instanceof Error ? error.message : ''}`);
+            if (api.isConflictError(error)) refreshData();
+        } finally {
+            setIsSaving(false);
+            setIsConfirmingImport(false);
+        }
+    }, [importPreview, reports, stockMovements, catalog, triggerSaveStatus, refreshData, t]);
 
     const handleTempStockChange = useCallback((item: string, value: string) => {
         const quantity = parseInt(value, 10);
         setTempStock(prev => {
-            const currentItem = prev[item] || { quantity: 0, lastInDate: '', lastOutDate: '', lastUpdateQuantity: 0 };
+            const currentItem = prev[item] || emptyStockItem();
             return {
                 ...prev,
                 [item]: {
@@ -988,328 +1167,876 @@ export default function App() {
         });
     }, []);
 
-    const handleSaveStock = useCallback(() => {
-        const newStock = JSON.parse(JSON.stringify(tempStock));
-        const today = new Date().toISOString().split('T')[0];
-    
-        // Determine date changes and last update quantity by comparing with original stock
-        for (const item in newStock) {
-            const oldStockItem = stock[item] || { quantity: 0, lastInDate: '', lastOutDate: '', lastUpdateQuantity: 0 };
-            const oldQuantity = oldStockItem.quantity;
-            const newQuantity = newStock[item].quantity;
-            const delta = newQuantity - oldQuantity;
-    
-            if (delta !== 0) {
-                newStock[item].lastUpdateQuantity = delta;
-                if (delta > 0) {
-                    newStock[item].lastInDate = today;
-                    newStock[item].lastOutDate = oldStockItem.lastOutDate; // Preserve old date
-                } else {
-                    newStock[item].lastOutDate = today;
-                    newStock[item].lastInDate = oldStockItem.lastInDate; // Preserve old date
-                }
-            } else {
-                // Quantities are the same, preserve original data
-                newStock[item].lastInDate = oldStockItem.lastInDate;
-                newStock[item].lastOutDate = oldStockItem.lastOutDate;
-                newStock[item].lastUpdateQuantity = oldStockItem.lastUpdateQuantity;
-            }
+    const handleEditStock = useCallback(() => {
+        stockBeforeEditRef.current = stock;
+        setTempStock(stock);
+        setIsEditingStock(true);
+    }, [stock]);
+
+    const handleSaveStock = useCallback(async () => {
+        if (!stockLocation) return;
+        setIsSaving(true);
+        try {
+            // Items changed meanwhile in another tab keep their new quantity unless this edit changed them too
+            const { movements } = await api.setStockQuantities(stockQuantities(tempStock), 'adjustment', {
+                location: stockLocation,
+                expected: stockQuantities(stockBeforeEditRef.current),
+            });
+            setStockMovements(prev => [...prev, ...movements]);
+            setIsEditingStock(false);
+            triggerSaveStatus();
+        } catch (error) {
+            console.error("Error saving stock:", error);
+            alert(`${t('error.cannotSaveStock')} ${error instanceof Error ? error.message : ''}`);
+            if (api.isConflictError(error)) refreshData();
+        } finally {
+            setIsSaving(false);
         }
-    
-        setStock(newStock);
-        setIsEditingStock(false);
-        triggerSaveStatus();
-    }, [tempStock, stock, triggerSaveStatus]);
+    }, [tempStock, stockLocation, triggerSaveStatus, refreshData, t]);
 
     const handleCancelEditStock = useCallback(() => {
         setTempStock(stock); // Revert changes
         setIsEditingStock(false);
     }, [stock]);
 
-    const handleConfirmClearStock = useCallback(() => {
-        setStock(prevStock => {
-            const clearedStock: Record<string, StockItem> = {};
-            Object.keys(prevStock).forEach(itemKey => {
-                clearedStock[itemKey] = { quantity: 0, lastInDate: '', lastOutDate: '', lastUpdateQuantity: 0 };
-            });
-            return clearedStock;
-        });
-        setIsConfirmingClearStock(false);
-        triggerSaveStatus();
-    }, [triggerSaveStatus]);
+    const handleConfirmClearStock = useCallback(async () => {
+        if (!stockLocation) return;
+        setIsSaving(true);
+        try {
+            const { movements } = await api.setStockQuantities({}, 'clear', { location: stockLocation });
+            setStockMovements(prev => [...prev, ...movements]);
+            triggerSaveStatus();
+        } catch (error) {
+            console.error("Error clearing stock:", error);
+            alert(`${t('error.cannotClearStock')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+            setIsConfirmingClearStock(false);
+        }
+    }, [stockLocation, triggerSaveStatus, t]);
+
+    const handleCreateTransfer = useCallback(async (transferInput: api.TransferInput): Promise<boolean> => {
+        // --- Stock Check (the server checks again and fills in who made the transfer) ---
+        const draftTransfer: StockTransfer = { ...transferInput, id: 'draft', createdAt: '', byUserId: '', byName: '' };
+        const insufficientItems = findInsufficientStock(movementsForTransfer(draftTransfer), stockMovements);
+        if (insufficientItems.length > 0) {
+            alert(`${t('error.cannotTransferStock')} ${t('error.insufficientStock', { items: insufficientItems.join(', ') })}`);
+            return false;
+        }
+
+        setIsSaving(true);
+        try {
+            const { transfer, movements } = await api.createTransfer(transferInput);
+            setTransfers(prev => [...prev, transfer]);
+            setStockMovements(prev => [...prev, ...movements]);
+            triggerSaveStatus();
+            return true;
+        } catch (error) {
+            console.error("Error transferring stock:", error);
+            alert(`${t('error.cannotTransferStock')} ${error instanceof Error ? error.message : ''}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [stockMovements, triggerSaveStatus, t]);
+
+    const handleCreatePurchaseOrder = useCallback(async (orderInput: api.PurchaseOrderInput): Promise<boolean> => {
+        setIsSaving(true);
+        try {
+            const order = await api.createPurchaseOrder(orderInput);
+            setPurchaseOrders(prev => [...prev, order]);
+            triggerSaveStatus();
+            return true;
+        } catch (error) {
+            console.error("Error creating purchase order:", error);
+            alert(`${t('error.cannotCreatePurchaseOrder')} ${error instanceof Error ? error.message : ''}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [triggerSaveStatus, t]);
+
+    const handleReceivePurchaseOrder = useCallback(async (order: PurchaseOrder, receipt: api.ReceiptInput): Promise<boolean> => {
+        setIsSaving(true);
+        try {
+            const { purchaseOrder, movements } = await api.receivePurchaseOrder(order.id, receipt);
+            setPurchaseOrders(prev => prev.map(existing => existing.id === purchaseOrder.id ? purchaseOrder : existing));
+            setStockMovements(prev => [...prev, ...movements]);
+            triggerSaveStatus();
+            return true;
+        } catch (error) {
+            console.error("Error receiving goods:", error);
+            alert(`${t('error.cannotReceiveGoods')} ${error instanceof Error ? error.message : ''}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [triggerSaveStatus, t]);
+
+    const handleConfirmCancelPurchaseOrder = useCallback(async () => {
+        if (!purchaseOrderToCancel) return;
+        setIsSaving(true);
+        try {
+            const cancelled = await api.cancelPurchaseOrder(purchaseOrderToCancel.id);
+            setPurchaseOrders(prev => prev.map(existing => existing.id === cancelled.id ? cancelled : existing));
+            triggerSaveStatus();
+        } catch (error) {
+            console.error("Error cancelling purchase order:", error);
+            alert(`${t('error.cannotCancelPurchaseOrder')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+            setPurchaseOrderToCancel(null);
+        }
+    }, [purchaseOrderToCancel, triggerSaveStatus, t]);
+
+    const handleDownloadBackup = useCallback(async () => {
+        setIsBackingUp(true);
+        try {
+            const backup = await api.fetchBackup();
+            downloadBlob(
+                new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }),
+                `Stationary_Backup_${new Date().toISOString().split('T')[0]}.json`
+            );
+        } catch (error) {
+            console.error("Error creating backup:", error);
+            alert(`${t('error.cannotCreateBackup')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsBackingUp(false);
+        }
+    }, [t]);
 
-    const handleExportStockPDF = useCallback(() => {
+    const handleRestoreFileChosen = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setIsBackingUp(true);
+        try {
+            let backup: unknown;
+            try {
+                backup = JSON.parse(await file.text());
+            } catch {
+                throw new Error(t('error.notJsonBackup'));
+            }
+            // The server validates the backup and upgrades it from older versions before anything is replaced
+            const summary = await api.checkBackup(backup);
+            setPendingRestore({ fileName: file.name, backup, summary });
+        } catch (error) {
+            console.error("Error reading backup:", error);
+            alert(`${t('error.cannotRestoreBackup')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsBackingUp(false);
+            e.target.value = '';
+        }
+    }, [t]);
+
+    const handleConfirmRestore = useCallback(async () => {
+        if (!pendingRestore) return;
+        setIsBackingUp(true);
+        try {
+            await api.restoreBackup(pendingRestore.backup);
+            setPendingRestore(null);
+            setSelectedReportId(null);
+            setFormData(initialFormData);
+            await loadData();
+            triggerSaveStatus();
+        } catch (error) {
+            console.error("Error restoring backup:", error);
+            alert(`${t('error.cannotRestoreBackup')} ${error instanceof Error ? error.message : ''}`);
+            setPendingRestore(null);
+        } finally {
+            setIsBackingUp(false);
+        }
+    }, [pendingRestore, loadData, triggerSaveStatus, t]);
+
+    const handleCatalogItemSaved = useCallback((item: CatalogItem) => {
+        setCatalog(prev => prev.some(existing => existing.id === item.id)
+            ? prev.map(existing => existing.id === item.id ? item : existing)
+            : [...prev, item]);
+    }, []);
+
+    const handlePriceSaved = useCallback((price: ItemPrice) => {
+        setPrices(prev => [...prev, price]);
+    }, []);
+
+    const handleBudgetSaved = useCallback((budget: BudgetStatus) => {
+        setBudgets(prev => prev.some(existing => existing.id === budget.id)
+            ? prev.map(existing => existing.id === budget.id ? budget : existing)
+            : [...prev, budget]);
+    }, []);
+
+    const handleBudgetDeleted = useCallback((id: string) => {
+        setBudgets(prev => prev.filter(budget => budget.id !== id));
+    }, []);
+
+    const handleTemplateSaved = useCallback((template: RequestTemplate) => {
+        setTemplates(prev => prev.some(existing => existing.id === template.id)
+            ? prev.map(existing => existing.id === template.id ? template : existing)
+            : [...prev, template]);
+    }, []);
+
+    const handleTemplateDeleted = useCallback((id: string) => {
+        setTemplates(prev => prev.filter(template => template.id !== id));
+    }, []);
+
+    // A schedule that falls due today has its request made as it is saved, so the requests are loaded again
+    const handleScheduleSaved = useCallback((schedule: RequestSchedule) => {
+        setSchedules(prev => prev.some(existing => existing.id === schedule.id)
+            ? prev.map(existing => existing.id === schedule.id ? schedule : existing)
+            : [...prev, schedule]);
+        refreshData();
+    }, [refreshData]);
+
+    const handleScheduleDeleted = useCallback((id: string) => {
+        setSchedules(prev => prev.filter(schedule => schedule.id !== id));
+    }, []);
+
+    // The form offers the templates of its campus, or every template while no campus is chosen
+    const formTemplates = useMemo(
+        () => templates.filter(template => !formCampus || template.campus === formCampus),
+        [templates, formCampus]
+    );
+
+    // A template replaces the quantities in the form and picks its campus; other items and remarks stay as typed
+    const handleApplyTemplate = useCallback((template: RequestTemplate) => {
+        setFormData(prev => ({ ...prev, campus: lockedCampus || template.campus, items: { ...template.items } }));
+    }, [lockedCampus]);
+
+    const handleSaveTemplate = useCallback(async (name: string) => {
+        setIsSaving(true);
+        try {
+            handleTemplateSaved(await api.createTemplate({ campus: formCampus, name, items: formData.items }));
+            triggerSaveStatus();
+            return true;
+        } catch (error) {
+            console.error("Error saving template:", error);
+            alert(`${t('error.cannotSaveTemplate')} ${error instanceof Error ? error.message : ''}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [formCampus, formData.items, handleTemplateSaved, triggerSaveStatus, t]);
+
+    const handleCampusSaved = useCallback((campus: Campus) => {
+        setCampuses(prev => prev.some(existing => existing.id === campus.id)
+            ? prev.map(existing => existing.id === campus.id ? campus : existing)
+            : [...prev, campus]);
+    }, []);
+
+    const handleCloseStockHistory = useCallback(() => {
+        setHistoryItem(null);
+    }, []);
+
+    const handleExportStockPDF = useCallback(async () => {
         if (Object.keys(stock).length === 0) {
-            alert("No stock data to export.");
+            alert(t('error.noStockToExport'));
+            return;
+        }
+
+        let pdf;
+        try {
+            pdf = await createKhmerPdf();
+        } catch (error) {
+            console.error("Error loading the PDF fonts:", error);
+            alert(`${t('error.cannotExportPdf')} ${error instanceof Error ? error.message : ''}`);
+            return;
+        }
+        const { doc, writer } = pdf;
+        const today = new Date();
+        // The consolidated view also breaks the totals down by the locations that hold them
+        addStockSections(doc, writer, stock, stockLocationName, stockLocation ? null : stockMovements, catalog, campuses, today);
+
+        addForecastSection(doc, writer, forecast, (doc as any).lastAutoTable.finalY + 15);
+
+        const fileName = `Stock_Inventory_Report_${stockLocationName.replace(/ /g, '_')}_${today.toISOString().split('T')[0]}.pdf`;
+        doc.save(fileName);
+    }, [stock, stockLocation, stockLocationName, stockMovements, catalog, campuses, forecast, t]);
+
+    const handleExportReorderPDF = useCallback(async () => {
+        if (lowStock.length === 0) {
+            alert(t('error.noLowStock'));
             return;
         }
 
-        const doc = new jsPDF();
+        let pdf;
+        try {
+            pdf = await createKhmerPdf();
+        } catch (error) {
+            console.error("Error loading the PDF fonts:", error);
+            alert(`${t('error.cannotExportPdf')} ${error instanceof Error ? error.message : ''}`);
+            return;
+        }
+        const { doc, writer } = pdf;
         const today = new Date();
-        const formattedDate = today.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
-        const formattedTime = today.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+        const formattedDate = formatDateIn('en', today, { year: 'numeric', month: 'long', day: 'numeric' });
 
         doc.setFontSize(18);
-        doc.text('Stock Inventory Report', 14, 22);
+        writer.text(bilingualLabel('Reorder List', ' '), 14, 22);
         doc.setFontSize(12);
-        doc.text(`Generated on: ${formattedDate} at ${formattedTime}`, 14, 30);
+        writer.text(`Location: ${stockLocationName}`, 14, 30);
+        doc.text(`Generated on: ${formattedDate}`, 14, 36);
 
-        const stockTableColumns = ["Item", "Quantity in Stock", "Last Date In", "Last Date Out"];
-        const stockTableRows = Object.entries(stock)
-            .sort(([a], [b]) => a.localeCompare(b))
-            .map(([item, { quantity, lastInDate, lastOutDate }]) => [
-                item,
-                quantity.toString(),
-                lastInDate || 'N/A',
-                lastOutDate || 'N/A'
-            ]);
-        
         autoTable(doc, {
-            head: [stockTableColumns],
-            body: stockTableRows,
-            startY: 40,
+            head: [["Item", "Category", "In Stock", "Minimum Level", "Order Quantity", "Unit"].map(column => bilingualLabel(column))],
+            body: lowStock.map(({ item, quantity, orderQuantity }) => [
+                item.nameEn,
+                item.category || '',
+                quantity.toString(),
+                item.minLevel.toString(),
+                orderQuantity.toString(),
+                item.unit || '',
+            ]),
+            startY: 46,
             theme: 'grid',
-            headStyles: { fillColor: [45, 55, 72] }, // Dark grey header
+            headStyles: { fillColor: [45, 55, 72] },
+            ...writer.tableHooks,
         });
 
-        const fileName = `Stock_Inventory_Report_${today.toISOString().split('T')[0]}.pdf`;
+        const fileName = `Reorder_List_${stockLocationName.replace(/ /g, '_')}_${today.toISOString().split('T')[0]}.pdf`;
         doc.save(fileName);
-    }, [stock]);
+    }, [lowStock, stockLocationName, t]);
+
+    if (isCheckingSession) {
+        return (
+            <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4 font-sans text-gray-500">
+                {t('common.loading')}
+            </div>
+        );
+    }
+
+    if (!currentUser) {
+        return <LoginScreen onLogin={setCurrentUser} />;
+    }
 
     return (
         <>
-            <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4 font-sans">
+            {/* Khmer reads better in the Khmer font than in the system fallback for the Latin one */}
+            <div className={`min-h-screen bg-gray-100 flex items-center justify-center p-4 ${language === 'km' ? 'font-serif-khmer' : 'font-sans'}`}>
                 <div className="w-full max-w-6xl mx-auto p-4 rounded-2xl">
                     <div className="bg-white rounded-lg p-6 sm:p-8">
-                        <h1 className="text-4xl sm:text-5xl font-koulen text-center text-gray-800 mb-8">Report Stationary</h1>
+                        <div className="flex flex-wrap justify-end items-center gap-4 mb-4 text-sm text-gray-600">
+                            <span>
+                                {tRich('header.signedInAs', {
+                                    name: <strong className="text-gray-800">{currentUser.displayName}</strong>,
+                                    role: `${t(ROLE_MESSAGES[currentUser.role])}${currentUser.campus ? `, ${campusName(campuses, currentUser.campus)}` : ''}`,
+                                })}
+                            </span>
+                            <select
+                                value={language}
+                                onChange={(e) => setLanguage(e.target.value as typeof language)}
+                                aria-label={t('common.language')}
+                                className="px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white font-serif-khmer"
+                            >
+                                {LANGUAGES.map(option => (
+                                    <option key={option} value={option}>{LANGUAGE_NAMES[option]}</option>
+                                ))}
+                            </select>
+                            {isStockManager && (
+                                <CustomButton onClick={() => setIsManagingCatalog(prev => !prev)} color="gray">
+                                    {isManagingCatalog ? t('header.closeCatalog') : t('header.manageCatalog')}
+                                </CustomButton>
+                            )}
+                            {isStockManager && (
+                                <CustomButton onClick={() => setIsViewingAuditLog(prev => !prev)} color="gray">
+                                    {isViewingAuditLog ? t('header.closeAuditLog') : t('header.auditLog')}
+                                </CustomButton>
+                            )}
+                            {canManageCampuses(currentUser) && (
+                                <CustomButton onClick={() => setIsManagingCampuses(prev => !prev)} color="gray">
+                                    {isManagingCampuses ? t('header.closeCampuses') : t('header.manageCampuses')}
+                                </CustomButton>
+                            )}
+                            {canManageBudgets(currentUser) && (
+                                <CustomButton onClick={() => setIsManagingBudgets(prev => !prev)} color="gray">
+                                    {isManagingBudgets ? t('header.closeBudgets') : t('header.manageBudgets')}
+                                </CustomButton>
+                            )}
+                            <CustomButton onClick={() => setIsManagingRecurring(prev => !prev)} color="gray">
+                                {isManagingRecurring ? t('header.closeRecurring') : t('header.recurring')}
+                            </CustomButton>
+                            {canManageBackups(currentUser) && (
+                                <>
+                                    <CustomButton onClick={handleDownloadBackup} disabled={isBackingUp || isLoading} color="gray">
+                                        {t('header.backUp')}
+                                    </CustomButton>
+                                    <CustomButton onClick={() => restoreFileRef.current?.click()} disabled={isBackingUp || isLoading} color="gray">
+                                        {t('header.restore')}
+                                    </CustomButton>
+                                    <input
+                                        type="file"
+                                        ref={restoreFileRef}
+                                        onChange={handleRestoreFileChosen}
+                                        accept=".json,application/json"
+                                        className="hidden"
+                                        aria-hidden="true"
+                                    />
+                                </>
+                            )}
+                            {canManageUsers(currentUser) && (
+                                <CustomButton onClick={() => setIsManagingUsers(prev => !prev)} color="gray">
+                                    {isManagingUsers ? t('header.closeUsers') : t('header.manageUsers')}
+                                </CustomButton>
+                            )}
+                            <CustomButton onClick={handleLogout} color="black">
+                                {t('header.signOut')}
+                            </CustomButton>
+                        </div>
+
+                        <h1 className="text-4xl sm:text-5xl font-koulen text-center text-gray-800 mb-8">{t('header.title')}</h1>
+
+                        {isManagingUsers && canManageUsers(currentUser) && (
+                            <UserManagementPanel currentUser={currentUser} campuses={campuses} />
+                        )}
+
+                        {isManagingCampuses && canManageCampuses(currentUser) && (
+                            <CampusDirectoryPanel campuses={campuses} onCampusSaved={handleCampusSaved} />
+                        )}
+
+                        {isManagingCatalog && isStockManager && (
+                            <CatalogPanel catalog={catalog} prices={prices} onItemSaved={handleCatalogItemSaved} onPriceSaved={handlePriceSaved} />
+                        )}
+
+                        {isViewingAuditLog && isStockManager && (
+                            <AuditLogPanel campuses={campuses} catalog={catalog} onUndone={handleUndone} />
+                        )}
+
+                        {isManagingBudgets && canManageBudgets(currentUser) && (
+                            <BudgetPanel campuses={campuses} budgets={budgets} onBudgetSaved={handleBudgetSaved} onBudgetDeleted={handleBudgetDeleted} />
+                        )}
+
+                        {isManagingRecurring && (
+                            <RecurringRequestsPanel
+                                currentUser={currentUser}
+                                campuses={campuses}
+                                catalog={catalog}
+                                templates={templates}
+                                schedules={schedules}
+                                onTemplateSaved={handleTemplateSaved}
+                                onTemplateDeleted={handleTemplateDeleted}
+                                onScheduleSaved={handleScheduleSaved}
+                                onScheduleDeleted={handleScheduleDeleted}
+                                onOutOfDate={refreshData}
+                            />
+                        )}
+
+                        <OfflineQueuePanel
+                            isOnline={isOnline}
+                            changes={myQueuedChanges}
+                            campuses={campuses}
+                            isSyncing={isSyncing}
+                            onSync={syncQueuedChanges}
+                            onSendAnyway={handleSendAnyway}
+                            onDiscard={handleDiscardChange}
+                        />
+
+                        {loadError && (
+                            <div className="flex flex-wrap items-center justify-between gap-4 mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-red-800">
+                                <span>{t('load.error', { error: loadError })}</span>
+                                <CustomButton onClick={loadData} color="red">{t('load.retry')}</CustomButton>
+                            </div>
+                        )}
                         
+                        {(isSelectedReportDeleted || isFormOutOfDate) && (
+                            <div className="flex flex-wrap items-center justify-between gap-4 mb-6 p-4 bg-yellow-50 border border-yellow-300 rounded-xl text-gray-800">
+                                <span>{isSelectedReportDeleted ? t('form.deletedElsewhere') : t('form.changedElsewhere')}</span>
+                                {isSelectedReportDeleted ? (
+                                    <CustomButton onClick={clearForm} color="gray">{t('form.clear')}</CustomButton>
+                                ) : (
+                                    <CustomButton onClick={() => handleSelectReport(selectedReport!)} color="blue">{t('form.loadLatest')}</CustomButton>
+                                )}
+                            </div>
+                        )}
+
                         <form className="space-y-6">
                             {/* Requester Name and Campus */}
-                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                                 <div className="relative">
-                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">ឈ្មោះអ្នកស្នើសុំ</label>
+                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('form.requesterName')}</label>
                                     <input
                                         type="text"
                                         name="requesterName"
-                                        value={formData.requesterName}
-                                        onChange={handleInputChange}
-                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                                        value={isEditing ? formData.requesterName : currentUser.displayName}
+                                        readOnly
+                                        title={t('form.requesterNameHint')}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl bg-gray-50 text-gray-700 focus:outline-none"
                                     />
                                 </div>
                                 <div className="relative">
-                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">សាខា</label>
+                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('form.campus')}</label>
                                     <select
                                         name="campus"
-                                        value={formData.campus}
+                                        value={lockedCampus || formData.campus}
                                         onChange={handleInputChange}
-                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
+                                        disabled={!!lockedCampus || !canEditForm}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none disabled:bg-gray-50"
                                     >
-                                        <option value="" disabled>Select a campus</option>
-                                        {CAMPUS_OPTIONS.map(campus => (
-                                            <option key={campus} value={campus}>{campus}</option>
+                                        <option value="" disabled>{t('form.selectCampus')}</option>
+                                        {/* Retired campuses stay listed only for the requests already made for them */}
+                                        {campuses.filter(campus => campus.active || campus.id === (lockedCampus || formData.campus)).map(campus => (
+                                            <option key={campus.id} value={campus.id}>{campus.name}</option>
                                         ))}
                                     </select>
                                 </div>
-                                <div className="relative">
-                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">ស្ថានភាព</label>
-                                    <select
-                                        name="status"
-                                        value={formData.status}
-                                        onChange={handleInputChange}
-                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
-                                    >
-                                        <option value="Process">Process</option>
-                                        <option value="Done">Done</option>
-                                    </select>
-                                </div>
                             </div>
 
                             {/* Date Inputs */}
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                                 <div className="relative">
-                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">ថ្ងៃនាំចូល</label>
+                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('form.importDate')}</label>
                                     <input
                                         type="date"
                                         name="importDate"
                                         value={formData.importDate}
                                         onChange={handleInputChange}
-                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                                        disabled={!canEditForm}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors disabled:bg-gray-50"
                                     />
                                 </div>
                                 <div className="relative">
-                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">ថ្ងៃនាំចេញ</label>
+                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('form.exportDate')}</label>
                                     <input
                                         type="date"
                                         name="exportDate"
                                         value={formData.exportDate}
                                         onChange={handleInputChange}
-                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                                        disabled={!canEditForm}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors disabled:bg-gray-50"
                                     />
                                 </div>
                             </div>
 
                             {/* Item Quantities */}
                             <div className="space-y-4 pt-2">
-                                <label className="text-base font-medium text-gray-800 font-serif-khmer">សម្ភារៈ</label>
+                                <div className="flex flex-wrap items-center justify-between gap-3">
+                                    <label className="text-base font-medium text-gray-800 font-serif-khmer">{t('form.items')}</label>
+                                    <TemplatePicker
+                                        templates={formTemplates}
+                                        canSave={!!formCampus && Object.keys(formData.items).length > 0}
+                                        disabled={!canEditForm || isSaving}
+                                        onApply={handleApplyTemplate}
+                                        onSave={handleSaveTemplate}
+                                    />
+                                </div>
                                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-8 gap-y-4 p-4 border border-gray-200 rounded-lg">
-                                    {[...STATIONARY_ITEMS_ROW1, ...STATIONARY_ITEMS_ROW2].map(item => (
-                                        <div key={item} className="flex items-center justify-between">
-                                            <label htmlFor={`item-${item}`} className="text-gray-700 font-medium">{item}</label>
+                                    {requestableItems.map(item => (
+                                        <div key={item.id} className="flex items-center justify-between gap-2">
+                                            <label htmlFor={`item-${item.id}`} className="text-gray-700 font-medium">
+                                                {item.nameEn}
+                                                <span className="block text-xs font-normal text-gray-500 font-serif-khmer">
+                                                    {[item.nameKm, item.unit].filter(Boolean).join(' · ')}
+                                                </span>
+                                            </label>
                                             <input
-                                                id={`item-${item}`}
+                                                id={`item-${item.id}`}
                                                 type="number"
                                                 min="0"
                                                 placeholder="0"
-                                                value={formData.items[item] || ''}
-                                                onChange={(e) => handleItemQuantityChange(item, e.target.value)}
-                                                className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center"
-                                                aria-label={`Quantity for ${item}`}
+                                                value={formData.items[item.id] || ''}
+                                                onChange={(e) => handleItemQuantityChange(item.id, e.target.value)}
+                                                disabled={!canEditForm}
+                                                className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center disabled:bg-gray-50"
+                                                aria-label={t('form.quantityFor', { item: item.nameEn })}
                                             />
                                         </div>
                                     ))}
                                 </div>
                             </div>
+
+                            <ExtraLinesEditor lines={formData.extraLines || []} onChange={handleExtraLinesChange} disabled={!canEditForm} />
+
+                            {/* Purpose and Remarks */}
+                            <div className="grid grid-cols-1 gap-6 pt-2">
+                                <div className="relative">
+                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('form.purpose')}</label>
+                                    <input
+                                        type="text"
+                                        name="purpose"
+                                        value={formData.purpose || ''}
+                                        onChange={handleInputChange}
+                                        disabled={!canEditForm}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors disabled:bg-gray-50"
+                                    />
+                                </div>
+                                <div className="relative">
+                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('form.remarks')}</label>
+                                    <textarea
+                                        name="remarks"
+                                        rows={2}
+                                        value={formData.remarks || ''}
+                                        onChange={handleInputChange}
+                                        disabled={!canEditForm}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors disabled:bg-gray-50"
+                                    />
+                                </div>
+                            </div>
                         </form>
 
+                        {Object.values(formData.items).some(quantity => Number(quantity) > 0) && (
+                            <RequestCostPanel
+                                cost={formCost}
+                                catalog={catalog}
+                                budget={formBudget}
+                                budgetLeft={formBudgetLeft}
+                                hasOtherItems={(formData.extraLines || []).some(line => line.description.trim())}
+                            />
+                        )}
+
+                        {selectedReport && (
+                            <ReportWorkflowPanel
+                                key={selectedReport.id}
+                                report={selectedReport}
+                                currentUser={currentUser}
+                                isSaving={isSaving}
+                                stockLocations={openStockLocations}
+                                fulfilledFromName={selectedReport.fulfilledFrom ? locationName(campuses, selectedReport.fulfilledFrom) : undefined}
+                                onTransition={handleTransition}
+                            />
+                        )}
+
+                        {selectedReport && canSignHandover(selectedReport.status) && (
+                            <HandoverPanel
+                                key={`${selectedReport.id}-${selectedReport.handover?.signedAt || ''}`}
+                                report={selectedReport}
+                                isSaving={isSaving}
+                                onSign={handleSignHandover}
+                                onRemove={isStockManager ? handleRemoveHandover : undefined}
+                            />
+                        )}
+
                         {/* Action Buttons */}
                         <div className="flex flex-wrap justify-start items-center gap-4 mt-8 mb-4">
-                            <CustomButton onClick={isEditing ? handleUpdateReport : handleAddReport} color={isEditing ? 'green' : 'blue'}>
-                                {isEditing ? 'Update' : 'Add'}
-                            </CustomButton>
-                            <CustomButton onClick={handleDeleteReport} disabled={!isEditing} color="red">
-                                Delete
+                            <CustomButton onClick={isEditing ? handleUpdateReport : handleAddReport} disabled={isLoading || isSaving || loadError !== null || !canEditForm} color={isEditing ? 'green' : 'blue'}>
+                                {isEditing ? t('form.update') : t('form.add')}
                             </CustomButton>
+                            {isStockManager && (
+                                <CustomButton onClick={handleDeleteReport} disabled={!isEditing || isSaving} color="red">
+                                    {t('form.delete')}
+                                </CustomButton>
+                            )}
                             <CustomButton onClick={clearForm} color="gray">
-                                Clear
+                                {t('form.clear')}
                             </CustomButton>
+                            {selectedReport && (
+                                <div className="flex items-center gap-2">
+                                    <CustomButton onClick={handleExportDeliveryNote} color="gray">
+                                        {t('form.deliveryNote')}
+                                    </CustomButton>
+                                    <select
+                                        value={deliveryNoteSize}
+                                        onChange={e => setDeliveryNoteSize(e.target.value as DeliveryNoteSize)}
+                                        aria-label={t('form.deliveryNoteSize')}
+                                        className="px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white"
+                                    >
+                                        <option value="a5">A5</option>
+                                        <option value="a4">A4</option>
+                                    </select>
+                                </div>
+                            )}
                             <div className={`transition-opacity duration-300 ${saveStatus === 'saved' ? 'opacity-100' : 'opacity-0'}`}>
                                 {saveStatus === 'saved' && (
                                     <div className="flex items-center text-green-600 font-semibold">
                                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
                                             <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                                         </svg>
-                                        <span>Saved!</span>
+                                        <span>{t('form.saved')}</span>
                                     </div>
                                 )}
                             </div>
                         </div>
                         
                         {/* Stock Management Section */}
-                        <div className="mt-8 border-t border-gray-200 pt-8">
-                            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
-                                <h2 className="text-2xl font-normal text-gray-600 font-Poppins">Stock System</h2>
-                                {!isEditingStock && (
-                                    <div className="flex flex-wrap items-center gap-4">
-                                         <CustomButton onClick={handleExportStockPDF} color="blue">
-                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 -ml-2" viewBox="0 0 20 20" fill="currentColor">
-                                                <path fillRule="evenodd" d="M6 2a2 2 0 00-2 2v12a2 2 0 002 2h8a2 2 0 002-2V7.414A2 2 0 0015.414 6L12 2.586A2 2 0 0010.586 2H6zm5 6a1 1 0 10-2 0v3.586l-1.293-1.293a1 1 0 10-1.414 1.414l3 3a1 1 0 001.414 0l3-3a1 1 0 00-1.414-1.414L11 11.586V8z" clipRule="evenodd" />
-                                            </svg>
-                                            Export Stock
-                                        </CustomButton>
-                                        <CustomButton onClick={() => setIsEditingStock(true)} color="gray">
-                                            Add Stock
-                                        </CustomButton>
-                                        <CustomButton onClick={() => setIsConfirmingClearStock(true)} color="red">
-                                            Clear Stock
-                                        </CustomButton>
-                                    </div>
-                                )}
-                            </div>
-                            <div className="p-4 border border-gray-200 rounded-lg">
-                                {isEditingStock ? (
-                                    <div className="space-y-4">
-                                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-8 gap-y-4">
-                                            {[...STATIONARY_ITEMS_ROW1, ...STATIONARY_ITEMS_ROW2].map(item => (
-                                                <div key={item} className="flex items-center justify-between">
-                                                    <label htmlFor={`stock-item-${item}`} className="text-gray-700 font-medium">{item}</label>
-                                                    <input
-                                                        id={`stock-item-${item}`}
-                                                        type="number"
-                                                        min="0"
-                                                        value={tempStock[item]?.quantity || ''}
-                                                        onChange={(e) => handleTempStockChange(item, e.target.value)}
-                                                        className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center"
-                                                        aria-label={`Stock quantity for ${item}`}
-                                                    />
-                                                </div>
-                                            ))}
+                        {isStockManager && (
+                            <div className="mt-8 border-t border-gray-200 pt-8">
+                                <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                                    <h2 className="text-2xl font-normal text-gray-600 font-Poppins">{t('stock.title')}</h2>
+                                    {!isEditingStock && (
+                                        <div className="flex flex-wrap items-center gap-4">
+                                            <select
+                                                name="stockLocation"
+                                                value={stockLocation}
+                                                onChange={(e) => setStockLocation(e.target.value)}
+                                                aria-label={t('stock.location')}
+                                                className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white"
+                                            >
+                                                <option value="">{t('stock.allLocationsConsolidated')}</option>
+                                                {openStockLocations.map(location => (
+                                                    <option key={location.id} value={location.id}>{location.name}</option>
+                                                ))}
+                                            </select>
+                                             <CustomButton onClick={handleExportStockPDF} color="blue">
+                                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 -ml-2" viewBox="0 0 20 20" fill="currentColor">
+                                                    <path fillRule="evenodd" d="M6 2a2 2 0 00-2 2v12a2 2 0 002 2h8a2 2 0 002-2V7.414A2 2 0 0015.414 6L12 2.586A2 2 0 0010.586 2H6zm5 6a1 1 0 10-2 0v3.586l-1.293-1.293a1 1 0 10-1.414 1.414l3 3a1 1 0 001.414 0l3-3a1 1 0 00-1.414-1.414L11 11.586V8z" clipRule="evenodd" />
+                                                </svg>
+                                                {t('stock.exportPdf')}
+                                            </CustomButton>
+                                            <CustomButton onClick={handleExportStockSheet} color="blue">
+                                                {t('stock.exportCsv')}
+                                            </CustomButton>
+                                            <CustomButton onClick={() => setIsManagingPurchaseOrders(prev => !prev)} disabled={isLoading || loadError !== null} color="gray">
+                                                {isManagingPurchaseOrders ? t('stock.closePurchaseOrders') : t('stock.purchaseOrders')}
+                                            </CustomButton>
+                                            <CustomButton onClick={() => setIsViewingLowStock(prev => !prev)} color={lowStock.length > 0 ? 'red' : 'gray'}>
+                                                {isViewingLowStock ? t('stock.closeLowStock') : t('stock.lowStock', { count: lowStock.length })}
+                                            </CustomButton>
+                                            <CustomButton onClick={() => setIsViewingForecast(prev => !prev)} color={itemsRunningOut > 0 ? 'red' : 'gray'}>
+                                                {isViewingForecast ? t('stock.closeForecast') : t('stock.forecast', { count: itemsRunningOut })}
+                                            </CustomButton>
+                                            <CustomButton onClick={() => setIsTransferringStock(prev => !prev)} disabled={isLoading || loadError !== null} color="gray">
+                                                {isTransferringStock ? t('stock.closeTransfer') : t('stock.transfer')}
+                                            </CustomButton>
+                                            {/* Quantities are set per location, so these need one chosen */}
+                                            <CustomButton onClick={handleEditStock} disabled={isLoading || loadError !== null || !stockLocation} color="gray">
+                                                {t('stock.add')}
+                                            </CustomButton>
+                                            <CustomButton onClick={() => setIsConfirmingClearStock(true)} disabled={isLoading || loadError !== null || !stockLocation} color="red">
+                                                {t('stock.clear')}
+                                            </CustomButton>
                                         </div>
-                                        <div className="flex justify-end gap-4 mt-4">
-                                            <CustomButton onClick={handleCancelEditStock} color="gray">Cancel</CustomButton>
-                                            <CustomButton onClick={handleSaveStock} color="blue">Save Stock</CustomButton>
+                                    )}
+                                </div>
+                                {isTransferringStock && (
+                                    <StockTransferPanel
+                                        transfers={transfers}
+                                        locations={openStockLocations}
+                                        campuses={campuses}
+                                        items={activeCatalogItems(catalog)}
+                                        catalog={catalog}
+                                        isSaving={isSaving}
+                                        onCreateTransfer={handleCreateTransfer}
+                                    />
+                                )}
+                                {isManagingPurchaseOrders && (
+                                    <PurchaseOrderPanel
+                                        purchaseOrders={purchaseOrders}
+                                        locations={openStockLocations}
+                                        campuses={campuses}
+                                        items={activeCatalogItems(catalog)}
+                                        catalog={catalog}
+                                        isSaving={isSaving}
+                                        onCreateOrder={handleCreatePurchaseOrder}
+                                        onReceive={handleReceivePurchaseOrder}
+                                        onCancelOrder={setPurchaseOrderToCancel}
+                                    />
+                                )}
+                                {isViewingLowStock && (
+                                    <LowStockAlertsPanel
+                                        lines={lowStock}
+                                        locationName={stockLocationLabel}
+                                        onGenerateReorderList={handleExportReorderPDF}
+                                    />
+                                )}
+                                {isViewingForecast && (
+                                    <StockForecastPanel
+                                        forecast={forecast}
+                                        catalog={catalog}
+                                        locationName={stockLocationLabel}
+                                    />
+                                )}
+                                <div className="p-4 border border-gray-200 rounded-lg">
+                                    {isEditingStock ? (
+                                        <div className="space-y-4">
+                                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-8 gap-y-4">
+                                                {catalog.filter(item => item.active || tempStock[item.id]?.quantity).map(item => (
+                                                    <div key={item.id} className="flex items-center justify-between">
+                                                        <label htmlFor={`stock-item-${item.id}`} className="text-gray-700 font-medium">{item.nameEn}</label>
+                                                        <input
+                                                            id={`stock-item-${item.id}`}
+                                                            type="number"
+                                                            min="0"
+                                                            value={tempStock[item.id]?.quantity || ''}
+                                                            onChange={(e) => handleTempStockChange(item.id, e.target.value)}
+                                                            className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center"
+                                                            aria-label={t('stock.quantityFor', { item: item.nameEn })}
+                                                        />
+                                                    </div>
+                                                ))}
+                                            </div>
+                                            <div className="flex justify-end gap-4 mt-4">
+                                                <CustomButton onClick={handleCancelEditStock} color="gray">{t('common.cancel')}</CustomButton>
+                                                <CustomButton onClick={handleSaveStock} disabled={isSaving} color="blue">{t('stock.save')}</CustomButton>
+                                            </div>
                                         </div>
-                                    </div>
-                                ) : (
-                                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-                                        {Object.entries(stock).sort(([a], [b]) => a.localeCompare(b)).map(([item, { quantity, lastInDate, lastOutDate, lastUpdateQuantity }]) => (
-                                            <div key={item} className="flex flex-col items-start justify-between bg-gray-50 text-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 min-h-[90px]">
-                                                <div className="flex items-baseline justify-between w-full">
-                                                    <span className="font-koulen mr-2 text-lg">{item}</span>
-                                                    <div className="flex items-baseline">
-                                                        {lastUpdateQuantity !== 0 && (
-                                                            <span className={`text-sm font-bold mr-2 ${lastUpdateQuantity > 0 ? 'text-green-500' : 'text-red-500'}`}>
-                                                                ({lastUpdateQuantity > 0 ? '+' : ''}{lastUpdateQuantity})
+                                    ) : (
+                                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                                            {Object.entries(stock).sort(([a], [b]) => itemLabel(catalog, a).localeCompare(itemLabel(catalog, b))).map(([item, { quantity, lastInDate, lastOutDate, lastUpdateQuantity }]) => (
+                                                <div
+                                                    key={item}
+                                                    onClick={() => setHistoryItem(item)}
+                                                    title={t('stock.showHistory', { item: itemLabel(catalog, item) })}
+                                                    className="flex flex-col items-start justify-between bg-gray-50 text-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 min-h-[90px] cursor-pointer hover:bg-gray-100 transition-colors"
+                                                >
+                                                    <div className="flex items-baseline justify-between w-full">
+                                                        <span className="font-koulen mr-2 text-lg">{itemLabel(catalog, item)}</span>
+                                                        <div className="flex items-baseline">
+                                                            {lastUpdateQuantity !== 0 && (
+                                                                <span className={`text-sm font-bold mr-2 ${lastUpdateQuantity > 0 ? 'text-green-500' : 'text-red-500'}`}>
+                                                                    ({lastUpdateQuantity > 0 ? '+' : ''}{lastUpdateQuantity})
+                                                                </span>
+                                                            )}
+                                                            <span className={`font-bold text-xl ${isLowStock(catalog.find(catalogItem => catalogItem.id === item), quantity) ? 'text-red-600' : 'text-green-600'}`}>{quantity}</span>
+                                                        </div>
+                                                    </div>
+                                                    <div className="flex flex-col text-xs text-gray-500 mt-1 w-full text-left">
+                                                        <span className="text-green-700">{t('stock.lastIn', { date: lastInDate || t('common.notAvailable') })}</span>
+                                                        <span className="text-red-700">{t('stock.lastOut', { date: lastOutDate || t('common.notAvailable') })}</span>
+                                                        {onOrder[item] > 0 && <span className="text-blue-700">{t('stock.onOrder', { quantity: onOrder[item] })}</span>}
+                                                        {forecastByItem[item] && (
+                                                            <span className={forecastByItem[item].runsOutBeforeDelivery ? 'text-red-600 font-bold' : 'text-gray-600'}>
+                                                                {t('stock.runsOut', { date: forecastByItem[item].stockOutDate })}
                                                             </span>
                                                         )}
-                                                        <span className={`font-bold text-xl ${quantity < 10 ? 'text-red-600' : 'text-green-600'}`}>{quantity}</span>
                                                     </div>
                                                 </div>
-                                                <div className="flex flex-col text-xs text-gray-500 mt-1 w-full text-left">
-                                                    <span className="text-green-700">In: {lastInDate || 'N/A'}</span>
-                                                    <span className="text-red-700">Out: {lastOutDate || 'N/A'}</span>
-                                                </div>
-                                            </div>
-                                        ))}
-                                    </div>
-                                )}
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
-                        </div>
+                        )}
 
                         {/* Filter & Export Controls */}
                         <div className="flex flex-col sm:flex-row sm:justify-between sm:items-end gap-4 pt-8 mt-8 border-t border-gray-200">
                             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-6 flex-grow">
                                 <div className="relative">
-                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">ជ្រើសរើសសាខា</label>
+                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('filter.campus')}</label>
                                     <select
                                         name="campusFilter"
                                         value={campusFilter}
                                         onChange={(e) => setCampusFilter(e.target.value)}
                                         className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
                                     >
-                                        <option value="">All Campuses</option>
-                                        {CAMPUS_OPTIONS.map(campus => (
-                                            <option key={campus} value={campus}>{campus}</option>
+                                        <option value="">{t('filter.allCampuses')}</option>
+                                        {campuses.map(campus => (
+                                            <option key={campus.id} value={campus.id}>{campus.active ? campus.name : t('filter.retiredCampus', { name: campus.name })}</option>
                                         ))}
                                     </select>
                                 </div>
                                 <div className="relative">
-                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">ស្វែងរកតាមសម្ភារៈ</label>
+                                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('filter.description')}</label>
                                     <input
                                         type="text"
-                                        placeholder="Search by description..."
+                                        placeholder={t('filter.descriptionPlaceholder')}
                                         value={descriptionFilter}
                                         onChange={(e) => setDescriptionFilter(e.target.value)}
                                         className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
                                     />
                                 </div>
                                 <div className="relative">
-                                     <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">ស្រង់តាមខែ</label>
+                                     <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('filter.month')}</label>
                                      <select
                                          name="monthFilter"
                                          value={selectedMonth}
                                          onChange={handleMonthChange}
                                          className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
                                      >
-                                         <option value="">All Months</option>
+                                         <option value="">{t('filter.allMonths')}</option>
                                          {availableMonths.map(month => (
                                              <option key={month} value={month}>
-                                                 {new Date(month + '-02').toLocaleString('en-US', { month: 'long', year: 'numeric' })}
+                                                 {formatDate(new Date(month + '-02'), MONTH_LABEL_FORMAT)}
                                              </option>
                                          ))}
                                      </select>
                                 </div>
                                  <div className="relative">
-                                     <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">ស្រង់តាមសប្តាហ៍</label>
+                                     <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer">{t('filter.week')}</label>
                                      <select
                                          name="weekFilter"
                                          value={selectedWeek}
@@ -1317,58 +2044,131 @@ export default function App() {
                                          disabled={availableWeeks.length === 0}
                                          className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none disabled:bg-gray-100 disabled:cursor-not-allowed"
                                      >
-                                         <option value="">All Weeks</option>
-                                         {availableWeeks.map(({ value, label }) => (
-                                             <option key={value} value={value}>{label}</option>
+                                         <option value="">{t('filter.allWeeks')}</option>
+                                         {availableWeeks.map(({ value, start }) => (
+                                             <option key={value} value={value}>{t('filter.weekOf', { date: formatDate(start, WEEK_LABEL_FORMAT) })}</option>
                                          ))}
                                      </select>
                                 </div>
                             </div>
-                            <div className="flex-shrink-0 pt-4 sm:pt-0 flex items-center gap-4">
-                                <CustomButton onClick={handleTriggerPdfImport} color="gray" disabled={isImporting}>
-                                    {isImporting ? (
-                                        <>
-                                            <svg className="animate-spin h-5 w-5 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                            </svg>
-                                            Importing...
-                                        </>
-                                    ) : (
-                                        <>
-                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 inline-block" viewBox="0 0 20 20" fill="currentColor">
-                                                <path d="M9.293 4.293a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414-1.414l4-4z" />
-                                                <path d="M4 11a1 1 0 011 1v3a1 1 0 001 1h8a1 1 0 001-1v-3a1 1 0 112 0v3a3 3 0 01-3 3H6a3 3 0 01-3-3v-3a1 1 0 011-1z" />
-                                            </svg>
-                                            Import PDF
-                                        </>
-                                    )}
-                                </CustomButton>
-                                <input
-                                    type="file"
-                                    ref={importFileRef}
-                                    onChange={handlePdfImport}
-                                    accept=".pdf"
-                                    className="hidden"
-                                    aria-hidden="true"
-                                />
+                            <div className="flex-shrink-0 pt-4 sm:pt-0 flex flex-wrap items-center gap-4">
+                                {isStockManager && (
+                                    <>
+                                        <CustomButton onClick={handleTriggerPdfImport} color="gray" disabled={isImporting || isLoading || loadError !== null}>
+                                            {isImporting ? (
+                                                <>
+                                                    <svg className="animate-spin h-5 w-5 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                                    </svg>
+                                                    {t('actions.importing')}
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 inline-block" viewBox="0 0 20 20" fill="currentColor">
+                                                        <path d="M9.293 4.293a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414-1.414l4-4z" />
+                                                        <path d="M4 11a1 1 0 011 1v3a1 1 0 001 1h8a1 1 0 001-1v-3a1 1 0 112 0v3a3 3 0 01-3 3H6a3 3 0 01-3-3v-3a1 1 0 011-1z" />
+                                                    </svg>
+                                                    {t('actions.importPdf')}
+                                                </>
+                                            )}
+                                        </CustomButton>
+                                        <input
+                                            type="file"
+                                            ref={importFileRef}
+                                            onChange={handlePdfImport}
+                                            accept=".pdf"
+                                            className="hidden"
+                                            aria-hidden="true"
+                                        />
+                                        <CustomButton onClick={() => sheetFileRef.current?.click()} color="gray" disabled={isImporting || isLoading || loadError !== null}>
+                                            {t('actions.importSheet')}
+                                        </CustomButton>
+                                        <input
+                                            type="file"
+                                            ref={sheetFileRef}
+                                            onChange={handleSheetFileChosen}
+                                            accept=".csv,.xlsx"
+                                            className="hidden"
+                                            aria-hidden="true"
+                                        />
+                                    </>
+                                )}
                                  <CustomButton onClick={handleExportPDF} color="blue" disabled={filteredReports.length === 0 || isImporting}>
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 inline-block" viewBox="0 0 20 20" fill="currentColor">
                                         <path fillRule="evenodd" d="M6 2a2 2 0 00-2 2v12a2 2 0 002 2h8a2 2 0 002-2V7.414A2 2 0 0015.414 6L12 2.586A2 2 0 0010.586 2H6zm5 6a1 1 0 10-2 0v3.586l-1.293-1.293a1 1 0 10-1.414 1.414l3 3a1 1 0 001.414 0l3-3a1 1 0 00-1.414-1.414L11 11.586V8z" clipRule="evenodd" />
                                     </svg>
-                                    Export PDF
+                                    {t('actions.exportPdf')}
                                  </CustomButton>
+                                <CustomButton onClick={handleExportSpendingPDF} color="blue" disabled={filteredReports.length === 0 || isImporting}>
+                                    {t('actions.exportSpending')}
+                                </CustomButton>
+                                <CustomButton onClick={() => handleExportReportsSheet('xlsx')} color="blue" disabled={filteredReports.length === 0 || isImporting}>
+                                    {t('actions.exportXlsx')}
+                                </CustomButton>
+                                <CustomButton onClick={() => handleExportReportsSheet('csv')} color="blue" disabled={filteredReports.length === 0 || isImporting}>
+                                    {t('actions.exportCsv')}
+                                </CustomButton>
+                                <CustomButton onClick={() => setIsViewingDashboard(prev => !prev)} color="gray">
+                                    {isViewingDashboard ? t('actions.closeDashboard') : t('actions.dashboard')}
+                                </CustomButton>
                             </div>
                         </div>
                         
+                        {isViewingDashboard && (
+                            <AnalyticsDashboardPanel
+                                analytics={analytics}
+                                reportCount={filteredReports.length}
+                                catalog={catalog}
+                                campuses={campuses}
+                                includeInPdf={includeAnalyticsInPdf}
+                                onIncludeInPdfChange={setIncludeAnalyticsInPdf}
+                            />
+                        )}
+
+                        {sheetImport && isStockManager && (
+                            <SpreadsheetImportPanel
+                                key={sheetImport.fileName}
+                                fileName={sheetImport.fileName}
+                                sheets={sheetImport.sheets}
+                                reports={reports}
+                                catalog={catalog}
+                                campuses={campuses}
+                                locations={openStockLocations}
+                                isSaving={isSaving}
+                                onImportReports={handleImportSheetReports}
+                                onImportStock={handleImportSheetStock}
+                                onClose={() => setSheetImport(null)}
+                            />
+                        )}
+
+                        {importPreview && isStockManager && (
+                            <ImportPreviewPanel
+                                fileName={importPreview.fileName}
+                                reportRows={importPreview.reportRows}
+                                stockRows={importPreview.stockRows}
+                                stockLocation={importPreview.stockLocation}
+                                locations={openStockLocations}
+                                currentStock={importLocationStock}
+                                campuses={campuses}
+                                catalog={catalog}
+                                isSaving={isSaving}
+                                onReportActionChange={handleImportReportAction}
+                                onStockActionChange={handleImportStockAction}
+                                onStockLocationChange={handleImportStockLocation}
+                                onImport={() => setIsConfirmingImport(true)}
+                                onDiscard={() => setImportPreview(null)}
+                            />
+                        )}
+
                         {/* Filtered Item Counts */}
                         {(campusFilter || selectedMonth || descriptionFilter) && Object.keys(itemCounts).length > 0 && (
                             <div className="mb-6 p-4 bg-gray-50 rounded-xl border border-gray-200">
-                                <h3 className="text-lg font-bold text-gray-800 mb-3 font-serif-khmer">សរុបសម្ភារៈដែលបានស្មើសុំ</h3>
+                                <h3 className="text-lg font-bold text-gray-800 mb-3 font-serif-khmer">{t('table.itemTotals')}</h3>
                                 <div className="flex flex-wrap gap-3">
                                     {Object.entries(itemCounts).map(([item, count]) => (
                                         <div key={item} className="flex items-center bg-indigo-100 text-indigo-800 text-sm font-semibold px-4 py-2 rounded-full shadow-sm">
-                                            <span className="font-koulen mr-2 text-base">{item}</span>
+                                            <span className="font-koulen mr-2 text-base">{itemLabel(catalog, item)}</span>
                                             <span className="font-bold text-lg">{count}</span>
                                         </div>
                                     ))}
@@ -1381,13 +2181,13 @@ export default function App() {
                             <table className="min-w-full bg-white">
                                 <thead className="sticky top-0 bg-gray-100 z-10">
                                     <tr>
-                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">ឈ្មោះអ្នកស្នើសុំ</th>
-                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">សាខា</th>
-                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">ថ្ងៃនាំចូល</th>
-                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">ថ្ងៃនាំចេញ</th>
-                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">Description</th>
-                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">ចំនួនសរុប</th>
-                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">ស្ថានភាព</th>
+                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">{t('table.requesterName')}</th>
+                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">{t('table.campus')}</th>
+                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">{t('table.importDate')}</th>
+                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">{t('table.exportDate')}</th>
+                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">{t('table.description')}</th>
+                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">{t('table.total')}</th>
+                                        <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider font-serif-khmer">{t('table.status')}</th>
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-gray-200">
@@ -1397,24 +2197,37 @@ export default function App() {
                                             onClick={() => handleSelectReport(report)}
                                             className={`cursor-pointer transition-colors duration-200 ${selectedReportId === report.id ? 'bg-indigo-100' : 'hover:bg-gray-50'}`}
                                         >
-                                            <td className="py-3 px-4 whitespace-nowrap">{report.requesterName}</td>
-                                            <td className="py-3 px-4 whitespace-nowrap">{report.campus}</td>
+                                            <td className="py-3 px-4 whitespace-nowrap">
+                                                {report.requesterName}
+                                                <span className="block text-xs text-gray-500">{formatRequestNumber(report)}</span>
+                                            </td>
+                                            <td className="py-3 px-4 whitespace-nowrap">{campusName(campuses, report.campus)}</td>
                                             <td className="py-3 px-4 whitespace-nowrap">{report.importDate}</td>
                                             <td className="py-3 px-4 whitespace-nowrap">{report.exportDate}</td>
-                                            <td className="py-3 px-4 whitespace-nowrap">{formatItemsForDisplay(report.items)}</td>
-                                            <td className="py-3 px-4 whitespace-nowrap text-center">{calculateTotalItems(report.items)}</td>
                                             <td className="py-3 px-4 whitespace-nowrap">
-                                                <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                                                    (report.status || 'Process') === 'Done' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
-                                                }`}>
-                                                    {report.status || 'Process'}
-                                                </span>
+                                                {formatReportForDisplay(report, catalog)}
+                                                {report.purpose && (
+                                                    <span className="block text-xs text-gray-500">{t('form.purpose')}: {report.purpose}</span>
+                                                )}
+                                                {report.remarks && (
+                                                    <span className="block text-xs text-gray-500">{t('form.remarks')}: {report.remarks}</span>
+                                                )}
+                                            </td>
+                                            <td className="py-3 px-4 whitespace-nowrap text-center">{calculateReportTotal(report)}</td>
+                                            <td className="py-3 px-4 whitespace-nowrap">
+                                                <StatusBadge status={report.status} />
+                                                {isMissingHandover(report) && (
+                                                    <span className="block mt-1 text-xs font-semibold text-red-700">{t('handover.missing')}</span>
+                                                )}
+                                                {unsyncedReportIds.has(report.id) && (
+                                                    <span className="block mt-1 text-xs text-yellow-700">{t('offline.notSynced')}</span>
+                                                )}
                                             </td>
                                         </tr>
                                     )) : (
                                         <tr>
                                             <td colSpan={7} className="text-center py-8 text-gray-500">
-                                                {reports.length > 0 ? 'No matching reports found.' : 'No reports yet.'}
+                                                {isLoading ? t('table.loading') : reports.length > 0 ? t('table.noMatches') : t('table.empty')}
                                             </td>
                                         </tr>
                                     )}
@@ -1428,28 +2241,119 @@ export default function App() {
                 isOpen={isConfirmingDelete}
                 onConfirm={handleConfirmDelete}
                 onCancel={() => setIsConfirmingDelete(false)}
-                title="Confirm Report Deletion"
-                confirmButtonText="Delete"
+                title={t('confirm.deleteReport.title')}
+                confirmButtonText={t('confirm.deleteReport.button')}
             >
-                {reportToDelete ? (
+                {selectedReport ? (
                     <>
-                        <p>Are you sure you want to permanently delete the report for <strong className="text-indigo-600">{reportToDelete.requesterName}</strong> from campus <strong className="text-indigo-600">{reportToDelete.campus}</strong>?</p>
-                        <p className="mt-4 text-sm text-gray-500">This action cannot be undone.</p>
+                        <p>{tRich('confirm.deleteReport.body', {
+                            name: <strong className="text-indigo-600">{selectedReport.requesterName}</strong>,
+                            campus: <strong className="text-indigo-600">{campusName(campuses, selectedReport.campus)}</strong>,
+                        })}</p>
+                        <p className="mt-4 text-sm text-gray-500">{t('confirm.undoFromAuditLog', { hours: UNDO_WINDOW_HOURS })}</p>
                     </>
                 ) : (
-                    <p>Are you sure you want to delete this report? This action cannot be undone.</p>
+                    <p>{t('confirm.deleteReport.bodyUnknown')}</p>
                 )}
             </ConfirmationModal>
             <ConfirmationModal
                 isOpen={isConfirmingClearStock}
                 onConfirm={handleConfirmClearStock}
                 onCancel={() => setIsConfirmingClearStock(false)}
-                title="Confirm Clear Stock"
-                confirmButtonText="Clear All"
+                title={t('confirm.clearStock.title')}
+                confirmButtonText={t('confirm.clearStock.button')}
             >
-                <p>Are you sure you want to permanently clear all stock data? This will set the quantity of all items to 0.</p>
-                <p className="mt-4 text-sm text-gray-500">This action cannot be undone.</p>
+                <p>{tRich('confirm.clearStock.body', { location: <strong className="text-indigo-600">{stockLocationLabel}</strong> })}</p>
+                <p className="mt-4 text-sm text-gray-500">{t('confirm.clearStock.note', { hours: UNDO_WINDOW_HOURS })}</p>
+            </ConfirmationModal>
+            <ConfirmationModal
+                isOpen={purchaseOrderToCancel !== null}
+                onConfirm={handleConfirmCancelPurchaseOrder}
+                onCancel={() => setPurchaseOrderToCancel(null)}
+                title={t('confirm.cancelPurchaseOrder.title')}
+                confirmButtonText={t('confirm.cancelPurchaseOrder.button')}
+            >
+                <p>{tRich('confirm.cancelPurchaseOrder.body', {
+                    number: <strong className="text-indigo-600">{purchaseOrderToCancel?.number}</strong>,
+                    supplier: <strong className="text-indigo-600">{purchaseOrderToCancel?.supplier}</strong>,
+                })}</p>
+                <p className="mt-4 text-sm text-gray-500">{t('confirm.cancelPurchaseOrder.note')}</p>
+            </ConfirmationModal>
+            <ConfirmationModal
+                isOpen={isConfirmingImport && importPreview !== null}
+                onConfirm={handleConfirmImport}
+                onCancel={() => setIsConfirmingImport(false)}
+                title={t('confirm.import.title')}
+                confirmButtonText={t('confirm.import.button')}
+            >
+                {importPreview && (
+                    <>
+                        <p>
+                            {tRich('confirm.import.reports', {
+                                file: <strong className="text-indigo-600">{importPreview.fileName}</strong>,
+                                merged: <strong>{importPreview.reportRows.filter(row => row.action === 'merge').length}</strong>,
+                                replaced: <strong>{importPreview.reportRows.filter(row => row.action === 'replace').length}</strong>,
+                                skipped: <strong>{importPreview.reportRows.filter(row => row.action === 'skip').length}</strong>,
+                            })}
+                        </p>
+                        {importPreview.stockRows && (
+                            <p className="mt-2">
+                                {tRich('confirm.import.stock', {
+                                    count: <strong>{importStockChanges.length}</strong>,
+                                    location: <strong className="text-indigo-600">{locationName(campuses, importPreview.stockLocation)}</strong>,
+                                })}
+                            </p>
+                        )}
+                        <p className="mt-4 text-sm text-gray-500">{t('confirm.import.note')}</p>
+                    </>
+                )}
+            </ConfirmationModal>
+            <ConfirmationModal
+                isOpen={pendingRestore !== null}
+                onConfirm={handleConfirmRestore}
+                onCancel={() => setPendingRestore(null)}
+                title={t('confirm.restore.title')}
+                confirmButtonText={t('confirm.restore.button')}
+            >
+                {pendingRestore && (
+                    <>
+                        <p>
+                            {tRich('confirm.restore.body', {
+                                file: <strong className="text-indigo-600">{pendingRestore.fileName}</strong>,
+                                date: formatDate(new Date(pendingRestore.summary.createdAt), { dateStyle: 'medium', timeStyle: 'short' }),
+                            })}
+                        </p>
+                        <table className="mt-4 w-full text-left">
+                            <thead>
+                                <tr>
+                                    <th className="py-1 font-bold">{t('confirm.restore.records')}</th>
+                                    <th className="py-1 font-bold text-right">{t('confirm.restore.now')}</th>
+                                    <th className="py-1 font-bold text-right">{t('confirm.restore.inBackup')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(Object.keys(BACKUP_SECTION_MESSAGES) as api.BackupSection[]).map(section => (
+                                    <tr key={section}>
+                                        <td className="py-1">{t(BACKUP_SECTION_MESSAGES[section])}</td>
+                                        <td className="py-1 text-right">{pendingRestore.summary.counts[section].current}</td>
+                                        <td className="py-1 text-right">{pendingRestore.summary.counts[section].backup}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="mt-4 text-sm text-gray-500">{t('confirm.restore.note')}</p>
+                    </>
+                )}
             </ConfirmationModal>
+            <StockHistoryModal
+                item={historyItem}
+                itemName={historyItem ? itemLabel(catalog, historyItem) : ''}
+                location={stockLocation || null}
+                movements={locationMovements}
+                reports={reports}
+                campuses={campuses}
+                onClose={handleCloseStockHistory}
+            />
         </>
     );
 }
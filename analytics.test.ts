@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { Report, ReportStatus } from './types';
+import { buildAnalytics } from './analytics';
+
+const report = (id: string, importDate: string, status: ReportStatus, items: Record<string, number>, campus = 'campus-1'): Report => ({
+    id, requesterName: `Requester of ${campus}`, campus, importDate, exportDate: importDate, items, status,
+});
+
+describe('buildAnalytics', () => {
+    it('spreads a month over the weeks it touches, starting on Mondays', () => {
+        // March 2026 starts on a Sunday
+        const analytics = buildAnalytics([
+            report('report-1', '2026-03-01', 'Fulfilled', { Bk: 2 }),
+            report('report-2', '2026-03-04', 'Submitted', { Bk: 3, Card: 1 }),
+        ], '2026-03', '');
+
+        expect(analytics.granularity).toBe('week');
+        expect(analytics.periods).toEqual(['2026-02-23', '2026-03-02', '2026-03-09', '2026-03-16', '2026-03-23', '2026-03-30']);
+        expect(analytics.items[0]).toEqual({ item: 'Bk', total: 5, quantities: [2, 3, 0, 0, 0, 0] });
+    });
+
+    it('spreads reports without a month or week filter over the months they fall in', () => {
+        const analytics = buildAnalytics([
+            report('report-1', '2026-01-15', 'Fulfilled', { Bk: 2 }),
+            report('report-2', '2026-03-04', 'Approved', { Bk: 1 }),
+        ], '', '');
+
+        expect(analytics.granularity).toBe('month');
+        expect(analytics.periods).toEqual(['2026-01-01', '2026-02-01', '2026-03-01']);
+        expect(analytics.items[0].quantities).toEqual([2, 0, 1]);
+    });
+
+    it('counts rejected and cancelled requests in the status ratio only', () => {
+        const analytics = buildAnalytics([
+            report('report-1', '2026-03-02', 'Fulfilled', { Bk: 2 }, 'campus-1'),
+            report('report-2', '2026-03-03', 'Submitted', { Bk: 1 }, 'campus-2'),
+            report('report-3', '2026-03-03', 'Rejected', { Bk: 40 }, 'campus-2'),
+            report('report-4', '2026-03-04', 'Cancelled', { Card: 9 }, 'campus-3'),
+        ], '', '2026-03-02');
+
+        expect(analytics.granularity).toBe('day');
+        expect(analytics.items).toEqual([{ item: 'Bk', total: 3, quantities: [2, 1, 0, 0, 0, 0, 0] }]);
+        expect(analytics.campuses.map(campus => [campus.key, campus.quantity])).toEqual([['campus-1', 2], ['campus-2', 1]]);
+        expect(analytics.statusCounts).toMatchObject({ Fulfilled: 1, Submitted: 1, Rejected: 1, Cancelled: 1 });
+        expect(analytics.fulfilledShare).toBe(0.5);
+    });
+
+    it('has no fulfilled share when no request is open or fulfilled', () => {
+        expect(buildAnalytics([report('report-1', '2026-03-02', 'Rejected', { Bk: 1 })], '', '').fulfilledShare).toBeNull();
+    });
+});
@@ -0,0 +1,144 @@
+import type { Report, ReportStatus } from './types';
+import { REPORT_STATUSES } from './workflow';
+import { addDays, formatDay, isDateString, parseDay } from './dates';
+
+// Consumption figures for the reports matching the current filters, for the dashboard and the PDF report.
+
+export type AnalyticsGranularity = 'day' | 'week' | 'month';
+
+export interface ItemSeries {
+    item: string;
+    total: number;
+    quantities: number[]; // One per period
+}
+
+export interface Breakdown {
+    key: string; // A campus id or a requester's name
+    quantity: number;
+    reports: number;
+}
+
+export interface ConsumptionAnalytics {
+    granularity: AnalyticsGranularity;
+    periods: string[]; // The first day of each period, as YYYY-MM-DD
+    items: ItemSeries[]; // Most requested first
+    campuses: Breakdown[]; // Most requested first
+    requesters: Breakdown[]; // Most requested first
+    statusCounts: Record<ReportStatus, number>;
+    fulfilledShare: number | null; // Fulfilled requests out of those not rejected or cancelled; null when there are none
+}
+
+// Rejected and cancelled requests never took anything, so they count towards the status ratio only.
+export const CONSUMING_STATUSES: ReportStatus[] = ['Submitted', 'Approved', 'Fulfilled'];
+
+export const TOP_REQUESTER_COUNT = 5;
+
+// The charts draw the most requested items only, each in its own colour.
+export const CHART_SERIES_COLORS: [number, number, number][] = [
+    [79, 70, 229],
+    [16, 185, 129],
+    [245, 158, 11],
+    [239, 68, 68],
+    [14, 165, 233],
+];
+
+export const STATUS_COLORS: Record<ReportStatus, [number, number, number]> = {
+    Submitted: [156, 163, 175],
+    Approved: [59, 130, 246],
+    Fulfilled: [16, 185, 129],
+    Rejected: [239, 68, 68],
+    Cancelled: [107, 114, 128],
+};
+
+// The Monday starting the week `date` falls in.
+const startOfWeek = (date: string): string => {
+    const day = parseDay(date).getUTCDay();
+    return addDays(date, day === 0 ? -6 : 1 - day);
+};
+
+const startOfMonth = (date: string): string => `${date.substring(0, 7)}-01`;
+
+const nextMonth = (month: string): string => {
+    const date = parseDay(month);
+    date.setUTCMonth(date.getUTCMonth() + 1);
+    return formatDay(date);
+};
+
+// A week shows its days, a month its weeks, and anything longer its months.
+const periodsFor = (dates: string[], month: string, week: string): { granularity: AnalyticsGranularity; periods: string[] } => {
+    if (week) {
+        return { granularity: 'day', periods: Array.from({ length: 7 }, (_, day) => addDays(week, day)) };
+    }
+    if (month) {
+        const periods: string[] = [];
+        const end = nextMonth(`${month}-01`);
+        for (let start = startOfWeek(`${month}-01`); start < end; start = addDays(start, 7)) periods.push(start);
+        return { granularity: 'week', periods };
+    }
+    const periods: string[] = [];
+    if (dates.length > 0) {
+        const sorted = [...dates].sort();
+        const last = startOfMonth(sorted[sorted.length - 1]);
+        for (let start = startOfMonth(sorted[0]); start <= last; start = nextMonth(start)) periods.push(start);
+    }
+    return { granularity: 'month', periods };
+};
+
+const periodOf = (date: string, granularity: AnalyticsGranularity): string =>
+    granularity === 'day' ? date : granularity === 'week' ? startOfWeek(date) : startOfMonth(date);
+
+const reportItems = (report: Report): [string, number][] =>
+    report.items && typeof report.items === 'object' && !Array.isArray(report.items)
+        ? Object.entries(report.items).map(([item, quantity]) => [item, Number(quantity) || 0] as [string, number]).filter(([, quantity]) => quantity > 0)
+        : [];
+
+const sortedBreakdown = (totals: Map<string, Breakdown>): Breakdown[] =>
+    Array.from(totals.values()).sort((a, b) => b.quantity - a.quantity || b.reports - a.reports || a.key.localeCompare(b.key));
+
+const addToBreakdown = (totals: Map<string, Breakdown>, key: string, quantity: number): void => {
+    const entry = totals.get(key) || { key, quantity: 0, reports: 0 };
+    entry.quantity += quantity;
+    entry.reports += 1;
+    totals.set(key, entry);
+};
+
+// `month` and `week` are the dashboard's month and week filters ('' for none); they set the periods the
+// quantities are spread over. Reports are placed by their import date, as the filters do.
+export const buildAnalytics = (reports: Report[], month: string, week: string): ConsumptionAnalytics => {
+    const { granularity, periods } = periodsFor(reports.map(report => report.importDate).filter(isDateString), month, week);
+    const periodIndex = new Map(periods.map((period, index) => [period, index]));
+
+    const items = new Map<string, ItemSeries>();
+    const campuses = new Map<string, Breakdown>();
+    const requesters = new Map<string, Breakdown>();
+    const statusCounts = Object.fromEntries(REPORT_STATUSES.map(status => [status, 0])) as Record<ReportStatus, number>;
+
+    reports.forEach(report => {
+        statusCounts[report.status] = (statusCounts[report.status] || 0) + 1;
+        if (!CONSUMING_STATUSES.includes(report.status)) return;
+
+        const lines = reportItems(report);
+        const quantity = lines.reduce((sum, [, itemQuantity]) => sum + itemQuantity, 0);
+        addToBreakdown(campuses, report.campus, quantity);
+        addToBreakdown(requesters, report.requesterName, quantity);
+
+        const index = isDateString(report.importDate) ? periodIndex.get(periodOf(report.importDate, granularity)) : undefined;
+        lines.forEach(([item, itemQuantity]) => {
+            const series = items.get(item) || { item, total: 0, quantities: periods.map(() => 0) };
+            series.total += itemQuantity;
+            if (index !== undefined) series.quantities[index] += itemQuantity;
+            items.set(item, series);
+        });
+    });
+
+    const open = statusCounts.Submitted + statusCounts.Approved;
+    return {
+        granularity,
+        periods,
+        items: Array.from(items.values()).sort((a, b) => b.total - a.total || a.item.localeCompare(b.item)),
+        campuses: sortedBreakdown(campuses),
+        requesters: sortedBreakdown(requesters).slice(0, TOP_REQUESTER_COUNT),
+        statusCounts,
+        fulfilledShare: statusCounts.Fulfilled + open > 0 ? statusCounts.Fulfilled / (statusCounts.Fulfilled + open) : null,
+    };
+};
@@ -0,0 +1,157 @@
+import type jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { Campus, CatalogItem, ReportStatus } from './types';
+import type { ConsumptionAnalytics } from './analytics';
+import { CHART_SERIES_COLORS, STATUS_COLORS } from './analytics';
+import type { PdfTextWriter } from './pdfText';
+import { itemLabel } from './catalog';
+import { campusName } from './campuses';
+import { REPORT_STATUSES } from './workflow';
+import { bilingualLabel } from './pdfParser';
+import { formatDate } from './i18n';
+
+const ANALYTICS_PDF_TITLE = 'Consumption Analytics';
+const ANALYTICS_CAMPUS_COLUMNS = ['Campus', 'Quantity', 'Requests'];
+const ANALYTICS_REQUESTER_COLUMNS = ['Requester Name', 'Quantity', 'Requests'];
+
+const MARGIN = 14;
+const CHART_WIDTH = 182;
+const CHART_HEIGHT = 55;
+// Roughly where the page's usable height ends, before autoTable's bottom margin
+const PAGE_BOTTOM = 270;
+
+// The first day of a period as printed under the chart. PDFs are written in English.
+const periodLabel = (period: string, granularity: ConsumptionAnalytics['granularity']): string =>
+    formatDate('en', new Date(`${period}T00:00:00Z`), granularity === 'month'
+        ? { month: 'short', year: 'numeric', timeZone: 'UTC' }
+        : { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Draws the quantity of each of the most requested items per period as lines, with a legend underneath.
+// Returns the y position below the legend.
+const drawItemChart = (doc: jsPDF, analytics: ConsumptionAnalytics, catalog: CatalogItem[], top: number): number => {
+    const series = analytics.items.slice(0, CHART_SERIES_COLORS.length);
+    const maximum = Math.max(1, ...series.flatMap(line => line.quantities));
+    const periodCount = analytics.periods.length;
+    const left = MARGIN + 10;
+    const width = CHART_WIDTH - 10;
+    const bottom = top + CHART_HEIGHT;
+    const xOf = (index: number) => periodCount > 1 ? left + (index / (periodCount - 1)) * width : left + width / 2;
+    const yOf = (quantity: number) => bottom - (quantity / maximum) * CHART_HEIGHT;
+
+    doc.setDrawColor(200, 200, 200);
+    doc.setLineWidth(0.2);
+    doc.line(left, top, left, bottom);
+    doc.line(left, bottom, left + width, bottom);
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    doc.text(String(maximum), left - 2, top + 2, { align: 'right' });
+    doc.text('0', left - 2, bottom, { align: 'right' });
+    // Every period gets a label when they fit; otherwise every few
+    const labelEvery = Math.max(1, Math.ceil(periodCount / 12));
+    analytics.periods.forEach((period, index) => {
+        if (index % labelEvery === 0) doc.text(periodLabel(period, analytics.granularity), xOf(index), bottom + 5, { align: 'center' });
+    });
+
+    doc.setLineWidth(0.6);
+    series.forEach((line, seriesIndex) => {
+        const [r, g, b] = CHART_SERIES_COLORS[seriesIndex];
+        doc.setDrawColor(r, g, b);
+        doc.setFillColor(r, g, b);
+        line.quantities.forEach((quantity, index) => {
+            if (index > 0) doc.line(xOf(index - 1), yOf(line.quantities[index - 1]), xOf(index), yOf(quantity));
+            doc.circle(xOf(index), yOf(quantity), 0.8, 'F');
+        });
+    });
+
+    let legendX = left;
+    let legendY = bottom + 12;
+    doc.setFontSize(9);
+    doc.setTextColor(0, 0, 0);
+    series.forEach((line, seriesIndex) => {
+        const label = `${itemLabel(catalog, line.item)} (${line.total})`;
+        const labelWidth = doc.getTextWidth(label) + 4.5;
+        if (legendX > left && legendX + labelWidth > left + width) {
+            legendX = left;
+            legendY += 5;
+        }
+        const [r, g, b] = CHART_SERIES_COLORS[seriesIndex];
+        doc.setFillColor(r, g, b);
+        doc.rect(legendX, legendY - 2.5, 3, 3, 'F');
+        doc.text(label, legendX + 4.5, legendY);
+        legendX += labelWidth + 8;
+    });
+    doc.setLineWidth(0.2);
+    doc.setDrawColor(0, 0, 0);
+    return legendY + 6;
+};
+
+// Requests per status as one bar split by status, with the counts and the fulfilled share written under it.
+const drawStatusBar = (doc: jsPDF, analytics: ConsumptionAnalytics, top: number): number => {
+    const total = REPORT_STATUSES.reduce((sum, status) => sum + analytics.statusCounts[status], 0);
+    if (total > 0) {
+        let x = MARGIN;
+        REPORT_STATUSES.forEach((status: ReportStatus) => {
+            const width = (analytics.statusCounts[status] / total) * CHART_WIDTH;
+            if (width === 0) return;
+            const [r, g, b] = STATUS_COLORS[status];
+            doc.setFillColor(r, g, b);
+            doc.rect(x, top, width, 5, 'F');
+            x += width;
+        });
+    }
+    doc.setFontSize(9);
+    doc.setTextColor(0, 0, 0);
+    const counts = REPORT_STATUSES.map(status => `${status}: ${analytics.statusCounts[status]}`).join(' | ');
+    const share = analytics.fulfilledShare === null ? '' : ` | Fulfilled share: ${Math.round(analytics.fulfilledShare * 100)}%`;
+    doc.text(`${counts}${share}`, MARGIN, top + 10);
+    return top + 16;
+};
+
+// Adds the dashboard to a report PDF on a page of its own. Headings start at the page margin like every
+// other section title, so the PDF import never mistakes the tables here for rows of the tables before them.
+export const addAnalyticsSection = (
+    doc: jsPDF,
+    writer: PdfTextWriter,
+    analytics: ConsumptionAnalytics,
+    catalog: CatalogItem[],
+    campuses: Campus[],
+): void => {
+    doc.addPage();
+    doc.setFontSize(16);
+    doc.setTextColor(45, 55, 72);
+    writer.text(bilingualLabel(ANALYTICS_PDF_TITLE, ' '), MARGIN, 20);
+
+    doc.setFontSize(12);
+    doc.setTextColor(0, 0, 0);
+    doc.text('Quantities Requested per Period', MARGIN, 30);
+    let y = drawItemChart(doc, analytics, catalog, 36);
+
+    doc.setFontSize(12);
+    doc.text('Requests by Status', MARGIN, y + 4);
+    y = drawStatusBar(doc, analytics, y + 8);
+
+    const addTable = (title: string, columns: string[], body: string[][], startY: number): number => {
+        let top = startY;
+        if (top > PAGE_BOTTOM - 20) {
+            doc.addPage();
+            top = 20;
+        }
+        doc.setFontSize(12);
+        doc.setTextColor(0, 0, 0);
+        doc.text(title, MARGIN, top);
+        autoTable(doc, {
+            head: [columns.map(column => bilingualLabel(column))],
+            body,
+            startY: top + 4,
+            theme: 'grid',
+            headStyles: { fillColor: [80, 80, 80] },
+            ...writer.tableHooks,
+        });
+        return (doc as any).lastAutoTable.finalY + 10;
+    };
+
+    y = addTable('Requests by Campus', ANALYTICS_CAMPUS_COLUMNS,
+        analytics.campuses.map(({ key, quantity, reports }) => [campusName(campuses, key), quantity.toString(), reports.toString()]), y + 4);
+    addTable('Top Requesters', ANALYTICS_REQUESTER_COLUMNS,
+        analytics.requesters.map(({ key, quantity, reports }) => [key, quantity.toString(), reports.toString()]), y);
+};
@@ -0,0 +1,334 @@
+import type { AuditEntity, AuditEntry, Campus, CampusBudget, CatalogItem, GoodsReceipt, ItemPrice, PurchaseOrder, Report, ReportStatus, RequestSchedule, RequestTemplate, StockMovement, StockTransfer, User } from './types';
+import type { BudgetStatus } from './costing';
+import { announceChange } from './tabSync';
+
+// Data-access layer for the stationary API server (see server/). Every read and write of
+// reports and stock goes through here; the UI never talks to storage directly.
+
+const API_BASE_URL = process.env.API_BASE_URL || '/api';
+const LOCAL_STORAGE_KEY_SESSION_TOKEN = 'stationaryAppSessionToken';
+
+let sessionToken: string | null = window.localStorage.getItem(LOCAL_STORAGE_KEY_SESSION_TOKEN);
+let onUnauthorized: (() => void) | null = null;
+
+const setSessionToken = (token: string | null) => {
+    sessionToken = token;
+    if (token) {
+        window.localStorage.setItem(LOCAL_STORAGE_KEY_SESSION_TOKEN, token);
+    } else {
+        window.localStorage.removeItem(LOCAL_STORAGE_KEY_SESSION_TOKEN);
+    }
+};
+
+export const hasSession = () => sessionToken !== null;
+
+// Called whenever the server rejects the session (expired, signed out elsewhere, account deactivated).
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+    onUnauthorized = handler;
+};
+
+export class ApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// The server refused a change made from an out-of-date copy, or one the current state no longer allows.
+export const isConflictError = (error: unknown): boolean => error instanceof ApiError && error.status === 409;
+
+const request = async <T>(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, body?: unknown): Promise<T> => {
+    let response: Response;
+    try {
+        const headers: Record<string, string> = {};
+        if (body !== undefined) headers['Content-Type'] = 'application/json';
+        if (sessionToken) headers['Authorization'] = `Bearer ${sessionToken}`;
+        response = await fetch(`${API_BASE_URL}${path}`, {
+            method,
+            headers,
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+        });
+    } catch (error) {
+        console.error(`Network error for ${method} ${path}:`, error);
+        throw new ApiError(0, 'Could not reach the server. Please check your connection and that the server is running.');
+    }
+
+    const text = await response.text();
+    let data: any;
+    try {
+        data = text ? JSON.parse(text) : undefined;
+    } catch {
+        throw new ApiError(response.status, `The server sent an invalid response (status ${response.status}).`);
+    }
+    if (response.status === 401 && sessionToken) {
+        setSessionToken(null);
+        onUnauthorized?.();
+    }
+    if (!response.ok) {
+        throw new ApiError(response.status, data?.error || `Request failed with status ${response.status}.`);
+    }
+    // The app's other tabs load the data again after every successful write
+    if (method !== 'GET') announceChange();
+    return data as T;
+};
+
+export interface ReportMutationResult {
+    report: Report;
+    movements: StockMovement[];
+}
+
+export interface ReportImportResult {
+    reports: Report[];
+    movements: StockMovement[];
+}
+
+export interface StockMutationResult {
+    movements: StockMovement[];
+}
+
+export interface TransferMutationResult {
+    transfer: StockTransfer;
+    movements: StockMovement[];
+}
+
+export type TransferInput = Pick<StockTransfer, 'fromLocation' | 'toLocation' | 'items' | 'date' | 'note'>;
+
+export type PurchaseOrderInput = Pick<PurchaseOrder, 'supplier' | 'location' | 'lines' | 'orderDate' | 'expectedDate' | 'note'>;
+
+export type ReceiptInput = Pick<GoodsReceipt, 'date' | 'items' | 'note'>;
+
+export interface ReceiptMutationResult {
+    purchaseOrder: PurchaseOrder;
+    movements: StockMovement[];
+}
+
+export type CatalogItemInput = Omit<CatalogItem, 'id'>;
+
+export type CampusInput = Omit<Campus, 'id'>;
+
+export type ItemPriceInput = Pick<ItemPrice, 'item' | 'unitCost' | 'effectiveDate'>;
+
+// The server works out the dates of a month budget from its label.
+export type CampusBudgetInput = Omit<CampusBudget, 'id'>;
+
+export type RequestTemplateInput = Omit<RequestTemplate, 'id'>;
+
+// The server keeps track of a schedule's requester and of what has been requested.
+export type RequestScheduleInput = Pick<RequestSchedule, 'templateId' | 'frequency' | 'startDate'>;
+
+// Undoing a report change gives back the report as it now stands; undoing a stock edit gives no report.
+export interface UndoResult {
+    report: Report | null;
+    movements: StockMovement[];
+}
+
+export interface MigrationResult {
+    importedReports: number;
+    rejectedReports: { id: string; reason: string }[]; // Reports left out, with why
+    importedStockMovements: number;
+    stockSkipped: boolean; // The server had stock records already
+    stockRejected?: string; // Why the ledger was refused
+}
+
+export type BackupSection = 'campuses' | 'catalogItems' | 'reports' | 'stockMovements' | 'transfers' | 'purchaseOrders' | 'itemPrices' | 'campusBudgets' | 'requestTemplates' | 'requestSchedules' | 'auditLog';
+
+// What restoring a backup replaces: the number of records in the app now and in the backup.
+export interface BackupSummary {
+    schemaVersion: number;
+    createdAt: string;
+    counts: Record<BackupSection, { current: number; backup: number }>;
+}
+
+export interface UserInput {
+    username: string;
+    displayName: string;
+    role: User['role'];
+    campus: string;
+    active: boolean;
+    password?: string; // Required for new users; when editing, only sent to reset the password
+}
+
+// --- Session ---
+
+export const login = async (username: string, password: string): Promise<User> => {
+    const { token, user } = await request<{ token: string; user: User }>('POST', '/auth/login', { username, password });
+    setSessionToken(token);
+    return user;
+};
+
+export const logout = async (): Promise<void> => {
+    try {
+        await request<void>('POST', '/auth/logout');
+    } finally {
+        setSessionToken(null);
+    }
+};
+
+export const fetchCurrentUser = () => request<User>('GET', '/auth/me');
+
+// --- Users ---
+
+export const fetchUsers = () => request<User[]>('GET', '/users');
+
+export const createUser = (user: UserInput) => request<User>('POST', '/users', user);
+
+export const updateUser = (id: string, user: UserInput) => request<User>('PUT', `/users/${encodeURIComponent(id)}`, user);
+
+// --- Item catalog ---
+
+export const fetchCatalog = () => request<CatalogItem[]>('GET', '/catalog');
+
+export const createCatalogItem = (item: CatalogItemInput) => request<CatalogItem>('POST', '/catalog', item);
+
+export const updateCatalogItem = (id: string, item: CatalogItemInput) =>
+    request<CatalogItem>('PUT', `/catalog/${encodeURIComponent(id)}`, item);
+
+// --- Prices and budgets ---
+
+export const fetchItemPrices = () => request<ItemPrice[]>('GET', '/prices');
+
+export const createItemPrice = (price: ItemPriceInput) => request<ItemPrice>('POST', '/prices', price);
+
+// Requesters only get their own campus's budgets.
+export const fetchBudgets = () => request<BudgetStatus[]>('GET', '/budgets');
+
+export const createBudget = (budget: CampusBudgetInput) => request<BudgetStatus>('POST', '/budgets', budget);
+
+export const updateBudget = (id: string, budget: CampusBudgetInput) =>
+    request<BudgetStatus>('PUT', `/budgets/${encodeURIComponent(id)}`, budget);
+
+export const deleteBudget = (id: string) => request<{ id: string }>('DELETE', `/budgets/${encodeURIComponent(id)}`);
+
+// --- Request templates and recurring schedules ---
+
+// Requesters only get their own campus's templates and schedules.
+export const fetchTemplates = () => request<RequestTemplate[]>('GET', '/templates');
+
+export const createTemplate = (template: RequestTemplateInput) => request<RequestTemplate>('POST', '/templates', template);
+
+export const updateTemplate = (id: string, template: RequestTemplateInput) =>
+    request<RequestTemplate>('PUT', `/templates/${encodeURIComponent(id)}`, template);
+
+export const deleteTemplate = (id: string) => request<{ id: string }>('DELETE', `/templates/${encodeURIComponent(id)}`);
+
+export const fetchSchedules = () => request<RequestSchedule[]>('GET', '/schedules');
+
+// A schedule due today has its request created as it is saved.
+export const createSchedule = (schedule: RequestScheduleInput) => request<RequestSchedule>('POST', '/schedules', schedule);
+
+export const updateSchedule = (id: string, schedule: RequestScheduleInput) =>
+    request<RequestSchedule>('PUT', `/schedules/${encodeURIComponent(id)}`, schedule);
+
+export const deleteSchedule = (id: string) => request<{ id: string }>('DELETE', `/schedules/${encodeURIComponent(id)}`);
+
+// Skips one upcoming due date, or sets its quantities; `items` null goes back to the template's.
+export const setOccurrence = (id: string, date: string, skipped: boolean, items: Record<string, number> | null) =>
+    request<RequestSchedule>('PUT', `/schedules/${encodeURIComponent(id)}/occurrences/${date}`, { skipped, items });
+
+// --- Campus directory ---
+
+export const fetchCampuses = () => request<Campus[]>('GET', '/campuses');
+
+export const createCampus = (campus: CampusInput) => request<Campus>('POST', '/campuses', campus);
+
+export const updateCampus = (id: string, campus: CampusInput) =>
+    request<Campus>('PUT', `/campuses/${encodeURIComponent(id)}`, campus);
+
+// --- Reports ---
+
+export const fetchReports = () => request<Report[]>('GET', '/reports');
+
+export const fetchReport = (id: string) => request<Report>('GET', `/reports/${encodeURIComponent(id)}`);
+
+export const createReport = (report: Report) => request<ReportMutationResult>('POST', '/reports', report);
+
+export const updateReport = (report: Report) =>
+    request<ReportMutationResult>('PUT', `/reports/${encodeURIComponent(report.id)}`, report);
+
+// Moves a request along the approval workflow; `reason` is required for rejections and cancellations.
+// `location` is the stock location a Fulfilled request takes its items from. Like updates and deletions, it is
+// refused when `revision` is given and the server's copy of the report has been saved since.
+export const transitionReport = (id: string, to: ReportStatus, reason: string, location?: string, revision?: number) =>
+    request<ReportMutationResult>('POST', `/reports/${encodeURIComponent(id)}/transitions`, { to, reason, location, revision });
+
+// Records the receiver's printed name and drawn signature (a PNG data URL) against an approved or fulfilled request.
+export const signHandover = (id: string, receiverName: string, signature: string, revision?: number) =>
+    request<ReportMutationResult>('POST', `/reports/${encodeURIComponent(id)}/handover`, { receiverName, signature, revision });
+
+// Clears the handover signature of a request so it can be signed for again; stock managers only.
+export const clearHandover = (id: string, revision?: number) =>
+    request<ReportMutationResult>('DELETE', `/reports/${encodeURIComponent(id)}/handover${revision !== undefined ? `?revision=${revision}` : ''}`);
+
+export const deleteReport = (id: string, revision?: number) =>
+    request<StockMutationResult>('DELETE', `/reports/${encodeURIComponent(id)}${revision !== undefined ? `?revision=${revision}` : ''}`);
+
+// The stock lines of an import, set as setStockQuantities sets them with the 'import' reason.
+export interface StockImportInput {
+    location: string;
+    quantities: Record<string, number>;
+    expected: Record<string, number>;
+    note?: string;
+}
+
+// Adds imported reports, overwriting those whose id already exists, and posts the stock they take. `stock` is set
+// first, in the same transaction, so either both are saved or neither is.
+export const importReports = (reports: Report[], stock?: StockImportInput) =>
+    request<ReportImportResult>('POST', '/reports/import', { reports, stock });
+
+// --- Stock ---
+
+export const fetchStockMovements = () => request<StockMovement[]>('GET', '/stock/movements');
+
+// Brings every item at `location` to the given quantity; items left out of `quantities` are set to 0.
+// With `expected`, the quantities an edit started from, only the items it changed are set, and the save is
+// refused if another tab or user has changed one of them since.
+export const setStockQuantities = (
+    quantities: Record<string, number>,
+    reason: 'adjustment' | 'clear' | 'import',
+    options: { location?: string; note?: string; expected?: Record<string, number> } = {}
+) => request<StockMutationResult>('PUT', '/stock', { quantities, reason, ...options });
+
+// --- Transfers ---
+
+export const fetchTransfers = () => request<StockTransfer[]>('GET', '/transfers');
+
+export const createTransfer = (transfer: TransferInput) => request<TransferMutationResult>('POST', '/transfers', transfer);
+
+// --- Purchase orders ---
+
+export const fetchPurchaseOrders = () => request<PurchaseOrder[]>('GET', '/purchase-orders');
+
+export const createPurchaseOrder = (order: PurchaseOrderInput) => request<PurchaseOrder>('POST', '/purchase-orders', order);
+
+export const receivePurchaseOrder = (id: string, receipt: ReceiptInput) =>
+    request<ReceiptMutationResult>('POST', `/purchase-orders/${encodeURIComponent(id)}/receipts`, receipt);
+
+export const cancelPurchaseOrder = (id: string) =>
+    request<PurchaseOrder>('POST', `/purchase-orders/${encodeURIComponent(id)}/cancel`);
+
+// --- Audit trail ---
+
+// Newest first. `entityId` is a report id or a stock location id.
+export const fetchAuditLog = (filter: { entity?: AuditEntity; entityId?: string } = {}) => {
+    const query = new URLSearchParams();
+    if (filter.entity) query.set('entity', filter.entity);
+    if (filter.entityId) query.set('entityId', filter.entityId);
+    const search = query.toString();
+    return request<AuditEntry[]>('GET', `/audit${search ? `?${search}` : ''}`);
+};
+
+export const undoAuditEntry = (id: string) => request<UndoResult>('POST', `/audit/${encodeURIComponent(id)}/undo`);
+
+// --- Migration ---
+
+export const migrateLocalData = (data: { reports: Report[]; stockMovements: StockMovement[] }) =>
+    request<MigrationResult>('POST', '/migrate', data);
+
+// --- Backup ---
+
+// The backup document is handed back to the server as is; only the server reads it.
+export const fetchBackup = () => request<unknown>('GET', '/backup');
+
+export const checkBackup = (backup: unknown) => request<BackupSummary>('POST', '/backup/check', backup);
+
+export const restoreBackup = (backup: unknown) => request<BackupSummary>('POST', '/backup/restore', backup);
@@ -0,0 +1,75 @@
+import type { AuditAction, AuditEntry, Report, StockItem, StockMovement } from './types';
+import { formatExtraLines } from './extraLines';
+
+// Reading the audit trail, shared by the UI and the API server.
+
+// How long after it was made a change can still be undone.
+export const UNDO_WINDOW_HOURS = 24;
+
+// Deleting or editing a request and setting stock quantities can be taken back; creating a request or moving it
+// along the workflow cannot (a request is cancelled or rejected instead). Nor can importing one: an imported request
+// is deleted instead, which gives back any stock it took. Nor can signing for a handover or clearing a signature,
+// which only a stock manager does.
+const UNDOABLE_ACTIONS: AuditAction[] = ['update', 'delete', 'stock'];
+
+// Whether the log still offers to undo `entry`. The server also refuses when the request or the stock has
+// changed again since.
+export const canUndoEntry = (entry: AuditEntry, now = new Date()): boolean =>
+    UNDOABLE_ACTIONS.includes(entry.action) && !entry.undoneAt
+    && now.getTime() - Date.parse(entry.at) <= UNDO_WINDOW_HOURS * 60 * 60 * 1000;
+
+// The quantities at one location before and after `movements`, for the items they touch. `stock` is the stock of
+// that location before the movements.
+export const stockChange = (
+    stock: Record<string, StockItem>,
+    movements: StockMovement[]
+): { before: Record<string, number>; after: Record<string, number> } => {
+    const before: Record<string, number> = {};
+    const after: Record<string, number> = {};
+    movements.forEach(({ item, quantity }) => {
+        if (!(item in before)) before[item] = stock[item]?.quantity || 0;
+        after[item] = (after[item] ?? before[item]) + quantity;
+    });
+    return { before, after };
+};
+
+// One field that differs between the two sides of an entry. Item quantities are listed one item at a time.
+export interface AuditChange {
+    field: 'campus' | 'importDate' | 'exportDate' | 'status' | 'fulfilledFrom' | 'purpose' | 'remarks' | 'extraLines' | 'receivedBy' | 'item';
+    item?: string; // Catalog item id, for quantities
+    from: string;
+    to: string;
+}
+
+const REPORT_FIELDS = ['campus', 'importDate', 'exportDate', 'status', 'fulfilledFrom', 'purpose', 'remarks'] as const;
+
+const isReport = (value: AuditEntry['before']): value is Report => !!value && typeof value.id === 'string';
+
+const quantityChanges = (before: Record<string, number>, after: Record<string, number>): AuditChange[] =>
+    Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .filter(item => (before[item] || 0) !== (after[item] || 0))
+        .map(item => ({ field: 'item' as const, item, from: String(before[item] || 0), to: String(after[item] || 0) }));
+
+// What an entry changed. A request that was created or deleted shows every field it had.
+export const auditChanges = (entry: AuditEntry): AuditChange[] => {
+    const { before, after } = entry;
+    if (entry.entity === 'stock') {
+        return quantityChanges((before || {}) as Record<string, number>, (after || {}) as Record<string, number>);
+    }
+    const from = isReport(before) ? before : null;
+    const to = isReport(after) ? after : null;
+    const fields: AuditChange[] = REPORT_FIELDS
+        .map(field => ({ field, from: from?.[field] || '', to: to?.[field] || '' }))
+        .filter(change => change.from !== change.to);
+    // Other items are free text, so they are listed as a whole rather than one line at a time
+    const extraLines: AuditChange = {
+        field: 'extraLines',
+        from: formatExtraLines(from?.extraLines || []),
+        to: formatExtraLines(to?.extraLines || []),
+    };
+    if (extraLines.from !== extraLines.to) fields.push(extraLines);
+    // A signature is an image, so only the name it was given under is listed
+    const receivedBy: AuditChange = { field: 'receivedBy', from: from?.handover?.receiverName || '', to: to?.handover?.receiverName || '' };
+    if (receivedBy.from !== receivedBy.to) fields.push(receivedBy);
+    return [...fields, ...quantityChanges(from?.items || {}, to?.items || {})];
+};
@@ -0,0 +1,47 @@
+import type { Campus } from './types';
+import { CENTRAL_WAREHOUSE } from './constants';
+
+// The campuses the app started with, seeded into the directory on first run. Their ids are the names
+// reports, users and stock locations were recorded under before the directory existed.
+export const DEFAULT_CAMPUSES: Campus[] = [
+    "Campus1",
+    "Campus2",
+    "Campus3",
+    "Campus4",
+    "Campus5",
+    "Campus6",
+    "CampusMRT",
+    "Campus72P",
+    "Campus86P",
+    "CampusBMU",
+    "CampusBM2",
+    "CampusMISPP",
+    "Campus Wat Toul",
+].map(name => ({ id: name, name, address: '', contactPerson: '', active: true }));
+
+export interface StockLocation {
+    id: string;
+    name: string;
+}
+
+export const activeCampuses = (campuses: Campus[]): Campus[] => campuses.filter(campus => campus.active);
+
+// The current name of a campus. Ids that are not in the directory are shown as they are.
+export const campusName = (campuses: Campus[], id: string): string =>
+    campuses.find(campus => campus.id === id)?.name || id;
+
+// Resolves a campus as it appears in an export or an old report (its id or its name).
+export const findCampus = (campuses: Campus[], name: string): Campus | undefined => {
+    const wanted = name.trim().toLowerCase();
+    return campuses.find(campus => campus.id.toLowerCase() === wanted)
+        || campuses.find(campus => campus.name.toLowerCase() === wanted);
+};
+
+// Where stock can be kept and moved to: the central warehouse and every active campus.
+export const stockLocations = (campuses: Campus[]): StockLocation[] => [
+    { id: CENTRAL_WAREHOUSE, name: CENTRAL_WAREHOUSE },
+    ...activeCampuses(campuses).map(campus => ({ id: campus.id, name: campus.name })),
+];
+
+export const locationName = (campuses: Campus[], id: string): string =>
+    id === CENTRAL_WAREHOUSE ? CENTRAL_WAREHOUSE : campusName(campuses, id);
@@ -0,0 +1,46 @@
+import type { CatalogItem } from './types';
+
+// The items the app started with, seeded into the catalog on first run. Their ids are the short keys
+// reports and stock were recorded under before the catalog existed, so that history keeps resolving.
+// A minimum level of 10 matches the fixed low-stock threshold the stock panel used to have.
+export const DEFAULT_CATALOG: CatalogItem[] = [
+    { id: 'Bk', nameEn: 'Black Toner', nameKm: 'ទឹកថ្នាំខ្មៅ', category: 'Toner', unit: 'cartridge', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'M', nameEn: 'Magenta Toner', nameKm: 'ទឹកថ្នាំក្រហម', category: 'Toner', unit: 'cartridge', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'Y', nameEn: 'Yellow Toner', nameKm: 'ទឹកថ្នាំលឿង', category: 'Toner', unit: 'cartridge', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'C', nameEn: 'Cyan Toner', nameKm: 'ទឹកថ្នាំខៀវ', category: 'Toner', unit: 'cartridge', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'Card', nameEn: 'ID Card', nameKm: 'កាត', category: 'Cards', unit: 'piece', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'Card line', nameEn: 'Card Lanyard', nameKm: 'ខ្សែកាត', category: 'Cards', unit: 'piece', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'Keyboard', nameEn: 'Keyboard', nameKm: 'ក្ដារចុច', category: 'Computer Accessories', unit: 'piece', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'Mouse', nameEn: 'Mouse', nameKm: 'កណ្ដុរ', category: 'Computer Accessories', unit: 'piece', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'Mouse Pad', nameEn: 'Mouse Pad', nameKm: 'ទ្រនាប់កណ្ដុរ', category: 'Computer Accessories', unit: 'piece', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'Paper A4', nameEn: 'Paper A4', nameKm: 'ក្រដាស A4', category: 'Paper', unit: 'ream', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'WiFi', nameEn: 'WiFi Adapter', nameKm: 'ឧបករណ៍ WiFi', category: 'Network', unit: 'piece', active: true, minLevel: 10, reorderQuantity: 10 },
+    { id: 'Camera', nameEn: 'Camera', nameKm: 'កាមេរ៉ា', category: 'Equipment', unit: 'piece', active: true, minLevel: 10, reorderQuantity: 10 },
+];
+
+export const catalogItemIds = (catalog: CatalogItem[]): string[] => catalog.map(item => item.id);
+
+export const activeCatalogItems = (catalog: CatalogItem[]): CatalogItem[] => catalog.filter(item => item.active);
+
+// The English name of an item. Keys that are not in the catalog (very old reports) are shown as they are.
+export const itemLabel = (catalog: CatalogItem[], id: string): string =>
+    catalog.find(item => item.id === id)?.nameEn || id;
+
+// Resolves a name as it appears in an export or an old report (id, English or Khmer name) to a catalog item.
+export const findCatalogItem = (catalog: CatalogItem[], name: string): CatalogItem | undefined => {
+    const wanted = name.trim().toLowerCase();
+    return catalog.find(item => item.id.toLowerCase() === wanted)
+        || catalog.find(item => item.nameEn.toLowerCase() === wanted)
+        || catalog.find(item => item.nameKm === name.trim());
+};
+
+// Re-keys parsed quantities by catalog id, adding up names that resolve to the same item.
+// Names the catalog does not know are kept as they are.
+export const mapItemsToCatalog = (catalog: CatalogItem[], items: Record<string, number>): Record<string, number> => {
+    const mapped: Record<string, number> = {};
+    for (const [name, quantity] of Object.entries(items)) {
+        const id = findCatalogItem(catalog, name)?.id || name;
+        mapped[id] = (mapped[id] || 0) + quantity;
+    }
+    return mapped;
+};
@@ -0,0 +1,176 @@
+import React from 'react';
+import type { Campus, CatalogItem } from '../types';
+import type { ConsumptionAnalytics } from '../analytics';
+import { CHART_SERIES_COLORS, STATUS_COLORS } from '../analytics';
+import { itemLabel } from '../catalog';
+import { campusName } from '../campuses';
+import { REPORT_STATUSES } from '../workflow';
+import { STATUS_MESSAGES } from '../i18n';
+import { useLanguage } from './LanguageProvider';
+
+interface AnalyticsDashboardPanelProps {
+    analytics: ConsumptionAnalytics;
+    reportCount: number; // Requests matching the filters, whatever their status
+    catalog: CatalogItem[];
+    campuses: Campus[];
+    includeInPdf: boolean;
+    onIncludeInPdfChange: (include: boolean) => void;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = { top: 10, right: 16, bottom: 24, left: 36 };
+
+const rgb = ([r, g, b]: [number, number, number]): string => `rgb(${r}, ${g}, ${b})`;
+
+// Quantities of the most requested items per period, as one line each.
+const ItemChart: React.FC<{ analytics: ConsumptionAnalytics; catalog: CatalogItem[] }> = ({ analytics, catalog }) => {
+    const { formatDate } = useLanguage();
+    const series = analytics.items.slice(0, CHART_SERIES_COLORS.length);
+    const maximum = Math.max(1, ...series.flatMap(line => line.quantities));
+    const periodCount = analytics.periods.length;
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const bottom = CHART_PADDING.top + plotHeight;
+    const xOf = (index: number) => CHART_PADDING.left + (periodCount > 1 ? (index / (periodCount - 1)) * plotWidth : plotWidth / 2);
+    const yOf = (quantity: number) => bottom - (quantity / maximum) * plotHeight;
+    const labelEvery = Math.max(1, Math.ceil(periodCount / 12));
+    const periodFormat: Intl.DateTimeFormatOptions = analytics.granularity === 'month'
+        ? { month: 'short', year: 'numeric', timeZone: 'UTC' }
+        : { month: 'short', day: 'numeric', timeZone: 'UTC' };
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img">
+                <line x1={CHART_PADDING.left} y1={CHART_PADDING.top} x2={CHART_PADDING.left} y2={bottom} stroke="#d1d5db" />
+                <line x1={CHART_PADDING.left} y1={bottom} x2={CHART_WIDTH - CHART_PADDING.right} y2={bottom} stroke="#d1d5db" />
+                <text x={CHART_PADDING.left - 6} y={CHART_PADDING.top + 4} textAnchor="end" fontSize="11" fill="#6b7280">{maximum}</text>
+                <text x={CHART_PADDING.left - 6} y={bottom} textAnchor="end" fontSize="11" fill="#6b7280">0</text>
+                {analytics.periods.map((period, index) => index % labelEvery === 0 && (
+                    <text key={period} x={xOf(index)} y={CHART_HEIGHT - 6} textAnchor="middle" fontSize="11" fill="#6b7280">
+                        {formatDate(new Date(`${period}T00:00:00Z`), periodFormat)}
+                    </text>
+                ))}
+                {series.map((line, seriesIndex) => (
+                    <g key={line.item} stroke={rgb(CHART_SERIES_COLORS[seriesIndex])} fill={rgb(CHART_SERIES_COLORS[seriesIndex])}>
+                        <polyline
+                            points={line.quantities.map((quantity, index) => `${xOf(index)},${yOf(quantity)}`).join(' ')}
+                            fill="none"
+                            strokeWidth="2"
+                        />
+                        {line.quantities.map((quantity, index) => (
+                            <circle key={index} cx={xOf(index)} cy={yOf(quantity)} r="3">
+                                <title>{`${itemLabel(catalog, line.item)}: ${quantity}`}</title>
+                            </circle>
+                        ))}
+                    </g>
+                ))}
+            </svg>
+            <div className="flex flex-wrap gap-4 mt-2 text-sm">
+                {series.map((line, seriesIndex) => (
+                    <span key={line.item} className="flex items-center gap-2">
+                        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: rgb(CHART_SERIES_COLORS[seriesIndex]) }} />
+                        {itemLabel(catalog, line.item)} ({line.total})
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Consumption for the requests matching the report filters: items over time, campuses, top requesters and statuses.
+export const AnalyticsDashboardPanel: React.FC<AnalyticsDashboardPanelProps> = ({ analytics, reportCount, catalog, campuses, includeInPdf, onIncludeInPdfChange }) => {
+    const { t } = useLanguage();
+    const largestCampus = Math.max(1, ...analytics.campuses.map(campus => campus.quantity));
+    const statusTotal = REPORT_STATUSES.reduce((sum, status) => sum + analytics.statusCounts[status], 0);
+
+    return (
+        <div className="p-4 border border-gray-200 rounded-lg space-y-6 mt-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <div>
+                    <h3 className="text-lg font-bold text-gray-800">{t('dashboard.title')}</h3>
+                    <p className="text-sm text-gray-500">{t('dashboard.requestCount', { count: reportCount })}</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={includeInPdf} onChange={(e) => onIncludeInPdfChange(e.target.checked)} />
+                    {t('dashboard.includeInPdf')}
+                </label>
+            </div>
+
+            {reportCount === 0 ? (
+                <p className="text-center py-6 text-gray-500">{t('dashboard.empty')}</p>
+            ) : (
+                <>
+                    <section>
+                        <h4 className="font-semibold text-gray-700 mb-2">{t('dashboard.itemsOverTime')}</h4>
+                        <ItemChart analytics={analytics} catalog={catalog} />
+                    </section>
+
+                    <section>
+                        <h4 className="font-semibold text-gray-700 mb-2">{t('dashboard.byStatus')}</h4>
+                        <div className="flex h-4 w-full rounded-full overflow-hidden bg-gray-100">
+                            {REPORT_STATUSES.map(status => analytics.statusCounts[status] > 0 && (
+                                <div
+                                    key={status}
+                                    title={`${t(STATUS_MESSAGES[status])}: ${analytics.statusCounts[status]}`}
+                                    style={{ width: `${(analytics.statusCounts[status] / statusTotal) * 100}%`, backgroundColor: rgb(STATUS_COLORS[status]) }}
+                                />
+                            ))}
+                        </div>
+                        <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-600">
+                            {REPORT_STATUSES.map(status => (
+                                <span key={status} className="flex items-center gap-2">
+                                    <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: rgb(STATUS_COLORS[status]) }} />
+                                    {t(STATUS_MESSAGES[status])}: {analytics.statusCounts[status]}
+                                </span>
+                            ))}
+                        </div>
+                        {analytics.fulfilledShare !== null && (
+                            <p className="mt-2 text-sm text-gray-700">{t('dashboard.fulfilledShare', { percent: Math.round(analytics.fulfilledShare * 100) })}</p>
+                        )}
+                    </section>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <section>
+                            <h4 className="font-semibold text-gray-700 mb-2">{t('dashboard.byCampus')}</h4>
+                            <div className="space-y-2">
+                                {analytics.campuses.map(({ key, quantity, reports }) => (
+                                    <div key={key} className="text-sm">
+                                        <div className="flex justify-between">
+                                            <span>{campusName(campuses, key)}</span>
+                                            <span className="text-gray-500">{quantity} · {t('dashboard.requests')}: {reports}</span>
+                                        </div>
+                                        <div className="h-2 rounded-full bg-gray-100">
+                                            <div className="h-2 rounded-full bg-indigo-500" style={{ width: `${(quantity / largestCampus) * 100}%` }} />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                        <section>
+                            <h4 className="font-semibold text-gray-700 mb-2">{t('dashboard.topRequesters')}</h4>
+                            <table className="min-w-full text-sm">
+                                <thead>
+                                    <tr>
+                                        <th className="py-1 text-left font-bold text-gray-600">{t('dashboard.requester')}</th>
+                                        <th className="py-1 text-right font-bold text-gray-600">{t('dashboard.quantity')}</th>
+                                        <th className="py-1 text-right font-bold text-gray-600">{t('dashboard.requests')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200">
+                                    {analytics.requesters.map(({ key, quantity, reports }) => (
+                                        <tr key={key}>
+                                            <td className="py-1">{key}</td>
+                                            <td className="py-1 text-right">{quantity}</td>
+                                            <td className="py-1 text-right">{reports}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </section>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { AuditEntity, AuditEntry, Campus, CatalogItem, Report } from '../types';
+import type { UndoResult } from '../api';
+import * as api from '../api';
+import { UNDO_WINDOW_HOURS, auditChanges, canUndoEntry } from '../audit';
+import type { AuditChange } from '../audit';
+import { itemLabel } from '../catalog';
+import { campusName, locationName } from '../campuses';
+import { STATUS_MESSAGES } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { ConfirmationModal } from './ConfirmationModal';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface AuditLogPanelProps {
+    campuses: Campus[];
+    catalog: CatalogItem[];
+    onUndone: (result: UndoResult) => void;
+}
+
+const ACTION_MESSAGES: Record<AuditEntry['action'], MessageKey> = {
+    create: 'audit.action.create',
+    update: 'audit.action.update',
+    delete: 'audit.action.delete',
+    status: 'audit.action.status',
+    stock: 'audit.action.stock',
+    import: 'audit.action.import',
+    handover: 'audit.action.handover',
+    undo: 'audit.action.undo',
+};
+
+const FIELD_MESSAGES: Record<Exclude<AuditChange['field'], 'item'>, MessageKey> = {
+    campus: 'form.campus',
+    importDate: 'form.importDate',
+    exportDate: 'form.exportDate',
+    status: 'audit.field.status',
+    fulfilledFrom: 'audit.field.fulfilledFrom',
+    purpose: 'form.purpose',
+    remarks: 'form.remarks',
+    extraLines: 'form.otherItems',
+    receivedBy: 'handover.receivedBy',
+};
+
+const WHEN_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+const entryReport = (entry: AuditEntry): Report | null => (entry.after || entry.before) as Report | null;
+
+// Every recorded change to requests and stock, newest first, with an Undo for those that can still be taken back.
+export const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ campuses, catalog, onUndone }) => {
+    const { t, formatDate } = useLanguage();
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [entity, setEntity] = useState<AuditEntity | ''>('');
+    const [record, setRecord] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [entryToUndo, setEntryToUndo] = useState<AuditEntry | null>(null);
+
+    const loadEntries = useCallback(async () => {
+        setIsLoading(true);
+        setLoadError(null);
+        try {
+            setEntries(await api.fetchAuditLog({ entity: entity || undefined }));
+        } catch (error) {
+            console.error("Error loading the audit log:", error);
+            setLoadError(error instanceof Error ? error.message : t('common.unknownError'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [entity, t]);
+
+    useEffect(() => {
+        loadEntries();
+    }, [loadEntries]);
+
+    const recordLabel = useCallback((entry: AuditEntry): string => {
+        if (entry.entity === 'stock') return locationName(campuses, entry.entityId);
+        const report = entryReport(entry);
+        return report
+            ? t('audit.reportRecord', { name: report.requesterName, campus: campusName(campuses, report.campus), date: report.importDate })
+            : entry.entityId;
+    }, [campuses, t]);
+
+    // The requests or locations the loaded entries are about, to narrow the list to one of them
+    const records = useMemo(() => {
+        const labels = new Map<string, string>();
+        entries.forEach(entry => {
+            if (!labels.has(entry.entityId)) labels.set(entry.entityId, recordLabel(entry));
+        });
+        return Array.from(labels.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+    }, [entries, recordLabel]);
+
+    const shownEntries = useMemo(
+        () => record ? entries.filter(entry => entry.entityId === record) : entries,
+        [entries, record]
+    );
+
+    const changeValue = useCallback((change: AuditChange, value: string): string => {
+        if (!value) return '—';
+        if (change.field === 'status') return t(STATUS_MESSAGES[value as Report['status']]);
+        if (change.field === 'campus' || change.field === 'fulfilledFrom') return locationName(campuses, value);
+        return value;
+    }, [campuses, t]);
+
+    const handleEntityChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+        setEntity(e.target.value as AuditEntity | '');
+        setRecord('');
+    }, []);
+
+    const handleConfirmUndo = useCallback(async () => {
+        if (!entryToUndo) return;
+        const entry = entryToUndo;
+        setEntryToUndo(null);
+        try {
+            onUndone(await api.undoAuditEntry(entry.id));
+        } catch (error) {
+            console.error("Error undoing the change:", error);
+            alert(`${t('error.cannotUndo')} ${error instanceof Error ? error.message : ''}`);
+        }
+        loadEntries();
+    }, [entryToUndo, onUndone, loadEntries, t]);
+
+    return (
+        <div className="mb-8 p-4 sm:p-6 border border-gray-200 rounded-lg">
+            <h2 className="text-2xl font-normal text-gray-600 mb-6">{t('audit.title')}</h2>
+
+            <div className="flex flex-wrap items-end gap-4 mb-2">
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('audit.show')}</label>
+                    <select
+                        value={entity}
+                        onChange={handleEntityChange}
+                        className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white"
+                    >
+                        <option value="">{t('audit.everything')}</option>
+                        <option value="report">{t('audit.reports')}</option>
+                        <option value="stock">{t('audit.stock')}</option>
+                    </select>
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('audit.record')}</label>
+                    <select
+                        value={record}
+                        onChange={(e) => setRecord(e.target.value)}
+                        className="max-w-xs px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white"
+                    >
+                        <option value="">{t('audit.allRecords')}</option>
+                        {records.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                    </select>
+                </div>
+                <CustomButton onClick={loadEntries} disabled={isLoading} color="gray">
+                    {isLoading ? t('common.loading') : t('audit.refresh')}
+                </CustomButton>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">{t('audit.undoWindow', { hours: UNDO_WINDOW_HOURS })}</p>
+
+            {loadError && <p className="mb-4 text-red-600">{t('error.cannotLoadAuditLog')} {loadError}</p>}
+
+            <div className="overflow-y-auto max-h-[400px] overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full bg-white text-sm">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('audit.when')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('audit.by')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('audit.record')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('audit.change')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('audit.details')}</th>
+                            <th className="py-2 px-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {shownEntries.length === 0 && !isLoading && (
+                            <tr>
+                                <td colSpan={6} className="py-4 px-3 text-center text-gray-500">{t('audit.empty')}</td>
+                            </tr>
+                        )}
+                        {shownEntries.map(entry => (
+                            <tr key={entry.id} className={entry.undoneAt ? 'text-gray-400' : ''}>
+                                <td className="py-2 px-3 whitespace-nowrap align-top">{formatDate(new Date(entry.at), WHEN_FORMAT)}</td>
+                                <td className="py-2 px-3 whitespace-nowrap align-top">{entry.byName}</td>
+                                <td className="py-2 px-3 align-top">{recordLabel(entry)}</td>
+                                <td className="py-2 px-3 align-top">
+                                    {t(ACTION_MESSAGES[entry.action])}
+                                    {entry.note && <span className="block text-xs text-gray-500">{entry.note}</span>}
+                                </td>
+                                <td className="py-2 px-3 align-top">
+                                    {auditChanges(entry).map((change, index) => (
+                                        <div key={index}>
+                                            {change.field === 'item' ? itemLabel(catalog, change.item || '') : t(FIELD_MESSAGES[change.field])}:{' '}
+                                            {changeValue(change, change.from)} → {changeValue(change, change.to)}
+                                        </div>
+                                    ))}
+                                </td>
+                                <td className="py-2 px-3 whitespace-nowrap align-top text-right">
+                                    {entry.undoneAt
+                                        ? t('audit.undoneBy', { name: entry.undoneByName || '' })
+                                        : canUndoEntry(entry) && (
+                                            <CustomButton onClick={() => setEntryToUndo(entry)} color="gray">{t('audit.undo')}</CustomButton>
+                                        )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <ConfirmationModal
+                isOpen={entryToUndo !== null}
+                onConfirm={handleConfirmUndo}
+                onCancel={() => setEntryToUndo(null)}
+                title={t('confirm.undo.title')}
+                confirmButtonText={t('confirm.undo.button')}
+            >
+                <p>{t('confirm.undo.body')}</p>
+            </ConfirmationModal>
+        </div>
+    );
+};
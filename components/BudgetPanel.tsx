@@ -0,0 +1,254 @@
+import React, { useCallback, useState } from 'react';
+import type { BudgetPeriod, Campus } from '../types';
+import type { CampusBudgetInput } from '../api';
+import * as api from '../api';
+import { activeCampuses, campusName } from '../campuses';
+import { formatCost } from '../costing';
+import type { BudgetStatus } from '../costing';
+import { ConfirmationModal } from './ConfirmationModal';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface BudgetPanelProps {
+    campuses: Campus[];
+    budgets: BudgetStatus[];
+    onBudgetSaved: (budget: BudgetStatus) => void;
+    onBudgetDeleted: (id: string) => void;
+}
+
+// The amount is kept as typed until it is saved, so the field can be cleared while editing.
+type BudgetForm = Omit<CampusBudgetInput, 'amount'> & { amount: string };
+
+const initialBudgetForm: BudgetForm = {
+    campus: '',
+    period: 'month',
+    label: new Date().toISOString().slice(0, 7),
+    startDate: '',
+    endDate: '',
+    amount: '',
+};
+
+export const BudgetPanel: React.FC<BudgetPanelProps> = ({ campuses, budgets, onBudgetSaved, onBudgetDeleted }) => {
+    const { language, t } = useLanguage();
+    const [budgetForm, setBudgetForm] = useState<BudgetForm>(initialBudgetForm);
+    const [selectedBudgetId, setSelectedBudgetId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+    const clearBudgetForm = useCallback(() => {
+        setBudgetForm(initialBudgetForm);
+        setSelectedBudgetId(null);
+    }, []);
+
+    const handleFieldChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setBudgetForm(prev => ({ ...prev, [name]: value }));
+    }, []);
+
+    // A month budget is named by its month; a term starts out without a name
+    const handlePeriodChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+        const period = e.target.value as BudgetPeriod;
+        setBudgetForm(prev => ({ ...prev, period, label: period === 'month' ? initialBudgetForm.label : '' }));
+    }, []);
+
+    const handleSelectBudget = useCallback((budget: BudgetStatus) => {
+        setSelectedBudgetId(budget.id);
+        setBudgetForm({
+            campus: budget.campus,
+            period: budget.period,
+            label: budget.label,
+            startDate: budget.startDate,
+            endDate: budget.endDate,
+            amount: budget.amount.toString(),
+        });
+    }, []);
+
+    const handleSaveBudget = useCallback(async () => {
+        const amount = parseFloat(budgetForm.amount);
+        if (!budgetForm.campus || !budgetForm.label.trim() || isNaN(amount) || amount < 0) {
+            alert(t('budget.incomplete'));
+            return;
+        }
+        if (budgetForm.period === 'term' && (!budgetForm.startDate || !budgetForm.endDate)) {
+            alert(t('budget.incompleteTerm'));
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const input: CampusBudgetInput = { ...budgetForm, amount };
+            const saved = selectedBudgetId
+                ? await api.updateBudget(selectedBudgetId, input)
+                : await api.createBudget(input);
+            onBudgetSaved(saved);
+            clearBudgetForm();
+        } catch (error) {
+            console.error("Error saving budget:", error);
+            alert(`${t('error.cannotSaveBudget')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [budgetForm, selectedBudgetId, onBudgetSaved, clearBudgetForm, t]);
+
+    const handleConfirmDelete = useCallback(async () => {
+        if (!selectedBudgetId) return;
+        setIsConfirmingDelete(false);
+        setIsSaving(true);
+        try {
+            await api.deleteBudget(selectedBudgetId);
+            onBudgetDeleted(selectedBudgetId);
+            clearBudgetForm();
+        } catch (error) {
+            console.error("Error deleting budget:", error);
+            alert(`${t('error.cannotDeleteBudget')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [selectedBudgetId, onBudgetDeleted, clearBudgetForm, t]);
+
+    return (
+        <div className="mb-8 p-4 sm:p-6 border border-gray-200 rounded-lg">
+            <h2 className="text-2xl font-normal text-gray-600 mb-6">{t('budget.title')}</h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('form.campus')}</label>
+                    <select
+                        name="campus"
+                        value={budgetForm.campus}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white"
+                    >
+                        <option value="">{t('form.selectCampus')}</option>
+                        {activeCampuses(campuses).map(campus => (
+                            <option key={campus.id} value={campus.id}>{campus.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('budget.period')}</label>
+                    <select
+                        name="period"
+                        value={budgetForm.period}
+                        onChange={handlePeriodChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white"
+                    >
+                        <option value="month">{t('budget.month')}</option>
+                        <option value="term">{t('budget.term')}</option>
+                    </select>
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">
+                        {budgetForm.period === 'month' ? t('budget.month') : t('budget.termName')}
+                    </label>
+                    <input
+                        type={budgetForm.period === 'month' ? 'month' : 'text'}
+                        name="label"
+                        placeholder={budgetForm.period === 'term' ? t('budget.termPlaceholder') : undefined}
+                        value={budgetForm.label}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                {budgetForm.period === 'term' && (
+                    <>
+                        <div className="relative">
+                            <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('budget.firstDay')}</label>
+                            <input
+                                type="date"
+                                name="startDate"
+                                value={budgetForm.startDate}
+                                onChange={handleFieldChange}
+                                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                            />
+                        </div>
+                        <div className="relative">
+                            <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('budget.lastDay')}</label>
+                            <input
+                                type="date"
+                                name="endDate"
+                                value={budgetForm.endDate}
+                                onChange={handleFieldChange}
+                                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                            />
+                        </div>
+                    </>
+                )}
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('budget.amount')}</label>
+                    <input
+                        type="number"
+                        name="amount"
+                        min="0"
+                        step="0.01"
+                        value={budgetForm.amount}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+            </div>
+
+            <div className="flex flex-wrap justify-start items-center gap-4 mt-6 mb-4">
+                <CustomButton onClick={handleSaveBudget} disabled={isSaving} color={selectedBudgetId ? 'green' : 'blue'}>
+                    {selectedBudgetId ? t('form.update') : t('form.add')}
+                </CustomButton>
+                {selectedBudgetId && (
+                    <CustomButton onClick={() => setIsConfirmingDelete(true)} disabled={isSaving} color="red">
+                        {t('form.delete')}
+                    </CustomButton>
+                )}
+                <CustomButton onClick={clearBudgetForm} color="gray">
+                    {t('form.clear')}
+                </CustomButton>
+            </div>
+
+            <div className="overflow-y-auto max-h-[300px] overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full bg-white">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('form.campus')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('budget.period')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('budget.dates')}</th>
+                            <th className="py-3 px-4 text-right text-sm font-bold text-gray-600 uppercase tracking-wider">{t('budget.budget')}</th>
+                            <th className="py-3 px-4 text-right text-sm font-bold text-gray-600 uppercase tracking-wider">{t('budget.spent')}</th>
+                            <th className="py-3 px-4 text-right text-sm font-bold text-gray-600 uppercase tracking-wider">{t('budget.remaining')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {budgets.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="py-4 px-4 text-center text-gray-500">{t('budget.empty')}</td>
+                            </tr>
+                        )}
+                        {budgets.map(budget => (
+                            <tr
+                                key={budget.id}
+                                onClick={() => handleSelectBudget(budget)}
+                                className={`cursor-pointer transition-colors duration-200 ${selectedBudgetId === budget.id ? 'bg-indigo-100' : 'hover:bg-gray-50'}`}
+                            >
+                                <td className="py-3 px-4 whitespace-nowrap">{campusName(campuses, budget.campus)}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">{budget.label}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">{budget.startDate} – {budget.endDate}</td>
+                                <td className="py-3 px-4 whitespace-nowrap text-right">{formatCost(budget.amount, language)}</td>
+                                <td className="py-3 px-4 whitespace-nowrap text-right">{formatCost(budget.spent, language)}</td>
+                                <td className={`py-3 px-4 whitespace-nowrap text-right ${budget.spent > budget.amount ? 'text-red-600 font-semibold' : ''}`}>
+                                    {formatCost(budget.amount - budget.spent, language)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <ConfirmationModal
+                isOpen={isConfirmingDelete}
+                onConfirm={handleConfirmDelete}
+                onCancel={() => setIsConfirmingDelete(false)}
+                title={t('budget.deleteTitle')}
+                confirmButtonText={t('form.delete')}
+            >
+                <p>{t('budget.deleteBody')}</p>
+            </ConfirmationModal>
+        </div>
+    );
+};
@@ -0,0 +1,155 @@
+import React, { useCallback, useState } from 'react';
+import type { Campus } from '../types';
+import type { CampusInput } from '../api';
+import * as api from '../api';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface CampusDirectoryPanelProps {
+    campuses: Campus[];
+    onCampusSaved: (campus: Campus) => void;
+}
+
+const initialCampusForm: CampusInput = {
+    name: '',
+    address: '',
+    contactPerson: '',
+    active: true,
+};
+
+export const CampusDirectoryPanel: React.FC<CampusDirectoryPanelProps> = ({ campuses, onCampusSaved }) => {
+    const { t } = useLanguage();
+    const [campusForm, setCampusForm] = useState<CampusInput>(initialCampusForm);
+    const [selectedCampusId, setSelectedCampusId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const clearCampusForm = useCallback(() => {
+        setCampusForm(initialCampusForm);
+        setSelectedCampusId(null);
+    }, []);
+
+    const handleFieldChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value, type, checked } = e.target;
+        setCampusForm(prev => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
+    }, []);
+
+    const handleSelectCampus = useCallback((campus: Campus) => {
+        setSelectedCampusId(campus.id);
+        setCampusForm({
+            name: campus.name,
+            address: campus.address,
+            contactPerson: campus.contactPerson,
+            active: campus.active,
+        });
+    }, []);
+
+    const handleSaveCampus = useCallback(async () => {
+        if (!campusForm.name.trim()) {
+            alert(t('campuses.nameRequired'));
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const saved = selectedCampusId
+                ? await api.updateCampus(selectedCampusId, campusForm)
+                : await api.createCampus(campusForm);
+            onCampusSaved(saved);
+            clearCampusForm();
+        } catch (error) {
+            console.error("Error saving campus:", error);
+            alert(`${t('error.cannotSaveCampus')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [campusForm, selectedCampusId, onCampusSaved, clearCampusForm, t]);
+
+    return (
+        <div className="mb-8 p-4 sm:p-6 border border-gray-200 rounded-lg">
+            <h2 className="text-2xl font-normal text-gray-600 mb-6">{t('campuses.title')}</h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('campuses.name')}</label>
+                    <input
+                        type="text"
+                        name="name"
+                        value={campusForm.name}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('campuses.address')}</label>
+                    <input
+                        type="text"
+                        name="address"
+                        value={campusForm.address}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('campuses.contactPerson')}</label>
+                    <input
+                        type="text"
+                        name="contactPerson"
+                        value={campusForm.contactPerson}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <label className="flex items-center gap-3 px-4 py-3 text-gray-700" title={t('campuses.activeHint')}>
+                    <input
+                        type="checkbox"
+                        name="active"
+                        checked={campusForm.active}
+                        onChange={handleFieldChange}
+                        className="h-5 w-5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {t('common.active')}
+                </label>
+            </div>
+
+            <div className="flex flex-wrap justify-start items-center gap-4 mt-6 mb-4">
+                <CustomButton onClick={handleSaveCampus} disabled={isSaving} color={selectedCampusId ? 'green' : 'blue'}>
+                    {selectedCampusId ? t('form.update') : t('form.add')}
+                </CustomButton>
+                <CustomButton onClick={clearCampusForm} color="gray">
+                    {t('form.clear')}
+                </CustomButton>
+            </div>
+
+            <div className="overflow-y-auto max-h-[300px] overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full bg-white">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('campuses.name')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('campuses.address')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('campuses.contactPerson')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('table.status')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {campuses.map(campus => (
+                            <tr
+                                key={campus.id}
+                                onClick={() => handleSelectCampus(campus)}
+                                className={`cursor-pointer transition-colors duration-200 ${selectedCampusId === campus.id ? 'bg-indigo-100' : 'hover:bg-gray-50'}`}
+                            >
+                                <td className="py-3 px-4 whitespace-nowrap">{campus.name}</td>
+                                <td className="py-3 px-4">{campus.address || '—'}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">{campus.contactPerson || '—'}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">
+                                    <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${campus.active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-600'}`}>
+                                        {campus.active ? t('common.active') : t('campuses.retired')}
+                                    </span>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
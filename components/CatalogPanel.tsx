@@ -0,0 +1,309 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import type { CatalogItem, ItemPrice } from '../types';
+import type { CatalogItemInput } from '../api';
+import * as api from '../api';
+import { formatCost, priceHistory, unitCostOn } from '../costing';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface CatalogPanelProps {
+    catalog: CatalogItem[];
+    prices: ItemPrice[];
+    onItemSaved: (item: CatalogItem) => void;
+    onPriceSaved: (price: ItemPrice) => void;
+}
+
+const initialItemForm: CatalogItemInput = {
+    nameEn: '',
+    nameKm: '',
+    category: '',
+    unit: '',
+    active: true,
+    minLevel: 0,
+    reorderQuantity: 0,
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const CatalogPanel: React.FC<CatalogPanelProps> = ({ catalog, prices, onItemSaved, onPriceSaved }) => {
+    const { language, t } = useLanguage();
+    const [itemForm, setItemForm] = useState<CatalogItemInput>(initialItemForm);
+    const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [unitCost, setUnitCost] = useState('');
+    const [effectiveDate, setEffectiveDate] = useState(today);
+
+    const categories = useMemo(() => Array.from(new Set(catalog.map(item => item.category).filter(Boolean))).sort(), [catalog]);
+    // Today's unit cost of every priced item
+    const currentCosts = useMemo(() => {
+        const date = today();
+        const costs: Record<string, number> = {};
+        catalog.forEach(item => {
+            const cost = unitCostOn(prices, item.id, date);
+            if (cost !== null) costs[item.id] = cost;
+        });
+        return costs;
+    }, [catalog, prices]);
+    const selectedPrices = useMemo(() => selectedItemId ? priceHistory(prices, selectedItemId) : [], [prices, selectedItemId]);
+
+    const clearItemForm = useCallback(() => {
+        setItemForm(initialItemForm);
+        setSelectedItemId(null);
+        setUnitCost('');
+        setEffectiveDate(today());
+    }, []);
+
+    const handleFieldChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value, type, checked } = e.target;
+        if (type === 'number') {
+            const level = parseInt(value, 10);
+            setItemForm(prev => ({ ...prev, [name]: isNaN(level) || level < 0 ? 0 : level }));
+            return;
+        }
+        setItemForm(prev => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
+    }, []);
+
+    const handleSelectItem = useCallback((item: CatalogItem) => {
+        setSelectedItemId(item.id);
+        setItemForm({
+            nameEn: item.nameEn,
+            nameKm: item.nameKm,
+            category: item.category,
+            unit: item.unit,
+            active: item.active,
+            minLevel: item.minLevel,
+            reorderQuantity: item.reorderQuantity,
+        });
+        setUnitCost('');
+        setEffectiveDate(today());
+    }, []);
+
+    const handleSaveItem = useCallback(async () => {
+        if (!itemForm.nameEn.trim()) {
+            alert(t('catalog.nameRequired'));
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const saved = selectedItemId
+                ? await api.updateCatalogItem(selectedItemId, itemForm)
+                : await api.createCatalogItem(itemForm);
+            onItemSaved(saved);
+            clearItemForm();
+        } catch (error) {
+            console.error("Error saving catalog item:", error);
+            alert(`${t('error.cannotSaveItem')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [itemForm, selectedItemId, onItemSaved, clearItemForm, t]);
+
+    const handleSetPrice = useCallback(async () => {
+        if (!selectedItemId) return;
+        const cost = parseFloat(unitCost);
+        if (isNaN(cost) || cost < 0) {
+            alert(t('prices.invalidCost'));
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const saved = await api.createItemPrice({ item: selectedItemId, unitCost: cost, effectiveDate });
+            onPriceSaved(saved);
+            setUnitCost('');
+        } catch (error) {
+            console.error("Error saving price:", error);
+            alert(`${t('error.cannotSavePrice')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [selectedItemId, unitCost, effectiveDate, onPriceSaved, t]);
+
+    return (
+        <div className="mb-8 p-4 sm:p-6 border border-gray-200 rounded-lg">
+            <h2 className="text-2xl font-normal text-gray-600 mb-6">{t('catalog.title')}</h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('catalog.nameEn')}</label>
+                    <input
+                        type="text"
+                        name="nameEn"
+                        value={itemForm.nameEn}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('catalog.nameKm')}</label>
+                    <input
+                        type="text"
+                        name="nameKm"
+                        value={itemForm.nameKm}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors font-serif-khmer"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('catalog.category')}</label>
+                    <input
+                        type="text"
+                        name="category"
+                        list="catalog-categories"
+                        value={itemForm.category}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                    <datalist id="catalog-categories">
+                        {categories.map(category => <option key={category} value={category} />)}
+                    </datalist>
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('catalog.unit')}</label>
+                    <input
+                        type="text"
+                        name="unit"
+                        placeholder={t('catalog.unitPlaceholder')}
+                        value={itemForm.unit}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative" title={t('catalog.minLevelHint')}>
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('catalog.minLevel')}</label>
+                    <input
+                        type="number"
+                        name="minLevel"
+                        min="0"
+                        value={itemForm.minLevel}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('catalog.reorderQuantity')}</label>
+                    <input
+                        type="number"
+                        name="reorderQuantity"
+                        min="0"
+                        value={itemForm.reorderQuantity}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <label className="flex items-center gap-3 px-4 py-3 text-gray-700" title={t('catalog.activeHint')}>
+                    <input
+                        type="checkbox"
+                        name="active"
+                        checked={itemForm.active}
+                        onChange={handleFieldChange}
+                        className="h-5 w-5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {t('common.active')}
+                </label>
+            </div>
+
+            <div className="flex flex-wrap justify-start items-center gap-4 mt-6 mb-4">
+                <CustomButton onClick={handleSaveItem} disabled={isSaving} color={selectedItemId ? 'green' : 'blue'}>
+                    {selectedItemId ? t('form.update') : t('form.add')}
+                </CustomButton>
+                <CustomButton onClick={clearItemForm} color="gray">
+                    {t('form.clear')}
+                </CustomButton>
+            </div>
+
+            {selectedItemId && (
+                <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                    <h3 className="text-lg font-semibold text-gray-700 mb-4">{t('prices.unitCost')}</h3>
+                    <div className="flex flex-wrap items-end gap-4 mb-4">
+                        <div className="relative">
+                            <label className="absolute -top-3 left-3 bg-gray-50 px-1 text-sm font-medium text-gray-600">{t('prices.newUnitCost')}</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={unitCost}
+                                onChange={(e) => setUnitCost(e.target.value)}
+                                className="w-40 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                            />
+                        </div>
+                        <div className="relative" title={t('prices.effectiveFromHint')}>
+                            <label className="absolute -top-3 left-3 bg-gray-50 px-1 text-sm font-medium text-gray-600">{t('prices.effectiveFrom')}</label>
+                            <input
+                                type="date"
+                                value={effectiveDate}
+                                onChange={(e) => setEffectiveDate(e.target.value)}
+                                className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                            />
+                        </div>
+                        <CustomButton onClick={handleSetPrice} disabled={isSaving || !unitCost} color="blue">
+                            {t('prices.setPrice')}
+                        </CustomButton>
+                    </div>
+                    {selectedPrices.length === 0 ? (
+                        <p className="text-sm text-gray-500">{t('prices.empty')}</p>
+                    ) : (
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-gray-600">
+                                    <th className="py-1 pr-4">{t('prices.effectiveFrom')}</th>
+                                    <th className="py-1 pr-4 text-right">{t('prices.unitCost')}</th>
+                                    <th className="py-1 pr-4">{t('prices.setBy')}</th>
+                                    <th className="py-1">{t('prices.entered')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {selectedPrices.map(price => (
+                                    <tr key={price.id}>
+                                        <td className="py-1 pr-4">{price.effectiveDate}</td>
+                                        <td className="py-1 pr-4 text-right">{formatCost(price.unitCost, language)}</td>
+                                        <td className="py-1 pr-4">{price.byName}</td>
+                                        <td className="py-1">{price.createdAt.split('T')[0]}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+
+            <div className="overflow-y-auto max-h-[300px] overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full bg-white">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('catalog.nameEn')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('catalog.nameKm')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('catalog.category')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('catalog.unit')}</th>
+                            <th className="py-3 px-4 text-right text-sm font-bold text-gray-600 uppercase tracking-wider">{t('catalog.minReorder')}</th>
+                            <th className="py-3 px-4 text-right text-sm font-bold text-gray-600 uppercase tracking-wider">{t('prices.unitCost')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('table.status')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {catalog.map(item => (
+                            <tr
+                                key={item.id}
+                                onClick={() => handleSelectItem(item)}
+                                className={`cursor-pointer transition-colors duration-200 ${selectedItemId === item.id ? 'bg-indigo-100' : 'hover:bg-gray-50'}`}
+                            >
+                                <td className="py-3 px-4 whitespace-nowrap">{item.nameEn}</td>
+                                <td className="py-3 px-4 whitespace-nowrap font-serif-khmer">{item.nameKm || '—'}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">{item.category || '—'}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">{item.unit || '—'}</td>
+                                <td className="py-3 px-4 whitespace-nowrap text-right">{item.minLevel} / {item.reorderQuantity}</td>
+                                <td className="py-3 px-4 whitespace-nowrap text-right">{item.id in currentCosts ? formatCost(currentCosts[item.id], language) : '—'}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">
+                                    <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${item.active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-600'}`}>
+                                        {item.active ? t('common.active') : t('catalog.archived')}
+                                    </span>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
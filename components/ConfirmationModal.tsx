@@ -0,0 +1,84 @@
+import React, { useEffect } from 'react';
+import { useLanguage } from './LanguageProvider';
+
+interface ConfirmationModalProps {
+    isOpen: boolean;
+    onConfirm: () => void;
+    onCancel: () => void;
+    title: string;
+    children: React.ReactNode;
+    confirmButtonText?: string;
+}
+
+export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, onConfirm, onCancel, title, children, confirmButtonText }) => {
+    const { t } = useLanguage();
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onCancel();
+            }
+        };
+        if (isOpen) {
+            window.addEventListener('keydown', handleEsc);
+        }
+
+        return () => {
+            window.removeEventListener('keydown', handleEsc);
+        };
+    }, [isOpen, onCancel]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div 
+            className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4" 
+            aria-labelledby="modal-title" 
+            role="dialog" 
+            aria-modal="true"
+            onClick={onCancel}
+        >
+            <div 
+                className="bg-white rounded-xl shadow-2xl p-6 sm:p-8 w-full max-w-md transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale"
+                onClick={e => e.stopPropagation()} // Prevent closing when clicking inside the modal
+            >
+                <div className="sm:flex sm:items-start">
+                    <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-red-100 sm:mx-0 sm:h-10 sm:w-10">
+                        <svg className="h-6 w-6 text-red-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="2" stroke="currentColor" aria-hidden="true">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                        </svg>
+                    </div>
+                    <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left">
+                        <h3 className="text-xl leading-6 font-bold text-gray-900" id="modal-title">{title}</h3>
+                        <div className="mt-2">
+                            <div className="text-sm text-gray-600">{children}</div>
+                        </div>
+                    </div>
+                </div>
+                <div className="mt-6 sm:mt-8 sm:flex sm:flex-row-reverse gap-3">
+                    <button
+                        type="button"
+                        className="w-full inline-flex justify-center rounded-full border border-transparent shadow-sm px-6 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 sm:w-auto sm:text-sm"
+                        onClick={onConfirm}
+                    >
+                        {confirmButtonText || t('common.confirm')}
+                    </button>
+                    <button
+                        type="button"
+                        className="mt-3 w-full inline-flex justify-center rounded-full border border-gray-300 shadow-sm px-6 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm"
+                        onClick={onCancel}
+                    >
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            </div>
+            <style>{`
+                @keyframes fade-in-scale {
+                    from { transform: scale(0.95); opacity: 0; }
+                    to { transform: scale(1); opacity: 1; }
+                }
+                .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }
+            `}</style>
+        </div>
+    );
+};
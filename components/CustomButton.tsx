@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface CustomButtonProps {
+    onClick: () => void;
+    disabled?: boolean;
+    color: 'blue' | 'green' | 'red' | 'gray' | 'black';
+    children: React.ReactNode;
+    isIconOnly?: boolean;
+    title?: string;
+}
+
+export const CustomButton: React.FC<CustomButtonProps> = ({ onClick, disabled = false, color, children, isIconOnly = false, title }) => {
+    const colorClasses = {
+        blue: 'bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500',
+        green: 'bg-green-600 hover:bg-green-700 focus:ring-green-500',
+        red: 'bg-red-600 hover:bg-red-700 focus:ring-red-500',
+        gray: 'bg-gray-500 hover:bg-gray-600 focus:ring-gray-500',
+        black: 'bg-black hover:bg-gray-800 focus:ring-gray-700',
+    };
+    const paddingClasses = isIconOnly ? 'p-3' : 'px-6 py-2';
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            disabled={disabled}
+            title={title}
+            className={`flex items-center justify-center ${paddingClasses} text-white font-semibold rounded-full shadow-md transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 ${colorClasses[color]} ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+            {children}
+        </button>
+    );
+};
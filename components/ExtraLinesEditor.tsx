@@ -0,0 +1,75 @@
+import React, { useCallback } from 'react';
+import type { ExtraLine } from '../types';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface ExtraLinesEditorProps {
+    lines: ExtraLine[];
+    onChange: (lines: ExtraLine[]) => void;
+    disabled: boolean;
+}
+
+// The request form's lines for things the catalog does not list. Blank lines are dropped when the request is saved.
+export const ExtraLinesEditor: React.FC<ExtraLinesEditorProps> = ({ lines, onChange, disabled }) => {
+    const { t } = useLanguage();
+
+    const updateLine = useCallback((index: number, change: Partial<ExtraLine>) => {
+        onChange(lines.map((line, i) => i === index ? { ...line, ...change } : line));
+    }, [lines, onChange]);
+
+    const handleQuantityChange = useCallback((index: number, value: string) => {
+        const quantity = parseInt(value, 10);
+        updateLine(index, { quantity: !isNaN(quantity) && quantity > 0 ? quantity : 0 });
+    }, [updateLine]);
+
+    return (
+        <div className="space-y-4 pt-2">
+            <label className="text-base font-medium text-gray-800 font-serif-khmer">{t('form.otherItems')}</label>
+            <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+                {lines.length === 0 && <p className="text-sm text-gray-500">{t('form.otherItemsHint')}</p>}
+                {lines.map((line, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-3">
+                        <input
+                            type="text"
+                            value={line.description}
+                            onChange={(e) => updateLine(index, { description: e.target.value })}
+                            disabled={disabled}
+                            placeholder={t('form.otherItemDescription')}
+                            aria-label={t('form.otherItemDescription')}
+                            className="flex-1 min-w-[10rem] px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors disabled:bg-gray-50"
+                        />
+                        <input
+                            type="number"
+                            min="0"
+                            placeholder="0"
+                            value={line.quantity || ''}
+                            onChange={(e) => handleQuantityChange(index, e.target.value)}
+                            disabled={disabled}
+                            aria-label={t('form.quantityFor', { item: line.description })}
+                            className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center disabled:bg-gray-50"
+                        />
+                        <input
+                            type="text"
+                            value={line.note || ''}
+                            onChange={(e) => updateLine(index, { note: e.target.value })}
+                            disabled={disabled}
+                            placeholder={t('form.otherItemNote')}
+                            aria-label={t('form.otherItemNote')}
+                            className="flex-1 min-w-[10rem] px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors disabled:bg-gray-50"
+                        />
+                        {!disabled && (
+                            <CustomButton onClick={() => onChange(lines.filter((_, i) => i !== index))} color="gray">
+                                {t('form.removeOtherItem')}
+                            </CustomButton>
+                        )}
+                    </div>
+                ))}
+                {!disabled && (
+                    <CustomButton onClick={() => onChange([...lines, { description: '', quantity: 0 }])} color="gray">
+                        {t('form.addOtherItem')}
+                    </CustomButton>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import type { Report } from '../types';
+import { isMissingHandover } from '../workflow';
+import { ConfirmationModal } from './ConfirmationModal';
+import { CustomButton } from './CustomButton';
+import { SignaturePad } from './SignaturePad';
+import { useLanguage } from './LanguageProvider';
+
+interface HandoverPanelProps {
+    report: Report; // An approved or fulfilled request
+    isSaving: boolean;
+    onSign: (receiverName: string, signature: string) => void;
+    onRemove?: () => void; // Given to stock managers, who alone can remove a signature so it can be taken again
+}
+
+const SIGNED_AT_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+// Takes the signature of whoever receives the selected request's items, or shows the one already taken.
+export const HandoverPanel: React.FC<HandoverPanelProps> = ({ report, isSaving, onSign, onRemove }) => {
+    const { t, formatDate } = useLanguage();
+    const [isConfirmingRemove, setIsConfirmingRemove] = useState(false);
+    const [receiverName, setReceiverName] = useState('');
+    const [signature, setSignature] = useState<string | null>(null);
+    const { handover } = report;
+
+    return (
+        <div className="mt-6 p-4 bg-gray-50 rounded-xl border border-gray-200">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <h3 className="text-lg font-bold text-gray-800">{t('handover.title')}</h3>
+                {isMissingHandover(report) && (
+                    <span className="px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                        {t('handover.missing')}
+                    </span>
+                )}
+            </div>
+
+            {handover && (
+                <div className="flex flex-wrap items-end gap-6 mb-4">
+                    <img src={handover.signature} alt={t('handover.signature')} className="h-24 bg-white border border-gray-200 rounded-lg" />
+                    <div className="text-sm text-gray-700 space-y-1">
+                        <p><span className="font-semibold">{t('handover.receivedBy')}:</span> {handover.receiverName}</p>
+                        <p>{t('handover.signedAt', { when: formatDate(new Date(handover.signedAt), SIGNED_AT_FORMAT), name: handover.recordedByName })}</p>
+                    </div>
+                    {onRemove && (
+                        <CustomButton onClick={() => setIsConfirmingRemove(true)} disabled={isSaving} color="red">{t('handover.remove')}</CustomButton>
+                    )}
+                </div>
+            )}
+
+            {!handover && (
+                <div className="space-y-4">
+                    <input
+                        type="text"
+                        value={receiverName}
+                        onChange={e => setReceiverName(e.target.value)}
+                        placeholder={t('handover.receiverName')}
+                        className="w-full max-w-[480px] px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                    <SignaturePad onChange={setSignature} disabled={isSaving} />
+                    <CustomButton
+                        onClick={() => signature && onSign(receiverName.trim(), signature)}
+                        disabled={isSaving || !receiverName.trim() || !signature}
+                        color="green"
+                    >
+                        {t('handover.save')}
+                    </CustomButton>
+                </div>
+            )}
+
+            <ConfirmationModal
+                isOpen={isConfirmingRemove}
+                onConfirm={() => {
+                    setIsConfirmingRemove(false);
+                    onRemove?.();
+                }}
+                onCancel={() => setIsConfirmingRemove(false)}
+                title={t('handover.removeTitle')}
+                confirmButtonText={t('handover.remove')}
+            >
+                <p>{t('handover.removeBody')}</p>
+            </ConfirmationModal>
+        </div>
+    );
+};
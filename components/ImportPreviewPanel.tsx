@@ -0,0 +1,192 @@
+import React from 'react';
+import type { Campus, CatalogItem, Report, StockItem } from '../types';
+import { itemLabel } from '../catalog';
+import { campusName } from '../campuses';
+import type { StockLocation } from '../campuses';
+import type { ImportAction, ReportImportRow, StockImportRow } from '../importPreview';
+import { quantityAfterImport } from '../importPreview';
+import { EMPTY_DESCRIPTION, OTHER_ITEMS_PREFIX } from '../pdfParser';
+import { formatExtraLines } from '../extraLines';
+import { STATUS_MESSAGES } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface ImportPreviewPanelProps {
+    fileName: string;
+    reportRows: ReportImportRow[];
+    stockRows: StockImportRow[] | null; // null when the PDF has no stock table
+    stockLocation: string;
+    locations: StockLocation[]; // The locations open for stock
+    currentStock: Record<string, StockItem>; // The stock at `stockLocation`
+    campuses: Campus[];
+    catalog: CatalogItem[];
+    isSaving: boolean;
+    onReportActionChange: (index: number, action: ImportAction) => void;
+    onStockActionChange: (index: number, action: ImportAction) => void;
+    onStockLocationChange: (location: string) => void;
+    onImport: () => void;
+    onDiscard: () => void;
+}
+
+const ACTION_MESSAGES: Record<ImportAction, MessageKey> = {
+    merge: 'preview.action.merge',
+    replace: 'preview.action.replace',
+    skip: 'preview.action.skip',
+};
+
+const ActionSelect: React.FC<{ value: ImportAction; actions: ImportAction[]; onChange: (action: ImportAction) => void }> = ({ value, actions, onChange }) => {
+    const { t } = useLanguage();
+    return (
+        <select
+            value={value}
+            onChange={e => onChange(e.target.value as ImportAction)}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+        >
+            {actions.map(action => <option key={action} value={action}>{t(ACTION_MESSAGES[action])}</option>)}
+        </select>
+    );
+};
+
+// Shows what an imported PDF would change before anything is saved. Each report and stock line gets its own
+// action: new reports can only be merged or skipped, while duplicates can also replace the report they match.
+export const ImportPreviewPanel: React.FC<ImportPreviewPanelProps> = ({
+    fileName, reportRows, stockRows, stockLocation, locations, currentStock, campuses, catalog, isSaving,
+    onReportActionChange, onStockActionChange, onStockLocationChange, onImport, onDiscard,
+}) => {
+    const { t } = useLanguage();
+    const duplicateCount = reportRows.filter(row => row.duplicateOf).length;
+    const describeItems = ({ items, extraLines = [] }: Omit<Report, 'id'>) => {
+        const entries = Object.entries(items).filter(([, quantity]) => quantity > 0);
+        const descriptions = [
+            ...entries.map(([item, quantity]) => `${itemLabel(catalog, item)} (${quantity})`),
+            ...(extraLines.length > 0 ? [`${OTHER_ITEMS_PREFIX}${formatExtraLines(extraLines)}`] : []),
+        ];
+        return descriptions.length > 0 ? descriptions.join(', ') : EMPTY_DESCRIPTION;
+    };
+
+    return (
+        <div className="mb-8 p-4 sm:p-6 border border-gray-200 rounded-lg space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <h2 className="text-2xl font-normal text-gray-600">{t('preview.title', { file: fileName })}</h2>
+                <div className="flex flex-wrap gap-4">
+                    <CustomButton onClick={onImport} disabled={isSaving} color="blue">
+                        {t('preview.import')}
+                    </CustomButton>
+                    <CustomButton onClick={onDiscard} disabled={isSaving} color="gray">
+                        {t('preview.discard')}
+                    </CustomButton>
+                </div>
+            </div>
+
+            <div>
+                <h3 className="text-lg font-bold text-gray-800 mb-3">
+                    {t('preview.reports', { new: reportRows.length - duplicateCount, duplicates: duplicateCount })}
+                </h3>
+                <div className="overflow-y-auto max-h-[300px] overflow-x-auto border border-gray-200 rounded-lg">
+                    <table className="min-w-full bg-white text-sm">
+                        <thead className="sticky top-0 bg-gray-100">
+                            <tr>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('dashboard.requester')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('table.campus')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('table.importDate')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('table.exportDate')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('table.description')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('table.status')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('preview.match')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('preview.action')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {reportRows.length > 0 ? reportRows.map(({ report, duplicateOf, action }, index) => (
+                                <tr key={index} className={action === 'skip' ? 'text-gray-400' : ''}>
+                                    <td className="py-2 px-3 whitespace-nowrap">{report.requesterName}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap">{campusName(campuses, report.campus)}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap">{report.importDate}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap">{report.exportDate || '—'}</td>
+                                    <td className="py-2 px-3">{describeItems(report)}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap">
+                                        {duplicateOf && duplicateOf.status !== report.status
+                                            ? `${t(STATUS_MESSAGES[duplicateOf.status])} → ${t(STATUS_MESSAGES[report.status])}`
+                                            : t(STATUS_MESSAGES[report.status])}
+                                    </td>
+                                    <td className="py-2 px-3 whitespace-nowrap">
+                                        <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${duplicateOf ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}`}>
+                                            {duplicateOf ? t('preview.duplicate') : t('preview.new')}
+                                        </span>
+                                    </td>
+                                    <td className="py-2 px-3 whitespace-nowrap">
+                                        <ActionSelect
+                                            value={action}
+                                            actions={duplicateOf ? ['merge', 'replace', 'skip'] : ['merge', 'skip']}
+                                            onChange={next => onReportActionChange(index, next)}
+                                        />
+                                    </td>
+                                </tr>
+                            )) : (
+                                <tr>
+                                    <td colSpan={8} className="text-center py-6 text-gray-500">{t('preview.noReports')}</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {stockRows ? (
+                <div>
+                    <div className="flex flex-wrap items-center gap-4 mb-3">
+                        <h3 className="text-lg font-bold text-gray-800">{t('preview.stockAt')}</h3>
+                        <select
+                            value={stockLocation}
+                            onChange={e => onStockLocationChange(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                        >
+                            {locations.map(location => (
+                                <option key={location.id} value={location.id}>{location.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="overflow-y-auto max-h-[300px] overflow-x-auto border border-gray-200 rounded-lg">
+                        <table className="min-w-full bg-white text-sm">
+                            <thead className="sticky top-0 bg-gray-100">
+                                <tr>
+                                    <th className="py-2 px-3 text-left font-bold text-gray-600">{t('forecast.item')}</th>
+                                    <th className="py-2 px-3 text-right font-bold text-gray-600">{t('preview.current')}</th>
+                                    <th className="py-2 px-3 text-right font-bold text-gray-600">{t('preview.inPdf')}</th>
+                                    <th className="py-2 px-3 text-right font-bold text-gray-600">{t('preview.afterImport')}</th>
+                                    <th className="py-2 px-3 text-left font-bold text-gray-600">{t('preview.action')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {stockRows.map((row, index) => {
+                                    const current = currentStock[row.item]?.quantity || 0;
+                                    const after = quantityAfterImport(row, current);
+                                    return (
+                                        <tr key={row.item}>
+                                            <td className="py-2 px-3 whitespace-nowrap">{itemLabel(catalog, row.item)}</td>
+                                            <td className="py-2 px-3 whitespace-nowrap text-right">{current}</td>
+                                            <td className="py-2 px-3 whitespace-nowrap text-right">{row.quantity}</td>
+                                            <td className={`py-2 px-3 whitespace-nowrap text-right font-bold ${after > current ? 'text-green-600' : after < current ? 'text-red-600' : 'text-gray-500'}`}>
+                                                {after}
+                                            </td>
+                                            <td className="py-2 px-3 whitespace-nowrap">
+                                                <ActionSelect
+                                                    value={row.action}
+                                                    actions={['merge', 'replace', 'skip']}
+                                                    onChange={next => onStockActionChange(index, next)}
+                                                />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-gray-500">{t('preview.noStock')}</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,62 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { formatDate, isLanguage, messageParts, translate } from '../i18n';
+import type { Language, MessageKey, MessageParams } from '../i18n';
+
+const LOCAL_STORAGE_KEY_LANGUAGE = 'stationaryAppLanguage';
+
+interface LanguageContextValue {
+    language: Language;
+    setLanguage: (language: Language) => void;
+    t: (key: MessageKey, params?: MessageParams) => string;
+    // Like `t`, for messages whose values are markup, such as a name in bold.
+    tRich: (key: MessageKey, params: Record<string, React.ReactNode>) => React.ReactNode;
+    formatDate: (date: Date, options: Intl.DateTimeFormatOptions) => string;
+}
+
+const LanguageContext = createContext<LanguageContextValue | null>(null);
+
+const readSavedLanguage = (): Language => {
+    try {
+        const saved = window.localStorage.getItem(LOCAL_STORAGE_KEY_LANGUAGE);
+        if (isLanguage(saved)) return saved;
+    } catch (error) {
+        console.error("Error reading the language from localStorage:", error);
+    }
+    return 'en';
+};
+
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [language, setLanguage] = useState<Language>(readSavedLanguage);
+
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(LOCAL_STORAGE_KEY_LANGUAGE, language);
+        } catch (error) {
+            console.error("Error saving the language to localStorage:", error);
+        }
+        document.documentElement.lang = language;
+    }, [language]);
+
+    const t = useCallback((key: MessageKey, params?: MessageParams) => translate(language, key, params), [language]);
+
+    const tRich = useCallback((key: MessageKey, params: Record<string, React.ReactNode>) =>
+        messageParts(language, key).map((part, index) =>
+            <React.Fragment key={index}>{index % 2 === 0 ? part : part in params ? params[part] : `{${part}}`}</React.Fragment>
+        ), [language]);
+
+    const value = useMemo<LanguageContextValue>(() => ({
+        language,
+        setLanguage,
+        t,
+        tRich,
+        formatDate: (date, options) => formatDate(language, date, options),
+    }), [language, t, tRich]);
+
+    return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+};
+
+export const useLanguage = (): LanguageContextValue => {
+    const context = useContext(LanguageContext);
+    if (!context) throw new Error("useLanguage must be used inside a LanguageProvider.");
+    return context;
+};
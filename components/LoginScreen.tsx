@@ -0,0 +1,72 @@
+import React, { useCallback, useState } from 'react';
+import type { User } from '../types';
+import * as api from '../api';
+import { useLanguage } from './LanguageProvider';
+
+interface LoginScreenProps {
+    onLogin: (user: User) => void;
+}
+
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
+    const { t } = useLanguage();
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSigningIn, setIsSigningIn] = useState(false);
+
+    const handleSubmit = useCallback(async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!username || !password) {
+            setError(t('login.missingCredentials'));
+            return;
+        }
+        setIsSigningIn(true);
+        setError(null);
+        try {
+            const user = await api.login(username, password);
+            onLogin(user);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('common.unknownError'));
+        } finally {
+            setIsSigningIn(false);
+        }
+    }, [username, password, onLogin, t]);
+
+    return (
+        <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4 font-sans">
+            <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-lg p-6 sm:p-8 space-y-6">
+                <h1 className="text-4xl font-koulen text-center text-gray-800">{t('header.title')}</h1>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('users.username')}</label>
+                    <input
+                        type="text"
+                        name="username"
+                        autoComplete="username"
+                        value={username}
+                        onChange={e => setUsername(e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('users.password')}</label>
+                    <input
+                        type="password"
+                        name="password"
+                        autoComplete="current-password"
+                        value={password}
+                        onChange={e => setPassword(e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <button
+                    type="submit"
+                    disabled={isSigningIn}
+                    className={`w-full flex items-center justify-center px-6 py-2 text-white font-semibold rounded-full shadow-md transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500 ${isSigningIn ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                    {isSigningIn ? t('login.signingIn') : t('login.signIn')}
+                </button>
+            </form>
+        </div>
+    );
+};
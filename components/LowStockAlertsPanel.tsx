@@ -0,0 +1,54 @@
+import React from 'react';
+import type { ReorderLine } from '../reorder';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface LowStockAlertsPanelProps {
+    lines: ReorderLine[];
+    locationName: string;
+    onGenerateReorderList: () => void;
+}
+
+// Lists every item at or below its minimum level at the location shown in the stock panel.
+export const LowStockAlertsPanel: React.FC<LowStockAlertsPanelProps> = ({ lines, locationName, onGenerateReorderList }) => {
+    const { t } = useLanguage();
+
+    return (
+        <div className="p-4 border border-gray-200 rounded-lg space-y-4 mb-4">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <h3 className="text-lg font-bold text-gray-800">{t('lowStock.title', { location: locationName })}</h3>
+                <CustomButton onClick={onGenerateReorderList} disabled={lines.length === 0} color="blue">
+                    {t('lowStock.generate')}
+                </CustomButton>
+            </div>
+            <div className="overflow-y-auto max-h-[240px] overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full bg-white text-sm">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('forecast.item')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('catalog.category')}</th>
+                            <th className="py-2 px-3 text-right font-bold text-gray-600">{t('forecast.inStock')}</th>
+                            <th className="py-2 px-3 text-right font-bold text-gray-600">{t('lowStock.minimum')}</th>
+                            <th className="py-2 px-3 text-right font-bold text-gray-600">{t('lowStock.order')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {lines.length > 0 ? lines.map(({ item, quantity, orderQuantity }) => (
+                            <tr key={item.id}>
+                                <td className="py-2 px-3 whitespace-nowrap">{item.nameEn}</td>
+                                <td className="py-2 px-3 whitespace-nowrap">{item.category || '—'}</td>
+                                <td className="py-2 px-3 whitespace-nowrap text-right font-bold text-red-600">{quantity}</td>
+                                <td className="py-2 px-3 whitespace-nowrap text-right">{item.minLevel}</td>
+                                <td className="py-2 px-3 whitespace-nowrap text-right">{orderQuantity} {item.unit}</td>
+                            </tr>
+                        )) : (
+                            <tr>
+                                <td colSpan={5} className="text-center py-6 text-gray-500">{t('lowStock.empty')}</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { Campus } from '../types';
+import type { QueuedChange } from '../offlineQueue';
+import { campusName } from '../campuses';
+import { STATUS_MESSAGES } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface OfflineQueuePanelProps {
+    isOnline: boolean;
+    changes: QueuedChange[]; // The signed-in user's queued changes, oldest first
+    campuses: Campus[];
+    isSyncing: boolean;
+    onSync: () => void;
+    onSendAnyway: (id: string) => void;
+    onDiscard: (id: string) => void;
+}
+
+const KIND_MESSAGES: Record<QueuedChange['kind'], MessageKey> = {
+    create: 'offline.kind.create',
+    update: 'offline.kind.update',
+    delete: 'offline.kind.delete',
+    transition: 'offline.kind.transition',
+};
+
+// Says when the app is offline and lists the changes waiting to be sent, with those the server refused.
+export const OfflineQueuePanel: React.FC<OfflineQueuePanelProps> = ({ isOnline, changes, campuses, isSyncing, onSync, onSendAnyway, onDiscard }) => {
+    const { t } = useLanguage();
+    if (isOnline && changes.length === 0) return null;
+
+    const conflicts = changes.filter(change => change.conflict).length;
+    const pending = changes.length - conflicts;
+
+    return (
+        <div className={`mb-6 p-4 border rounded-lg ${conflicts > 0 ? 'border-red-300 bg-red-50' : 'border-yellow-300 bg-yellow-50'}`}>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="text-gray-800">
+                    {!isOnline && <p className="font-semibold">{t('offline.offline')}</p>}
+                    {pending > 0 && <p>{t('offline.pending', { count: pending })}</p>}
+                    {conflicts > 0 && <p className="font-semibold text-red-700">{t('offline.conflicts', { count: conflicts })}</p>}
+                </div>
+                {pending > 0 && isOnline && (
+                    <CustomButton onClick={onSync} disabled={isSyncing} color="blue">
+                        {isSyncing ? t('offline.syncing') : t('offline.syncNow')}
+                    </CustomButton>
+                )}
+            </div>
+            {changes.length > 0 && (
+                <ul className="mt-3 divide-y divide-gray-200 text-sm">
+                    {changes.map(change => {
+                        const report = change.report || change.base;
+                        return (
+                            <li key={change.id} className="py-2 flex flex-wrap items-center justify-between gap-3">
+                                <div>
+                                    <span className="font-medium">{t(KIND_MESSAGES[change.kind], { status: change.to ? t(STATUS_MESSAGES[change.to]) : '' })}</span>
+                                    {report && (
+                                        <span className="text-gray-600">
+                                            {' · '}{report.requesterName}, {campusName(campuses, report.campus)}, {report.importDate}
+                                        </span>
+                                    )}
+                                    {change.conflict && <span className="block text-red-700">{change.conflict}</span>}
+                                </div>
+                                {change.conflict && (
+                                    <div className="flex gap-2">
+                                        <CustomButton onClick={() => onSendAnyway(change.id)} disabled={isSyncing || !isOnline} color="gray">
+                                            {t('offline.sendAnyway')}
+                                        </CustomButton>
+                                        <CustomButton onClick={() => onDiscard(change.id)} disabled={isSyncing} color="red">
+                                            {t('offline.discard')}
+                                        </CustomButton>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
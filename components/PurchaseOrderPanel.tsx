@@ -0,0 +1,363 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import type { Campus, CatalogItem, PurchaseOrder, PurchaseOrderStatus } from '../types';
+import type { PurchaseOrderInput, ReceiptInput } from '../api';
+import { CENTRAL_WAREHOUSE } from '../constants';
+import { itemLabel } from '../catalog';
+import { locationName } from '../campuses';
+import type { StockLocation } from '../campuses';
+import { isOpenPurchaseOrder, outstandingQuantities, purchaseOrderTotal, receivedQuantities } from '../purchasing';
+import { formatCost } from '../costing';
+import type { MessageKey } from '../i18n';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface PurchaseOrderPanelProps {
+    purchaseOrders: PurchaseOrder[];
+    locations: StockLocation[]; // The locations open for stock
+    campuses: Campus[]; // Every campus, retired ones included, for naming past orders
+    items: CatalogItem[]; // The items that can be ordered
+    catalog: CatalogItem[]; // Every item, archived ones included, for naming past orders
+    isSaving: boolean;
+    onCreateOrder: (order: PurchaseOrderInput) => Promise<boolean>; // Resolves to true once the order is saved
+    onReceive: (order: PurchaseOrder, receipt: ReceiptInput) => Promise<boolean>; // Resolves to true once the receipt is posted
+    onCancelOrder: (order: PurchaseOrder) => void;
+}
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+    Open: 'bg-yellow-100 text-yellow-800',
+    'Partially Received': 'bg-blue-100 text-blue-800',
+    Received: 'bg-green-100 text-green-800',
+    Cancelled: 'bg-gray-200 text-gray-600',
+};
+
+const STATUS_MESSAGES: Record<PurchaseOrderStatus, MessageKey> = {
+    Open: 'purchase.status.open',
+    'Partially Received': 'purchase.status.partiallyReceived',
+    Received: 'purchase.status.received',
+    Cancelled: 'purchase.status.cancelled',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const initialOrderForm = () => ({
+    supplier: '',
+    location: CENTRAL_WAREHOUSE,
+    orderDate: today(),
+    expectedDate: '',
+    note: '',
+});
+
+// Purchase orders placed with suppliers, and the goods received against them.
+export const PurchaseOrderPanel: React.FC<PurchaseOrderPanelProps> = ({
+    purchaseOrders, locations, campuses, items, catalog, isSaving, onCreateOrder, onReceive, onCancelOrder,
+}) => {
+    const { language, t, tRich } = useLanguage();
+    const [orderForm, setOrderForm] = useState(initialOrderForm);
+    // Quantity and unit cost per item id, as typed
+    const [orderLines, setOrderLines] = useState<Record<string, { quantity: string; unitCost: string }>>({});
+    const [showClosed, setShowClosed] = useState(false);
+    const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+    const [receiptItems, setReceiptItems] = useState<Record<string, string>>({});
+    const [receiptDate, setReceiptDate] = useState(today);
+    const [receiptNote, setReceiptNote] = useState('');
+
+    const suppliers = useMemo(() => Array.from(new Set(purchaseOrders.map(order => order.supplier))).sort(), [purchaseOrders]);
+    const visibleOrders = useMemo(
+        () => [...purchaseOrders].reverse().filter(order => showClosed || isOpenPurchaseOrder(order)),
+        [purchaseOrders, showClosed]
+    );
+    const selectedOrder = purchaseOrders.find(order => order.id === selectedOrderId) || null;
+
+    const handleFieldChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setOrderForm(prev => ({ ...prev, [name]: value }));
+    }, []);
+
+    const handleLineChange = useCallback((item: string, field: 'quantity' | 'unitCost', value: string) => {
+        setOrderLines(prev => ({ ...prev, [item]: { ...(prev[item] || { quantity: '', unitCost: '' }), [field]: value } }));
+    }, []);
+
+    const handleCreateOrder = useCallback(async () => {
+        if (!orderForm.supplier.trim() || !orderForm.orderDate) {
+            alert(t('purchase.incomplete'));
+            return;
+        }
+        const lines = Object.entries(orderLines)
+            .map(([item, line]) => ({ item, quantity: parseInt(line.quantity, 10), unitCost: parseFloat(line.unitCost) || 0 }))
+            .filter(line => !isNaN(line.quantity) && line.quantity > 0);
+        if (lines.length === 0) {
+            alert(t('purchase.noLines'));
+            return;
+        }
+        const saved = await onCreateOrder({
+            supplier: orderForm.supplier.trim(),
+            location: orderForm.location,
+            lines,
+            orderDate: orderForm.orderDate,
+            expectedDate: orderForm.expectedDate || undefined,
+            note: orderForm.note,
+        });
+        if (saved) {
+            setOrderForm(initialOrderForm());
+            setOrderLines({});
+        }
+    }, [orderForm, orderLines, onCreateOrder, t]);
+
+    const handleSelectOrder = useCallback((order: PurchaseOrder) => {
+        setSelectedOrderId(order.id);
+        // Start from everything still outstanding; a partial delivery just lowers the numbers
+        const outstanding = outstandingQuantities(order);
+        setReceiptItems(Object.fromEntries(Object.entries(outstanding).map(([item, quantity]) => [item, String(quantity)])));
+        setReceiptDate(today());
+        setReceiptNote('');
+    }, []);
+
+    const handleReceive = useCallback(async () => {
+        if (!selectedOrder) return;
+        const items: Record<string, number> = {};
+        for (const [item, value] of Object.entries(receiptItems)) {
+            const quantity = parseInt(value, 10);
+            if (!isNaN(quantity) && quantity > 0) items[item] = quantity;
+        }
+        if (Object.keys(items).length === 0) {
+            alert(t('purchase.nothingToReceive'));
+            return;
+        }
+        if (await onReceive(selectedOrder, { date: receiptDate, items, note: receiptNote })) {
+            setSelectedOrderId(null);
+        }
+    }, [selectedOrder, receiptItems, receiptDate, receiptNote, onReceive, t]);
+
+    const received = selectedOrder ? receivedQuantities(selectedOrder) : {};
+    const outstanding = selectedOrder ? outstandingQuantities(selectedOrder) : {};
+
+    return (
+        <div className="p-4 border border-gray-200 rounded-lg space-y-6 mb-4">
+            <h3 className="text-lg font-bold text-gray-800">{t('purchase.new')}</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-6">
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('purchase.supplier')}</label>
+                    <input
+                        type="text"
+                        name="supplier"
+                        list="purchase-order-suppliers"
+                        value={orderForm.supplier}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                    <datalist id="purchase-order-suppliers">
+                        {suppliers.map(supplier => <option key={supplier} value={supplier} />)}
+                    </datalist>
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('purchase.deliverTo')}</label>
+                    <select
+                        name="location"
+                        value={orderForm.location}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
+                    >
+                        {locations.map(location => (
+                            <option key={location.id} value={location.id}>{location.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('purchase.orderDate')}</label>
+                    <input
+                        type="date"
+                        name="orderDate"
+                        value={orderForm.orderDate}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('purchase.expected')}</label>
+                    <input
+                        type="date"
+                        name="expectedDate"
+                        value={orderForm.expectedDate}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-3">
+                {items.map(item => (
+                    <div key={item.id} className="flex items-center justify-between gap-2">
+                        <span className="text-gray-700 font-medium flex-grow">{item.nameEn}</span>
+                        <input
+                            type="number"
+                            min="0"
+                            placeholder={t('purchase.quantity')}
+                            value={orderLines[item.id]?.quantity || ''}
+                            onChange={(e) => handleLineChange(item.id, 'quantity', e.target.value)}
+                            className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center"
+                            aria-label={t('purchase.quantityFor', { item: item.nameEn })}
+                        />
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder={t('prices.unitCost')}
+                            value={orderLines[item.id]?.unitCost || ''}
+                            onChange={(e) => handleLineChange(item.id, 'unitCost', e.target.value)}
+                            className="w-28 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center"
+                            aria-label={t('purchase.unitCostFor', { item: item.nameEn })}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+                <input
+                    type="text"
+                    name="note"
+                    value={orderForm.note}
+                    onChange={handleFieldChange}
+                    placeholder={t('common.note')}
+                    className="flex-grow min-w-[200px] px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                />
+                <CustomButton onClick={handleCreateOrder} disabled={isSaving} color="blue">{t('purchase.create')}</CustomButton>
+            </div>
+
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <h3 className="text-lg font-bold text-gray-800">{t('stock.purchaseOrders')}</h3>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                        type="checkbox"
+                        checked={showClosed}
+                        onChange={(e) => setShowClosed(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {t('purchase.showClosed')}
+                </label>
+            </div>
+            <div className="overflow-y-auto max-h-[240px] overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full bg-white text-sm">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('purchase.number')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('purchase.supplier')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('purchase.deliverTo')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('purchase.expected')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('purchase.onTheWay')}</th>
+                            <th className="py-2 px-3 text-right font-bold text-gray-600">{t('table.total')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('table.status')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {visibleOrders.length > 0 ? visibleOrders.map(order => (
+                            <tr
+                                key={order.id}
+                                onClick={() => handleSelectOrder(order)}
+                                className={`cursor-pointer transition-colors duration-200 ${selectedOrderId === order.id ? 'bg-indigo-100' : 'hover:bg-gray-50'}`}
+                            >
+                                <td className="py-2 px-3 whitespace-nowrap">{order.number}</td>
+                                <td className="py-2 px-3 whitespace-nowrap">{order.supplier}</td>
+                                <td className="py-2 px-3 whitespace-nowrap">{locationName(campuses, order.location)}</td>
+                                <td className="py-2 px-3 whitespace-nowrap">{order.expectedDate || '—'}</td>
+                                <td className="py-2 px-3">
+                                    {Object.entries(outstandingQuantities(order)).map(([item, quantity]) => `${itemLabel(catalog, item)} (${quantity})`).join(', ') || '—'}
+                                </td>
+                                <td className="py-2 px-3 whitespace-nowrap text-right">{formatCost(purchaseOrderTotal(order), language)}</td>
+                                <td className="py-2 px-3 whitespace-nowrap">
+                                    <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_CLASSES[order.status]}`}>
+                                        {t(STATUS_MESSAGES[order.status])}
+                                    </span>
+                                </td>
+                            </tr>
+                        )) : (
+                            <tr>
+                                <td colSpan={7} className="text-center py-6 text-gray-500">{t('purchase.empty')}</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {selectedOrder && (
+                <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-4">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <h4 className="text-base font-bold text-gray-800">{selectedOrder.number}: {selectedOrder.supplier}</h4>
+                        <span className="text-sm text-gray-500">{t('purchase.orderedBy', { date: selectedOrder.orderDate, name: selectedOrder.byName })}</span>
+                        {selectedOrder.note && <span className="text-sm text-gray-500">— {selectedOrder.note}</span>}
+                    </div>
+                    <table className="min-w-full bg-white text-sm border border-gray-200">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('forecast.item')}</th>
+                                <th className="py-2 px-3 text-right font-bold text-gray-600">{t('purchase.ordered')}</th>
+                                <th className="py-2 px-3 text-right font-bold text-gray-600">{t('prices.unitCost')}</th>
+                                <th className="py-2 px-3 text-right font-bold text-gray-600">{t('purchase.received')}</th>
+                                <th className="py-2 px-3 text-right font-bold text-gray-600">{t('purchase.outstanding')}</th>
+                                {isOpenPurchaseOrder(selectedOrder) && <th className="py-2 px-3 text-right font-bold text-gray-600">{t('purchase.receiveNow')}</th>}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {selectedOrder.lines.map(line => (
+                                <tr key={line.item}>
+                                    <td className="py-2 px-3 whitespace-nowrap">{itemLabel(catalog, line.item)}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap text-right">{line.quantity}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap text-right">{formatCost(line.unitCost, language)}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap text-right">{received[line.item] || 0}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap text-right">{outstanding[line.item] || 0}</td>
+                                    {isOpenPurchaseOrder(selectedOrder) && (
+                                        <td className="py-2 px-3 whitespace-nowrap text-right">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                max={outstanding[line.item] || 0}
+                                                disabled={!outstanding[line.item]}
+                                                value={receiptItems[line.item] || ''}
+                                                onChange={(e) => setReceiptItems(prev => ({ ...prev, [line.item]: e.target.value }))}
+                                                className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center disabled:bg-gray-50"
+                                                aria-label={t('purchase.receivedFor', { item: itemLabel(catalog, line.item) })}
+                                            />
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {isOpenPurchaseOrder(selectedOrder) && (
+                        <div className="flex flex-wrap items-center gap-4">
+                            <input
+                                type="date"
+                                value={receiptDate}
+                                onChange={(e) => setReceiptDate(e.target.value)}
+                                aria-label={t('purchase.dateReceived')}
+                                className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                            />
+                            <input
+                                type="text"
+                                value={receiptNote}
+                                onChange={(e) => setReceiptNote(e.target.value)}
+                                placeholder={t('purchase.deliveryNote')}
+                                className="flex-grow min-w-[200px] px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                            />
+                            <CustomButton onClick={handleReceive} disabled={isSaving} color="green">{t('purchase.receive')}</CustomButton>
+                            <CustomButton onClick={() => onCancelOrder(selectedOrder)} disabled={isSaving} color="red">{t('confirm.cancelPurchaseOrder.button')}</CustomButton>
+                        </div>
+                    )}
+                    {selectedOrder.receipts.length > 0 ? (
+                        <ol className="space-y-1 text-sm text-gray-700">
+                            {selectedOrder.receipts.map(receipt => (
+                                <li key={receipt.id}>
+                                    <span className="text-gray-500">{receipt.date}</span>{' '}
+                                    {tRich('purchase.receipt', {
+                                        name: <strong>{receipt.byName}</strong>,
+                                        items: Object.entries(receipt.items).map(([item, quantity]) => `${itemLabel(catalog, item)} (${quantity})`).join(', '),
+                                    })}
+                                    {receipt.note && <span className="text-gray-500"> — {receipt.note}</span>}
+                                </li>
+                            ))}
+                        </ol>
+                    ) : (
+                        <p className="text-sm text-gray-500">{t('purchase.nothingReceived')}</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
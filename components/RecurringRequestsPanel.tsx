@@ -0,0 +1,495 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import type { Campus, CatalogItem, RequestSchedule, RequestTemplate, ScheduleFailureReason, ScheduleFrequency, User } from '../types';
+import type { RequestScheduleInput, RequestTemplateInput } from '../api';
+import * as api from '../api';
+import { activeCampuses, campusName } from '../campuses';
+import { activeCatalogItems, itemLabel } from '../catalog';
+import type { MessageKey } from '../i18n';
+import { canManageCampusRequests } from '../permissions';
+import { UPCOMING_DAYS, upcomingOccurrences } from '../schedules';
+import type { Occurrence } from '../schedules';
+import { ConfirmationModal } from './ConfirmationModal';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface RecurringRequestsPanelProps {
+    currentUser: User;
+    campuses: Campus[];
+    catalog: CatalogItem[];
+    templates: RequestTemplate[];
+    schedules: RequestSchedule[];
+    onTemplateSaved: (template: RequestTemplate) => void;
+    onTemplateDeleted: (id: string) => void;
+    onScheduleSaved: (schedule: RequestSchedule) => void; // Saving can create a request that is due today
+    onScheduleDeleted: (id: string) => void;
+    onOutOfDate: () => void;
+}
+
+const FREQUENCY_MESSAGES: Record<ScheduleFrequency, MessageKey> = {
+    weekly: 'recurring.weekly',
+    monthly: 'recurring.monthly',
+};
+
+const FAILURE_MESSAGES: Record<ScheduleFailureReason, MessageKey> = {
+    unavailable: 'recurring.failedUnavailable',
+    noItems: 'recurring.failedNoItems',
+    error: 'recurring.failedError',
+};
+
+const initialTemplateForm: RequestTemplateInput = { campus: '', name: '', items: {} };
+
+const initialScheduleForm = (): RequestScheduleInput => ({
+    templateId: '',
+    frequency: 'monthly',
+    startDate: new Date().toISOString().split('T')[0],
+});
+
+// The due date whose quantities are being changed, with the quantities as typed so far.
+interface OccurrenceEdit {
+    scheduleId: string;
+    date: string;
+    skipped: boolean;
+    items: Record<string, number>;
+}
+
+const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white';
+const labelClass = 'absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600 font-serif-khmer';
+const headerClass = 'py-2 px-3 text-left font-bold text-gray-600';
+
+const quantitiesWith = (items: Record<string, number>, item: string, value: string): Record<string, number> => {
+    const quantity = parseInt(value, 10);
+    const { [item]: _previous, ...rest } = items;
+    return !isNaN(quantity) && quantity > 0 ? { ...rest, [item]: quantity } : rest;
+};
+
+interface QuantityGridProps {
+    catalog: CatalogItem[];
+    items: Record<string, number>;
+    onChange: (items: Record<string, number>) => void;
+    disabled: boolean;
+}
+
+// The item quantities of a template or of one due date, laid out like the request form's.
+const QuantityGrid: React.FC<QuantityGridProps> = ({ catalog, items, onChange, disabled }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-8 gap-y-3 p-4 border border-gray-200 rounded-lg bg-white">
+            {activeCatalogItems(catalog).map(item => (
+                <label key={item.id} className="flex items-center justify-between gap-2 text-gray-700 text-sm font-medium">
+                    {item.nameEn}
+                    <input
+                        type="number"
+                        min="0"
+                        placeholder="0"
+                        value={items[item.id] || ''}
+                        onChange={(e) => onChange(quantitiesWith(items, item.id, e.target.value))}
+                        disabled={disabled}
+                        aria-label={t('form.quantityFor', { item: item.nameEn })}
+                        className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center disabled:bg-gray-50"
+                    />
+                </label>
+            ))}
+        </div>
+    );
+};
+
+// Templates a campus requests from, the schedules that request them by themselves, and the due dates coming up,
+// which can be skipped or asked for in other quantities before their request is made.
+export const RecurringRequestsPanel: React.FC<RecurringRequestsPanelProps> = ({
+    currentUser,
+    campuses,
+    catalog,
+    templates,
+    schedules,
+    onTemplateSaved,
+    onTemplateDeleted,
+    onScheduleSaved,
+    onScheduleDeleted,
+    onOutOfDate,
+}) => {
+    const { t } = useLanguage();
+    const [templateForm, setTemplateForm] = useState<RequestTemplateInput>(initialTemplateForm);
+    const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+    const [scheduleForm, setScheduleForm] = useState<RequestScheduleInput>(initialScheduleForm);
+    const [selectedScheduleId, setSelectedScheduleId] = useState<string | null>(null);
+    const [occurrenceEdit, setOccurrenceEdit] = useState<OccurrenceEdit | null>(null);
+    const [pendingDelete, setPendingDelete] = useState<'template' | 'schedule' | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const campusOptions = useMemo(
+        () => activeCampuses(campuses).filter(campus => canManageCampusRequests(currentUser, campus.id)),
+        [campuses, currentUser]
+    );
+    const upcoming = useMemo(
+        () => upcomingOccurrences(schedules, templates, new Date().toISOString().split('T')[0]),
+        [schedules, templates]
+    );
+    const templateName = (id: string) => templates.find(template => template.id === id)?.name || t('recurring.deletedTemplate');
+    const itemsSummary = (items: Record<string, number>) =>
+        Object.entries(items).map(([item, quantity]) => `${itemLabel(catalog, item)} × ${quantity}`).join(', ');
+
+    // Shared by every save in the panel: a refused save caused by an out-of-date copy brings in the latest one
+    const save = useCallback(async (action: () => Promise<void>, errorKey: MessageKey) => {
+        setIsSaving(true);
+        try {
+            await action();
+            return true;
+        } catch (error) {
+            console.error("Error saving recurring requests:", error);
+            alert(`${t(errorKey)} ${error instanceof Error ? error.message : ''}`);
+            if (api.isConflictError(error)) onOutOfDate();
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [onOutOfDate, t]);
+
+    const clearTemplateForm = useCallback(() => {
+        setTemplateForm(initialTemplateForm);
+        setSelectedTemplateId(null);
+    }, []);
+
+    const clearScheduleForm = useCallback(() => {
+        setScheduleForm(initialScheduleForm());
+        setSelectedScheduleId(null);
+    }, []);
+
+    const handleSelectTemplate = useCallback((template: RequestTemplate) => {
+        setSelectedTemplateId(template.id);
+        setTemplateForm({ campus: template.campus, name: template.name, items: template.items });
+    }, []);
+
+    const handleSelectSchedule = useCallback((schedule: RequestSchedule) => {
+        setSelectedScheduleId(schedule.id);
+        setScheduleForm({ templateId: schedule.templateId, frequency: schedule.frequency, startDate: schedule.startDate });
+    }, []);
+
+    const handleSaveTemplate = useCallback(async () => {
+        if (!templateForm.campus || !templateForm.name.trim() || Object.keys(templateForm.items).length === 0) {
+            alert(t('recurring.incompleteTemplate'));
+            return;
+        }
+        const saved = await save(async () => {
+            onTemplateSaved(selectedTemplateId
+                ? await api.updateTemplate(selectedTemplateId, templateForm)
+                : await api.createTemplate(templateForm));
+        }, 'error.cannotSaveTemplate');
+        if (saved) clearTemplateForm();
+    }, [templateForm, selectedTemplateId, save, onTemplateSaved, clearTemplateForm, t]);
+
+    const handleSaveSchedule = useCallback(async () => {
+        if (!scheduleForm.templateId || !scheduleForm.startDate) {
+            alert(t('recurring.incompleteSchedule'));
+            return;
+        }
+        const saved = await save(async () => {
+            onScheduleSaved(selectedScheduleId
+                ? await api.updateSchedule(selectedScheduleId, scheduleForm)
+                : await api.createSchedule(scheduleForm));
+        }, 'error.cannotSaveSchedule');
+        if (saved) clearScheduleForm();
+    }, [scheduleForm, selectedScheduleId, save, onScheduleSaved, clearScheduleForm, t]);
+
+    const handleConfirmDelete = useCallback(async () => {
+        const deleting = pendingDelete;
+        setPendingDelete(null);
+        if (deleting === 'template' && selectedTemplateId) {
+            if (await save(async () => {
+                await api.deleteTemplate(selectedTemplateId);
+                onTemplateDeleted(selectedTemplateId);
+            }, 'error.cannotDeleteTemplate')) clearTemplateForm();
+        } else if (deleting === 'schedule' && selectedScheduleId) {
+            if (await save(async () => {
+                await api.deleteSchedule(selectedScheduleId);
+                onScheduleDeleted(selectedScheduleId);
+            }, 'error.cannotDeleteSchedule')) clearScheduleForm();
+        }
+    }, [pendingDelete, selectedTemplateId, selectedScheduleId, save, onTemplateDeleted, onScheduleDeleted, clearTemplateForm, clearScheduleForm]);
+
+    const saveOccurrence = useCallback(async (occurrence: Pick<Occurrence, 'date' | 'skipped'> & { scheduleId: string }, items: Record<string, number> | null) => {
+        const saved = await save(async () => {
+            onScheduleSaved(await api.setOccurrence(occurrence.scheduleId, occurrence.date, occurrence.skipped, items));
+        }, 'error.cannotSaveSchedule');
+        if (saved) setOccurrenceEdit(null);
+    }, [save, onScheduleSaved]);
+
+    const handleSaveOccurrenceEdit = useCallback(() => {
+        if (!occurrenceEdit) return;
+        if (Object.keys(occurrenceEdit.items).length === 0) {
+            alert(t('recurring.noQuantities'));
+            return;
+        }
+        saveOccurrence(occurrenceEdit, occurrenceEdit.items);
+    }, [occurrenceEdit, saveOccurrence, t]);
+
+    return (
+        <div className="mb-8 p-4 sm:p-6 border border-gray-200 rounded-lg space-y-8">
+            <h2 className="text-2xl font-normal text-gray-600">{t('recurring.title')}</h2>
+
+            {/* Templates */}
+            <section className="space-y-4">
+                <h3 className="text-lg font-bold text-gray-800">{t('recurring.templates')}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                    <div className="relative">
+                        <label className={labelClass}>{t('form.campus')}</label>
+                        <select
+                            value={templateForm.campus}
+                            onChange={(e) => setTemplateForm(prev => ({ ...prev, campus: e.target.value }))}
+                            className={inputClass}
+                        >
+                            <option value="">{t('form.selectCampus')}</option>
+                            {campusOptions.map(campus => (
+                                <option key={campus.id} value={campus.id}>{campus.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="relative">
+                        <label className={labelClass}>{t('templates.name')}</label>
+                        <input
+                            type="text"
+                            value={templateForm.name}
+                            onChange={(e) => setTemplateForm(prev => ({ ...prev, name: e.target.value }))}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+                <QuantityGrid
+                    catalog={catalog}
+                    items={templateForm.items}
+                    onChange={(items) => setTemplateForm(prev => ({ ...prev, items }))}
+                    disabled={isSaving}
+                />
+                <div className="flex flex-wrap items-center gap-4">
+                    <CustomButton onClick={handleSaveTemplate} disabled={isSaving} color={selectedTemplateId ? 'green' : 'blue'}>
+                        {selectedTemplateId ? t('form.update') : t('form.add')}
+                    </CustomButton>
+                    {selectedTemplateId && (
+                        <CustomButton onClick={() => setPendingDelete('template')} disabled={isSaving} color="red">{t('form.delete')}</CustomButton>
+                    )}
+                    <CustomButton onClick={clearTemplateForm} color="gray">{t('form.clear')}</CustomButton>
+                </div>
+                <div className="overflow-y-auto max-h-[240px] overflow-x-auto border border-gray-200 rounded-lg">
+                    <table className="min-w-full bg-white text-sm">
+                        <thead className="sticky top-0 bg-gray-100">
+                            <tr>
+                                <th className={headerClass}>{t('templates.name')}</th>
+                                <th className={headerClass}>{t('form.campus')}</th>
+                                <th className={headerClass}>{t('form.items')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {templates.length > 0 ? templates.map(template => (
+                                <tr
+                                    key={template.id}
+                                    onClick={() => handleSelectTemplate(template)}
+                                    className={`cursor-pointer transition-colors duration-200 ${selectedTemplateId === template.id ? 'bg-indigo-100' : 'hover:bg-gray-50'}`}
+                                >
+                                    <td className="py-2 px-3 whitespace-nowrap">{template.name}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap">{campusName(campuses, template.campus)}</td>
+                                    <td className="py-2 px-3">{itemsSummary(template.items)}</td>
+                                </tr>
+                            )) : (
+                                <tr>
+                                    <td colSpan={3} className="text-center py-4 text-gray-500">{t('recurring.noTemplates')}</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+
+            {/* Schedules */}
+            <section className="space-y-4">
+                <div>
+                    <h3 className="text-lg font-bold text-gray-800">{t('recurring.schedules')}</h3>
+                    <p className="text-sm text-gray-500">{t('recurring.schedulesHint')}</p>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                    <div className="relative">
+                        <label className={labelClass}>{t('recurring.template')}</label>
+                        <select
+                            value={scheduleForm.templateId}
+                            onChange={(e) => setScheduleForm(prev => ({ ...prev, templateId: e.target.value }))}
+                            className={inputClass}
+                        >
+                            <option value="">{t('recurring.selectTemplate')}</option>
+                            {templates.map(template => (
+                                <option key={template.id} value={template.id}>{template.name} ({campusName(campuses, template.campus)})</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="relative">
+                        <label className={labelClass}>{t('recurring.frequency')}</label>
+                        <select
+                            value={scheduleForm.frequency}
+                            onChange={(e) => setScheduleForm(prev => ({ ...prev, frequency: e.target.value as ScheduleFrequency }))}
+                            className={inputClass}
+                        >
+                            {(Object.keys(FREQUENCY_MESSAGES) as ScheduleFrequency[]).map(frequency => (
+                                <option key={frequency} value={frequency}>{t(FREQUENCY_MESSAGES[frequency])}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="relative">
+                        <label className={labelClass}>{t('recurring.startDate')}</label>
+                        <input
+                            type="date"
+                            value={scheduleForm.startDate}
+                            onChange={(e) => setScheduleForm(prev => ({ ...prev, startDate: e.target.value }))}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-4">
+                    <CustomButton onClick={handleSaveSchedule} disabled={isSaving} color={selectedScheduleId ? 'green' : 'blue'}>
+                        {selectedScheduleId ? t('form.update') : t('form.add')}
+                    </CustomButton>
+                    {selectedScheduleId && (
+                        <CustomButton onClick={() => setPendingDelete('schedule')} disabled={isSaving} color="red">{t('form.delete')}</CustomButton>
+                    )}
+                    <CustomButton onClick={clearScheduleForm} color="gray">{t('form.clear')}</CustomButton>
+                </div>
+                <div className="overflow-y-auto max-h-[240px] overflow-x-auto border border-gray-200 rounded-lg">
+                    <table className="min-w-full bg-white text-sm">
+                        <thead className="sticky top-0 bg-gray-100">
+                            <tr>
+                                <th className={headerClass}>{t('recurring.template')}</th>
+                                <th className={headerClass}>{t('recurring.frequency')}</th>
+                                <th className={headerClass}>{t('recurring.startDate')}</th>
+                                <th className={headerClass}>{t('recurring.requestedBy')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {schedules.length > 0 ? schedules.map(schedule => (
+                                <tr
+                                    key={schedule.id}
+                                    onClick={() => handleSelectSchedule(schedule)}
+                                    className={`cursor-pointer transition-colors duration-200 ${selectedScheduleId === schedule.id ? 'bg-indigo-100' : 'hover:bg-gray-50'}`}
+                                >
+                                    <td className="py-2 px-3">
+                                        <div className="whitespace-nowrap">{templateName(schedule.templateId)}</div>
+                                        {schedule.failure && (
+                                            <div className="text-xs text-red-600">
+                                                {t(FAILURE_MESSAGES[schedule.failure.reason], { date: schedule.failure.date, error: schedule.failure.message || '' })}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="py-2 px-3 whitespace-nowrap">{t(FREQUENCY_MESSAGES[schedule.frequency])}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap">{schedule.startDate}</td>
+                                    <td className="py-2 px-3 whitespace-nowrap">{schedule.requesterName}</td>
+                                </tr>
+                            )) : (
+                                <tr>
+                                    <td colSpan={4} className="text-center py-4 text-gray-500">{t('recurring.noSchedules')}</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+
+            {/* Upcoming due dates */}
+            <section className="space-y-4">
+                <div>
+                    <h3 className="text-lg font-bold text-gray-800">{t('recurring.upcoming')}</h3>
+                    <p className="text-sm text-gray-500">{t('recurring.upcomingHint', { days: UPCOMING_DAYS })}</p>
+                </div>
+                <div className="overflow-y-auto max-h-[360px] overflow-x-auto border border-gray-200 rounded-lg">
+                    <table className="min-w-full bg-white text-sm">
+                        <thead className="sticky top-0 bg-gray-100">
+                            <tr>
+                                <th className={headerClass}>{t('recurring.dueDate')}</th>
+                                <th className={headerClass}>{t('recurring.template')}</th>
+                                <th className={headerClass}>{t('form.campus')}</th>
+                                <th className={headerClass}>{t('form.items')}</th>
+                                <th className={headerClass}></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {upcoming.length > 0 ? upcoming.map(occurrence => {
+                                const { schedule, template, date, items, skipped, changed, missed } = occurrence;
+                                const isEditingThis = occurrenceEdit?.scheduleId === schedule.id && occurrenceEdit.date === date;
+                                return (
+                                    <React.Fragment key={`${schedule.id}-${date}`}>
+                                        <tr className={skipped ? 'text-gray-400' : ''}>
+                                            <td className="py-2 px-3 whitespace-nowrap">{date}</td>
+                                            <td className="py-2 px-3 whitespace-nowrap">{template?.name || t('recurring.deletedTemplate')}</td>
+                                            <td className="py-2 px-3 whitespace-nowrap">{template ? campusName(campuses, template.campus) : ''}</td>
+                                            <td className={`py-2 px-3 ${skipped ? 'line-through' : ''}`}>
+                                                {itemsSummary(items)}
+                                                {changed && <span className="ml-2 text-xs font-semibold text-indigo-700">{t('recurring.changed')}</span>}
+                                                {missed && (
+                                                    <div className="text-xs text-red-600">
+                                                        {t(FAILURE_MESSAGES[missed.reason], { date, error: missed.message || '' })}
+                                                    </div>
+                                                )}
+                                            </td>
+                                            <td className="py-2 px-3">
+                                                <div className="flex flex-wrap justify-end gap-2">
+                                                    {skipped && <span className="self-center text-xs font-semibold text-gray-500">{t('recurring.skipped')}</span>}
+                                                    <CustomButton
+                                                        onClick={() => saveOccurrence({ scheduleId: schedule.id, date, skipped: !skipped }, schedule.changedItems[date] || null)}
+                                                        disabled={isSaving}
+                                                        color="gray"
+                                                    >
+                                                        {skipped ? t('recurring.restore') : t('recurring.skip')}
+                                                    </CustomButton>
+                                                    {!skipped && (
+                                                        <CustomButton
+                                                            onClick={() => setOccurrenceEdit(isEditingThis ? null : { scheduleId: schedule.id, date, skipped, items })}
+                                                            disabled={isSaving}
+                                                            color="blue"
+                                                        >
+                                                            {t('recurring.editQuantities')}
+                                                        </CustomButton>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                        {isEditingThis && occurrenceEdit && (
+                                            <tr>
+                                                <td colSpan={5} className="p-3 bg-gray-50 space-y-3">
+                                                    <QuantityGrid
+                                                        catalog={catalog}
+                                                        items={occurrenceEdit.items}
+                                                        onChange={(changedItems) => setOccurrenceEdit(prev => prev && { ...prev, items: changedItems })}
+                                                        disabled={isSaving}
+                                                    />
+                                                    <div className="flex flex-wrap gap-3">
+                                                        <CustomButton onClick={handleSaveOccurrenceEdit} disabled={isSaving} color="green">
+                                                            {t('recurring.saveQuantities')}
+                                                        </CustomButton>
+                                                        {changed && (
+                                                            <CustomButton onClick={() => saveOccurrence(occurrenceEdit, null)} disabled={isSaving} color="gray">
+                                                                {t('recurring.useTemplateQuantities')}
+                                                            </CustomButton>
+                                                        )}
+                                                        <CustomButton onClick={() => setOccurrenceEdit(null)} color="gray">{t('common.cancel')}</CustomButton>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            }) : (
+                                <tr>
+                                    <td colSpan={5} className="text-center py-4 text-gray-500">{t('recurring.noUpcoming')}</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+
+            <ConfirmationModal
+                isOpen={pendingDelete !== null}
+                onConfirm={handleConfirmDelete}
+                onCancel={() => setPendingDelete(null)}
+                title={pendingDelete === 'schedule' ? t('recurring.deleteScheduleTitle') : t('recurring.deleteTemplateTitle')}
+                confirmButtonText={t('form.delete')}
+            >
+                <p>{pendingDelete === 'schedule' ? t('recurring.deleteScheduleBody') : t('recurring.deleteTemplateBody')}</p>
+            </ConfirmationModal>
+        </div>
+    );
+};
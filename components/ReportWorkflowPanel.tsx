@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import type { Report, ReportStatus, User } from '../types';
+import { availableTransitions } from '../workflow';
+import { defaultFulfilmentLocation } from '../stockLedger';
+import type { StockLocation } from '../campuses';
+import { STATUS_MESSAGES } from '../i18n';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+const STATUS_BADGE_CLASSES: Record<ReportStatus, string> = {
+    Submitted: 'bg-yellow-100 text-yellow-800',
+    Approved: 'bg-blue-100 text-blue-800',
+    Rejected: 'bg-red-100 text-red-800',
+    Fulfilled: 'bg-green-100 text-green-800',
+    Cancelled: 'bg-gray-200 text-gray-600',
+};
+
+const CHANGED_AT_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+export const StatusBadge: React.FC<{ status: ReportStatus }> = ({ status }) => {
+    const { t } = useLanguage();
+    return (
+        <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGE_CLASSES[status] || STATUS_BADGE_CLASSES.Submitted}`}>
+            {STATUS_MESSAGES[status] ? t(STATUS_MESSAGES[status]) : status}
+        </span>
+    );
+};
+
+interface ReportWorkflowPanelProps {
+    report: Report;
+    currentUser: User;
+    isSaving: boolean;
+    stockLocations: StockLocation[]; // The locations open for stock
+    fulfilledFromName?: string; // Display name of `report.fulfilledFrom`
+    onTransition: (to: ReportStatus, reason: string, location?: string) => void; // `location` is set when fulfilling
+}
+
+// Shows where the selected request is in the approval workflow and the moves the signed-in user can make.
+export const ReportWorkflowPanel: React.FC<ReportWorkflowPanelProps> = ({ report, currentUser, isSaving, stockLocations, fulfilledFromName, onTransition }) => {
+    const { t, tRich, formatDate } = useLanguage();
+    const [reason, setReason] = useState('');
+    const [fulfilmentLocation, setFulfilmentLocation] = useState(() => defaultFulfilmentLocation(report, stockLocations.map(location => location.id)));
+    const transitions = availableTransitions(report, currentUser);
+    const canFulfil = transitions.some(rule => rule.to === 'Fulfilled');
+    const history = report.statusHistory || [];
+
+    return (
+        <div className="mt-6 p-4 bg-gray-50 rounded-xl border border-gray-200">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <h3 className="text-lg font-bold text-gray-800">{t('workflow.title')}</h3>
+                <StatusBadge status={report.status} />
+                {report.fulfilledFrom && <span className="text-sm text-gray-500">{t('workflow.fulfilledFrom', { location: fulfilledFromName || report.fulfilledFrom })}</span>}
+            </div>
+
+            {transitions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-4 mb-4">
+                    <input
+                        type="text"
+                        value={reason}
+                        onChange={e => setReason(e.target.value)}
+                        placeholder={t('workflow.reason')}
+                        className="flex-grow min-w-[200px] px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                    {canFulfil && (
+                        <select
+                            value={fulfilmentLocation}
+                            onChange={e => setFulfilmentLocation(e.target.value)}
+                            title={t('workflow.fulfilmentLocation')}
+                            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white"
+                        >
+                            {stockLocations.map(location => (
+                                <option key={location.id} value={location.id}>{location.name}</option>
+                            ))}
+                        </select>
+                    )}
+                    {transitions.map(rule => (
+                        <CustomButton
+                            key={rule.to}
+                            onClick={() => onTransition(rule.to, reason, rule.to === 'Fulfilled' ? fulfilmentLocation : undefined)}
+                            disabled={isSaving}
+                            color={rule.to === 'Rejected' || rule.to === 'Cancelled' ? 'red' : 'green'}
+                        >
+                            {t(rule.label)}
+                        </CustomButton>
+                    ))}
+                </div>
+            )}
+
+            {history.length > 0 ? (
+                <ol className="space-y-2 text-sm text-gray-700">
+                    {history.map((change, index) => (
+                        <li key={`${change.at}-${index}`} className="flex flex-wrap gap-x-2">
+                            <span className="text-gray-500">{formatDate(new Date(change.at), CHANGED_AT_FORMAT)}</span>
+                            <span>
+                                {change.from
+                                    ? tRich('workflow.moved', { name: <strong>{change.byName}</strong>, from: t(STATUS_MESSAGES[change.from]), to: t(STATUS_MESSAGES[change.to]) })
+                                    : change.to === 'Submitted'
+                                        ? tRich('workflow.submitted', { name: <strong>{change.byName}</strong> })
+                                        : tRich('workflow.imported', { name: <strong>{change.byName}</strong>, status: t(STATUS_MESSAGES[change.to]) })}
+                            </span>
+                            {change.reason && <span className="text-gray-500">— {change.reason}</span>}
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                <p className="text-sm text-gray-500">{t('workflow.noHistory')}</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import type { CatalogItem } from '../types';
+import type { BudgetStatus, ReportCost } from '../costing';
+import { formatCost } from '../costing';
+import { itemLabel } from '../catalog';
+import { useLanguage } from './LanguageProvider';
+
+interface RequestCostPanelProps {
+    cost: ReportCost;
+    catalog: CatalogItem[];
+    budget: BudgetStatus | undefined; // The budget of the request's campus on its import date
+    budgetLeft: number; // What the budget has left with this request counted
+    hasOtherItems: boolean;
+}
+
+// The cost of the request in the form, and how it leaves the campus budget.
+export const RequestCostPanel: React.FC<RequestCostPanelProps> = ({ cost, catalog, budget, budgetLeft, hasOtherItems }) => {
+    const { language, t } = useLanguage();
+
+    return (
+        <div className="mt-6 p-4 border border-gray-200 rounded-lg space-y-1 text-sm">
+            <p className="text-base font-medium text-gray-800">{t('cost.requestCost', { amount: formatCost(cost.total, language) })}</p>
+            {cost.unpricedItems.length > 0 && (
+                <p className="text-gray-500">
+                    {t('cost.unpriced', { items: cost.unpricedItems.map(item => itemLabel(catalog, item)).join(', ') })}
+                </p>
+            )}
+            {hasOtherItems && <p className="text-gray-500">{t('cost.otherItemsNotCounted')}</p>}
+            {budget ? (
+                <>
+                    <p className="text-gray-700">
+                        {t('cost.budgetLeft', { period: budget.label, left: formatCost(budgetLeft, language), amount: formatCost(budget.amount, language) })}
+                    </p>
+                    {budgetLeft < 0 && (
+                        <p className="font-semibold text-red-600">{t('cost.overspend', { amount: formatCost(-budgetLeft, language) })}</p>
+                    )}
+                </>
+            ) : (
+                <p className="text-gray-500">{t('cost.noBudget')}</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,85 @@
+import React, { useCallback, useRef } from 'react';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+// The drawing surface, in canvas pixels. It is shown at the width of its container and keeps this shape.
+const PAD_WIDTH = 480;
+const PAD_HEIGHT = 160;
+
+interface SignaturePadProps {
+    onChange: (signature: string | null) => void; // A PNG data URL after every stroke, null once cleared
+    disabled: boolean;
+}
+
+// A box to sign in with a finger, pen or mouse.
+export const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, disabled }) => {
+    const { t } = useLanguage();
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+    const pointFor = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return {
+            x: (event.clientX - rect.left) * (PAD_WIDTH / rect.width),
+            y: (event.clientY - rect.top) * (PAD_HEIGHT / rect.height),
+        };
+    };
+
+    const drawTo = (context: CanvasRenderingContext2D, to: { x: number; y: number }) => {
+        const from = lastPointRef.current || to;
+        context.lineWidth = 2.5;
+        context.lineCap = 'round';
+        context.lineJoin = 'round';
+        context.strokeStyle = '#111827';
+        context.beginPath();
+        context.moveTo(from.x, from.y);
+        context.lineTo(to.x, to.y);
+        context.stroke();
+        lastPointRef.current = to;
+    };
+
+    const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+        const context = canvasRef.current?.getContext('2d');
+        if (disabled || !context) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        lastPointRef.current = null;
+        drawTo(context, pointFor(event)); // A tap leaves a dot
+    }, [disabled]);
+
+    const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+        const context = canvasRef.current?.getContext('2d');
+        if (!lastPointRef.current || !context) return;
+        drawTo(context, pointFor(event));
+    }, []);
+
+    const handlePointerUp = useCallback(() => {
+        if (!lastPointRef.current) return;
+        lastPointRef.current = null;
+        if (canvasRef.current) onChange(canvasRef.current.toDataURL('image/png'));
+    }, [onChange]);
+
+    const handleClear = useCallback(() => {
+        canvasRef.current?.getContext('2d')?.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+        onChange(null);
+    }, [onChange]);
+
+    return (
+        <div className="space-y-2">
+            <canvas
+                ref={canvasRef}
+                width={PAD_WIDTH}
+                height={PAD_HEIGHT}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                aria-label={t('handover.signHere')}
+                className={`block w-full max-w-[480px] aspect-[3/1] bg-white border-2 border-dashed border-gray-300 rounded-lg touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+            />
+            <div className="flex items-center justify-between max-w-[480px] text-sm text-gray-500">
+                <span>{t('handover.signHere')}</span>
+                <CustomButton onClick={handleClear} disabled={disabled} color="gray">{t('handover.clear')}</CustomButton>
+            </div>
+        </div>
+    );
+};
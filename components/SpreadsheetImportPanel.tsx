@@ -0,0 +1,228 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import type { Campus, CatalogItem, Report } from '../types';
+import type { StockLocation } from '../campuses';
+import type { ColumnMapping, SheetImportKind, SheetRowResult, StockSheetLine } from '../spreadsheet';
+import { guessColumnMapping, readReportRows, readStockRows, REPORT_SHEET_NAME, sheetFields } from '../spreadsheet';
+import type { ReadSheet } from '../spreadsheetFiles';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface SpreadsheetImportPanelProps {
+    fileName: string;
+    sheets: ReadSheet[];
+    reports: Report[]; // The existing reports, to refuse duplicates
+    catalog: CatalogItem[];
+    campuses: Campus[];
+    locations: StockLocation[]; // The locations open for stock
+    isSaving: boolean;
+    onImportReports: (reports: Omit<Report, 'id'>[]) => Promise<boolean>; // Resolves to true once the reports are saved
+    onImportStock: (location: string, lines: StockSheetLine[]) => Promise<boolean>; // Resolves to true once the stock is set
+    onClose: () => void;
+}
+
+interface ImportOutcome {
+    dryRun: boolean;
+    validCount: number;
+    failedRows: SheetRowResult<unknown>[];
+    saved: boolean;
+}
+
+const headersOf = (sheet: ReadSheet | undefined): string[] => (sheet?.rows[0] || []).map(header => header.trim());
+
+const guessKind = (sheet: ReadSheet | undefined): SheetImportKind =>
+    sheet && (sheet.name === REPORT_SHEET_NAME || (sheet.rows[0] || []).some(header => header.trim().toLowerCase() === 'requester name'))
+        ? 'reports'
+        : 'stock';
+
+// Maps the columns of a spreadsheet onto reports or stock quantities and checks every row before saving.
+// In a dry run nothing is saved; otherwise the valid rows are imported and the rest are listed with their errors.
+export const SpreadsheetImportPanel: React.FC<SpreadsheetImportPanelProps> = ({
+    fileName, sheets, reports, catalog, campuses, locations, isSaving, onImportReports, onImportStock, onClose,
+}) => {
+    const { t } = useLanguage();
+    const [sheetIndex, setSheetIndex] = useState(0);
+    const [kind, setKind] = useState<SheetImportKind>(() => guessKind(sheets[0]));
+    const [location, setLocation] = useState(locations[0]?.id || '');
+    const [dryRun, setDryRun] = useState(true);
+    const [outcome, setOutcome] = useState<ImportOutcome | null>(null);
+
+    const sheet = sheets[sheetIndex];
+    const headers = useMemo(() => headersOf(sheet), [sheet]);
+    const fields = useMemo(() => sheetFields(kind, catalog), [kind, catalog]);
+
+    // Stock exports have a column per location, so the quantity column defaults to the chosen location's
+    const guessMapping = useCallback((forSheet: ReadSheet | undefined, forKind: SheetImportKind, forLocation: string): ColumnMapping => {
+        const sheetHeaders = headersOf(forSheet);
+        const mapping = guessColumnMapping(sheetFields(forKind, catalog), sheetHeaders, catalog);
+        if (forKind === 'stock' && mapping.quantity < 0) {
+            const name = locations.find(candidate => candidate.id === forLocation)?.name.toLowerCase();
+            mapping.quantity = sheetHeaders.findIndex(header => header.toLowerCase() === name);
+        }
+        return mapping;
+    }, [catalog, locations]);
+
+    const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(sheet, kind, location));
+
+    const handleSheetChange = useCallback((index: number) => {
+        const nextKind = guessKind(sheets[index]);
+        setSheetIndex(index);
+        setKind(nextKind);
+        setMapping(guessMapping(sheets[index], nextKind, location));
+        setOutcome(null);
+    }, [sheets, guessMapping, location]);
+
+    const handleKindChange = useCallback((nextKind: SheetImportKind) => {
+        setKind(nextKind);
+        setMapping(guessMapping(sheet, nextKind, location));
+        setOutcome(null);
+    }, [guessMapping, sheet, location]);
+
+    const handleLocationChange = useCallback((nextLocation: string) => {
+        setLocation(nextLocation);
+        setMapping(guessMapping(sheet, kind, nextLocation));
+        setOutcome(null);
+    }, [guessMapping, sheet, kind]);
+
+    const handleMappingChange = useCallback((key: string, index: number) => {
+        setMapping(prev => ({ ...prev, [key]: index }));
+        setOutcome(null);
+    }, []);
+
+    const missingFields = fields.filter(field => field.required && !(mapping[field.key] >= 0));
+
+    const handleRun = useCallback(async () => {
+        const dataRows = (sheet?.rows || []).slice(1);
+        const results: SheetRowResult<unknown>[] = kind === 'reports'
+            ? readReportRows(dataRows, mapping, catalog, campuses, reports)
+            : readStockRows(dataRows, mapping, catalog);
+        const failedRows = results.filter(result => result.value === null);
+        const validValues = results.filter(result => result.value !== null).map(result => result.value);
+        let saved = false;
+        if (!dryRun && validValues.length > 0) {
+            saved = kind === 'reports'
+                ? await onImportReports(validValues as Omit<Report, 'id'>[])
+                : await onImportStock(location, validValues as StockSheetLine[]);
+            if (!saved) return;
+        }
+        setOutcome({ dryRun, validCount: validValues.length, failedRows, saved });
+    }, [sheet, kind, mapping, catalog, campuses, reports, dryRun, location, onImportReports, onImportStock]);
+
+    return (
+        <div className="mb-8 p-4 sm:p-6 border border-gray-200 rounded-lg space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <h2 className="text-2xl font-normal text-gray-600">{t('sheet.title', { file: fileName })}</h2>
+                <CustomButton onClick={onClose} disabled={isSaving} color="gray">
+                    {t('common.close')}
+                </CustomButton>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                {sheets.length > 1 && (
+                    <div className="relative">
+                        <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('sheet.sheet')}</label>
+                        <select
+                            value={sheetIndex}
+                            onChange={e => handleSheetChange(Number(e.target.value))}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
+                        >
+                            {sheets.map((candidate, index) => <option key={index} value={index}>{candidate.name}</option>)}
+                        </select>
+                    </div>
+                )}
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('sheet.importAs')}</label>
+                    <select
+                        value={kind}
+                        onChange={e => handleKindChange(e.target.value as SheetImportKind)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
+                    >
+                        <option value="reports">{t('sheet.reports')}</option>
+                        <option value="stock">{t('sheet.stock')}</option>
+                    </select>
+                </div>
+                {kind === 'stock' && (
+                    <div className="relative">
+                        <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('stock.location')}</label>
+                        <select
+                            value={location}
+                            onChange={e => handleLocationChange(e.target.value)}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
+                        >
+                            {locations.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.name}</option>)}
+                        </select>
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <h3 className="text-lg font-bold text-gray-800 mb-3">{t('sheet.columns')}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-8 gap-y-3">
+                    {fields.map(field => (
+                        <div key={field.key} className="flex items-center justify-between gap-3">
+                            <span className="text-gray-700 font-medium">{field.label}{field.required ? ' *' : ''}</span>
+                            <select
+                                value={mapping[field.key] ?? -1}
+                                onChange={e => handleMappingChange(field.key, Number(e.target.value))}
+                                className="w-40 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                            >
+                                <option value={-1}>{t('sheet.notMapped')}</option>
+                                {headers.map((header, index) => <option key={index} value={index}>{header || t('sheet.column', { number: index + 1 })}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+                {kind === 'stock' && (
+                    <p className="mt-3 text-sm text-gray-500">{t('sheet.stockHint')}</p>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6">
+                <label className="flex items-center gap-3 text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={dryRun}
+                        onChange={e => { setDryRun(e.target.checked); setOutcome(null); }}
+                        className="h-5 w-5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {t('sheet.dryRun')}
+                </label>
+                <CustomButton onClick={handleRun} disabled={isSaving || missingFields.length > 0} color={dryRun ? 'gray' : 'blue'}>
+                    {dryRun ? t('sheet.checkRows') : t('sheet.import')}
+                </CustomButton>
+                {missingFields.length > 0 && (
+                    <span className="text-sm text-red-600">{t('sheet.mapColumns', { fields: missingFields.map(field => field.label).join(', ') })}</span>
+                )}
+            </div>
+
+            {outcome && (
+                <div className="space-y-3">
+                    <p className={`font-medium ${outcome.failedRows.length > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                        {outcome.dryRun || !outcome.saved
+                            ? t(outcome.failedRows.length > 0 ? 'sheet.canImportSome' : 'sheet.canImport', { count: outcome.validCount, failed: outcome.failedRows.length })
+                            : t(outcome.failedRows.length > 0 ? 'sheet.importedSome' : 'sheet.imported', { count: outcome.validCount, failed: outcome.failedRows.length })}
+                    </p>
+                    {outcome.failedRows.length > 0 && (
+                        <div className="overflow-y-auto max-h-[240px] overflow-x-auto border border-gray-200 rounded-lg">
+                            <table className="min-w-full bg-white text-sm">
+                                <thead className="sticky top-0 bg-gray-100">
+                                    <tr>
+                                        <th className="py-2 px-3 text-left font-bold text-gray-600">{t('sheet.row')}</th>
+                                        <th className="py-2 px-3 text-left font-bold text-gray-600">{t('sheet.errors')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200">
+                                    {outcome.failedRows.map(row => (
+                                        <tr key={row.rowNumber}>
+                                            <td className="py-2 px-3 whitespace-nowrap align-top">{row.rowNumber}</td>
+                                            <td className="py-2 px-3 text-red-700">{row.errors.join(' ')}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { CatalogItem } from '../types';
+import type { StockForecast } from '../forecast';
+import { formatBurnRate } from '../forecast';
+import { itemLabel } from '../catalog';
+import { useLanguage } from './LanguageProvider';
+
+interface StockForecastPanelProps {
+    forecast: StockForecast;
+    catalog: CatalogItem[];
+    locationName: string;
+}
+
+// Burn rates and projected stock-out dates at the location shown in the stock panel, soonest first.
+export const StockForecastPanel: React.FC<StockForecastPanelProps> = ({ forecast, catalog, locationName }) => {
+    const { t } = useLanguage();
+
+    return (
+        <div className="p-4 border border-gray-200 rounded-lg space-y-4 mb-4">
+            <div>
+                <h3 className="text-lg font-bold text-gray-800">{t('forecast.title', { location: locationName })}</h3>
+                <p className="text-sm text-gray-500">{t('forecast.basis', { days: forecast.historyDays })}</p>
+            </div>
+            <div className="overflow-y-auto max-h-[240px] overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full bg-white text-sm">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('forecast.item')}</th>
+                            <th className="py-2 px-3 text-right font-bold text-gray-600">{t('forecast.inStock')}</th>
+                            <th className="py-2 px-3 text-right font-bold text-gray-600">{t('forecast.dailyUse')}</th>
+                            <th className="py-2 px-3 text-right font-bold text-gray-600">{t('forecast.weeklyUse')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('forecast.stockOut')}</th>
+                            <th className="py-2 px-3 text-right font-bold text-gray-600">{t('forecast.leadTime')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {forecast.lines.length > 0 ? forecast.lines.map(({ item, quantity, dailyUse, weeklyUse, daysLeft, stockOutDate, leadTimeDays, runsOutBeforeDelivery }) => (
+                            <tr key={item.id} className={runsOutBeforeDelivery ? 'text-red-600' : ''}>
+                                <td className="py-2 px-3 whitespace-nowrap">{itemLabel(catalog, item.id)}</td>
+                                <td className="py-2 px-3 whitespace-nowrap text-right">{quantity}</td>
+                                <td className="py-2 px-3 whitespace-nowrap text-right">{formatBurnRate(dailyUse)}</td>
+                                <td className="py-2 px-3 whitespace-nowrap text-right">{formatBurnRate(weeklyUse)}</td>
+                                <td className={`py-2 px-3 whitespace-nowrap ${runsOutBeforeDelivery ? 'font-bold' : ''}`}>
+                                    {daysLeft === 0 ? t('forecast.outOfStock') : stockOutDate}
+                                </td>
+                                <td className="py-2 px-3 whitespace-nowrap text-right">{t('forecast.days', { days: Math.round(leadTimeDays) })}</td>
+                            </tr>
+                        )) : (
+                            <tr>
+                                <td colSpan={6} className="text-center py-6 text-gray-500">{t('forecast.empty')}</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo } from 'react';
+import type { Campus, Report, StockMovement } from '../types';
+import { MOVEMENT_REASON_MESSAGES } from '../stockLedger';
+import { campusName, locationName } from '../campuses';
+import { useLanguage } from './LanguageProvider';
+
+interface StockHistoryModalProps {
+    item: string | null;
+    itemName: string;
+    location: string | null; // null when `movements` cover every location
+    movements: StockMovement[];
+    reports: Report[];
+    campuses: Campus[];
+    onClose: () => void;
+}
+
+export const StockHistoryModal: React.FC<StockHistoryModalProps> = ({ item, itemName, location, movements, reports, campuses, onClose }) => {
+    const { t, tRich } = useLanguage();
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        if (item) {
+            window.addEventListener('keydown', handleEsc);
+        }
+
+        return () => {
+            window.removeEventListener('keydown', handleEsc);
+        };
+    }, [item, onClose]);
+
+    // Newest first, each row carrying the balance right after that movement.
+    const rows = useMemo(() => {
+        if (!item) return [];
+        let balance = 0;
+        return movements
+            .filter(movement => movement.item === item)
+            .map(movement => {
+                balance += movement.quantity;
+                return { movement, balance };
+            })
+            .reverse();
+    }, [item, movements]);
+
+    if (!item) return null;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4"
+            aria-labelledby="stock-history-title"
+            role="dialog"
+            aria-modal="true"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white rounded-xl shadow-2xl p-6 sm:p-8 w-full max-w-3xl"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl leading-6 font-bold text-gray-900" id="stock-history-title">{tRich('history.title', { item: <span className="font-koulen">{itemName}</span> })} <span className="text-base font-normal text-gray-500">({location ? locationName(campuses, location) : t('stock.allLocations')})</span></h3>
+                    <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label={t('common.close')}>
+                        <svg className="h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="2" stroke="currentColor" aria-hidden="true">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                <div className="overflow-y-auto max-h-[60vh] border border-gray-200 rounded-lg">
+                    <table className="min-w-full bg-white text-sm">
+                        <thead className="sticky top-0 bg-gray-100">
+                            <tr>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('common.date')}</th>
+                                <th className="py-2 px-3 text-right font-bold text-gray-600">{t('history.change')}</th>
+                                <th className="py-2 px-3 text-right font-bold text-gray-600">{t('history.balance')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('history.location')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('history.reason')}</th>
+                                <th className="py-2 px-3 text-left font-bold text-gray-600">{t('history.report')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {rows.length > 0 ? rows.map(({ movement, balance }) => {
+                                const report = movement.reportId ? reports.find(r => r.id === movement.reportId) : undefined;
+                                return (
+                                    <tr key={movement.id}>
+                                        <td className="py-2 px-3 whitespace-nowrap">{movement.date}</td>
+                                        <td className={`py-2 px-3 whitespace-nowrap text-right font-bold ${movement.quantity > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                            {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                                        </td>
+                                        <td className="py-2 px-3 whitespace-nowrap text-right">{balance}</td>
+                                        <td className="py-2 px-3 whitespace-nowrap">{locationName(campuses, movement.location)}</td>
+                                        <td className="py-2 px-3 whitespace-nowrap">
+                                            {MOVEMENT_REASON_MESSAGES[movement.reason] ? t(MOVEMENT_REASON_MESSAGES[movement.reason]) : movement.reason}
+                                            {movement.note && <span className="block text-xs text-gray-500">{movement.note}</span>}
+                                        </td>
+                                        <td className="py-2 px-3 whitespace-nowrap">
+                                            {report ? `${report.requesterName} (${campusName(campuses, report.campus)})` : movement.reportId ? <span className="text-gray-400">{t('history.deletedReport')}</span> : '—'}
+                                        </td>
+                                    </tr>
+                                );
+                            }) : (
+                                <tr>
+                                    <td colSpan={6} className="text-center py-8 text-gray-500">{t('history.empty')}</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
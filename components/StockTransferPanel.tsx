@@ -0,0 +1,177 @@
+import React, { useCallback, useState } from 'react';
+import type { Campus, CatalogItem, StockTransfer } from '../types';
+import type { TransferInput } from '../api';
+import { CENTRAL_WAREHOUSE } from '../constants';
+import { itemLabel } from '../catalog';
+import { locationName } from '../campuses';
+import type { StockLocation } from '../campuses';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface StockTransferPanelProps {
+    transfers: StockTransfer[];
+    locations: StockLocation[]; // The locations open for stock
+    campuses: Campus[]; // Every campus, retired ones included, for naming past transfers
+    items: CatalogItem[];
+    catalog: CatalogItem[]; // Every item, archived ones included, for naming past transfers
+    isSaving: boolean;
+    onCreateTransfer: (transfer: TransferInput) => Promise<boolean>; // Resolves to true once the transfer is saved
+}
+
+const formatTransferItems = (items: Record<string, number>, catalog: CatalogItem[]) =>
+    Object.entries(items).map(([item, quantity]) => `${itemLabel(catalog, item)} (${quantity})`).join(', ');
+
+const initialTransferForm = (): TransferInput => ({
+    fromLocation: CENTRAL_WAREHOUSE,
+    toLocation: '',
+    items: {},
+    date: new Date().toISOString().split('T')[0],
+    note: '',
+});
+
+// The transfer document: moves quantities from one stock location to another, with the transfers made so far below.
+export const StockTransferPanel: React.FC<StockTransferPanelProps> = ({ transfers, locations, campuses, items, catalog, isSaving, onCreateTransfer }) => {
+    const { t } = useLanguage();
+    const [transferForm, setTransferForm] = useState<TransferInput>(initialTransferForm);
+
+    const handleFieldChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setTransferForm(prev => ({ ...prev, [name]: value }));
+    }, []);
+
+    const handleItemQuantityChange = useCallback((item: string, value: string) => {
+        const quantity = parseInt(value, 10);
+        setTransferForm(prev => {
+            const newItems = { ...prev.items };
+            if (!isNaN(quantity) && quantity > 0) {
+                newItems[item] = quantity;
+            } else {
+                delete newItems[item];
+            }
+            return { ...prev, items: newItems };
+        });
+    }, []);
+
+    const handleSubmit = useCallback(async () => {
+        if (!transferForm.fromLocation || !transferForm.toLocation || !transferForm.date) {
+            alert(t('transfer.incomplete'));
+            return;
+        }
+        if (transferForm.fromLocation === transferForm.toLocation) {
+            alert(t('transfer.sameLocation'));
+            return;
+        }
+        if (Object.keys(transferForm.items).length === 0) {
+            alert(t('transfer.noItems'));
+            return;
+        }
+        if (await onCreateTransfer(transferForm)) {
+            setTransferForm(initialTransferForm());
+        }
+    }, [transferForm, onCreateTransfer, t]);
+
+    return (
+        <div className="p-4 border border-gray-200 rounded-lg space-y-6 mb-4">
+            <h3 className="text-lg font-bold text-gray-800">{t('stock.transfer')}</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('transfer.from')}</label>
+                    <select
+                        name="fromLocation"
+                        value={transferForm.fromLocation}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
+                    >
+                        {locations.map(location => (
+                            <option key={location.id} value={location.id}>{location.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('transfer.to')}</label>
+                    <select
+                        name="toLocation"
+                        value={transferForm.toLocation}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
+                    >
+                        <option value="" disabled>{t('transfer.selectLocation')}</option>
+                        {locations.filter(location => location.id !== transferForm.fromLocation).map(location => (
+                            <option key={location.id} value={location.id}>{location.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('common.date')}</label>
+                    <input
+                        type="date"
+                        name="date"
+                        value={transferForm.date}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-8 gap-y-4">
+                {items.map(item => (
+                    <div key={item.id} className="flex items-center justify-between">
+                        <label htmlFor={`transfer-item-${item.id}`} className="text-gray-700 font-medium">{item.nameEn}</label>
+                        <input
+                            id={`transfer-item-${item.id}`}
+                            type="number"
+                            min="0"
+                            placeholder="0"
+                            value={transferForm.items[item.id] || ''}
+                            onChange={(e) => handleItemQuantityChange(item.id, e.target.value)}
+                            className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors text-center"
+                            aria-label={t('transfer.quantityFor', { item: item.nameEn })}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+                <input
+                    type="text"
+                    name="note"
+                    value={transferForm.note || ''}
+                    onChange={handleFieldChange}
+                    placeholder={t('common.note')}
+                    className="flex-grow min-w-[200px] px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                />
+                <CustomButton onClick={handleSubmit} disabled={isSaving} color="blue">{t('transfer.submit')}</CustomButton>
+            </div>
+
+            <div className="overflow-y-auto max-h-[240px] overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full bg-white text-sm">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('common.date')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('transfer.from')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('transfer.to')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('form.items')}</th>
+                            <th className="py-2 px-3 text-left font-bold text-gray-600">{t('audit.by')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {transfers.length > 0 ? [...transfers].reverse().map(transfer => (
+                            <tr key={transfer.id}>
+                                <td className="py-2 px-3 whitespace-nowrap">{transfer.date}</td>
+                                <td className="py-2 px-3 whitespace-nowrap">{locationName(campuses, transfer.fromLocation)}</td>
+                                <td className="py-2 px-3 whitespace-nowrap">{locationName(campuses, transfer.toLocation)}</td>
+                                <td className="py-2 px-3">
+                                    {formatTransferItems(transfer.items, catalog)}
+                                    {transfer.note && <span className="block text-xs text-gray-500">{transfer.note}</span>}
+                                </td>
+                                <td className="py-2 px-3 whitespace-nowrap">{transfer.byName}</td>
+                            </tr>
+                        )) : (
+                            <tr>
+                                <td colSpan={5} className="text-center py-6 text-gray-500">{t('transfer.empty')}</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import type { RequestTemplate } from '../types';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface TemplatePickerProps {
+    templates: RequestTemplate[]; // The templates of the form's campus, or of every campus the user may request for
+    canSave: boolean; // The form has a campus and asks for at least one item
+    disabled: boolean;
+    onApply: (template: RequestTemplate) => void;
+    onSave: (name: string) => Promise<boolean>; // Resolves to whether the template was saved
+}
+
+// Fills the request form's item quantities from a saved template, or keeps the quantities in the form as a new one.
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, canSave, disabled, onApply, onSave }) => {
+    const { t } = useLanguage();
+    const [isNaming, setIsNaming] = useState(false);
+    const [name, setName] = useState('');
+
+    const handleSave = async () => {
+        if (await onSave(name.trim())) {
+            setIsNaming(false);
+            setName('');
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-3">
+            <select
+                value=""
+                onChange={(e) => {
+                    const template = templates.find(candidate => candidate.id === e.target.value);
+                    if (template) onApply(template);
+                }}
+                disabled={disabled || templates.length === 0}
+                aria-label={t('templates.fillFrom')}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white disabled:bg-gray-50"
+            >
+                <option value="">{templates.length > 0 ? t('templates.fillFrom') : t('templates.noneForCampus')}</option>
+                {templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+            </select>
+            {isNaming ? (
+                <>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder={t('templates.name')}
+                        aria-label={t('templates.name')}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                    <CustomButton onClick={handleSave} disabled={disabled || !canSave || !name.trim()} color="green">
+                        {t('templates.save')}
+                    </CustomButton>
+                    <CustomButton onClick={() => setIsNaming(false)} color="gray">{t('common.cancel')}</CustomButton>
+                </>
+            ) : (
+                <CustomButton onClick={() => setIsNaming(true)} disabled={disabled || !canSave} color="gray">
+                    {t('templates.saveAs')}
+                </CustomButton>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Campus, User } from '../types';
+import type { UserInput } from '../api';
+import * as api from '../api';
+import { USER_ROLES } from '../permissions';
+import { ROLE_MESSAGES } from '../i18n';
+import { campusName } from '../campuses';
+import { CustomButton } from './CustomButton';
+import { useLanguage } from './LanguageProvider';
+
+interface UserManagementPanelProps {
+    currentUser: User;
+    campuses: Campus[]; // Every campus, retired ones included
+}
+
+const initialUserForm: UserInput = {
+    username: '',
+    displayName: '',
+    role: 'requester',
+    campus: '',
+    active: true,
+    password: '',
+};
+
+export const UserManagementPanel: React.FC<UserManagementPanelProps> = ({ currentUser, campuses }) => {
+    const { t } = useLanguage();
+    const [users, setUsers] = useState<User[]>([]);
+    const [userForm, setUserForm] = useState<UserInput>(initialUserForm);
+    const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    const loadUsers = useCallback(async () => {
+        setLoadError(null);
+        try {
+            setUsers(await api.fetchUsers());
+        } catch (error) {
+            console.error("Error loading users:", error);
+            setLoadError(error instanceof Error ? error.message : t('common.unknownError'));
+        }
+    }, [t]);
+
+    useEffect(() => {
+        loadUsers();
+    }, [loadUsers]);
+
+    const clearUserForm = useCallback(() => {
+        setUserForm(initialUserForm);
+        setSelectedUserId(null);
+    }, []);
+
+    const handleFieldChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value, type } = e.target;
+        const fieldValue = type === 'checkbox' ? (e.target as HTMLInputElement).checked : value;
+        setUserForm(prev => ({ ...prev, [name]: fieldValue }));
+    }, []);
+
+    const handleSelectUser = useCallback((user: User) => {
+        setSelectedUserId(user.id);
+        setUserForm({
+            username: user.username,
+            displayName: user.displayName,
+            role: user.role,
+            campus: user.campus,
+            active: user.active,
+            password: '',
+        });
+    }, []);
+
+    const handleSaveUser = useCallback(async () => {
+        if (!userForm.username || !userForm.displayName || (!selectedUserId && !userForm.password)) {
+            alert(t('users.incomplete'));
+            return;
+        }
+        if (userForm.role === 'requester' && !userForm.campus) {
+            alert(t('users.campusRequired'));
+            return;
+        }
+
+        const input: UserInput = { ...userForm };
+        if (!input.password) delete input.password; // Keep the current password when editing
+
+        setIsSaving(true);
+        try {
+            if (selectedUserId) {
+                const updated = await api.updateUser(selectedUserId, input);
+                setUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+            } else {
+                const created = await api.createUser(input);
+                setUsers(prev => [...prev, created]);
+            }
+            clearUserForm();
+        } catch (error) {
+            console.error("Error saving user:", error);
+            alert(`${t('error.cannotSaveUser')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [userForm, selectedUserId, clearUserForm, t]);
+
+    const isEditingSelf = selectedUserId === currentUser.id;
+
+    return (
+        <div className="mb-8 p-4 sm:p-6 border border-gray-200 rounded-lg">
+            <h2 className="text-2xl font-normal text-gray-600 mb-6">{t('users.title')}</h2>
+
+            {loadError && (
+                <div className="flex flex-wrap items-center justify-between gap-4 mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-red-800">
+                    <span>{t('users.loadError', { error: loadError })}</span>
+                    <CustomButton onClick={loadUsers} color="red">{t('load.retry')}</CustomButton>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('users.username')}</label>
+                    <input
+                        type="text"
+                        name="username"
+                        value={userForm.username}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('users.displayName')}</label>
+                    <input
+                        type="text"
+                        name="displayName"
+                        value={userForm.displayName}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">
+                        {selectedUserId ? t('users.newPassword') : t('users.password')}
+                    </label>
+                    <input
+                        type="password"
+                        name="password"
+                        autoComplete="new-password"
+                        value={userForm.password || ''}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                    />
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('users.role')}</label>
+                    <select
+                        name="role"
+                        value={userForm.role}
+                        onChange={handleFieldChange}
+                        disabled={isEditingSelf}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none disabled:bg-gray-100"
+                    >
+                        {USER_ROLES.map(role => (
+                            <option key={role} value={role}>{t(ROLE_MESSAGES[role])}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="relative">
+                    <label className="absolute -top-3 left-3 bg-white px-1 text-sm font-medium text-gray-600">{t('form.campus')}</label>
+                    <select
+                        name="campus"
+                        value={userForm.campus}
+                        onChange={handleFieldChange}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors bg-white appearance-none"
+                    >
+                        <option value="">{t('users.noCampus')}</option>
+                        {campuses.filter(campus => campus.active || campus.id === userForm.campus).map(campus => (
+                            <option key={campus.id} value={campus.id}>{campus.active ? campus.name : t('filter.retiredCampus', { name: campus.name })}</option>
+                        ))}
+                    </select>
+                </div>
+                <label className="flex items-center gap-3 px-4 py-3 text-gray-700">
+                    <input
+                        type="checkbox"
+                        name="active"
+                        checked={userForm.active}
+                        onChange={handleFieldChange}
+                        disabled={isEditingSelf}
+                        className="h-5 w-5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {t('common.active')}
+                </label>
+            </div>
+
+            <div className="flex flex-wrap justify-start items-center gap-4 mt-6 mb-4">
+                <CustomButton onClick={handleSaveUser} disabled={isSaving} color={selectedUserId ? 'green' : 'blue'}>
+                    {selectedUserId ? t('form.update') : t('form.add')}
+                </CustomButton>
+                <CustomButton onClick={clearUserForm} color="gray">
+                    {t('form.clear')}
+                </CustomButton>
+            </div>
+
+            <div className="overflow-y-auto max-h-[300px] overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full bg-white">
+                    <thead className="sticky top-0 bg-gray-100">
+                        <tr>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('users.username')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('users.displayName')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('users.role')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('form.campus')}</th>
+                            <th className="py-3 px-4 text-left text-sm font-bold text-gray-600 uppercase tracking-wider">{t('table.status')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {users.map(user => (
+                            <tr
+                                key={user.id}
+                                onClick={() => handleSelectUser(user)}
+                                className={`cursor-pointer transition-colors duration-200 ${selectedUserId === user.id ? 'bg-indigo-100' : 'hover:bg-gray-50'}`}
+                            >
+                                <td className="py-3 px-4 whitespace-nowrap">{user.username}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">{user.displayName}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">{t(ROLE_MESSAGES[user.role])}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">{user.campus ? campusName(campuses, user.campus) : '—'}</td>
+                                <td className="py-3 px-4 whitespace-nowrap">
+                                    <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${user.active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-600'}`}>
+                                        {user.active ? t('common.active') : t('users.inactive')}
+                                    </span>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
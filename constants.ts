@@ -1,19 +1,2 @@
-
-export const STATIONARY_ITEMS_ROW1 = ["Bk", "M", "Y", "C"];
-export const STATIONARY_ITEMS_ROW2 = ["Card", "Card line", "Keyboard","Mouse","Mouse Pad","Paper A4","WiFi","Camera"];
-
-export const CAMPUS_OPTIONS = [
-    "Campus1",
-    "Campus2",
-    "Campus3",
-    "Campus4",
-    "Campus5",
-    "Campus6",
-    "CampusMRT",
-    "Campus72P",
-    "Campus86P",
-    "CampusBMU",
-    "CampusBM2",
-    "CampusMISPP",
-    "Campus Wat Toul",
-];
+// Stock is kept per location: the central warehouse plus each campus's own cupboard (see campuses.ts).
+export const CENTRAL_WAREHOUSE = "Central Warehouse";
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { ItemPrice, Report, ReportStatus } from './types';
+import { budgetLeftAfter, budgetSpending, formatCost, monthRange, reportCost, spendingByCampus, unitCostOn } from './costing';
+import type { BudgetStatus } from './costing';
+
+const price = (id: string, item: string, unitCost: number, effectiveDate: string, createdAt = `${effectiveDate}T08:00:00.000Z`): ItemPrice => ({
+    id, item, unitCost, effectiveDate, createdAt, byUserId: 'admin', byName: 'Admin',
+});
+
+const PRICES = [price('price-1', 'Bk', 10, '2026-01-01'), price('price-2', 'Bk', 12, '2026-03-01')];
+
+const report = (id: string, importDate: string, status: ReportStatus, items: Record<string, number>, campus = 'campus-1'): Report => ({
+    id, requesterName: 'Requester', campus, importDate, exportDate: importDate, items, status,
+});
+
+const MARCH_BUDGET: BudgetStatus = {
+    id: 'budget-1', campus: 'campus-1', period: 'month', label: '2026-03', ...monthRange('2026-03'), amount: 100, spent: 0,
+};
+
+describe('unitCostOn', () => {
+    it('takes the latest price in effect on the date, and the one entered last of a day', () => {
+        const prices = [...PRICES, price('price-3', 'Bk', 11, '2026-03-01', '2026-03-01T09:00:00.000Z')];
+
+        expect(unitCostOn(prices, 'Bk', '2025-12-31')).toBeNull();
+        expect(unitCostOn(prices, 'Bk', '2026-02-28')).toBe(10);
+        expect(unitCostOn(prices, 'Bk', '2026-03-01')).toBe(11);
+    });
+});
+
+describe('reportCost', () => {
+    it('costs a request at the prices of its import date and lists the items that had none', () => {
+        expect(reportCost({ importDate: '2026-02-15', items: { Bk: 2, Card: 5 } }, PRICES)).toEqual({ total: 20, unpricedItems: ['Card'] });
+        expect(reportCost({ importDate: '2026-03-15', items: { Bk: 2 } }, PRICES).total).toBe(24);
+    });
+});
+
+describe('formatCost', () => {
+    it('writes two decimals with the grouping of the interface language', () => {
+        expect(formatCost(1234.5, 'en')).toBe('1,234.50');
+    });
+});
+
+describe('budgets', () => {
+    it('charges the campus the requests dated in the period that were not rejected or cancelled', () => {
+        const reports = [
+            report('report-1', '2026-03-02', 'Fulfilled', { Bk: 2 }),
+            report('report-2', '2026-03-31', 'Submitted', { Bk: 1 }),
+            report('report-3', '2026-03-10', 'Rejected', { Bk: 5 }),
+            report('report-4', '2026-04-01', 'Fulfilled', { Bk: 5 }),
+            report('report-5', '2026-03-10', 'Fulfilled', { Bk: 5 }, 'campus-2'),
+        ];
+
+        expect(budgetSpending(MARCH_BUDGET, reports, PRICES)).toBe(36);
+    });
+
+    it('counts an edited request once, at its new cost', () => {
+        const saved = report('report-1', '2026-03-02', 'Submitted', { Bk: 2 });
+        const budget = { ...MARCH_BUDGET, spent: 24 };
+
+        expect(budgetLeftAfter(budget, { ...saved, items: { Bk: 5 } }, saved, PRICES)).toBe(40);
+        expect(budgetLeftAfter(budget, { ...saved, status: 'Cancelled' }, saved, PRICES)).toBe(100);
+        expect(budgetLeftAfter(budget, report('report-2', '2026-03-05', 'Submitted', { Bk: 1 }), null, PRICES)).toBe(64);
+    });
+
+    it('gives the first and last day of a month', () => {
+        expect(monthRange('2028-02')).toEqual({ startDate: '2028-02-01', endDate: '2028-02-29' });
+    });
+});
+
+describe('spendingByCampus', () => {
+    it('adds up each campus item by item, flagging quantities that had no price', () => {
+        const spending = spendingByCampus([
+            report('report-1', '2026-03-02', 'Fulfilled', { Bk: 2, Card: 3 }),
+            report('report-2', '2026-02-02', 'Approved', { Bk: 1 }),
+            report('report-3', '2026-03-02', 'Cancelled', { Bk: 9 }),
+        ], PRICES);
+
+        expect(spending).toEqual([{
+            campus: 'campus-1',
+            total: 34,
+            lines: [{ item: 'Bk', quantity: 3, cost: 34, unpriced: false }, { item: 'Card', quantity: 3, cost: 0, unpriced: true }],
+        }]);
+    });
+});
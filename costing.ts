@@ -0,0 +1,119 @@
+import type { CampusBudget, ItemPrice, Report } from './types';
+import type { Language } from './i18n';
+import { CONSUMING_STATUSES } from './analytics';
+import { formatNumber } from './i18n';
+
+// Costs requests from the item price history, and measures them against campus budgets.
+
+// A budget as the server reports it: with what the campus's requests in its period have cost so far.
+export interface BudgetStatus extends CampusBudget {
+    spent: number;
+}
+
+export interface SpendingLine {
+    item: string;
+    quantity: number;
+    cost: number;
+    unpriced: boolean; // Some of the quantity had no price on its request date and adds nothing to the cost
+}
+
+export interface CampusSpending {
+    campus: string;
+    lines: SpendingLine[]; // Costliest first
+    total: number;
+}
+
+export interface ReportCost {
+    total: number;
+    unpricedItems: string[]; // Requested items that had no price on the request date; they add nothing to the total
+}
+
+// A cost with two decimals, as the interface language writes numbers.
+export const formatCost = (value: number, language: Language): string =>
+    formatNumber(language, value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// The price history of one item, latest first.
+export const priceHistory = (prices: ItemPrice[], item: string): ItemPrice[] =>
+    prices
+        .filter(price => price.item === item)
+        .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || b.createdAt.localeCompare(a.createdAt));
+
+// The unit cost of an item on `date` ('YYYY-MM-DD'), or null when no price had taken effect yet.
+// Of two prices taking effect the same day, the one entered last wins.
+export const unitCostOn = (prices: ItemPrice[], item: string, date: string): number | null =>
+    priceHistory(prices, item).find(price => price.effectiveDate <= date)?.unitCost ?? null;
+
+// Requests are costed at the prices in effect on their import date, the date the filters and budgets go by.
+export const reportCost = (report: Pick<Report, 'items' | 'importDate'>, prices: ItemPrice[]): ReportCost => {
+    let total = 0;
+    const unpricedItems: string[] = [];
+    for (const [item, quantity] of Object.entries(report.items || {})) {
+        const amount = Number(quantity) || 0;
+        if (amount <= 0) continue;
+        const unitCost = unitCostOn(prices, item, report.importDate);
+        if (unitCost === null) {
+            unpricedItems.push(item);
+        } else {
+            total += unitCost * amount;
+        }
+    }
+    return { total, unpricedItems };
+};
+
+// Rejected and cancelled requests never take anything, so they cost the campus nothing.
+export const countsAgainstBudget = (report: Pick<Report, 'status'>): boolean => CONSUMING_STATUSES.includes(report.status);
+
+// The budget covering `date` at a campus. Budgets of one campus never overlap.
+export const budgetFor = <T extends CampusBudget>(budgets: T[], campus: string, date: string): T | undefined =>
+    budgets.find(budget => budget.campus === campus && budget.startDate <= date && date <= budget.endDate);
+
+const chargedTo = (budget: CampusBudget, report: Pick<Report, 'campus' | 'importDate' | 'status'>): boolean =>
+    report.campus === budget.campus && countsAgainstBudget(report)
+    && budget.startDate <= report.importDate && report.importDate <= budget.endDate;
+
+// What the campus's requests dated within the budget's period cost.
+export const budgetSpending = (budget: CampusBudget, reports: Report[], prices: ItemPrice[]): number =>
+    reports
+        .filter(report => chargedTo(budget, report))
+        .reduce((sum, report) => sum + reportCost(report, prices).total, 0);
+
+type CostedRequest = Pick<Report, 'campus' | 'importDate' | 'status' | 'items'>;
+
+// What would be left of the budget with `request` as it stands in the form. `saved` is the request as stored,
+// whose cost the budget's spending already includes when an existing request is being edited or moved along.
+export const budgetLeftAfter = (budget: BudgetStatus, request: CostedRequest, saved: CostedRequest | null, prices: ItemPrice[]): number => {
+    const alreadySpent = saved && chargedTo(budget, saved) ? reportCost(saved, prices).total : 0;
+    const cost = chargedTo(budget, request) ? reportCost(request, prices).total : 0;
+    return budget.amount - budget.spent + alreadySpent - cost;
+};
+
+// What each campus's requests cost, item by item. Rejected and cancelled requests are left out.
+export const spendingByCampus = (reports: Report[], prices: ItemPrice[]): CampusSpending[] => {
+    const byCampus: Record<string, Record<string, SpendingLine>> = {};
+    reports.filter(countsAgainstBudget).forEach(report => {
+        const lines = byCampus[report.campus] || (byCampus[report.campus] = {});
+        Object.entries(report.items || {}).forEach(([item, quantity]) => {
+            const amount = Number(quantity) || 0;
+            if (amount <= 0) return;
+            const line = lines[item] || (lines[item] = { item, quantity: 0, cost: 0, unpriced: false });
+            const unitCost = unitCostOn(prices, item, report.importDate);
+            line.quantity += amount;
+            if (unitCost === null) {
+                line.unpriced = true;
+            } else {
+                line.cost += unitCost * amount;
+            }
+        });
+    });
+    return Object.entries(byCampus).map(([campus, lines]) => {
+        const sorted = Object.values(lines).sort((a, b) => b.cost - a.cost || b.quantity - a.quantity);
+        return { campus, lines: sorted, total: sorted.reduce((sum, line) => sum + line.cost, 0) };
+    });
+};
+
+// The first and last day of a 'YYYY-MM' month.
+export const monthRange = (month: string): { startDate: string; endDate: string } => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+    return { startDate: `${month}-01`, endDate: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
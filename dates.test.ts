@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, daysBetween, isDateString } from './dates';
+
+describe('calendar days', () => {
+    it('refuses days that do not exist rather than rolling them over', () => {
+        expect(['2026-02-28', '2024-02-29'].every(isDateString)).toBe(true);
+        expect(['2026-02-29', '2026-13-01', '2026-3-1', '', undefined].some(isDateString)).toBe(false);
+    });
+
+    it('counts across months and years in whole days', () => {
+        expect(addDays('2026-02-27', 3)).toBe('2026-03-02');
+        expect(addDays('2026-01-01', -1)).toBe('2025-12-31');
+        expect(daysBetween('2026-03-02', '2026-02-27')).toBe(-3);
+    });
+});
@@ -0,0 +1,14 @@
+// Calendar days as YYYY-MM-DD, shared by the app and the API server. Dates are worked out in UTC so a day never
+// shifts with the browser's or the server's time zone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const parseDay = (date: string): Date => new Date(`${date}T00:00:00Z`);
+export const formatDay = (date: Date): string => date.toISOString().split('T')[0];
+export const addDays = (date: string, days: number): string => formatDay(new Date(parseDay(date).getTime() + days * DAY_MS));
+// A calendar day as YYYY-MM-DD. Days that do not exist, like 2026-02-30, are refused rather than rolled over.
+export const isDateString = (value: unknown): value is string =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    && !Number.isNaN(Date.parse(value)) && formatDay(parseDay(value)) === value;
+// Whole days from `from` to `to`; negative when `to` comes first.
+export const daysBetween = (from: string, to: string): number => Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
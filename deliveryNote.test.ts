@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { formatRequestNumber, reportLink } from './deliveryNote';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+});
+
+describe('formatRequestNumber', () => {
+    it('names a request after the moment it was created', () => {
+        expect(formatRequestNumber({ id: '2026-10-19T09:30:12.345Z' })).toBe('REQ-20261019-093012');
+    });
+
+    it('shortens older ids to their last letters and digits', () => {
+        expect(formatRequestNumber({ id: 'legacy-report_000123-abcdef' })).toBe('REQ-000123ABCDEF');
+    });
+});
+
+describe('reportLink', () => {
+    it('opens the request in the app from the QR code', () => {
+        vi.stubGlobal('window', { location: { origin: 'https://stationary.example' } });
+
+        expect(reportLink('2026-10-19T09:30:12.345Z')).toBe('https://stationary.example/?report=2026-10-19T09%3A30%3A12.345Z');
+    });
+
+    it('keeps the path the app is served under', () => {
+        vi.stubGlobal('window', { location: { origin: 'https://school.example' } });
+        vi.stubEnv('BASE_URL', '/stationary/');
+
+        expect(reportLink('report-1')).toBe('https://school.example/stationary/?report=report-1');
+    });
+});
@@ -0,0 +1,164 @@
+import type jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { RowInput } from 'jspdf-autotable';
+import QRCode from 'qrcode';
+import type { Campus, CatalogItem, Report } from './types';
+import type { PdfTextWriter } from './pdfText';
+import { itemLabel } from './catalog';
+import { campusName, locationName } from './campuses';
+import { bilingualLabel } from './pdfParser';
+import { formatDate, translate } from './i18n';
+import type { Language } from './i18n';
+
+// The slip printed for one request when its items are handed over, signed by whoever issues them and whoever
+// receives them. Its QR code holds a link that opens the request in the app, so it can be marked fulfilled.
+
+export const DELIVERY_NOTE_TITLE = 'Delivery Note';
+export type DeliveryNoteSize = 'a5' | 'a4';
+const DELIVERY_NOTE_COLUMNS = ['No.', 'Item', 'Unit', 'Quantity', 'Note'];
+const SIGNATURE_LINES = ['Name', 'Signature', 'Date'];
+
+// The query parameter of the link in the QR code: <base path>?report=<id>
+export const REPORT_LINK_PARAM = 'report';
+
+// Vite's BASE_URL is the path the app is served under, '/' unless it is deployed under a sub-path.
+export const reportLink = (id: string): string =>
+    `${window.location.origin}${import.meta.env.BASE_URL}?${REPORT_LINK_PARAM}=${encodeURIComponent(id)}`;
+
+// A number people can read out and search for, taken from the report id: reports created in the app are named
+// after the moment they were created, 'REQ-20261019-093012'. Older ids are shortened instead.
+export const formatRequestNumber = (report: Pick<Report, 'id'>): string => {
+    const created = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/.exec(report.id);
+    if (created) {
+        const [, year, month, day, hours, minutes, seconds] = created;
+        return `REQ-${year}${month}${day}-${hours}${minutes}${seconds}`;
+    }
+    return `REQ-${report.id.replace(/[^A-Za-z0-9]/g, '').slice(-12).toUpperCase()}`;
+};
+
+// Draws the QR code as filled squares, one run of dark modules at a time, so it stays sharp at any zoom.
+const drawQrCode = (doc: jsPDF, text: string, x: number, y: number, size: number): void => {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+    const cell = size / modules.size;
+    doc.setFillColor(0, 0, 0);
+    for (let row = 0; row < modules.size; row++) {
+        let column = 0;
+        while (column < modules.size) {
+            if (!modules.get(row, column)) {
+                column++;
+                continue;
+            }
+            const start = column;
+            while (column < modules.size && modules.get(row, column)) column++;
+            doc.rect(x + start * cell, y + row * cell, (column - start) * cell, cell, 'F');
+        }
+    }
+};
+
+// Fills `doc`, an A5 or A4 page, with the delivery note of `report`. The labels are bilingual; the dates it was
+// printed and signed on are written in `language`, the interface's.
+export const addDeliveryNote = (
+    doc: jsPDF,
+    writer: PdfTextWriter,
+    report: Report,
+    catalog: CatalogItem[],
+    campuses: Campus[],
+    link: string,
+    language: Language
+): void => {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = pageWidth < 200 ? 10 : 14;
+    const qrSize = 26;
+
+    doc.setFontSize(16);
+    doc.setTextColor(45, 55, 72);
+    writer.text(bilingualLabel(DELIVERY_NOTE_TITLE, ' '), margin, margin + 6);
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(12);
+    writer.text(`${bilingualLabel('Request No.', ' ')}: ${formatRequestNumber(report)}`, margin, margin + 15);
+    doc.setFontSize(8);
+    writer.text(translate(language, 'deliveryNote.printed', {
+        date: formatDate(language, new Date(), { year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+    }), margin, margin + 21);
+
+    const qrX = pageWidth - margin - qrSize;
+    drawQrCode(doc, link, qrX, margin, qrSize);
+    doc.setFontSize(7);
+    writer.text(bilingualLabel('Scan to open this request'), qrX + qrSize / 2, margin + qrSize + 3, { align: 'center' });
+
+    // Two details to a row, with the purpose and remarks across the whole width
+    const label = (text: string) => ({ content: bilingualLabel(text), styles: { fontStyle: 'bold' as const } });
+    const details: RowInput[] = [
+        [label('Requester Name'), report.requesterName, label('Campus'), campusName(campuses, report.campus)],
+        [label('Import Date'), report.importDate, label('Export Date'), report.exportDate],
+        [label('Status'), report.status, ...(report.fulfilledFrom ? [label('Fulfilled From'), locationName(campuses, report.fulfilledFrom)] : [])],
+        ...(report.purpose ? [[label('Purpose'), { content: report.purpose, colSpan: 3 }]] : []),
+        ...(report.remarks ? [[label('Remarks'), { content: report.remarks, colSpan: 3 }]] : []),
+    ];
+    autoTable(doc, {
+        body: details,
+        startY: margin + qrSize + 8,
+        margin: { left: margin, right: margin },
+        theme: 'plain',
+        styles: { fontSize: 8, cellPadding: 1 },
+        columnStyles: { 0: { cellWidth: 'wrap' }, 2: { cellWidth: 'wrap' } },
+        ...writer.tableHooks,
+    });
+
+    // Catalog items first, then the other items written on the request
+    const lines = [
+        ...Object.entries(report.items).filter(([, quantity]) => quantity > 0).map(([item, quantity]) => ({
+            name: itemLabel(catalog, item),
+            unit: catalog.find(catalogItem => catalogItem.id === item)?.unit || '',
+            quantity,
+            note: '',
+        })),
+        ...(report.extraLines || []).map(line => ({ name: line.description, unit: '', quantity: line.quantity, note: line.note || '' })),
+    ];
+    autoTable(doc, {
+        head: [DELIVERY_NOTE_COLUMNS.map(column => bilingualLabel(column))],
+        body: lines.map(({ name, unit, quantity, note }, index) => [String(index + 1), name, unit, quantity.toString(), note]),
+        foot: [['', 'Total', '', { content: lines.reduce((total, line) => total + line.quantity, 0).toString(), styles: { halign: 'right' } }, '']],
+        startY: (doc as any).lastAutoTable.finalY + 4,
+        margin: { left: margin, right: margin },
+        theme: 'grid',
+        styles: { fontSize: 8, cellPadding: 1.5 },
+        headStyles: { fillColor: [45, 55, 72] },
+        footStyles: { fillColor: [230, 230, 230], textColor: [0, 0, 0] },
+        columnStyles: { 0: { cellWidth: 'wrap', halign: 'right' }, 2: { cellWidth: 'wrap' }, 3: { cellWidth: 'wrap', halign: 'right' } },
+        ...writer.tableHooks,
+    });
+
+    // The issuer and the receiver each sign and date a box side by side, kept together on one page
+    const gap = 8;
+    const boxWidth = (pageWidth - 2 * margin - gap) / 2;
+    const boxHeight = 40;
+    let y = (doc as any).lastAutoTable.finalY + 8;
+    if (y + boxHeight > pageHeight - margin) {
+        doc.addPage();
+        y = margin;
+    }
+    ['Issued By', 'Received By'].forEach((title, index) => {
+        const x = margin + index * (boxWidth + gap);
+        doc.setDrawColor(120, 120, 120);
+        doc.rect(x, y, boxWidth, boxHeight);
+        doc.setFontSize(10);
+        writer.text(bilingualLabel(title, ' '), x + 3, y + 6);
+        // Each line to write on is labelled underneath, which leaves it the whole width of the box
+        doc.setFontSize(7);
+        SIGNATURE_LINES.forEach((label, line) => {
+            const lineY = y + 16 + line * 9;
+            doc.line(x + 3, lineY, x + boxWidth - 3, lineY);
+            writer.text(bilingualLabel(label, ' '), x + 3, lineY + 3.5);
+        });
+        // A note printed after the receiver signed on screen carries their signature
+        if (title === 'Received By' && report.handover) {
+            const { receiverName, signature, signedAt } = report.handover;
+            doc.setFontSize(9);
+            writer.text(receiverName, x + 4, y + 15);
+            doc.addImage(signature, 'PNG', x + boxWidth - 25, y + 17.5, 21, 7);
+            writer.text(formatDate(language, new Date(signedAt), { year: 'numeric', month: 'short', day: 'numeric' }), x + 4, y + 33);
+        }
+    });
+};
@@ -0,0 +1,42 @@
+import type { ExtraLine } from './types';
+
+// Free-form lines on a request, shared by the UI, the exports and the importers.
+
+// "Stapler (2)", or "Stapler (2; for the library)" with a note. This is how the lines read in the reports
+// table, the PDF and the spreadsheet, and what parseExtraLines reads back.
+export const formatExtraLine = ({ description, quantity, note }: ExtraLine): string =>
+    note ? `${description} (${quantity}; ${note})` : `${description} (${quantity})`;
+
+export const formatExtraLines = (lines: ExtraLine[]): string => lines.map(formatExtraLine).join(', ');
+
+export const extraLinesTotal = (lines: ExtraLine[] = []): number =>
+    lines.reduce((sum, line) => sum + line.quantity, 0);
+
+// Reads "Stapler (2), Glue (1; white)" back into lines. Returns null when the text is not in that form.
+export const parseExtraLines = (text: string): ExtraLine[] | null => {
+    const lines: ExtraLine[] = [];
+    const pattern = /(.+?) \((\d+)(?:; (.*?))?\)(?:, |$)/gy;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    while (consumed < text.length && (match = pattern.exec(text))) {
+        const line: ExtraLine = { description: match[1], quantity: Number(match[2]) };
+        if (match[3]) line.note = match[3];
+        lines.push(line);
+        consumed = pattern.lastIndex;
+    }
+    return consumed === text.length ? lines : null;
+};
+
+// The lines typed into the request form, trimmed and without the blank ones. Returns null when a line has
+// a description without a quantity or the other way round.
+export const cleanExtraLines = (lines: ExtraLine[] = []): ExtraLine[] | null => {
+    const cleaned: ExtraLine[] = [];
+    for (const line of lines) {
+        const description = line.description.trim();
+        const note = (line.note || '').trim();
+        if (!description && !line.quantity && !note) continue;
+        if (!description || !line.quantity) return null;
+        cleaned.push(note ? { description, quantity: line.quantity, note } : { description, quantity: line.quantity });
+    }
+    return cleaned;
+};
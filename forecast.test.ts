@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { PurchaseOrder, Report, StockItem } from './types';
+import { CENTRAL_WAREHOUSE } from './constants';
+import { DEFAULT_CATALOG } from './catalog';
+import { DEFAULT_LEAD_TIME_DAYS, buildStockForecast, supplierLeadTimes } from './forecast';
+
+const fulfilled = (id: string, exportDate: string, items: Record<string, number>, fulfilledFrom?: string): Report => ({
+    id, requesterName: 'Requester', campus: 'campus-1', importDate: exportDate, exportDate, items, status: 'Fulfilled', fulfilledFrom,
+});
+
+const stockOf = (quantities: Record<string, number>): Record<string, StockItem> => Object.fromEntries(Object.entries(quantities)
+    .map(([item, quantity]) => [item, { quantity, lastInDate: '', lastOutDate: '', lastUpdateQuantity: 0 }]));
+
+const order = (id: string, orderDate: string, deliveryDate: string | null, items: string[]): PurchaseOrder => ({
+    id, number: id, supplier: 'Supplier', location: CENTRAL_WAREHOUSE, orderDate, status: deliveryDate ? 'Received' : 'Open',
+    lines: items.map(item => ({ item, quantity: 10, unitCost: 1 })),
+    receipts: deliveryDate ? [{ id: `${id}-receipt`, date: deliveryDate, items: {}, createdAt: '', byUserId: 'admin', byName: 'Admin' }] : [],
+    createdAt: '', byUserId: 'admin', byName: 'Admin',
+});
+
+describe('supplierLeadTimes', () => {
+    it('takes the median days to the first delivery, per item and over every order', () => {
+        const leadTimes = supplierLeadTimes([
+            order('po-1', '2026-03-01', '2026-03-05', ['Bk']),
+            order('po-2', '2026-03-01', '2026-03-11', ['Bk', 'Card']),
+            order('po-3', '2026-03-01', '2026-03-31', ['Card']),
+            order('po-4', '2026-03-01', null, ['Cy']),
+        ]);
+
+        expect(leadTimes.byItem).toEqual({ Bk: 7, Card: 20 });
+        expect(leadTimes.typical).toBe(10);
+    });
+
+    it('falls back to the default lead time before any order has been received', () => {
+        expect(supplierLeadTimes([order('po-1', '2026-03-01', null, ['Bk'])])).toEqual({ byItem: {}, typical: DEFAULT_LEAD_TIME_DAYS });
+    });
+});
+
+describe('buildStockForecast', () => {
+    it('projects the stock-out date from the fulfilled requests of the last days, flagging items that run out before delivery', () => {
+        const reports = [fulfilled('report-1', '2026-02-20', { Bk: 14 }), fulfilled('report-2', '2026-03-01', { Bk: 14, Card: 2 })];
+
+        const forecast = buildStockForecast(reports, stockOf({ Bk: 10, Card: 40 }), DEFAULT_CATALOG, [], null, '2026-03-14');
+
+        // Taken over 23 days, from the first fulfilment to today
+        expect(forecast.historyDays).toBe(23);
+        const [toner, cards] = forecast.lines;
+        expect(toner.item.id).toBe('Bk');
+        expect(toner.daysLeft).toBeCloseTo(10 / (28 / 23));
+        expect(toner.stockOutDate).toBe('2026-03-22');
+        expect(toner.runsOutBeforeDelivery).toBe(true);
+        expect(cards.item.id).toBe('Card');
+        expect(cards.runsOutBeforeDelivery).toBe(false);
+    });
+
+    it('averages a short history over two weeks, so one large request is not taken as a steady rate', () => {
+        const forecast = buildStockForecast([fulfilled('report-1', '2026-03-13', { Bk: 28 })], stockOf({ Bk: 10 }), DEFAULT_CATALOG, [], null, '2026-03-14');
+
+        expect(forecast.historyDays).toBe(14);
+        expect(forecast.lines[0].dailyUse).toBe(2);
+    });
+
+    it('counts only the requests fulfilled from the location being viewed', () => {
+        const reports = [fulfilled('report-1', '2026-03-01', { Bk: 14 }), fulfilled('report-2', '2026-03-01', { Card: 14 }, 'campus-1')];
+
+        const forecast = buildStockForecast(reports, stockOf({ Card: 5 }), DEFAULT_CATALOG, [], 'campus-1', '2026-03-14');
+        expect(forecast.lines.map(line => [line.item.id, line.quantity])).toEqual([['Card', 5]]);
+    });
+});
@@ -0,0 +1,122 @@
+import type { CatalogItem, PurchaseOrder, Report, StockItem } from './types';
+import { CENTRAL_WAREHOUSE } from './constants';
+import { activeCatalogItems } from './catalog';
+import { reportHoldsStock } from './workflow';
+import { addDays, daysBetween, isDateString } from './dates';
+
+// Projects when each item runs out from how fast fulfilled requests have been taking it out of stock.
+
+// Burn rates look back this many days at most, so old habits fade out of the forecast.
+export const FORECAST_HISTORY_DAYS = 90;
+// A shorter history would turn a single large request into a steady burn rate.
+const MINIMUM_HISTORY_DAYS = 14;
+// Used until a purchase order has been received, so there is no supplier history to go by.
+export const DEFAULT_LEAD_TIME_DAYS = 14;
+
+export interface ItemForecast {
+    item: CatalogItem;
+    quantity: number; // Current stock
+    dailyUse: number;
+    weeklyUse: number;
+    daysLeft: number; // Days until the stock is used up; 0 when it already is
+    stockOutDate: string; // 'YYYY-MM-DD'
+    leadTimeDays: number;
+    runsOutBeforeDelivery: boolean; // An order placed today would arrive after the stock is gone
+}
+
+export interface StockForecast {
+    historyDays: number; // The days the burn rates are averaged over
+    lines: ItemForecast[]; // Items being used, soonest to run out first
+}
+
+// Burn rates are shown to one decimal place.
+export const formatBurnRate = (rate: number): string => (Math.round(rate * 10) / 10).toString();
+
+// The day a report's items left stock: when it was marked Fulfilled, or its export date for
+// reports fulfilled before the status history existed.
+const fulfilmentDate = (report: Report): string => {
+    const change = [...(report.statusHistory || [])].reverse().find(entry => entry.to === 'Fulfilled');
+    return change ? change.at.split('T')[0] : report.exportDate;
+};
+
+const median = (values: number[]): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// The typical days from ordering an item to its first delivery, over every order received so far.
+// Items never ordered fall back to the typical lead time of every order, then to the default.
+export const supplierLeadTimes = (orders: PurchaseOrder[]): { byItem: Record<string, number>; typical: number } => {
+    const byItem: Record<string, number[]> = {};
+    const all: number[] = [];
+    orders.forEach(order => {
+        if (order.receipts.length === 0) return;
+        const firstDelivery = order.receipts.map(receipt => receipt.date).sort()[0];
+        const days = Math.max(0, daysBetween(order.orderDate, firstDelivery));
+        all.push(days);
+        order.lines.forEach(line => {
+            (byItem[line.item] = byItem[line.item] || []).push(days);
+        });
+    });
+    const typical = median(all) ?? DEFAULT_LEAD_TIME_DAYS;
+    return {
+        byItem: Object.fromEntries(Object.entries(byItem).map(([item, days]) => [item, median(days) ?? typical])),
+        typical,
+    };
+};
+
+// `location` is the stock location being viewed, or null for every location together; `stock` must be
+// the stock of that same view. `today` is 'YYYY-MM-DD'.
+export const buildStockForecast = (
+    reports: Report[],
+    stock: Record<string, StockItem>,
+    catalog: CatalogItem[],
+    orders: PurchaseOrder[],
+    location: string | null,
+    today: string,
+): StockForecast => {
+    const fulfilled = reports
+        .filter(report => reportHoldsStock(report.status) && (!location || (report.fulfilledFrom || CENTRAL_WAREHOUSE) === location))
+        .map(report => ({ report, date: fulfilmentDate(report) }))
+        .filter(({ date }) => isDateString(date) && date <= today);
+
+    const firstDate = fulfilled.map(({ date }) => date).sort()[0];
+    const historyDays = firstDate
+        ? Math.min(FORECAST_HISTORY_DAYS, Math.max(MINIMUM_HISTORY_DAYS, daysBetween(firstDate, today) + 1))
+        : FORECAST_HISTORY_DAYS;
+    const since = addDays(today, -historyDays);
+
+    const used: Record<string, number> = {};
+    fulfilled
+        .filter(({ date }) => date > since)
+        .forEach(({ report }) => {
+            for (const [item, quantity] of Object.entries(report.items || {})) {
+                used[item] = (used[item] || 0) + (Number(quantity) || 0);
+            }
+        });
+
+    const leadTimes = supplierLeadTimes(orders);
+    const lines = activeCatalogItems(catalog)
+        .filter(item => (used[item.id] || 0) > 0)
+        .map(item => {
+            const quantity = stock[item.id]?.quantity || 0;
+            const dailyUse = used[item.id] / historyDays;
+            const daysLeft = Math.max(0, quantity) / dailyUse;
+            const leadTimeDays = leadTimes.byItem[item.id] ?? leadTimes.typical;
+            return {
+                item,
+                quantity,
+                dailyUse,
+                weeklyUse: dailyUse * 7,
+                daysLeft,
+                stockOutDate: addDays(today, Math.floor(daysLeft)),
+                leadTimeDays,
+                runsOutBeforeDelivery: daysLeft < leadTimeDays,
+            };
+        })
+        .sort((a, b) => a.daysLeft - b.daysLeft || a.item.nameEn.localeCompare(b.item.nameEn));
+
+    return { historyDays, lines };
+};
@@ -0,0 +1,51 @@
+import type jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { StockForecast } from './forecast';
+import { formatBurnRate } from './forecast';
+import type { PdfTextWriter } from './pdfText';
+import { bilingualLabel } from './pdfParser';
+
+const FORECAST_PDF_TITLE = 'Stock-Out Forecast';
+const FORECAST_TABLE_COLUMNS = ['Item', 'In Stock', 'Daily Use', 'Weekly Use', 'Stock-Out Date', 'Lead Time (Days)', 'Runs Out Before Delivery'];
+
+const MARGIN = 14;
+// Roughly where the page's usable height ends, before autoTable's bottom margin
+const PAGE_BOTTOM = 270;
+
+// Adds the stock-out forecast to a stock PDF below `startY`. The title starts at the page margin like every
+// other section title, so the PDF import never mistakes the forecast rows for stock quantities.
+export const addForecastSection = (doc: jsPDF, writer: PdfTextWriter, forecast: StockForecast, startY: number): void => {
+    let top = startY;
+    if (top > PAGE_BOTTOM - 20) {
+        doc.addPage();
+        top = 20;
+    }
+    doc.setFontSize(16);
+    doc.setTextColor(45, 55, 72);
+    writer.text(bilingualLabel(FORECAST_PDF_TITLE, ' '), MARGIN, top);
+    doc.setFontSize(9);
+    doc.setTextColor(0, 0, 0);
+    doc.text(`Average daily use by fulfilled requests over the last ${forecast.historyDays} days.`, MARGIN, top + 6);
+
+    autoTable(doc, {
+        head: [FORECAST_TABLE_COLUMNS.map(column => bilingualLabel(column))],
+        body: forecast.lines.length > 0
+            ? forecast.lines.map(({ item, quantity, dailyUse, weeklyUse, daysLeft, stockOutDate, leadTimeDays, runsOutBeforeDelivery }) => [
+                item.nameEn,
+                quantity.toString(),
+                formatBurnRate(dailyUse),
+                formatBurnRate(weeklyUse),
+                daysLeft === 0 ? 'Out of stock' : stockOutDate,
+                Math.round(leadTimeDays).toString(),
+                runsOutBeforeDelivery ? 'Yes' : 'No',
+            ])
+            : [[{ content: 'No fulfilled request has taken anything from this location in that time.', colSpan: FORECAST_TABLE_COLUMNS.length }]],
+        startY: top + 10,
+        theme: 'grid',
+        styles: { fontSize: 9 },
+        headStyles: { fillColor: [80, 80, 80] },
+        // Seven columns leave the item names and dates too little room otherwise
+        columnStyles: { 0: { cellWidth: 36 }, 4: { cellWidth: 24 } },
+        ...writer.tableHooks,
+    });
+};
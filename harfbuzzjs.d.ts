@@ -0,0 +1,56 @@
+// harfbuzzjs ships without types; these cover the parts the PDF export uses.
+
+declare module 'harfbuzzjs/hb.js' {
+    // The Emscripten module factory. `locateFile` says where to fetch hb.wasm from.
+    const createHarfBuzz: (moduleArg?: { locateFile?: (path: string) => string }) => Promise<unknown>;
+    export default createHarfBuzz;
+}
+
+declare module 'harfbuzzjs/hbjs.js' {
+    export interface HbBlob {
+        destroy(): void;
+    }
+
+    export interface HbFace {
+        upem: number; // Font units per em
+        destroy(): void;
+    }
+
+    export interface HbPathCommand {
+        type: 'M' | 'L' | 'Q' | 'C' | 'Z';
+        values: number[]; // Points in font units, y pointing up
+    }
+
+    export interface HbFont {
+        glyphToJson(glyphId: number): HbPathCommand[];
+        destroy(): void;
+    }
+
+    // A glyph as placed by shaping, in font units. `cl` is the index of the first character it came from.
+    export interface HbGlyphPosition {
+        g: number;
+        cl: number;
+        ax: number;
+        ay: number;
+        dx: number;
+        dy: number;
+    }
+
+    export interface HbBuffer {
+        addText(text: string): void;
+        guessSegmentProperties(): void;
+        json(): HbGlyphPosition[];
+        destroy(): void;
+    }
+
+    export interface HarfBuzz {
+        createBlob(data: ArrayBuffer): HbBlob;
+        createFace(blob: HbBlob, index: number): HbFace;
+        createFont(face: HbFace): HbFont;
+        createBuffer(): HbBuffer;
+        shape(font: HbFont, buffer: HbBuffer, features?: string): void;
+    }
+
+    const hbjs: (instance: unknown) => HarfBuzz;
+    export default hbjs;
+}
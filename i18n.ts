@@ -0,0 +1,1107 @@
+import type { ReportStatus, UserRole } from './types';
+
+// The languages the interface can be shown in. Exported PDFs stay English first with Khmer after it,
+// whatever the interface language, so the import can always read them back.
+export type Language = 'en' | 'km';
+
+export const LANGUAGES: Language[] = ['en', 'km'];
+
+// Each language's own name for itself, as shown on the language switcher.
+export const LANGUAGE_NAMES: Record<Language, string> = {
+    en: 'English',
+    km: 'ខ្មែរ',
+};
+
+// The locale dates and numbers are written in for each language
+const LOCALES: Record<Language, string> = {
+    en: 'en-US',
+    km: 'km-KH',
+};
+
+// `{name}` marks where a value is filled in.
+const EN_MESSAGES = {
+    'common.loading': 'Loading...',
+    'common.confirm': 'Confirm',
+    'common.cancel': 'Cancel',
+    'common.notAvailable': 'N/A',
+    'common.unknownError': 'An unknown error occurred.',
+    'common.language': 'Language',
+    'common.active': 'Active',
+    'common.close': 'Close',
+    'common.date': 'Date',
+    'common.note': 'Note (optional)',
+
+    'role.requester': 'Campus requester',
+    'role.stockKeeper': 'Stock keeper',
+    'role.admin': 'Admin',
+
+    'status.Submitted': 'Submitted',
+    'status.Approved': 'Approved',
+    'status.Rejected': 'Rejected',
+    'status.Fulfilled': 'Fulfilled',
+    'status.Cancelled': 'Cancelled',
+
+    'header.signedInAs': 'Signed in as {name} ({role})',
+    'header.manageCatalog': 'Manage Catalog',
+    'header.closeCatalog': 'Close Catalog',
+    'header.manageCampuses': 'Manage Campuses',
+    'header.closeCampuses': 'Close Campuses',
+    'header.manageBudgets': 'Manage Budgets',
+    'header.closeBudgets': 'Close Budgets',
+    'header.recurring': 'Recurring Requests',
+    'header.closeRecurring': 'Close Recurring Requests',
+    'header.auditLog': 'Audit Log',
+    'header.closeAuditLog': 'Close Audit Log',
+    'header.backUp': 'Back Up',
+    'header.restore': 'Restore',
+    'header.manageUsers': 'Manage Users',
+    'header.closeUsers': 'Close Users',
+    'header.signOut': 'Sign out',
+    'header.title': 'Report Stationary',
+
+    'load.error': 'Could not load data from the server: {error}',
+    'load.retry': 'Retry',
+    'load.migrated': 'Your saved data was moved to the server: {reports} reports were uploaded.',
+    'load.migratedStock': '{movements} stock records were uploaded.',
+    'load.migratedStockSkipped': 'The stock in this browser was not uploaded because the server already has stock records.',
+    'load.migratedStockRejected': 'The stock in this browser was not uploaded: {reason}',
+    'load.migratedRejected': '{count} reports were not uploaded and are still kept in this browser:',
+    'load.linkedReportNotFound': 'The request on the scanned delivery note was not found, or you cannot see it.',
+
+    'form.requesterName': 'Requester name',
+    'form.requesterNameHint': 'Filled in from the signed-in user',
+    'form.campus': 'Campus',
+    'form.selectCampus': 'Select a campus',
+    'form.importDate': 'Import date',
+    'form.exportDate': 'Export date',
+    'form.items': 'Items',
+    'form.quantityFor': 'Quantity for {item}',
+    'form.otherItems': 'Other items',
+    'form.otherItemsHint': 'Add a line for anything the list above does not have.',
+    'form.otherItemDescription': 'Description',
+    'form.otherItemNote': 'Note (optional)',
+    'form.addOtherItem': 'Add Line',
+    'form.removeOtherItem': 'Remove',
+    'form.incompleteOtherItem': 'Every other item needs both a description and a quantity.',
+    'form.purpose': 'Purpose',
+    'form.remarks': 'Remarks',
+    'form.add': 'Add',
+    'form.update': 'Update',
+    'form.delete': 'Delete',
+    'form.clear': 'Clear',
+    'form.saved': 'Saved!',
+    'form.fillAllFields': 'Please fill all fields, including dates.',
+    'form.changedElsewhere': 'This request has been changed in another tab or by someone else since you opened it. Load the latest version before saving.',
+    'form.deletedElsewhere': 'This request has been deleted in another tab or by someone else.',
+    'form.loadLatest': 'Load Latest',
+    'form.deliveryNote': 'Delivery Note',
+    'form.deliveryNoteSize': 'Delivery note paper size',
+    'deliveryNote.printed': 'Printed: {date}',
+
+    'handover.title': 'Handover',
+    'handover.missing': 'No signature',
+    'handover.receiverName': "Receiver's name",
+    'handover.receivedBy': 'Received by',
+    'handover.signature': 'Signature',
+    'handover.signHere': 'Sign above with a finger, pen or mouse',
+    'handover.clear': 'Clear Signature',
+    'handover.save': 'Save Signature',
+    'handover.remove': 'Remove Signature',
+    'handover.removeTitle': 'Remove this signature?',
+    'handover.removeBody': "The signature and receiver's name are removed so the request can be signed for again. The log keeps them.",
+    'handover.signedAt': 'Signed {when}, taken by {name}',
+    'templates.fillFrom': 'Fill from a template',
+    'templates.noneForCampus': 'No templates for this campus',
+    'templates.name': 'Template name',
+    'templates.saveAs': 'Save as Template',
+    'templates.save': 'Save Template',
+    'recurring.title': 'Recurring Requests',
+    'recurring.templates': 'Templates',
+    'recurring.noTemplates': 'No templates have been saved.',
+    'recurring.incompleteTemplate': 'Please choose a campus, name the template and ask for at least one item.',
+    'recurring.schedules': 'Schedules',
+    'recurring.schedulesHint': 'A schedule makes a submitted request from its template on every due date, in the name of whoever set it up.',
+    'recurring.template': 'Template',
+    'recurring.selectTemplate': 'Select a template',
+    'recurring.deletedTemplate': 'Deleted template',
+    'recurring.frequency': 'Repeats',
+    'recurring.weekly': 'Every week',
+    'recurring.monthly': 'Every month',
+    'recurring.startDate': 'First due date',
+    'recurring.requestedBy': 'Requested by',
+    'recurring.noSchedules': 'No requests are scheduled.',
+    'recurring.incompleteSchedule': 'Please choose a template and the first due date.',
+    'recurring.upcoming': 'Upcoming',
+    'recurring.upcomingHint': 'The requests due in the next {days} days, and those that could not be requested on their due date and are tried again. Skip one or change its quantities before it is requested.',
+    'recurring.dueDate': 'Due',
+    'recurring.noUpcoming': 'Nothing is due in that time.',
+    'recurring.changed': 'Changed',
+    'recurring.skipped': 'Skipped',
+    'recurring.skip': 'Skip',
+    'recurring.restore': 'Restore',
+    'recurring.editQuantities': 'Edit',
+    'recurring.saveQuantities': 'Save Quantities',
+    'recurring.useTemplateQuantities': "Use the Template's",
+    'recurring.noQuantities': 'Ask for at least one item, or skip the date instead.',
+    'recurring.deleteTemplateTitle': 'Delete Template',
+    'recurring.deleteTemplateBody': 'Delete this template? Requests already made from it are kept.',
+    'recurring.deleteScheduleTitle': 'Delete Schedule',
+    'recurring.deleteScheduleBody': 'Delete this schedule? No more requests will be made from it; those already made are kept.',
+    'recurring.failedUnavailable': 'Could not request {date}: its template, campus or requester has gone or been retired.',
+    'recurring.failedNoItems': 'Could not request {date}: none of its items can still be requested.',
+    'recurring.failedError': 'Could not request {date}: {error}',
+
+    'stock.title': 'Stock System',
+    'stock.location': 'Stock location',
+    'stock.allLocations': 'All Locations',
+    'stock.allLocationsConsolidated': 'All Locations (consolidated)',
+    'stock.exportPdf': 'Export Stock',
+    'stock.exportCsv': 'Export Stock CSV',
+    'stock.purchaseOrders': 'Purchase Orders',
+    'stock.closePurchaseOrders': 'Close Purchase Orders',
+    'stock.lowStock': 'Low Stock ({count})',
+    'stock.closeLowStock': 'Close Low Stock',
+    'stock.transfer': 'Transfer Stock',
+    'stock.closeTransfer': 'Close Transfer',
+    'stock.add': 'Add Stock',
+    'stock.clear': 'Clear Stock',
+    'stock.save': 'Save Stock',
+    'stock.quantityFor': 'Stock quantity for {item}',
+    'stock.showHistory': 'Show stock history for {item}',
+    'stock.lastIn': 'In: {date}',
+    'stock.lastOut': 'Out: {date}',
+    'stock.onOrder': 'On order: {quantity}',
+    'stock.forecast': 'Forecast ({count})',
+    'stock.closeForecast': 'Close Forecast',
+    'stock.runsOut': 'Runs out: {date}',
+
+    'forecast.title': 'Stock-Out Forecast: {location}',
+    'forecast.basis': 'Average use by fulfilled requests over the last {days} days. Items in red run out before an order placed today would arrive.',
+    'forecast.item': 'Item',
+    'forecast.inStock': 'In Stock',
+    'forecast.dailyUse': 'Per Day',
+    'forecast.weeklyUse': 'Per Week',
+    'forecast.stockOut': 'Runs Out',
+    'forecast.leadTime': 'Lead Time',
+    'forecast.days': '{days} days',
+    'forecast.outOfStock': 'Out of stock',
+    'forecast.empty': 'No fulfilled request has taken anything from this location in that time.',
+    'cost.requestCost': 'Request cost: {amount}',
+    'cost.unpriced': 'No price yet for: {items}',
+    'cost.budgetLeft': 'Budget for {period}: {left} of {amount} left with this request',
+    'cost.overspend': 'This request takes the campus {amount} over its budget.',
+    'cost.noBudget': 'No budget is set for this campus on this date.',
+    'cost.otherItemsNotCounted': 'Other items have no price and are not counted.',
+    'budget.title': 'Campus Budgets',
+    'budget.period': 'Period',
+    'budget.month': 'Month',
+    'budget.term': 'Term',
+    'budget.termName': 'Term Name',
+    'budget.termPlaceholder': 'Term 1 2026...',
+    'budget.firstDay': 'First Day',
+    'budget.lastDay': 'Last Day',
+    'budget.amount': 'Amount',
+    'budget.dates': 'Dates',
+    'budget.budget': 'Budget',
+    'budget.spent': 'Spent',
+    'budget.remaining': 'Remaining',
+    'budget.empty': 'No budgets have been set.',
+    'budget.incomplete': 'Please choose a campus, name the period and enter an amount of 0 or more.',
+    'budget.incompleteTerm': 'Please fill in the first and last day of the term.',
+    'budget.deleteTitle': 'Delete Budget',
+    'budget.deleteBody': 'Delete this budget? Requests keep their costs; the campus simply has no budget for the period any more.',
+    'prices.unitCost': 'Unit Cost',
+    'prices.newUnitCost': 'New Unit Cost',
+    'prices.effectiveFrom': 'Effective From',
+    'prices.effectiveFromHint': 'Requests dated from this day on are costed at the new price',
+    'prices.setPrice': 'Set Price',
+    'prices.empty': 'No price has been set for this item yet.',
+    'prices.setBy': 'Set By',
+    'prices.entered': 'Entered',
+    'prices.invalidCost': 'Please enter a unit cost of 0 or more.',
+    'audit.title': 'Audit Log',
+    'audit.show': 'Show',
+    'audit.everything': 'Reports and stock',
+    'audit.reports': 'Reports',
+    'audit.stock': 'Stock',
+    'audit.record': 'Record',
+    'audit.allRecords': 'All records',
+    'audit.when': 'When',
+    'audit.by': 'By',
+    'audit.change': 'Change',
+    'audit.details': 'Details',
+    'audit.reportRecord': '{name}, {campus}, {date}',
+    'audit.action.create': 'Created',
+    'audit.action.update': 'Edited',
+    'audit.action.delete': 'Deleted',
+    'audit.action.status': 'Status changed',
+    'audit.action.stock': 'Stock set',
+    'audit.action.import': 'Imported',
+    'audit.action.handover': 'Handover',
+    'audit.action.undo': 'Undo',
+    'audit.field.status': 'Status',
+    'audit.field.fulfilledFrom': 'Fulfilled from',
+    'audit.undo': 'Undo',
+    'audit.undoneBy': 'Undone by {name}',
+    'audit.refresh': 'Refresh',
+    'audit.empty': 'No changes have been recorded yet.',
+    'offline.offline': 'You are offline. Changes to requests are kept on this device and sent when the connection returns.',
+    'offline.pending': 'Changes waiting to be sent: {count}',
+    'offline.conflicts': 'Changes the server could not save: {count}',
+    'offline.syncNow': 'Send Now',
+    'offline.syncing': 'Sending...',
+    'offline.sendAnyway': 'Send Anyway',
+    'offline.discard': 'Discard',
+    'offline.notSynced': 'Not sent yet',
+    'offline.kind.create': 'New request',
+    'offline.kind.update': 'Edited request',
+    'offline.kind.delete': 'Deleted request',
+    'offline.kind.transition': 'Moved to {status}',
+    'audit.undoWindow': 'Deleting or editing a request and setting stock can be undone for {hours} hours, as long as nothing has changed it again since.',
+
+    'workflow.title': 'Status',
+    'workflow.fulfilledFrom': 'from {location}',
+    'workflow.reason': 'Reason (required to reject or cancel)',
+    'workflow.fulfilmentLocation': 'Stock location to take the items from',
+    'workflow.approve': 'Approve',
+    'workflow.reject': 'Reject',
+    'workflow.cancel': 'Cancel Request',
+    'workflow.fulfil': 'Mark Fulfilled',
+    'workflow.submitted': '{name} submitted it',
+    'workflow.imported': '{name} imported it as {status}',
+    'workflow.moved': '{name} moved it from {from} to {to}',
+    'workflow.noHistory': 'No status history recorded for this request.',
+
+    'catalog.title': 'Item Catalog',
+    'catalog.nameEn': 'English Name',
+    'catalog.nameKm': 'Khmer Name',
+    'catalog.category': 'Category',
+    'catalog.unit': 'Unit',
+    'catalog.unitPlaceholder': 'piece, ream, cartridge...',
+    'catalog.minLevel': 'Minimum Level',
+    'catalog.minLevelHint': 'Stock at or below this level shows up under Low Stock. 0 turns the alert off.',
+    'catalog.reorderQuantity': 'Reorder Quantity',
+    'catalog.minReorder': 'Min / Reorder',
+    'catalog.activeHint': 'Archived items can no longer be requested',
+    'catalog.archived': 'Archived',
+    'catalog.nameRequired': 'Please fill in the English name.',
+
+    'campuses.title': 'Campus Directory',
+    'campuses.name': 'Name',
+    'campuses.address': 'Address',
+    'campuses.contactPerson': 'Contact Person',
+    'campuses.activeHint': 'Retired campuses can no longer receive requests or stock',
+    'campuses.retired': 'Retired',
+    'campuses.nameRequired': 'Please fill in the campus name.',
+
+    'users.title': 'Manage Users',
+    'users.loadError': 'Could not load users: {error}',
+    'users.username': 'Username',
+    'users.displayName': 'Display Name',
+    'users.password': 'Password',
+    'users.newPassword': 'New Password (optional)',
+    'users.role': 'Role',
+    'users.noCampus': 'No campus',
+    'users.inactive': 'Inactive',
+    'users.incomplete': 'Please fill in the username, display name and password.',
+    'users.campusRequired': 'Please choose the campus this requester belongs to.',
+    'login.missingCredentials': 'Please enter your username and password.',
+    'login.signIn': 'Sign in',
+    'login.signingIn': 'Signing in...',
+
+    'history.title': 'Stock History: {item}',
+    'history.change': 'Change',
+    'history.balance': 'Balance',
+    'history.location': 'Location',
+    'history.reason': 'Reason',
+    'history.report': 'Report',
+    'history.deletedReport': 'Deleted report',
+    'history.empty': 'No stock movements recorded for this item.',
+    'movement.opening': 'Opening balance',
+    'movement.report': 'Report',
+    'movement.adjustment': 'Manual adjustment',
+    'movement.clear': 'Stock cleared',
+    'movement.import': 'Import',
+    'movement.transfer': 'Transfer',
+    'movement.receipt': 'Goods received',
+    'lowStock.title': 'Low Stock: {location}',
+    'lowStock.generate': 'Generate Reorder List',
+    'lowStock.minimum': 'Minimum',
+    'lowStock.order': 'Order',
+    'lowStock.empty': 'Every item is above its minimum level.',
+
+    'transfer.from': 'From',
+    'transfer.to': 'To',
+    'transfer.selectLocation': 'Select a location',
+    'transfer.quantityFor': 'Quantity of {item} to transfer',
+    'transfer.submit': 'Transfer',
+    'transfer.empty': 'No transfers yet.',
+    'transfer.incomplete': 'Please choose both locations and a date.',
+    'transfer.sameLocation': 'Please choose two different locations.',
+    'transfer.noItems': 'Please enter at least one item to transfer.',
+
+    'purchase.new': 'New Purchase Order',
+    'purchase.supplier': 'Supplier',
+    'purchase.deliverTo': 'Deliver To',
+    'purchase.orderDate': 'Order Date',
+    'purchase.expected': 'Expected',
+    'purchase.quantity': 'Qty',
+    'purchase.quantityFor': 'Quantity of {item} to order',
+    'purchase.unitCostFor': 'Unit cost of {item}',
+    'purchase.create': 'Create Order',
+    'purchase.showClosed': 'Show received and cancelled orders',
+    'purchase.number': 'Number',
+    'purchase.onTheWay': 'On the Way',
+    'purchase.empty': 'No open purchase orders.',
+    'purchase.orderedBy': 'ordered {date} by {name}',
+    'purchase.ordered': 'Ordered',
+    'purchase.received': 'Received',
+    'purchase.outstanding': 'Outstanding',
+    'purchase.receiveNow': 'Receive Now',
+    'purchase.receivedFor': 'Quantity of {item} received',
+    'purchase.dateReceived': 'Date received',
+    'purchase.deliveryNote': 'Delivery note number (optional)',
+    'purchase.receive': 'Receive',
+    'purchase.receipt': '{name} received {items}',
+    'purchase.nothingReceived': 'Nothing received against this order yet.',
+    'purchase.incomplete': 'Please fill in the supplier and the order date.',
+    'purchase.noLines': 'Please enter a quantity for at least one item.',
+    'purchase.nothingToReceive': 'Please enter the quantity received for at least one item.',
+    'purchase.status.open': 'Open',
+    'purchase.status.partiallyReceived': 'Partially Received',
+    'purchase.status.received': 'Received',
+    'purchase.status.cancelled': 'Cancelled',
+
+    'preview.title': 'Import Preview: {file}',
+    'preview.import': 'Import',
+    'preview.discard': 'Discard',
+    'preview.reports': 'Reports: {new} new, {duplicates} duplicates',
+    'preview.match': 'Match',
+    'preview.action': 'Action',
+    'preview.new': 'New',
+    'preview.duplicate': 'Duplicate',
+    'preview.noReports': 'The PDF has no reports.',
+    'preview.stockAt': 'Stock at',
+    'preview.current': 'Current',
+    'preview.inPdf': 'In PDF',
+    'preview.afterImport': 'After Import',
+    'preview.noStock': 'The PDF has no stock inventory, so stock stays as it is.',
+    'preview.action.merge': 'Merge',
+    'preview.action.replace': 'Replace',
+    'preview.action.skip': 'Skip',
+
+    'sheet.title': 'Import Spreadsheet: {file}',
+    'sheet.sheet': 'Sheet',
+    'sheet.importAs': 'Import As',
+    'sheet.reports': 'Reports',
+    'sheet.stock': 'Stock quantities',
+    'sheet.columns': 'Columns',
+    'sheet.notMapped': '— Not mapped —',
+    'sheet.column': 'Column {number}',
+    'sheet.stockHint': 'Items in the sheet are set to its quantity at the location; items left out keep theirs.',
+    'sheet.dryRun': 'Dry run (check the rows without saving)',
+    'sheet.checkRows': 'Check Rows',
+    'sheet.import': 'Import',
+    'sheet.mapColumns': 'Map a column to {fields}.',
+    'sheet.canImport': '{count} rows can be imported.',
+    'sheet.canImportSome': '{count} rows can be imported; {failed} rows have errors and would be skipped.',
+    'sheet.imported': '{count} rows were imported.',
+    'sheet.importedSome': '{count} rows were imported; {failed} rows have errors and were skipped.',
+    'sheet.row': 'Row',
+    'sheet.errors': 'Errors',
+
+    'filter.campus': 'Select campus',
+    'filter.allCampuses': 'All Campuses',
+    'filter.retiredCampus': '{name} (retired)',
+    'filter.description': 'Search by item',
+    'filter.descriptionPlaceholder': 'Search by description, purpose or remarks...',
+    'filter.month': 'Filter by month',
+    'filter.allMonths': 'All Months',
+    'filter.week': 'Filter by week',
+    'filter.allWeeks': 'All Weeks',
+    'filter.weekOf': 'Week of {date}',
+
+    'actions.importPdf': 'Import PDF',
+    'actions.importing': 'Importing...',
+    'actions.importSheet': 'Import Sheet',
+    'actions.exportPdf': 'Export PDF',
+    'actions.exportXlsx': 'Export XLSX',
+    'actions.exportCsv': 'Export CSV',
+    'actions.exportSpending': 'Spending PDF',
+    'actions.dashboard': 'Dashboard',
+    'actions.closeDashboard': 'Close Dashboard',
+
+    'dashboard.title': 'Consumption Dashboard',
+    'dashboard.requestCount': '{count} requests match the filters',
+    'dashboard.includeInPdf': 'Add to the PDF report',
+    'dashboard.itemsOverTime': 'Quantities requested over time',
+    'dashboard.byCampus': 'By campus',
+    'dashboard.topRequesters': 'Top requesters',
+    'dashboard.byStatus': 'Requests by status',
+    'dashboard.fulfilledShare': '{percent}% of the open and fulfilled requests are fulfilled',
+    'dashboard.requester': 'Requester',
+    'dashboard.quantity': 'Quantity',
+    'dashboard.requests': 'Requests',
+    'dashboard.empty': 'No requests match the filters.',
+
+    'table.itemTotals': 'Total items requested',
+    'table.requesterName': 'Requester name',
+    'table.campus': 'Campus',
+    'table.importDate': 'Import date',
+    'table.exportDate': 'Export date',
+    'table.description': 'Description',
+    'table.total': 'Total',
+    'table.status': 'Status',
+    'table.loading': 'Loading reports...',
+    'table.noMatches': 'No matching reports found.',
+    'table.empty': 'No reports yet.',
+
+    'error.insufficientStock': 'Insufficient stock for: {items}.',
+    'error.noDataToExport': 'No data to export.',
+    'error.noStockToExport': 'No stock data to export.',
+    'error.noLowStock': 'No items are at or below their minimum level.',
+    'error.sheetHasNoRows': 'The file has no rows.',
+    'error.notJsonBackup': 'The file is not a JSON backup.',
+    'error.importPdf': 'Error importing PDF: {error}',
+    'error.cannotAddReport': 'Cannot add report.',
+    'error.cannotUpdateReport': 'Cannot update report.',
+    'error.cannotMoveRequest': 'Cannot move the request to {status}.',
+    'error.transitionNotAllowed': 'A {from} request cannot be moved to {to}.',
+    'error.transitionNotPermitted': 'You do not have permission to move this request to {to}.',
+    'error.transitionNeedsReason': 'Please give a reason for moving this request to {to}.',
+    'error.cannotDeleteReport': 'Cannot delete report.',
+    'error.cannotSaveSignature': 'Cannot save the signature.',
+    'error.cannotRemoveSignature': 'Cannot remove the signature.',
+    'error.cannotSaveTemplate': 'Cannot save the template.',
+    'error.cannotDeleteTemplate': 'Cannot delete the template.',
+    'error.cannotSaveSchedule': 'Cannot save the schedule.',
+    'error.cannotDeleteSchedule': 'Cannot delete the schedule.',
+    'error.cannotSaveBudget': 'Cannot save the budget.',
+    'error.cannotDeleteBudget': 'Cannot delete the budget.',
+    'error.cannotSavePrice': 'Cannot save the price.',
+    'error.cannotExportPdf': 'Cannot export PDF.',
+    'error.cannotExportSpreadsheet': 'Cannot export spreadsheet.',
+    'error.cannotReadSpreadsheet': 'Cannot read spreadsheet.',
+    'error.cannotImportReports': 'Cannot import reports.',
+    'error.cannotImportStock': 'Cannot import stock.',
+    'error.cannotImportPdf': 'Cannot import PDF.',
+    'error.cannotSaveItem': 'Cannot save item.',
+    'error.cannotSaveCampus': 'Cannot save campus.',
+    'error.cannotSaveUser': 'Cannot save user.',
+    'error.cannotSaveStock': 'Cannot save stock.',
+    'error.cannotClearStock': 'Cannot clear stock.',
+    'error.cannotTransferStock': 'Cannot transfer stock.',
+    'error.cannotCreatePurchaseOrder': 'Cannot create purchase order.',
+    'error.cannotReceiveGoods': 'Cannot receive goods.',
+    'error.cannotCancelPurchaseOrder': 'Cannot cancel purchase order.',
+    'error.cannotCreateBackup': 'Cannot create backup.',
+    'error.cannotRestoreBackup': 'Cannot restore backup.',
+    'error.cannotLoadAuditLog': 'Cannot load the audit log.',
+    'error.cannotUndo': 'Cannot undo the change.',
+
+    'confirm.deleteReport.title': 'Confirm Report Deletion',
+    'confirm.deleteReport.button': 'Delete',
+    'confirm.deleteReport.body': 'Are you sure you want to delete the report for {name} from campus {campus}?',
+    'confirm.deleteReport.bodyUnknown': 'Are you sure you want to delete this report?',
+    'confirm.undoFromAuditLog': 'You can undo this from the audit log for {hours} hours.',
+    'confirm.clearStock.title': 'Confirm Clear Stock',
+    'confirm.clearStock.button': 'Clear All',
+    'confirm.clearStock.body': 'Are you sure you want to clear all stock at {location}? This will set the quantity of all items there to 0.',
+    'confirm.clearStock.note': 'The stock history of each item is kept, and the clear can be undone from the audit log for {hours} hours.',
+    'confirm.cancelPurchaseOrder.title': 'Confirm Cancel Purchase Order',
+    'confirm.cancelPurchaseOrder.button': 'Cancel Order',
+    'confirm.cancelPurchaseOrder.body': 'Are you sure you want to cancel {number} from {supplier}? Anything not received yet will no longer be expected.',
+    'confirm.cancelPurchaseOrder.note': 'Goods already received stay in stock.',
+    'confirm.import.title': 'Confirm PDF Import',
+    'confirm.import.button': 'Import',
+    'confirm.import.reports': 'Import {file}: add {merged} reports, replace {replaced} and skip {skipped}.',
+    'confirm.import.stock': 'Change the stock of {count} items at {location}.',
+    'confirm.import.note': 'Imported fulfilled reports take their items out of the stock at the import location; replaced reports keep their status.',
+    'confirm.restore.title': 'Confirm Restore Backup',
+    'confirm.restore.button': 'Restore',
+    'confirm.restore.body': "Restoring {file}, made on {date}, replaces everything below with the backup's contents.",
+    'confirm.restore.records': 'Records',
+    'confirm.restore.now': 'Now',
+    'confirm.restore.inBackup': 'In Backup',
+    'confirm.restore.note': 'User accounts are not part of a backup and stay as they are. This action cannot be undone.',
+    'confirm.undo.title': 'Undo Change',
+    'confirm.undo.button': 'Undo',
+    'confirm.undo.body': 'Undo this change? The request or the stock goes back to how it was before it, and any stock the change moved is moved back.',
+
+    'backup.campuses': 'Campuses',
+    'backup.catalogItems': 'Catalog items',
+    'backup.reports': 'Reports',
+    'backup.stockMovements': 'Stock movements',
+    'backup.transfers': 'Transfers',
+    'backup.purchaseOrders': 'Purchase orders',
+    'backup.itemPrices': 'Item prices',
+    'backup.campusBudgets': 'Campus budgets',
+    'backup.requestTemplates': 'Request templates',
+    'backup.requestSchedules': 'Recurring requests',
+    'backup.auditLog': 'Audit log entries',
+};
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+// Typed against the English catalog, so a message missing from any language fails the type check.
+const KM_MESSAGES: Record<MessageKey, string> = {
+    'common.loading': 'កំពុងផ្ទុក...',
+    'common.confirm': 'បញ្ជាក់',
+    'common.cancel': 'បោះបង់',
+    'common.notAvailable': 'គ្មាន',
+    'common.unknownError': 'មានកំហុសមិនស្គាល់មួយបានកើតឡើង។',
+    'common.language': 'ភាសា',
+    'common.active': 'សកម្ម',
+    'common.close': 'បិទ',
+    'common.date': 'កាលបរិច្ឆេទ',
+    'common.note': 'កំណត់ចំណាំ (ស្រេចចិត្ត)',
+
+    'role.requester': 'អ្នកស្នើសុំប្រចាំសាខា',
+    'role.stockKeeper': 'អ្នកគ្រប់គ្រងស្តុក',
+    'role.admin': 'អ្នកគ្រប់គ្រងប្រព័ន្ធ',
+
+    'status.Submitted': 'បានដាក់ស្នើ',
+    'status.Approved': 'បានអនុម័ត',
+    'status.Rejected': 'បានបដិសេធ',
+    'status.Fulfilled': 'បានប្រគល់',
+    'status.Cancelled': 'បានលុបចោល',
+
+    'header.signedInAs': 'បានចូលជា {name} ({role})',
+    'header.manageCatalog': 'គ្រប់គ្រងបញ្ជីសម្ភារៈ',
+    'header.closeCatalog': 'បិទបញ្ជីសម្ភារៈ',
+    'header.manageCampuses': 'គ្រប់គ្រងសាខា',
+    'header.closeCampuses': 'បិទសាខា',
+    'header.manageBudgets': 'គ្រប់គ្រងថវិកា',
+    'header.closeBudgets': 'បិទថវិកា',
+    'header.recurring': 'សំណើប្រចាំ',
+    'header.closeRecurring': 'បិទសំណើប្រចាំ',
+    'header.auditLog': 'កំណត់ហេតុសវនកម្ម',
+    'header.closeAuditLog': 'បិទកំណត់ហេតុសវនកម្ម',
+    'header.backUp': 'បម្រុងទុក',
+    'header.restore': 'ស្តារ',
+    'header.manageUsers': 'គ្រប់គ្រងអ្នកប្រើ',
+    'header.closeUsers': 'បិទអ្នកប្រើ',
+    'header.signOut': 'ចាកចេញ',
+    'header.title': 'របាយការណ៍សម្ភារៈការិយាល័យ',
+
+    'load.error': 'មិនអាចទាញយកទិន្នន័យពីម៉ាស៊ីនមេបានទេ៖ {error}',
+    'load.retry': 'ព្យាយាមម្តងទៀត',
+    'load.migrated': 'ទិន្នន័យដែលបានរក្សាទុករបស់អ្នកត្រូវបានផ្ទេរទៅម៉ាស៊ីនមេ៖ បានផ្ទុករបាយការណ៍ {reports}។',
+    'load.migratedStock': 'បានផ្ទុកកំណត់ត្រាស្តុក {movements}។',
+    'load.migratedStockSkipped': 'ស្តុកក្នុងកម្មវិធីរុករកនេះមិនត្រូវបានផ្ទុកទេ ព្រោះម៉ាស៊ីនមេមានកំណត់ត្រាស្តុករួចហើយ។',
+    'load.migratedStockRejected': 'ស្តុកក្នុងកម្មវិធីរុករកនេះមិនត្រូវបានផ្ទុកទេ៖ {reason}',
+    'load.migratedRejected': 'របាយការណ៍ {count} មិនត្រូវបានផ្ទុកទេ ហើយនៅតែរក្សាទុកក្នុងកម្មវិធីរុករកនេះ៖',
+    'load.linkedReportNotFound': 'រកមិនឃើញសំណើនៅលើលិខិតប្រគល់សម្ភារៈដែលបានស្កេនទេ ឬអ្នកមិនអាចមើលវាបានទេ។',
+
+    'form.requesterName': 'ឈ្មោះអ្នកស្នើសុំ',
+    'form.requesterNameHint': 'បំពេញពីអ្នកប្រើដែលបានចូល',
+    'form.campus': 'សាខា',
+    'form.selectCampus': 'ជ្រើសរើសសាខា',
+    'form.importDate': 'ថ្ងៃនាំចូល',
+    'form.exportDate': 'ថ្ងៃនាំចេញ',
+    'form.items': 'សម្ភារៈ',
+    'form.quantityFor': 'ចំនួន {item}',
+    'form.otherItems': 'សម្ភារៈផ្សេងទៀត',
+    'form.otherItemsHint': 'បន្ថែមបន្ទាត់សម្រាប់អ្វីដែលមិនមាននៅក្នុងបញ្ជីខាងលើ។',
+    'form.otherItemDescription': 'ការពិពណ៌នា',
+    'form.otherItemNote': 'កំណត់ចំណាំ (ស្រេចចិត្ត)',
+    'form.addOtherItem': 'បន្ថែមបន្ទាត់',
+    'form.removeOtherItem': 'ដកចេញ',
+    'form.incompleteOtherItem': 'សម្ភារៈផ្សេងទៀតនីមួយៗត្រូវមានទាំងការពិពណ៌នា និងចំនួន។',
+    'form.purpose': 'គោលបំណង',
+    'form.remarks': 'កំណត់សម្គាល់',
+    'form.add': 'បន្ថែម',
+    'form.update': 'កែប្រែ',
+    'form.delete': 'លុប',
+    'form.clear': 'សម្អាត',
+    'form.saved': 'បានរក្សាទុក!',
+    'form.fillAllFields': 'សូមបំពេញគ្រប់ប្រអប់ រួមទាំងកាលបរិច្ឆេទផង។',
+    'form.changedElsewhere': 'សំណើនេះត្រូវបានកែប្រែនៅក្នុងផ្ទាំងផ្សេង ឬដោយអ្នកផ្សេង តាំងពីអ្នកបានបើកវា។ សូមផ្ទុកកំណែចុងក្រោយមុននឹងរក្សាទុក។',
+    'form.deletedElsewhere': 'សំណើនេះត្រូវបានលុបនៅក្នុងផ្ទាំងផ្សេង ឬដោយអ្នកផ្សេង។',
+    'form.loadLatest': 'ផ្ទុកកំណែចុងក្រោយ',
+    'form.deliveryNote': 'លិខិតប្រគល់សម្ភារៈ',
+    'form.deliveryNoteSize': 'ទំហំក្រដាសលិខិតប្រគល់សម្ភារៈ',
+    'deliveryNote.printed': 'បោះពុម្ព៖ {date}',
+
+    'handover.title': 'ការប្រគល់',
+    'handover.missing': 'គ្មានហត្ថលេខា',
+    'handover.receiverName': 'ឈ្មោះអ្នកទទួល',
+    'handover.receivedBy': 'ទទួលដោយ',
+    'handover.signature': 'ហត្ថលេខា',
+    'handover.signHere': 'ចុះហត្ថលេខាខាងលើដោយប្រើម្រាមដៃ ប៊ិច ឬកណ្ដុរ',
+    'handover.clear': 'លុបហត្ថលេខា',
+    'handover.save': 'រក្សាទុកហត្ថលេខា',
+    'handover.remove': 'ដកហត្ថលេខាចេញ',
+    'handover.removeTitle': 'ដកហត្ថលេខានេះចេញឬ?',
+    'handover.removeBody': 'ហត្ថលេខា និងឈ្មោះអ្នកទទួលនឹងត្រូវដកចេញ ដើម្បីឱ្យសំណើអាចចុះហត្ថលេខាម្ដងទៀតបាន។ កំណត់ហេតុនៅតែរក្សាទុកវា។',
+    'handover.signedAt': 'បានចុះហត្ថលេខា {when} ដោយ {name} ជាអ្នកកត់ត្រា',
+    'templates.fillFrom': 'បំពេញពីគំរូ',
+    'templates.noneForCampus': 'គ្មានគំរូសម្រាប់សាខានេះ',
+    'templates.name': 'ឈ្មោះគំរូ',
+    'templates.saveAs': 'រក្សាទុកជាគំរូ',
+    'templates.save': 'រក្សាទុកគំរូ',
+    'recurring.title': 'សំណើប្រចាំ',
+    'recurring.templates': 'គំរូ',
+    'recurring.noTemplates': 'មិនទាន់មានគំរូដែលបានរក្សាទុកទេ។',
+    'recurring.incompleteTemplate': 'សូមជ្រើសរើសសាខា ដាក់ឈ្មោះគំរូ និងស្នើសុំសម្ភារៈយ៉ាងហោចណាស់មួយ។',
+    'recurring.schedules': 'កាលវិភាគ',
+    'recurring.schedulesHint': 'កាលវិភាគបង្កើតសំណើដែលបានដាក់ស្នើពីគំរូរបស់វានៅរាល់ថ្ងៃកំណត់ ក្នុងនាមអ្នកដែលបានរៀបចំវា។',
+    'recurring.template': 'គំរូ',
+    'recurring.selectTemplate': 'ជ្រើសរើសគំរូ',
+    'recurring.deletedTemplate': 'គំរូដែលបានលុប',
+    'recurring.frequency': 'ធ្វើឡើងវិញ',
+    'recurring.weekly': 'រៀងរាល់សប្តាហ៍',
+    'recurring.monthly': 'រៀងរាល់ខែ',
+    'recurring.startDate': 'ថ្ងៃកំណត់ដំបូង',
+    'recurring.requestedBy': 'ស្នើសុំដោយ',
+    'recurring.noSchedules': 'មិនមានសំណើដែលបានកំណត់កាលវិភាគទេ។',
+    'recurring.incompleteSchedule': 'សូមជ្រើសរើសគំរូ និងថ្ងៃកំណត់ដំបូង។',
+    'recurring.upcoming': 'ខាងមុខ',
+    'recurring.upcomingHint': 'សំណើដែលត្រូវធ្វើក្នុងរយៈពេល {days} ថ្ងៃខាងមុខ និងសំណើដែលមិនអាចស្នើបាននៅថ្ងៃកំណត់ ហើយកំពុងព្យាយាមម្តងទៀត។ រំលងមួយ ឬប្តូរបរិមាណរបស់វាមុនពេលវាត្រូវបានស្នើ។',
+    'recurring.dueDate': 'ថ្ងៃកំណត់',
+    'recurring.noUpcoming': 'គ្មានអ្វីត្រូវធ្វើក្នុងរយៈពេលនោះទេ។',
+    'recurring.changed': 'បានប្តូរ',
+    'recurring.skipped': 'បានរំលង',
+    'recurring.skip': 'រំលង',
+    'recurring.restore': 'ស្ដារ',
+    'recurring.editQuantities': 'កែសម្រួល',
+    'recurring.saveQuantities': 'រក្សាទុកបរិមាណ',
+    'recurring.useTemplateQuantities': 'ប្រើបរិមាណរបស់គំរូ',
+    'recurring.noQuantities': 'សូមស្នើសុំសម្ភារៈយ៉ាងហោចណាស់មួយ ឬរំលងថ្ងៃនោះជំនួសវិញ។',
+    'recurring.deleteTemplateTitle': 'លុបគំរូ',
+    'recurring.deleteTemplateBody': 'លុបគំរូនេះ? សំណើដែលបានធ្វើរួចពីវានៅតែរក្សាទុក។',
+    'recurring.deleteScheduleTitle': 'លុបកាលវិភាគ',
+    'recurring.deleteScheduleBody': 'លុបកាលវិភាគនេះ? នឹងមិនមានសំណើថ្មីពីវាទៀតទេ ហើយសំណើដែលបានធ្វើរួចនៅតែរក្សាទុក។',
+    'recurring.failedUnavailable': 'មិនអាចស្នើសុំសម្រាប់ {date} បានទេ៖ គំរូ សាខា ឬអ្នកស្នើសុំរបស់វាលែងមាន ឬបានឈប់ប្រើហើយ។',
+    'recurring.failedNoItems': 'មិនអាចស្នើសុំសម្រាប់ {date} បានទេ៖ គ្មានសម្ភារៈណាមួយរបស់វាអាចស្នើសុំបានទៀតទេ។',
+    'recurring.failedError': 'មិនអាចស្នើសុំសម្រាប់ {date} បានទេ៖ {error}',
+
+    'stock.title': 'ប្រព័ន្ធស្តុក',
+    'stock.location': 'ទីតាំងស្តុក',
+    'stock.allLocations': 'គ្រប់ទីតាំង',
+    'stock.allLocationsConsolidated': 'គ្រប់ទីតាំង (សរុបរួម)',
+    'stock.exportPdf': 'នាំចេញស្តុក',
+    'stock.exportCsv': 'នាំចេញស្តុកជា CSV',
+    'stock.purchaseOrders': 'ការបញ្ជាទិញ',
+    'stock.closePurchaseOrders': 'បិទការបញ្ជាទិញ',
+    'stock.lowStock': 'ស្តុកទាប ({count})',
+    'stock.closeLowStock': 'បិទស្តុកទាប',
+    'stock.transfer': 'ផ្ទេរស្តុក',
+    'stock.closeTransfer': 'បិទការផ្ទេរ',
+    'stock.add': 'បន្ថែមស្តុក',
+    'stock.clear': 'សម្អាតស្តុក',
+    'stock.save': 'រក្សាទុកស្តុក',
+    'stock.quantityFor': 'ចំនួនស្តុក {item}',
+    'stock.showHistory': 'បង្ហាញប្រវត្តិស្តុក {item}',
+    'stock.lastIn': 'ចូល៖ {date}',
+    'stock.lastOut': 'ចេញ៖ {date}',
+    'stock.onOrder': 'កំពុងបញ្ជាទិញ៖ {quantity}',
+    'stock.forecast': 'ការព្យាករ ({count})',
+    'stock.closeForecast': 'បិទការព្យាករ',
+    'stock.runsOut': 'អស់នៅ៖ {date}',
+
+    'forecast.title': 'ការព្យាករការអស់ស្តុក៖ {location}',
+    'forecast.basis': 'ការប្រើប្រាស់ជាមធ្យមដោយសំណើដែលបានផ្តល់ ក្នុងរយៈពេល {days} ថ្ងៃចុងក្រោយ។ សម្ភារៈពណ៌ក្រហមនឹងអស់មុនពេលការបញ្ជាទិញថ្ងៃនេះមកដល់។',
+    'forecast.item': 'សម្ភារៈ',
+    'forecast.inStock': 'មានក្នុងស្តុក',
+    'forecast.dailyUse': 'ក្នុងមួយថ្ងៃ',
+    'forecast.weeklyUse': 'ក្នុងមួយសប្តាហ៍',
+    'forecast.stockOut': 'អស់នៅ',
+    'forecast.leadTime': 'រយៈពេលដឹកជញ្ជូន',
+    'forecast.days': '{days} ថ្ងៃ',
+    'forecast.outOfStock': 'អស់ស្តុក',
+    'forecast.empty': 'គ្មានសំណើដែលបានផ្តល់ណាមួយបានយកសម្ភារៈពីទីតាំងនេះក្នុងរយៈពេលនោះទេ។',
+    'cost.requestCost': 'តម្លៃសំណើ៖ {amount}',
+    'cost.unpriced': 'មិនទាន់មានតម្លៃសម្រាប់៖ {items}',
+    'cost.budgetLeft': 'ថវិកាសម្រាប់ {period}៖ នៅសល់ {left} ក្នុងចំណោម {amount} រួមទាំងសំណើនេះ',
+    'cost.overspend': 'សំណើនេះធ្វើឱ្យសាខាចំណាយលើសថវិកា {amount}។',
+    'cost.noBudget': 'មិនទាន់មានថវិកាកំណត់សម្រាប់សាខានេះនៅថ្ងៃនេះទេ។',
+    'cost.otherItemsNotCounted': 'សម្ភារៈផ្សេងទៀតមិនមានតម្លៃ ហើយមិនត្រូវបានគិតបញ្ចូលទេ។',
+    'budget.title': 'ថវិកាសាខា',
+    'budget.period': 'រយៈពេល',
+    'budget.month': 'ខែ',
+    'budget.term': 'ឆមាស',
+    'budget.termName': 'ឈ្មោះឆមាស',
+    'budget.termPlaceholder': 'ឆមាសទី ១ ២០២៦...',
+    'budget.firstDay': 'ថ្ងៃដំបូង',
+    'budget.lastDay': 'ថ្ងៃចុងក្រោយ',
+    'budget.amount': 'ចំនួនទឹកប្រាក់',
+    'budget.dates': 'កាលបរិច្ឆេទ',
+    'budget.budget': 'ថវិកា',
+    'budget.spent': 'បានចំណាយ',
+    'budget.remaining': 'នៅសល់',
+    'budget.empty': 'មិនទាន់មានថវិកាកំណត់ទេ។',
+    'budget.incomplete': 'សូមជ្រើសរើសសាខា ដាក់ឈ្មោះរយៈពេល និងបញ្ចូលចំនួនទឹកប្រាក់ចាប់ពី 0 ឡើងទៅ។',
+    'budget.incompleteTerm': 'សូមបំពេញថ្ងៃដំបូង និងថ្ងៃចុងក្រោយនៃឆមាស។',
+    'budget.deleteTitle': 'លុបថវិកា',
+    'budget.deleteBody': 'លុបថវិកានេះ? សំណើនៅតែរក្សាតម្លៃរបស់វា គ្រាន់តែសាខាលែងមានថវិកាសម្រាប់រយៈពេលនោះទៀតប៉ុណ្ណោះ។',
+    'prices.unitCost': 'តម្លៃឯកតា',
+    'prices.newUnitCost': 'តម្លៃឯកតាថ្មី',
+    'prices.effectiveFrom': 'មានប្រសិទ្ធភាពពី',
+    'prices.effectiveFromHint': 'សំណើដែលមានកាលបរិច្ឆេទចាប់ពីថ្ងៃនេះតទៅ ត្រូវគិតតាមតម្លៃថ្មី',
+    'prices.setPrice': 'កំណត់តម្លៃ',
+    'prices.empty': 'មិនទាន់មានតម្លៃកំណត់សម្រាប់សម្ភារៈនេះនៅឡើយទេ។',
+    'prices.setBy': 'កំណត់ដោយ',
+    'prices.entered': 'បានបញ្ចូល',
+    'prices.invalidCost': 'សូមបញ្ចូលតម្លៃឯកតាចាប់ពី 0 ឡើងទៅ។',
+    'audit.title': 'កំណត់ហេតុសវនកម្ម',
+    'audit.show': 'បង្ហាញ',
+    'audit.everything': 'របាយការណ៍ និងស្តុក',
+    'audit.reports': 'របាយការណ៍',
+    'audit.stock': 'ស្តុក',
+    'audit.record': 'កំណត់ត្រា',
+    'audit.allRecords': 'កំណត់ត្រាទាំងអស់',
+    'audit.when': 'ពេលវេលា',
+    'audit.by': 'ដោយ',
+    'audit.change': 'ការផ្លាស់ប្តូរ',
+    'audit.details': 'ព័ត៌មានលម្អិត',
+    'audit.reportRecord': '{name}, {campus}, {date}',
+    'audit.action.create': 'បានបង្កើត',
+    'audit.action.update': 'បានកែប្រែ',
+    'audit.action.delete': 'បានលុប',
+    'audit.action.status': 'បានប្តូរស្ថានភាព',
+    'audit.action.stock': 'បានកំណត់ស្តុក',
+    'audit.action.import': 'បាននាំចូល',
+    'audit.action.handover': 'ការប្រគល់',
+    'audit.action.undo': 'ត្រឡប់វិញ',
+    'audit.field.status': 'ស្ថានភាព',
+    'audit.field.fulfilledFrom': 'ផ្តល់ពី',
+    'audit.undo': 'ត្រឡប់វិញ',
+    'audit.undoneBy': 'ត្រូវបានត្រឡប់វិញដោយ {name}',
+    'audit.refresh': 'ផ្ទុកឡើងវិញ',
+    'audit.empty': 'មិនទាន់មានការផ្លាស់ប្តូរណាមួយត្រូវបានកត់ត្រាទេ។',
+    'offline.offline': 'អ្នកកំពុងគ្មានអ៊ីនធឺណិត។ ការផ្លាស់ប្តូរសំណើត្រូវបានរក្សាទុកនៅលើឧបករណ៍នេះ ហើយនឹងផ្ញើនៅពេលមានការតភ្ជាប់វិញ។',
+    'offline.pending': 'ការផ្លាស់ប្តូរកំពុងរង់ចាំផ្ញើ៖ {count}',
+    'offline.conflicts': 'ការផ្លាស់ប្តូរដែលម៉ាស៊ីនមេមិនអាចរក្សាទុកបាន៖ {count}',
+    'offline.syncNow': 'ផ្ញើឥឡូវនេះ',
+    'offline.syncing': 'កំពុងផ្ញើ...',
+    'offline.sendAnyway': 'ផ្ញើទោះយ៉ាងណាក៏ដោយ',
+    'offline.discard': 'បោះបង់',
+    'offline.notSynced': 'មិនទាន់បានផ្ញើ',
+    'offline.kind.create': 'សំណើថ្មី',
+    'offline.kind.update': 'សំណើដែលបានកែ',
+    'offline.kind.delete': 'សំណើដែលបានលុប',
+    'offline.kind.transition': 'បានប្តូរទៅ {status}',
+    'audit.undoWindow': 'ការលុប ឬកែប្រែសំណើ និងការកំណត់ស្តុក អាចត្រឡប់វិញបានក្នុងរយៈពេល {hours} ម៉ោង ដរាបណាមិនមានអ្វីផ្លាស់ប្តូរវាម្តងទៀត។',
+
+    'workflow.title': 'ស្ថានភាព',
+    'workflow.fulfilledFrom': 'ពី {location}',
+    'workflow.reason': 'មូលហេតុ (ត្រូវការសម្រាប់ការបដិសេធ ឬលុបចោល)',
+    'workflow.fulfilmentLocation': 'ទីតាំងស្តុកដែលត្រូវដកសម្ភារៈចេញ',
+    'workflow.approve': 'អនុម័ត',
+    'workflow.reject': 'បដិសេធ',
+    'workflow.cancel': 'លុបចោលសំណើ',
+    'workflow.fulfil': 'កត់ថាបានប្រគល់',
+    'workflow.submitted': '{name} បានដាក់ស្នើ',
+    'workflow.imported': '{name} បាននាំចូលជា {status}',
+    'workflow.moved': '{name} បានប្ដូរពី {from} ទៅ {to}',
+    'workflow.noHistory': 'មិនមានប្រវត្តិស្ថានភាពសម្រាប់សំណើនេះទេ។',
+
+    'catalog.title': 'បញ្ជីសម្ភារៈ',
+    'catalog.nameEn': 'ឈ្មោះជាភាសាអង់គ្លេស',
+    'catalog.nameKm': 'ឈ្មោះជាភាសាខ្មែរ',
+    'catalog.category': 'ប្រភេទ',
+    'catalog.unit': 'ឯកតា',
+    'catalog.unitPlaceholder': 'ដុំ, កញ្ចប់, ប្រអប់ទឹកថ្នាំ...',
+    'catalog.minLevel': 'កម្រិតអប្បបរមា',
+    'catalog.minLevelHint': 'ស្តុកដែលស្មើ ឬទាបជាងកម្រិតនេះ បង្ហាញក្នុងស្តុកទាប។ 0 បិទការជូនដំណឹង។',
+    'catalog.reorderQuantity': 'បរិមាណបញ្ជាទិញឡើងវិញ',
+    'catalog.minReorder': 'អប្បបរមា / បញ្ជាទិញ',
+    'catalog.activeHint': 'សម្ភារៈដែលបានដាក់ក្នុងបណ្ណសារ មិនអាចស្នើសុំបានទៀតទេ',
+    'catalog.archived': 'ក្នុងបណ្ណសារ',
+    'catalog.nameRequired': 'សូមបំពេញឈ្មោះជាភាសាអង់គ្លេស។',
+
+    'campuses.title': 'បញ្ជីសាខា',
+    'campuses.name': 'ឈ្មោះ',
+    'campuses.address': 'អាសយដ្ឋាន',
+    'campuses.contactPerson': 'អ្នកទំនាក់ទំនង',
+    'campuses.activeHint': 'សាខាដែលឈប់ប្រើ មិនអាចទទួលសំណើ ឬស្តុកបានទៀតទេ',
+    'campuses.retired': 'ឈប់ប្រើ',
+    'campuses.nameRequired': 'សូមបំពេញឈ្មោះសាខា។',
+
+    'users.title': 'គ្រប់គ្រងអ្នកប្រើ',
+    'users.loadError': 'មិនអាចផ្ទុកអ្នកប្រើបានទេ៖ {error}',
+    'users.username': 'ឈ្មោះអ្នកប្រើ',
+    'users.displayName': 'ឈ្មោះបង្ហាញ',
+    'users.password': 'ពាក្យសម្ងាត់',
+    'users.newPassword': 'ពាក្យសម្ងាត់ថ្មី (ស្រេចចិត្ត)',
+    'users.role': 'តួនាទី',
+    'users.noCampus': 'គ្មានសាខា',
+    'users.inactive': 'អសកម្ម',
+    'users.incomplete': 'សូមបំពេញឈ្មោះអ្នកប្រើ ឈ្មោះបង្ហាញ និងពាក្យសម្ងាត់។',
+    'users.campusRequired': 'សូមជ្រើសរើសសាខារបស់អ្នកស្នើសុំនេះ។',
+    'login.missingCredentials': 'សូមបញ្ចូលឈ្មោះអ្នកប្រើ និងពាក្យសម្ងាត់របស់អ្នក។',
+    'login.signIn': 'ចូល',
+    'login.signingIn': 'កំពុងចូល...',
+
+    'history.title': 'ប្រវត្តិស្តុក៖ {item}',
+    'history.change': 'បម្រែបម្រួល',
+    'history.balance': 'សមតុល្យ',
+    'history.location': 'ទីតាំង',
+    'history.reason': 'មូលហេតុ',
+    'history.report': 'របាយការណ៍',
+    'history.deletedReport': 'របាយការណ៍ដែលបានលុប',
+    'history.empty': 'មិនមានចលនាស្តុកសម្រាប់សម្ភារៈនេះទេ។',
+    'movement.opening': 'សមតុល្យដើមគ្រា',
+    'movement.report': 'របាយការណ៍',
+    'movement.adjustment': 'កែតម្រូវដោយដៃ',
+    'movement.clear': 'សម្អាតស្តុក',
+    'movement.import': 'នាំចូល',
+    'movement.transfer': 'ផ្ទេរ',
+    'movement.receipt': 'ទទួលទំនិញ',
+    'lowStock.title': 'ស្តុកទាប៖ {location}',
+    'lowStock.generate': 'បង្កើតបញ្ជីបញ្ជាទិញឡើងវិញ',
+    'lowStock.minimum': 'អប្បបរមា',
+    'lowStock.order': 'បញ្ជាទិញ',
+    'lowStock.empty': 'សម្ភារៈទាំងអស់នៅលើកម្រិតអប្បបរមា។',
+
+    'transfer.from': 'ពី',
+    'transfer.to': 'ទៅ',
+    'transfer.selectLocation': 'ជ្រើសរើសទីតាំង',
+    'transfer.quantityFor': 'ចំនួន {item} ដែលត្រូវផ្ទេរ',
+    'transfer.submit': 'ផ្ទេរ',
+    'transfer.empty': 'មិនទាន់មានការផ្ទេរនៅឡើយទេ។',
+    'transfer.incomplete': 'សូមជ្រើសរើសទីតាំងទាំងពីរ និងកាលបរិច្ឆេទ។',
+    'transfer.sameLocation': 'សូមជ្រើសរើសទីតាំងពីរផ្សេងគ្នា។',
+    'transfer.noItems': 'សូមបញ្ចូលសម្ភារៈយ៉ាងហោចណាស់មួយដើម្បីផ្ទេរ។',
+
+    'purchase.new': 'ការបញ្ជាទិញថ្មី',
+    'purchase.supplier': 'អ្នកផ្គត់ផ្គង់',
+    'purchase.deliverTo': 'ដឹកជញ្ជូនទៅ',
+    'purchase.orderDate': 'កាលបរិច្ឆេទបញ្ជាទិញ',
+    'purchase.expected': 'រំពឹងទុក',
+    'purchase.quantity': 'ចំនួន',
+    'purchase.quantityFor': 'ចំនួន {item} ដែលត្រូវបញ្ជាទិញ',
+    'purchase.unitCostFor': 'តម្លៃឯកតានៃ {item}',
+    'purchase.create': 'បង្កើតការបញ្ជាទិញ',
+    'purchase.showClosed': 'បង្ហាញការបញ្ជាទិញដែលបានទទួល និងបានលុបចោល',
+    'purchase.number': 'លេខ',
+    'purchase.onTheWay': 'កំពុងដឹកជញ្ជូន',
+    'purchase.empty': 'មិនមានការបញ្ជាទិញដែលនៅបើកទេ។',
+    'purchase.orderedBy': 'បានបញ្ជាទិញ {date} ដោយ {name}',
+    'purchase.ordered': 'បានបញ្ជាទិញ',
+    'purchase.received': 'បានទទួល',
+    'purchase.outstanding': 'នៅសល់',
+    'purchase.receiveNow': 'ទទួលឥឡូវ',
+    'purchase.receivedFor': 'ចំនួន {item} ដែលបានទទួល',
+    'purchase.dateReceived': 'កាលបរិច្ឆេទទទួល',
+    'purchase.deliveryNote': 'លេខប័ណ្ណដឹកជញ្ជូន (ស្រេចចិត្ត)',
+    'purchase.receive': 'ទទួល',
+    'purchase.receipt': '{name} បានទទួល {items}',
+    'purchase.nothingReceived': 'មិនទាន់បានទទួលអ្វីសម្រាប់ការបញ្ជាទិញនេះនៅឡើយទេ។',
+    'purchase.incomplete': 'សូមបំពេញអ្នកផ្គត់ផ្គង់ និងកាលបរិច្ឆេទបញ្ជាទិញ។',
+    'purchase.noLines': 'សូមបញ្ចូលចំនួនសម្រាប់សម្ភារៈយ៉ាងហោចណាស់មួយ។',
+    'purchase.nothingToReceive': 'សូមបញ្ចូលចំនួនដែលបានទទួលសម្រាប់សម្ភារៈយ៉ាងហោចណាស់មួយ។',
+    'purchase.status.open': 'បើក',
+    'purchase.status.partiallyReceived': 'ទទួលបានខ្លះ',
+    'purchase.status.received': 'បានទទួល',
+    'purchase.status.cancelled': 'បានលុបចោល',
+
+    'preview.title': 'មើលការនាំចូលជាមុន៖ {file}',
+    'preview.import': 'នាំចូល',
+    'preview.discard': 'បោះបង់',
+    'preview.reports': 'របាយការណ៍៖ ថ្មី {new}, ស្ទួន {duplicates}',
+    'preview.match': 'ការផ្គូផ្គង',
+    'preview.action': 'សកម្មភាព',
+    'preview.new': 'ថ្មី',
+    'preview.duplicate': 'ស្ទួន',
+    'preview.noReports': 'PDF មិនមានរបាយការណ៍ទេ។',
+    'preview.stockAt': 'ស្តុកនៅ',
+    'preview.current': 'បច្ចុប្បន្ន',
+    'preview.inPdf': 'ក្នុង PDF',
+    'preview.afterImport': 'ក្រោយនាំចូល',
+    'preview.noStock': 'PDF មិនមានបញ្ជីស្តុកទេ ដូច្នេះស្តុកនៅដដែល។',
+    'preview.action.merge': 'បញ្ចូល',
+    'preview.action.replace': 'ជំនួស',
+    'preview.action.skip': 'រំលង',
+
+    'sheet.title': 'នាំចូលសៀវភៅបញ្ជី៖ {file}',
+    'sheet.sheet': 'សន្លឹក',
+    'sheet.importAs': 'នាំចូលជា',
+    'sheet.reports': 'របាយការណ៍',
+    'sheet.stock': 'បរិមាណស្តុក',
+    'sheet.columns': 'ជួរឈរ',
+    'sheet.notMapped': '— មិនបានផ្គូផ្គង —',
+    'sheet.column': 'ជួរឈរ {number}',
+    'sheet.stockHint': 'សម្ភារៈក្នុងសន្លឹកត្រូវកំណត់តាមបរិមាណក្នុងសន្លឹកនៅទីតាំងនេះ។ សម្ភារៈដែលមិនមានក្នុងសន្លឹក រក្សាបរិមាណដដែល។',
+    'sheet.dryRun': 'សាកល្បង (ពិនិត្យជួរដេកដោយមិនរក្សាទុក)',
+    'sheet.checkRows': 'ពិនិត្យជួរដេក',
+    'sheet.import': 'នាំចូល',
+    'sheet.mapColumns': 'សូមផ្គូផ្គងជួរឈរមួយទៅ {fields}។',
+    'sheet.canImport': 'អាចនាំចូលបាន {count} ជួរ។',
+    'sheet.canImportSome': 'អាចនាំចូលបាន {count} ជួរ។ {failed} ជួរមានកំហុស ហើយនឹងត្រូវរំលង។',
+    'sheet.imported': 'បាននាំចូល {count} ជួរ។',
+    'sheet.importedSome': 'បាននាំចូល {count} ជួរ។ {failed} ជួរមានកំហុស ហើយត្រូវបានរំលង។',
+    'sheet.row': 'ជួរដេក',
+    'sheet.errors': 'កំហុស',
+
+    'filter.campus': 'ជ្រើសរើសសាខា',
+    'filter.allCampuses': 'គ្រប់សាខា',
+    'filter.retiredCampus': '{name} (ឈប់ប្រើ)',
+    'filter.description': 'ស្វែងរកតាមសម្ភារៈ',
+    'filter.descriptionPlaceholder': 'ស្វែងរកតាមការពិពណ៌នា គោលបំណង ឬកំណត់សម្គាល់...',
+    'filter.month': 'ស្រង់តាមខែ',
+    'filter.allMonths': 'គ្រប់ខែ',
+    'filter.week': 'ស្រង់តាមសប្តាហ៍',
+    'filter.allWeeks': 'គ្រប់សប្តាហ៍',
+    'filter.weekOf': 'សប្តាហ៍ចាប់ពី {date}',
+
+    'actions.importPdf': 'នាំចូល PDF',
+    'actions.importing': 'កំពុងនាំចូល...',
+    'actions.importSheet': 'នាំចូលសៀវភៅបញ្ជី',
+    'actions.exportPdf': 'នាំចេញ PDF',
+    'actions.exportXlsx': 'នាំចេញ XLSX',
+    'actions.exportCsv': 'នាំចេញ CSV',
+    'actions.exportSpending': 'PDF ចំណាយ',
+    'actions.dashboard': 'ផ្ទាំងវិភាគ',
+    'actions.closeDashboard': 'បិទផ្ទាំងវិភាគ',
+
+    'dashboard.title': 'ផ្ទាំងវិភាគការប្រើប្រាស់',
+    'dashboard.requestCount': 'សំណើ {count} ត្រូវនឹងការស្រង់',
+    'dashboard.includeInPdf': 'បញ្ចូលក្នុងរបាយការណ៍ PDF',
+    'dashboard.itemsOverTime': 'ចំនួនដែលបានស្នើសុំតាមពេលវេលា',
+    'dashboard.byCampus': 'តាមសាខា',
+    'dashboard.topRequesters': 'អ្នកស្នើសុំច្រើនជាងគេ',
+    'dashboard.byStatus': 'សំណើតាមស្ថានភាព',
+    'dashboard.fulfilledShare': '{percent}% នៃសំណើដែលកំពុងរង់ចាំ និងបានប្រគល់ ត្រូវបានប្រគល់រួច',
+    'dashboard.requester': 'អ្នកស្នើសុំ',
+    'dashboard.quantity': 'ចំនួន',
+    'dashboard.requests': 'សំណើ',
+    'dashboard.empty': 'គ្មានសំណើណាត្រូវនឹងការស្រង់ទេ។',
+
+    'table.itemTotals': 'សរុបសម្ភារៈដែលបានស្នើសុំ',
+    'table.requesterName': 'ឈ្មោះអ្នកស្នើសុំ',
+    'table.campus': 'សាខា',
+    'table.importDate': 'ថ្ងៃនាំចូល',
+    'table.exportDate': 'ថ្ងៃនាំចេញ',
+    'table.description': 'ការពិពណ៌នា',
+    'table.total': 'ចំនួនសរុប',
+    'table.status': 'ស្ថានភាព',
+    'table.loading': 'កំពុងផ្ទុករបាយការណ៍...',
+    'table.noMatches': 'រកមិនឃើញរបាយការណ៍ដែលត្រូវគ្នាទេ។',
+    'table.empty': 'មិនទាន់មានរបាយការណ៍នៅឡើយទេ។',
+
+    'error.insufficientStock': 'ស្តុកមិនគ្រប់គ្រាន់សម្រាប់៖ {items}។',
+    'error.noDataToExport': 'គ្មានទិន្នន័យសម្រាប់នាំចេញទេ។',
+    'error.noStockToExport': 'គ្មានទិន្នន័យស្តុកសម្រាប់នាំចេញទេ។',
+    'error.noLowStock': 'គ្មានសម្ភារៈណាស្ថិតនៅ ឬទាបជាងកម្រិតអប្បបរមារបស់វាទេ។',
+    'error.sheetHasNoRows': 'ឯកសារនេះគ្មានជួរដេកទេ។',
+    'error.notJsonBackup': 'ឯកសារនេះមិនមែនជាការបម្រុងទុក JSON ទេ។',
+    'error.importPdf': 'កំហុសក្នុងការនាំចូល PDF៖ {error}',
+    'error.cannotAddReport': 'មិនអាចបន្ថែមរបាយការណ៍បានទេ។',
+    'error.cannotUpdateReport': 'មិនអាចកែប្រែរបាយការណ៍បានទេ។',
+    'error.cannotMoveRequest': 'មិនអាចប្តូរសំណើទៅ {status} បានទេ។',
+    'error.transitionNotAllowed': 'សំណើដែល{from} មិនអាចប្តូរទៅ {to} បានទេ។',
+    'error.transitionNotPermitted': 'អ្នកគ្មានសិទ្ធិប្តូរសំណើនេះទៅ {to} ទេ។',
+    'error.transitionNeedsReason': 'សូមផ្តល់មូលហេតុសម្រាប់ការប្តូរសំណើនេះទៅ {to}។',
+    'error.cannotDeleteReport': 'មិនអាចលុបរបាយការណ៍បានទេ។',
+    'error.cannotSaveSignature': 'មិនអាចរក្សាទុកហត្ថលេខាបានទេ។',
+    'error.cannotRemoveSignature': 'មិនអាចដកហត្ថលេខាចេញបានទេ។',
+    'error.cannotSaveTemplate': 'មិនអាចរក្សាទុកគំរូបានទេ។',
+    'error.cannotDeleteTemplate': 'មិនអាចលុបគំរូបានទេ។',
+    'error.cannotSaveSchedule': 'មិនអាចរក្សាទុកកាលវិភាគបានទេ។',
+    'error.cannotDeleteSchedule': 'មិនអាចលុបកាលវិភាគបានទេ។',
+    'error.cannotSaveBudget': 'មិនអាចរក្សាទុកថវិកាបានទេ។',
+    'error.cannotDeleteBudget': 'មិនអាចលុបថវិកាបានទេ។',
+    'error.cannotSavePrice': 'មិនអាចរក្សាទុកតម្លៃបានទេ។',
+    'error.cannotExportPdf': 'មិនអាចនាំចេញ PDF បានទេ។',
+    'error.cannotExportSpreadsheet': 'មិនអាចនាំចេញសៀវភៅបញ្ជីបានទេ។',
+    'error.cannotReadSpreadsheet': 'មិនអាចអានសៀវភៅបញ្ជីបានទេ។',
+    'error.cannotImportReports': 'មិនអាចនាំចូលរបាយការណ៍បានទេ។',
+    'error.cannotImportStock': 'មិនអាចនាំចូលស្តុកបានទេ។',
+    'error.cannotImportPdf': 'មិនអាចនាំចូល PDF បានទេ។',
+    'error.cannotSaveItem': 'មិនអាចរក្សាទុកសម្ភារៈបានទេ។',
+    'error.cannotSaveCampus': 'មិនអាចរក្សាទុកសាខាបានទេ។',
+    'error.cannotSaveUser': 'មិនអាចរក្សាទុកអ្នកប្រើបានទេ។',
+    'error.cannotSaveStock': 'មិនអាចរក្សាទុកស្តុកបានទេ។',
+    'error.cannotClearStock': 'មិនអាចសម្អាតស្តុកបានទេ។',
+    'error.cannotTransferStock': 'មិនអាចផ្ទេរស្តុកបានទេ។',
+    'error.cannotCreatePurchaseOrder': 'មិនអាចបង្កើតការបញ្ជាទិញបានទេ។',
+    'error.cannotReceiveGoods': 'មិនអាចទទួលទំនិញបានទេ។',
+    'error.cannotCancelPurchaseOrder': 'មិនអាចលុបចោលការបញ្ជាទិញបានទេ។',
+    'error.cannotCreateBackup': 'មិនអាចបង្កើតការបម្រុងទុកបានទេ។',
+    'error.cannotRestoreBackup': 'មិនអាចស្តារការបម្រុងទុកបានទេ។',
+    'error.cannotLoadAuditLog': 'មិនអាចផ្ទុកកំណត់ហេតុសវនកម្មបានទេ។',
+    'error.cannotUndo': 'មិនអាចត្រឡប់ការផ្លាស់ប្តូរវិញបានទេ។',
+
+    'confirm.deleteReport.title': 'បញ្ជាក់ការលុបរបាយការណ៍',
+    'confirm.deleteReport.button': 'លុប',
+    'confirm.deleteReport.body': 'តើអ្នកប្រាកដថាចង់លុបរបាយការណ៍របស់ {name} ពីសាខា {campus} មែនទេ?',
+    'confirm.deleteReport.bodyUnknown': 'តើអ្នកប្រាកដថាចង់លុបរបាយការណ៍នេះមែនទេ?',
+    'confirm.undoFromAuditLog': 'អ្នកអាចត្រឡប់វាវិញពីកំណត់ហេតុសវនកម្មក្នុងរយៈពេល {hours} ម៉ោង។',
+    'confirm.clearStock.title': 'បញ្ជាក់ការសម្អាតស្តុក',
+    'confirm.clearStock.button': 'សម្អាតទាំងអស់',
+    'confirm.clearStock.body': 'តើអ្នកប្រាកដថាចង់សម្អាតស្តុកទាំងអស់នៅ {location} មែនទេ? ចំនួនសម្ភារៈទាំងអស់នៅទីនោះនឹងក្លាយជា 0។',
+    'confirm.clearStock.note': 'ប្រវត្តិស្តុករបស់សម្ភារៈនីមួយៗត្រូវបានរក្សាទុក ហើយការសម្អាតអាចត្រឡប់វិញពីកំណត់ហេតុសវនកម្មក្នុងរយៈពេល {hours} ម៉ោង។',
+    'confirm.cancelPurchaseOrder.title': 'បញ្ជាក់ការលុបចោលការបញ្ជាទិញ',
+    'confirm.cancelPurchaseOrder.button': 'លុបចោលការបញ្ជាទិញ',
+    'confirm.cancelPurchaseOrder.body': 'តើអ្នកប្រាកដថាចង់លុបចោល {number} ពី {supplier} មែនទេ? អ្វីដែលមិនទាន់បានទទួលនឹងលែងរង់ចាំទៀតហើយ។',
+    'confirm.cancelPurchaseOrder.note': 'ទំនិញដែលបានទទួលរួចនៅតែក្នុងស្តុក។',
+    'confirm.import.title': 'បញ្ជាក់ការនាំចូល PDF',
+    'confirm.import.button': 'នាំចូល',
+    'confirm.import.reports': 'នាំចូល {file}៖ បន្ថែមរបាយការណ៍ {merged} ជំនួស {replaced} និងរំលង {skipped}។',
+    'confirm.import.stock': 'ប្តូរស្តុកនៃសម្ភារៈ {count} នៅ {location}។',
+    'confirm.import.note': 'របាយការណ៍បានប្រគល់ដែលនាំចូល ដកសម្ភារៈចេញពីស្តុកនៅទីតាំងនាំចូល ហើយរបាយការណ៍ដែលត្រូវបានជំនួសរក្សាស្ថានភាពដើមរបស់វា។',
+    'confirm.restore.title': 'បញ្ជាក់ការស្តារការបម្រុងទុក',
+    'confirm.restore.button': 'ស្តារ',
+    'confirm.restore.body': 'ការស្តារ {file} ដែលបានបង្កើតនៅ {date} នឹងជំនួសអ្វីៗទាំងអស់ខាងក្រោមដោយខ្លឹមសារនៃការបម្រុងទុក។',
+    'confirm.restore.records': 'កំណត់ត្រា',
+    'confirm.restore.now': 'បច្ចុប្បន្ន',
+    'confirm.restore.inBackup': 'ក្នុងការបម្រុងទុក',
+    'confirm.restore.note': 'គណនីអ្នកប្រើមិនមែនជាផ្នែកនៃការបម្រុងទុកទេ ហើយនៅដដែល។ សកម្មភាពនេះមិនអាចត្រឡប់វិញបានទេ។',
+    'confirm.undo.title': 'ត្រឡប់ការផ្លាស់ប្តូរវិញ',
+    'confirm.undo.button': 'ត្រឡប់វិញ',
+    'confirm.undo.body': 'ត្រឡប់ការផ្លាស់ប្តូរនេះវិញមែនទេ? សំណើ ឬស្តុកនឹងត្រឡប់ទៅដូចមុនការផ្លាស់ប្តូរ ហើយស្តុកដែលការផ្លាស់ប្តូរបានផ្លាស់ទីនឹងត្រូវផ្លាស់ទីត្រឡប់វិញ។',
+
+    'backup.campuses': 'សាខា',
+    'backup.catalogItems': 'សម្ភារៈក្នុងបញ្ជី',
+    'backup.reports': 'របាយការណ៍',
+    'backup.stockMovements': 'ចលនាស្តុក',
+    'backup.transfers': 'ការផ្ទេរ',
+    'backup.purchaseOrders': 'ការបញ្ជាទិញ',
+    'backup.itemPrices': 'តម្លៃសម្ភារៈ',
+    'backup.campusBudgets': 'ថវិកាសាខា',
+    'backup.requestTemplates': 'គំរូសំណើ',
+    'backup.requestSchedules': 'សំណើប្រចាំ',
+    'backup.auditLog': 'កំណត់ត្រាសវនកម្ម',
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = {
+    en: EN_MESSAGES,
+    km: KM_MESSAGES,
+};
+
+export const ROLE_MESSAGES: Record<UserRole, MessageKey> = {
+    requester: 'role.requester',
+    stockKeeper: 'role.stockKeeper',
+    admin: 'role.admin',
+};
+
+export const STATUS_MESSAGES: Record<ReportStatus, MessageKey> = {
+    Submitted: 'status.Submitted',
+    Approved: 'status.Approved',
+    Rejected: 'status.Rejected',
+    Fulfilled: 'status.Fulfilled',
+    Cancelled: 'status.Cancelled',
+};
+
+export type MessageParams = Record<string, string | number>;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+export const translate = (language: Language, key: MessageKey, params: MessageParams = {}): string =>
+    MESSAGES[language][key].replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder);
+
+// The message split around its placeholders: odd entries are the placeholder names, even ones the text
+// between them. Lets the UI wrap a filled-in value in markup without breaking up the sentence.
+export const messageParts = (language: Language, key: MessageKey): string[] =>
+    MESSAGES[language][key].split(PLACEHOLDER_PATTERN);
+
+export const formatDate = (language: Language, date: Date, options: Intl.DateTimeFormatOptions): string =>
+    date.toLocaleString(LOCALES[language], options);
+
+export const formatNumber = (language: Language, value: number, options?: Intl.NumberFormatOptions): string =>
+    value.toLocaleString(LOCALES[language], options);
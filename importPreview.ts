@@ -0,0 +1,91 @@
+import type { Report, StockMovement } from './types';
+import { formatExtraLines } from './extraLines';
+
+// What to do with one row of an imported PDF. For a report, merge adds it alongside the existing ones and
+// replace overwrites the report it duplicates; for stock, merge adds the imported quantity to what is there
+// and replace sets the quantity to the imported one.
+export type ImportAction = 'merge' | 'replace' | 'skip';
+
+export interface ReportImportRow {
+    report: Omit<Report, 'id'>;
+    duplicateOf: Report | null; // The existing report it matches, if any
+    action: ImportAction;
+}
+
+export interface StockImportRow {
+    item: string;
+    quantity: number; // As printed in the PDF
+    action: ImportAction;
+}
+
+const sameItems = (a: Record<string, number>, b: Record<string, number>): boolean => {
+    const positive = (items: Record<string, number>) => Object.entries(items).filter(([, quantity]) => quantity > 0);
+    const aItems = positive(a);
+    return aItems.length === positive(b).length && aItems.every(([item, quantity]) => b[item] === quantity);
+};
+
+// Two reports are duplicates when they were made by the same requester, for the same campus, on the same
+// dates and for the same items, other items included. Status and history are left out: they are what an
+// import may bring up to date.
+export const isDuplicateReport = (a: Omit<Report, 'id'>, b: Omit<Report, 'id'>): boolean =>
+    a.requesterName.trim().toLowerCase() === b.requesterName.trim().toLowerCase()
+    && a.campus === b.campus
+    && a.importDate === b.importDate
+    && a.exportDate === b.exportDate
+    && sameItems(a.items, b.items)
+    && formatExtraLines(a.extraLines || []) === formatExtraLines(b.extraLines || []);
+
+// New reports are merged and duplicates skipped unless the user chooses otherwise.
+export const reportImportRows = (imported: Omit<Report, 'id'>[], existing: Report[]): ReportImportRow[] =>
+    imported.map(report => {
+        const duplicateOf = existing.find(candidate => isDuplicateReport(report, candidate)) || null;
+        return { report, duplicateOf, action: duplicateOf ? 'skip' : 'merge' };
+    });
+
+// Every imported quantity starts out replacing the current one, as an import always used to.
+export const stockImportRows = (imported: Record<string, number>): StockImportRow[] =>
+    Object.entries(imported).map(([item, quantity]) => ({ item, quantity, action: 'replace' }));
+
+export const quantityAfterImport = (row: StockImportRow, current: number): number => {
+    if (row.action === 'merge') return current + row.quantity;
+    if (row.action === 'replace') return row.quantity;
+    return current;
+};
+
+// The reports an import saves, new ones under ids from `newId`. A replaced report keeps its history, status and stock
+// details. A new Approved or Fulfilled report is fulfilled from `location`, the location the PDF's stock was counted at,
+// so the items it holds come out of that stock rather than the warehouse's.
+export const reportsToImport = (rows: ReportImportRow[], location: string, newId: () => string): Report[] =>
+    rows.flatMap(({ report, duplicateOf, action }): Report[] => {
+        if (action === 'skip') return [];
+        if (action === 'replace' && duplicateOf) {
+            return [{
+                ...duplicateOf,
+                ...report,
+                id: duplicateOf.id,
+                status: duplicateOf.status,
+                statusHistory: duplicateOf.statusHistory,
+            }];
+        }
+        const holdsStock = report.status === 'Approved' || report.status === 'Fulfilled';
+        return [{ ...report, id: newId(), ...(holdsStock ? { fulfilledFrom: location } : {}) }];
+    });
+
+// The quantities to set at `location` before the imported reports are saved. A PDF's stock already has the items of
+// its fulfilled reports taken out, and saving those reports takes them again, so each imported line is set that much
+// higher and ends at its quantity once they are saved. `reportMovements` are the movements saving the reports posts.
+export const stockBeforeImportedReports = (
+    rows: StockImportRow[],
+    current: Record<string, number>,
+    reportMovements: StockMovement[],
+    location: string
+): Record<string, number> => {
+    const targets = { ...current };
+    rows.filter(row => row.action !== 'skip').forEach(row => {
+        const taken = reportMovements
+            .filter(movement => movement.location === location && movement.item === row.item)
+            .reduce((sum, movement) => sum + movement.quantity, 0);
+        targets[row.item] = quantityAfterImport(row, current[row.item] || 0) - taken;
+    });
+    return targets;
+};
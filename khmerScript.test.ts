@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { hasKhmer, splitKhmerRuns, withoutKhmer } from './khmerScript';
+
+describe('splitKhmerRuns', () => {
+    it('keeps a Khmer phrase in one run, spaces included, and every character in order', () => {
+        const text = 'Campus សាខា តាខ្មៅ (2026)';
+        const runs = splitKhmerRuns(text);
+
+        expect(runs).toEqual([
+            { text: 'Campus ', khmer: false },
+            { text: 'សាខា តាខ្មៅ', khmer: true },
+            { text: ' (2026)', khmer: false },
+        ]);
+        expect(runs.map(run => run.text).join('')).toBe(text);
+    });
+
+    it('keeps the zero-width spaces typed between Khmer words inside the run', () => {
+        expect(splitKhmerRuns('សុខ\u200Bចាន់ថា')).toEqual([{ text: 'សុខ\u200Bចាន់ថា', khmer: true }]);
+    });
+
+    it('leaves text without Khmer as one run', () => {
+        expect(splitKhmerRuns('Requester 1')).toEqual([{ text: 'Requester 1', khmer: false }]);
+        expect(hasKhmer('Requester 1')).toBe(false);
+    });
+});
+
+describe('withoutKhmer', () => {
+    it('takes out the Khmer and tidies the spaces it leaves', () => {
+        expect(hasKhmer('ស្នើសុំ Request Slip')).toBe(true);
+        expect(withoutKhmer('ស្នើសុំ Request Slip ប័ណ្ណ')).toBe('Request Slip');
+    });
+});
@@ -0,0 +1,31 @@
+// Khmer letters and signs, Khmer symbols, and the zero-width spaces and joiners typed between Khmer words.
+const KHMER_CHARACTERS = '\\u1780-\\u17FF\\u19E0-\\u19FF\\u200B-\\u200D';
+
+const KHMER_PATTERN = new RegExp(`[${KHMER_CHARACTERS}]`);
+const KHMER_SEQUENCE_PATTERN = new RegExp(`[${KHMER_CHARACTERS}]+`, 'g');
+// Spaces between two Khmer words stay in the run, so a Khmer phrase is shaped and extracted in one piece
+const KHMER_RUN_PATTERN = new RegExp(`[${KHMER_CHARACTERS}]+(?: +[${KHMER_CHARACTERS}]+)*`, 'g');
+
+// A stretch of text written in one script.
+export interface ScriptRun {
+    text: string;
+    khmer: boolean;
+}
+
+export const hasKhmer = (text: string): boolean => KHMER_PATTERN.test(text);
+
+// The text with its Khmer taken out and the spaces around it tidied up.
+export const withoutKhmer = (text: string): string => text.replace(KHMER_SEQUENCE_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+
+// Splits text into alternating Khmer and non-Khmer runs, keeping every character.
+export const splitKhmerRuns = (text: string): ScriptRun[] => {
+    const runs: ScriptRun[] = [];
+    let end = 0;
+    for (const match of text.matchAll(KHMER_RUN_PATTERN)) {
+        if (match.index > end) runs.push({ text: text.slice(end, match.index), khmer: false });
+        runs.push({ text: match[0], khmer: true });
+        end = match.index + match[0].length;
+    }
+    if (end < text.length) runs.push({ text: text.slice(end), khmer: false });
+    return runs;
+};
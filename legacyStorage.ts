@@ -0,0 +1,86 @@
+import type { Report, StockMovement } from './types';
+import { migrateLegacyStock } from './stockLedger';
+import { normalizeLegacyStatus } from './workflow';
+import { migrateLocalData } from './api';
+import type { MigrationResult } from './api';
+
+// Before the API server existed, each browser kept its own copy of the data in localStorage.
+// These keys are only read once, to upload that copy to the server.
+const LOCAL_STORAGE_KEY_REPORTS = 'stationaryAppReports';
+const LOCAL_STORAGE_KEY_STOCK = 'stationaryAppStock';
+const LOCAL_STORAGE_KEY_STOCK_MOVEMENTS = 'stationaryAppStockMovements';
+const LOCAL_STORAGE_KEY_MIGRATED = 'stationaryAppMigratedToServer';
+
+const readLegacyReports = (): Report[] => {
+    const savedReportsJSON = window.localStorage.getItem(LOCAL_STORAGE_KEY_REPORTS);
+    if (!savedReportsJSON) return [];
+    const savedReports = JSON.parse(savedReportsJSON);
+    if (!Array.isArray(savedReports)) return [];
+
+    return savedReports.map((report: any) => {
+        const newReport = { ...report };
+        // Migrate items from string[] to Record<string, number>
+        if (Array.isArray(newReport.items)) {
+            const newItems: Record<string, number> = {};
+            newReport.items.forEach((item: string) => {
+                newItems[item] = (newItems[item] || 0) + 1;
+            });
+            newReport.items = newItems;
+        } else if (!newReport.items || typeof newReport.items !== 'object') {
+            newReport.items = {};
+        }
+        // Map the old Process/Done statuses onto the approval workflow
+        newReport.status = normalizeLegacyStatus(newReport.status);
+        if (!newReport.exportDate) {
+            newReport.exportDate = newReport.importDate;
+        }
+        return newReport;
+    }).filter(r => r.id && r.requesterName && r.campus && r.importDate);
+};
+
+const readLegacyStockMovements = (): StockMovement[] => {
+    const savedMovementsJSON = window.localStorage.getItem(LOCAL_STORAGE_KEY_STOCK_MOVEMENTS);
+    if (savedMovementsJSON) {
+        const savedMovements = JSON.parse(savedMovementsJSON);
+        if (Array.isArray(savedMovements)) {
+            return savedMovements;
+        }
+    }
+    // No ledger yet: seed it with opening balances from the older stock record
+    const savedStockJSON = window.localStorage.getItem(LOCAL_STORAGE_KEY_STOCK);
+    return savedStockJSON ? migrateLegacyStock(JSON.parse(savedStockJSON)) : [];
+};
+
+let pendingMigration: Promise<MigrationResult | null> | null = null;
+
+const uploadLocalStorage = async (): Promise<MigrationResult | null> => {
+    if (window.localStorage.getItem(LOCAL_STORAGE_KEY_MIGRATED)) return null;
+
+    let reports: Report[] = [];
+    let stockMovements: StockMovement[] = [];
+    try {
+        reports = readLegacyReports();
+        stockMovements = readLegacyStockMovements();
+    } catch (error) {
+        console.error("Error reading legacy data from localStorage:", error);
+    }
+
+    const result = reports.length > 0 || stockMovements.length > 0
+        ? await migrateLocalData({ reports, stockMovements })
+        : null;
+    window.localStorage.setItem(LOCAL_STORAGE_KEY_MIGRATED, new Date().toISOString());
+    return result;
+};
+
+// Uploads this browser's localStorage data to the server, once. The old keys are left in place
+// as a backup; a marker key stops the upload from running again.
+// Returns null when there was nothing to upload, and to callers that arrive while an upload is running.
+export const migrateLocalStorageToServer = (): Promise<MigrationResult | null> => {
+    if (pendingMigration) {
+        return pendingMigration.then(() => null);
+    }
+    pendingMigration = uploadLocalStorage().finally(() => {
+        pendingMigration = null;
+    });
+    return pendingMigration;
+};
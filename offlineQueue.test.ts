@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Report } from './types';
+import { DEFAULT_CAMPUSES } from './campuses';
+import { applyQueuedChanges, queueChange } from './offlineQueue';
+import type { QueuedChange, QueuedChangeInput } from './offlineQueue';
+
+// The API client reads the session from localStorage as it loads; folding changes never reaches the server.
+vi.mock('./api', () => ({ ApiError: class ApiError extends Error {} }));
+
+const report = (id: string, items: Record<string, number>): Report => ({
+    id, requesterName: 'Requester', campus: DEFAULT_CAMPUSES[0].id, importDate: '2026-03-02', exportDate: '2026-03-02',
+    items, status: 'Submitted', revision: 1,
+});
+
+describe('queueChange', () => {
+    it('folds an update into a creation still waiting to be sent', () => {
+        const queue = queueChange(queueChange([], { userId: 'user-1', kind: 'create', reportId: 'report-1', report: report('report-1', { Bk: 1 }) }),
+            { userId: 'user-1', kind: 'update', reportId: 'report-1', report: report('report-1', { Bk: 4 }) });
+
+        expect(queue).toHaveLength(1);
+        expect(queue[0]).toMatchObject({ kind: 'create', report: { items: { Bk: 4 } } });
+    });
+
+    it('drops a creation that is deleted before it is sent', () => {
+        const queue = queueChange(queueChange([], { userId: 'user-1', kind: 'create', reportId: 'report-1', report: report('report-1', { Bk: 1 }) }),
+            { userId: 'user-1', kind: 'delete', reportId: 'report-1' });
+
+        expect(queue).toEqual([]);
+    });
+
+    it('keeps the base of an update that a deletion replaces', () => {
+        const base = report('report-1', { Bk: 1 });
+        const queue = queueChange(queueChange([], { userId: 'user-1', kind: 'update', reportId: 'report-1', report: report('report-1', { Bk: 2 }), base }),
+            { userId: 'user-1', kind: 'delete', reportId: 'report-1', base: report('report-1', { Bk: 2 }) });
+
+        expect(queue).toHaveLength(1);
+        expect(queue[0]).toMatchObject({ kind: 'delete', base });
+    });
+
+    it('does not fold a change into one of another user, whose base it was not checked against', () => {
+        const base = report('report-1', { Bk: 1 });
+        const queue = queueChange(queueChange([], { userId: 'user-1', kind: 'update', reportId: 'report-1', report: report('report-1', { Bk: 2 }), base }),
+            { userId: 'user-2', kind: 'update', reportId: 'report-1', report: report('report-1', { Bk: 3 }), base });
+
+        expect(queue.map(change => [change.userId, change.report?.items.Bk])).toEqual([['user-1', 2], ['user-2', 3]]);
+        expect(queue[1].base).toEqual(base);
+    });
+
+    it('does not fold into a change in conflict', () => {
+        const conflicted: QueuedChange = {
+            id: 'change-1', userId: 'user-1', kind: 'update', reportId: 'report-1', report: report('report-1', { Bk: 2 }),
+            queuedAt: '2026-03-02T08:00:00.000Z', conflict: 'The request has been changed on the server since.',
+        };
+        const queue = queueChange([conflicted], { userId: 'user-1', kind: 'update', reportId: 'report-1', report: report('report-1', { Bk: 3 }) });
+
+        expect(queue).toHaveLength(2);
+        expect(queue[0]).toBe(conflicted);
+    });
+});
+
+describe('applyQueuedChanges', () => {
+    it('shows the queued changes of the signed-in user, not those of others on the same browser', () => {
+        const inputs: QueuedChangeInput[] = [
+            { userId: 'user-1', kind: 'update', reportId: 'report-1', report: report('report-1', { Bk: 5 }) },
+            { userId: 'user-2', kind: 'delete', reportId: 'report-1' },
+            { userId: 'user-1', kind: 'create', reportId: 'report-2', report: report('report-2', { Bk: 1 }) },
+        ];
+        const queue = inputs.reduce<QueuedChange[]>(queueChange, []);
+
+        const shown = applyQueuedChanges([report('report-1', { Bk: 1 })], queue, 'user-1');
+        expect(shown.map(shownReport => [shownReport.id, shownReport.items.Bk])).toEqual([['report-1', 5], ['report-2', 1]]);
+    });
+});
@@ -0,0 +1,183 @@
+import type { Report, ReportStatus } from './types';
+import * as api from './api';
+import { ApiError } from './api';
+
+// Changes to requests made while the server could not be reached. They are kept in this browser, shown in the
+// app as if they were saved, and sent in the order they were made once the connection returns.
+// Every tab of the app shares the queue, so it is always changed straight in localStorage rather than written
+// back from a tab's own copy, and only one tab sends it at a time.
+
+const LOCAL_STORAGE_KEY_QUEUE = 'stationaryAppOfflineQueue';
+const SEND_LOCK = 'stationaryAppSendQueue';
+
+export type QueuedChangeKind = 'create' | 'update' | 'delete' | 'transition';
+
+export interface QueuedChange {
+    id: string;
+    userId: string; // Only the user who made a change sends it
+    kind: QueuedChangeKind;
+    reportId: string;
+    report?: Report; // The report as the change leaves it; missing for deletions
+    // The report as last read from the server. The change is not sent if the server's copy has changed since.
+    // Missing when an earlier queued change to the same report is checked instead.
+    base?: Report;
+    to?: ReportStatus; // For transitions
+    reason?: string;
+    queuedAt: string; // ISO timestamp
+    conflict?: string; // Why the change could not be saved; it waits until the user sends it anyway or discards it
+}
+
+export type QueuedChangeInput = Pick<QueuedChange, 'userId' | 'kind' | 'reportId' | 'report' | 'base' | 'to' | 'reason'>;
+
+// Network failures are the only errors that leave a change to be sent later; the server refusing it is a conflict.
+export const isOfflineError = (error: unknown): boolean => error instanceof ApiError && error.status === 0;
+
+export const loadQueue = (): QueuedChange[] => {
+    try {
+        const saved = JSON.parse(window.localStorage.getItem(LOCAL_STORAGE_KEY_QUEUE) || '[]');
+        return Array.isArray(saved) ? saved : [];
+    } catch (error) {
+        console.error("Error reading the offline changes from localStorage:", error);
+        return [];
+    }
+};
+
+const saveQueue = (queue: QueuedChange[]): void => {
+    try {
+        window.localStorage.setItem(LOCAL_STORAGE_KEY_QUEUE, JSON.stringify(queue));
+    } catch (error) {
+        console.error("Error saving the offline changes to localStorage:", error);
+    }
+};
+
+// Changes the queue as it is saved now, which may include changes another tab has made, and returns the result.
+export const updateQueue = (update: (queue: QueuedChange[]) => QueuedChange[]): QueuedChange[] => {
+    const queue = update(loadQueue());
+    saveQueue(queue);
+    return queue;
+};
+
+// Calls `handler` when another tab changes the queue. Returns a function that stops listening.
+export const onQueueChanged = (handler: () => void): (() => void) => {
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key === LOCAL_STORAGE_KEY_QUEUE) handler();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+};
+
+// Adds a change to the queue. A change to a report that is still waiting to be created or updated is folded
+// into that change where it can be, so the server sees one creation or update instead of several. Only a change
+// of the same user is folded into: each user sends their own changes, checked against their own base.
+export const queueChange = (queue: QueuedChange[], input: QueuedChangeInput): QueuedChange[] => {
+    const change: QueuedChange = { ...input, id: crypto.randomUUID(), queuedAt: new Date().toISOString() };
+    const previous = [...queue].reverse()
+        .find(queued => queued.reportId === change.reportId && queued.userId === change.userId && !queued.conflict);
+    if (!previous) return [...queue, change];
+
+    const others = queue.filter(queued => queued !== previous);
+    if (previous.kind === 'create' && change.kind === 'delete') return others;
+    if ((previous.kind === 'create' || previous.kind === 'update') && change.kind === 'update') {
+        return queue.map(queued => queued === previous ? { ...previous, report: change.report } : queued);
+    }
+    if (previous.kind === 'update' && change.kind === 'delete') {
+        return queue.map(queued => queued === previous ? { ...change, base: previous.base } : queued);
+    }
+    return [...queue, { ...change, base: undefined }];
+};
+
+// The reports as the server sent them with the queued changes of `userId` on top, so the app shows what
+// the user did offline. Changes in conflict are left out: the server's copy is what stands.
+export const applyQueuedChanges = (reports: Report[], queue: QueuedChange[], userId: string): Report[] =>
+    queue
+        .filter(change => change.userId === userId && !change.conflict)
+        .reduce((current, change) => {
+            if (change.kind === 'delete') return current.filter(report => report.id !== change.reportId);
+            if (!change.report) return current;
+            return current.some(report => report.id === change.reportId)
+                ? current.map(report => report.id === change.reportId ? change.report! : report)
+                : [...current, change.report];
+        }, reports);
+
+const sortedKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortedKeys);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortedKeys((value as Record<string, unknown>)[key])]));
+};
+
+const sameReport = (a: Report, b: Report): boolean => JSON.stringify(sortedKeys(a)) === JSON.stringify(sortedKeys(b));
+
+const fetchCurrent = async (id: string): Promise<Report | null> => {
+    try {
+        return await api.fetchReport(id);
+    } catch (error) {
+        if (error instanceof ApiError && error.status === 404) return null;
+        throw error;
+    }
+};
+
+const sendChange = async (change: QueuedChange): Promise<void> => {
+    const current = await fetchCurrent(change.reportId);
+    if (change.kind === 'create') {
+        // Already there when an earlier attempt reached the server but its answer was lost
+        if (!current) await api.createReport(change.report!);
+        return;
+    }
+    if (!current) throw new Error('The request has been deleted on the server.');
+    if (change.base && !sameReport(current, change.base)) {
+        throw new Error('The request has been changed on the server since.');
+    }
+    // The copy just checked is the one the change applies to, so the server refuses it if anything saves in between
+    if (change.kind === 'update') {
+        await api.updateReport({ ...change.report!, revision: current.revision });
+    } else if (change.kind === 'delete') {
+        await api.deleteReport(change.reportId, current.revision);
+    } else {
+        await api.transitionReport(change.reportId, change.to!, change.reason || '', undefined, current.revision);
+    }
+};
+
+const sendChanges = async (queue: QueuedChange[], userId: string): Promise<{ queue: QueuedChange[]; sent: number }> => {
+    const remaining: QueuedChange[] = [];
+    let sent = 0;
+    let offline = false;
+    for (const change of queue) {
+        if (offline || change.userId !== userId || change.conflict || remaining.some(queued => queued.reportId === change.reportId)) {
+            remaining.push(change);
+            continue;
+        }
+        try {
+            await sendChange(change);
+            sent++;
+        } catch (error) {
+            if (isOfflineError(error)) {
+                offline = true;
+                remaining.push(change);
+            } else {
+                console.error("Error sending an offline change:", error);
+                remaining.push({ ...change, conflict: error instanceof Error ? error.message : String(error) });
+            }
+        }
+    }
+    return { queue: remaining, sent };
+};
+
+// Runs `send` in one tab at a time, where the browser can tell its tabs apart.
+const withSendLock = <T>(send: () => Promise<T>): Promise<T> =>
+    navigator.locks ? navigator.locks.request(SEND_LOCK, send) : send();
+
+// Sends the queued changes of `userId` in order. Sending stops at the first network failure; a change the
+// server refuses is marked as a conflict, and later changes to the same report wait behind it. Changes queued or
+// discarded in any tab while sending are kept as they are. Returns the changes still queued and how many were saved.
+export const sendQueuedChanges = (userId: string): Promise<{ queue: QueuedChange[]; sent: number }> => withSendLock(async () => {
+    const snapshot = loadQueue();
+    const { queue: remaining, sent } = await sendChanges(snapshot, userId);
+    const sentIds = new Set(snapshot.map(change => change.id));
+    const results = new Map(remaining.map(change => [change.id, change]));
+    const queue = updateQueue(current => current.flatMap(change => {
+        if (!sentIds.has(change.id)) return [change];
+        const result = results.get(change.id);
+        return result ? [result] : [];
+    }));
+    return { queue, sent };
+});
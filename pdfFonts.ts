@@ -0,0 +1,38 @@
+/// <reference types="vite/client" />
+import jsPDF from 'jspdf';
+import createHarfBuzz from 'harfbuzzjs/hb.js';
+import hbjs from 'harfbuzzjs/hbjs.js';
+import harfBuzzWasmUrl from 'harfbuzzjs/hb.wasm?url';
+import khmerRegularUrl from '@expo-google-fonts/noto-serif-khmer/NotoSerifKhmer_400Regular.ttf?url';
+import khmerBoldUrl from '@expo-google-fonts/noto-serif-khmer/NotoSerifKhmer_700Bold.ttf?url';
+import { createPdfTextWriter, prepareKhmerFonts } from './pdfText';
+import type { KhmerFonts, PdfTextWriter } from './pdfText';
+
+const fetchFile = async (url: string): Promise<ArrayBuffer> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Could not load ${url} (${response.status}).`);
+    return response.arrayBuffer();
+};
+
+let khmerFonts: Promise<KhmerFonts> | null = null;
+
+// Bundled with the app so exporting works offline. Loaded on the first export and kept for the next ones.
+export const loadKhmerFonts = (): Promise<KhmerFonts> => {
+    if (!khmerFonts) {
+        khmerFonts = Promise.all([
+            createHarfBuzz({ locateFile: () => harfBuzzWasmUrl }),
+            fetchFile(khmerRegularUrl),
+            fetchFile(khmerBoldUrl),
+        ]).then(([instance, normal, bold]) => prepareKhmerFonts(hbjs(instance), { normal, bold }));
+        // A failed load is tried again on the next export
+        khmerFonts.catch(() => { khmerFonts = null; });
+    }
+    return khmerFonts;
+};
+
+// A new A4 (or `format`) document with the Khmer font registered, and the writer for text that may hold Khmer.
+// Compressed, since the embedded font and glyph outlines would otherwise make up most of the file.
+export const createKhmerPdf = async (format: 'a4' | 'a5' = 'a4'): Promise<{ doc: jsPDF; writer: PdfTextWriter }> => {
+    const doc = new jsPDF({ compress: true, format });
+    return { doc, writer: createPdfTextWriter(doc, await loadKhmerFonts()) };
+};
@@ -0,0 +1,141 @@
+/// <reference types="vite/client" />
+import { GoogleGenAI } from "@google/genai";
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.mjs?url';
+import type { Campus, CatalogItem, ExtraLine, Report } from './types';
+import { mapItemsToCatalog } from './catalog';
+import { findCampus } from './campuses';
+import { normalizeLegacyStatus } from './workflow';
+import { parseExportedPdf } from './pdfParser';
+import type { ParsedPdf, PdfTextItem } from './pdfParser';
+
+// Bundled with the app so importing works offline
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export const readPdfTextItems = async (data: ArrayBuffer): Promise<PdfTextItem[]> => {
+    const pdf = await pdfjsLib.getDocument(data).promise;
+    const items: PdfTextItem[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const { height } = page.getViewport({ scale: 1 });
+        const textContent = await page.getTextContent();
+        textContent.items.forEach((item: any) => {
+            if (typeof item.str !== 'string' || !Array.isArray(item.transform)) return;
+            items.push({ text: item.str, x: item.transform[4], y: height - item.transform[5], width: item.width || 0, page: pageNumber });
+        });
+    }
+    return items;
+};
+
+const geminiExtraLine = (line: any): ExtraLine => ({
+    description: String(line?.description || ''),
+    quantity: Number(line?.quantity) || 0,
+    ...(line?.note ? { note: String(line.note) } : {}),
+});
+
+const canParseWithGemini = (): boolean => Boolean(process.env.API_KEY);
+
+// The fallback for documents this app did not export: hands the text to Gemini and reads back its JSON.
+const parseWithGemini = async (items: PdfTextItem[], catalog: CatalogItem[], campuses: Campus[]): Promise<ParsedPdf> => {
+    const fullText = Array.from(new Set(items.map(item => item.page)))
+        .map(page => items.filter(item => item.page === page).map(item => item.text).join(' '))
+        .join('\n\n');
+
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const prompt = `
+        The following text was extracted from a PDF file. It contains one or more tables for stationary reports and a table for stock inventory.
+        Please parse this text and convert it into a single JSON object.
+        This JSON object must have two top-level keys: "reports" and "stock".
+
+        1.  The "reports" key should contain a JSON array of report objects. Each object in the array should have these properties: "requesterName", "campus", "importDate", "exportDate", "items", and "status", and when the report has them "extraLines", "purpose" and "remarks".
+            -   "requesterName": string
+            -   "campus": string, copied exactly as it appears.
+            -   "importDate": string, in "YYYY-MM-DD" format.
+            -   "exportDate": string, in "YYYY-MM-DD" format.
+            -   "status": string, one of "Submitted", "Approved", "Rejected", "Fulfilled" or "Cancelled".
+            -   "items": an object where keys are item names (string) and values are quantities (number). A description "Black Toner (5), ID Card (2)" should become \`{ "Black Toner": 5, "ID Card": 2 }\`. Empty descriptions result in an empty object {}.
+            -   "extraLines": an array of the lines listed after "Other: " in the description, which are not part of "items". "Other: Stapler (2), Glue (1; white)" should become \`[{ "description": "Stapler", "quantity": 2 }, { "description": "Glue", "quantity": 1, "note": "white" }]\`.
+            -   "purpose": string, from the Purpose column.
+            -   "remarks": string, from the Remarks column.
+
+        2.  The "stock" key should contain a JSON object representing the stock inventory table, or null if there is none.
+            -   The keys of this object should be the item names (string).
+            -   The values should be objects with two properties: "quantity" (number) and "lastInDate" (string, in "YYYY-MM-DD" format or "N/A").
+            -   Example: \`{ "Black Toner": { "quantity": 100, "lastInDate": "2024-05-10" } }\`
+
+        The known campuses are: ${campuses.map(campus => campus.name).join(', ')}.
+        Item names should be copied exactly as they appear. The known items are: ${catalog.map(item => item.nameEn).join(', ')}.
+
+        Here is the text to parse:
+        ---
+        ${fullText}
+        ---
+
+        Return ONLY the single JSON object, without any surrounding text or markdown.
+    `;
+
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+        config: {
+            responseMimeType: "application/json",
+        },
+    });
+
+    let jsonStr = (response.text || '').trim();
+    const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+    const match = jsonStr.match(fenceRegex);
+    if (match && match[2]) {
+        jsonStr = match[2].trim();
+    }
+
+    const parsedData = JSON.parse(jsonStr);
+    if (!parsedData || typeof parsedData !== 'object') {
+        throw new Error("AI response is not a valid JSON object.");
+    }
+    if (!Array.isArray(parsedData.reports)) {
+        throw new Error("AI did not return a valid array of reports in the 'reports' key.");
+    }
+
+    const reports: Omit<Report, 'id'>[] = parsedData.reports.map((item: any) => ({
+        requesterName: item.requesterName || '',
+        // Exports show campus names; reports store the campus id
+        campus: item.campus ? findCampus(campuses, String(item.campus))?.id || item.campus : '',
+        importDate: item.importDate || '',
+        exportDate: item.exportDate || '',
+        items: item.items && typeof item.items === 'object' && !Array.isArray(item.items)
+            ? mapItemsToCatalog(catalog, item.items)
+            : {},
+        status: normalizeLegacyStatus(item.status),
+        ...(Array.isArray(item.extraLines) && item.extraLines.length > 0 ? { extraLines: item.extraLines.map(geminiExtraLine).filter((line: ExtraLine) => line.description && line.quantity > 0) } : {}),
+        ...(item.purpose ? { purpose: String(item.purpose) } : {}),
+        ...(item.remarks ? { remarks: String(item.remarks) } : {}),
+    })).filter((report: Omit<Report, 'id'>) => report.requesterName && report.campus && report.importDate);
+
+    let stock: Record<string, number> | null = null;
+    if (parsedData.stock && typeof parsedData.stock === 'object') {
+        const quantities: Record<string, number> = {};
+        for (const [item, stockItem] of Object.entries<any>(parsedData.stock)) {
+            if (stockItem && typeof stockItem.quantity === 'number') {
+                quantities[item] = stockItem.quantity;
+            }
+        }
+        stock = mapItemsToCatalog(catalog, quantities);
+    }
+
+    return { reports, stock, stockLocationName: null };
+};
+
+// Reads an imported PDF: the app's own exports are parsed locally, anything else goes to Gemini when a key is set.
+export const parsePdf = async (data: ArrayBuffer, catalog: CatalogItem[], campuses: Campus[]): Promise<ParsedPdf> => {
+    const items = await readPdfTextItems(data);
+    if (items.every(item => !item.text.trim())) {
+        throw new Error("Could not extract any text from the PDF.");
+    }
+    const parsed = parseExportedPdf(items, catalog, campuses);
+    if (parsed) return parsed;
+    if (!canParseWithGemini()) {
+        throw new Error("This PDF was not exported by this app, and reading other documents needs a Gemini API key.");
+    }
+    return parseWithGemini(items, catalog, campuses);
+};
@@ -0,0 +1,246 @@
+import fs from 'node:fs';
+import type { IncomingMessage } from 'node:http';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import jsPDF from 'jspdf';
+import createHarfBuzz from 'harfbuzzjs/hb.js';
+import hbjs from 'harfbuzzjs/hbjs.js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Campus, Report, StockMovement, User } from './types';
+import { CENTRAL_WAREHOUSE } from './constants';
+import { DEFAULT_CATALOG, catalogItemIds } from './catalog';
+import { DEFAULT_CAMPUSES } from './campuses';
+import { createPdfTextWriter, prepareKhmerFonts } from './pdfText';
+import type { KhmerFonts } from './pdfText';
+import { reportImportRows, reportsToImport, stockBeforeImportedReports, stockImportRows } from './importPreview';
+import { parseExportedPdf } from './pdfParser';
+import type { PdfTextItem } from './pdfParser';
+import { addReportSections } from './reportPdf';
+import { addStockSections } from './stockPdf';
+import { deriveStock, movementsAtLocation, movementsForReportChange, stockQuantities } from './stockLedger';
+import { REPORT_STATUSES } from './workflow';
+import * as store from './server/db';
+import { createRoutes } from './server/routes';
+
+// Exports PDFs with the same code as the app, reads them back the way the import does, and checks that
+// nothing was lost on the way.
+
+const require = createRequire(import.meta.url);
+
+// A campus whose name is all Khmer, next to the default ones
+const CAMPUSES: Campus[] = [...DEFAULT_CAMPUSES, { id: 'campus-km', name: 'សាខាតាខ្មៅ', address: '', contactPerson: '', active: true }];
+
+// A 1×1 PNG, enough for the handover signature drawn in the Received By column
+const SIGNATURE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+let fonts: KhmerFonts;
+
+const readFile = (file: string): ArrayBuffer => {
+    const buffer = fs.readFileSync(file);
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+};
+
+beforeAll(async () => {
+    const harfBuzz = await createHarfBuzz({ locateFile: () => require.resolve('harfbuzzjs/hb.wasm') });
+    const fontDir = path.dirname(require.resolve('@expo-google-fonts/noto-serif-khmer/NotoSerifKhmer_400Regular.ttf'));
+    fonts = prepareKhmerFonts(hbjs(harfBuzz), {
+        normal: readFile(path.join(fontDir, 'NotoSerifKhmer_400Regular.ttf')),
+        bold: readFile(path.join(fontDir, 'NotoSerifKhmer_700Bold.ttf')),
+    });
+});
+
+const newPdf = () => {
+    const doc = new jsPDF({ compress: true });
+    return { doc, writer: createPdfTextWriter(doc, fonts) };
+};
+
+// The text runs of every page, placed the way pdfImport's readPdfTextItems places them.
+const readTextItems = async (doc: jsPDF): Promise<PdfTextItem[]> => {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(doc.output('arraybuffer')), verbosity: 0 }).promise;
+    const items: PdfTextItem[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const { height } = page.getViewport({ scale: 1 });
+        const textContent = await page.getTextContent();
+        textContent.items.forEach((item: any) => {
+            if (typeof item.str !== 'string' || !Array.isArray(item.transform)) return;
+            items.push({ text: item.str, x: item.transform[4], y: height - item.transform[5], width: item.width || 0, page: pageNumber });
+        });
+    }
+    return items;
+};
+
+// What a report PDF keeps of a report
+const asExported = ({ requesterName, campus, importDate, exportDate, items, status, extraLines, purpose, remarks }: Report): Omit<Report, 'id'> => ({
+    requesterName,
+    campus,
+    importDate,
+    exportDate,
+    items,
+    status,
+    ...(extraLines ? { extraLines } : {}),
+    ...(purpose ? { purpose } : {}),
+    ...(remarks ? { remarks } : {}),
+});
+
+const requestableItems = DEFAULT_CATALOG.map(item => item.id);
+
+// Enough requests in every status to fill several pages, with Khmer names and text, other items and handovers.
+const sampleReports = (): Report[] => Array.from({ length: 30 }, (_, i): Report => {
+    const date = new Date(Date.UTC(2026, 1 + (i % 4), 1 + (i * 3) % 27)).toISOString().slice(0, 10);
+    const status = REPORT_STATUSES[i % REPORT_STATUSES.length];
+    return {
+        id: `report-${i}`,
+        requesterName: i % 3 === 0 ? 'សុខ ចាន់ថា' : `Requester ${i % 6}`,
+        campus: CAMPUSES[i % CAMPUSES.length].id,
+        importDate: date,
+        exportDate: date,
+        items: { [requestableItems[i % requestableItems.length]]: 1 + (i % 5), [requestableItems[(i * 5 + 3) % requestableItems.length]]: 2 },
+        status,
+        ...(i % 2 === 1 ? {
+            extraLines: [
+                { description: `Stapler ${i}`, quantity: 1 + (i % 3) },
+                ...(i % 4 === 1 ? [{ description: 'ក្រដាសពណ៌', quantity: 2, note: 'for the library display' }] : []),
+            ],
+        } : {}),
+        ...(i % 3 === 0 ? { purpose: i % 2 ? 'ប្រើសម្រាប់ថ្នាក់រៀន' : 'Exam week printing' } : {}),
+        ...(i % 5 === 0 ? { remarks: 'Deliver before Monday' } : {}),
+        ...(i % 4 === 1 ? { handover: { receiverName: 'ដារ៉ា សុខ', signature: SIGNATURE, signedAt: '2026-10-19T08:00:00.000Z', recordedByName: 'Admin' } } : {}),
+    };
+});
+
+// Stock taken in at the warehouse and two campuses, then moved between them
+const sampleLedger = (): StockMovement[] => {
+    const movement = (location: string, item: string, quantity: number, date: string, index: number): StockMovement => ({
+        id: `movement-${index}`,
+        item,
+        quantity,
+        reason: 'adjustment',
+        date,
+        timestamp: `${date}T08:00:00.000Z`,
+        location,
+    });
+    return [
+        movement(CENTRAL_WAREHOUSE, 'Bk', 40, '2026-03-01', 1),
+        movement(CENTRAL_WAREHOUSE, 'Paper A4', 120, '2026-03-01', 2),
+        movement(CENTRAL_WAREHOUSE, 'Mouse', 8, '2026-03-02', 3),
+        movement(CAMPUSES[0].id, 'Paper A4', 25, '2026-03-05', 4),
+        movement(CAMPUSES[0].id, 'Paper A4', -5, '2026-03-09', 5),
+        movement('campus-km', 'Bk', 6, '2026-03-06', 6),
+        movement('campus-km', 'Card', 30, '2026-03-07', 7),
+        movement(CENTRAL_WAREHOUSE, 'Bk', -6, '2026-03-06', 8),
+    ];
+};
+
+describe('parseExportedPdf', () => {
+    it('reads back every request of a report PDF exactly, section by section', async () => {
+        const reports = sampleReports();
+        const { doc, writer } = newPdf();
+        addReportSections(doc, writer, reports, DEFAULT_CATALOG, CAMPUSES, { periodName: 'All Time', campusFilterName: 'All Campuses' }, null);
+
+        const parsed = parseExportedPdf(await readTextItems(doc), DEFAULT_CATALOG, CAMPUSES);
+
+        // The PDF lists the requests by status, in the order the statuses are worked through
+        const expected = REPORT_STATUSES.flatMap(status => reports.filter(report => report.status === status)).map(asExported);
+        expect(parsed).toEqual({ reports: expected, stock: null, stockLocationName: null });
+    });
+
+    it('reads back the stock printed after the requests of a report PDF', async () => {
+        const reports = sampleReports().slice(0, 6);
+        const stock = deriveStock(movementsAtLocation(sampleLedger(), 'campus-km'), catalogItemIds(DEFAULT_CATALOG));
+        const { doc, writer } = newPdf();
+        addReportSections(doc, writer, reports, DEFAULT_CATALOG, CAMPUSES, { periodName: 'March 2026', campusFilterName: 'សាខាតាខ្មៅ' },
+            { stock, locationName: 'សាខាតាខ្មៅ' });
+
+        const parsed = parseExportedPdf(await readTextItems(doc), DEFAULT_CATALOG, CAMPUSES);
+
+        expect(parsed?.reports).toEqual(REPORT_STATUSES.flatMap(status => reports.filter(report => report.status === status)).map(asExported));
+        expect(parsed?.stock).toEqual(stockQuantities(stock));
+        expect(parsed?.stockLocationName).toBe('សាខាតាខ្មៅ');
+    });
+
+    it('reads back the stock of one location', async () => {
+        const stock = deriveStock(movementsAtLocation(sampleLedger(), 'campus-km'), catalogItemIds(DEFAULT_CATALOG));
+        const { doc, writer } = newPdf();
+        addStockSections(doc, writer, stock, 'សាខាតាខ្មៅ', null, DEFAULT_CATALOG, CAMPUSES, new Date('2026-03-10T09:00:00Z'));
+
+        const parsed = parseExportedPdf(await readTextItems(doc), DEFAULT_CATALOG, CAMPUSES);
+
+        expect(parsed).toEqual({ reports: [], stock: stockQuantities(stock), stockLocationName: 'សាខាតាខ្មៅ' });
+    });
+
+    it('reads back the totals of every location, not the breakdown by location', async () => {
+        const ledger = sampleLedger();
+        const stock = deriveStock(movementsAtLocation(ledger, null), catalogItemIds(DEFAULT_CATALOG));
+        const { doc, writer } = newPdf();
+        addStockSections(doc, writer, stock, 'All Locations', ledger, DEFAULT_CATALOG, CAMPUSES, new Date('2026-03-10T09:00:00Z'));
+
+        const parsed = parseExportedPdf(await readTextItems(doc), DEFAULT_CATALOG, CAMPUSES);
+
+        expect(parsed).toEqual({ reports: [], stock: stockQuantities(stock), stockLocationName: 'All Locations' });
+    });
+
+    it('leaves documents the app did not export to the fallback parser', () => {
+        expect(parseExportedPdf([{ text: 'Invoice 1024', x: 40, y: 40, width: 60, page: 1 }], DEFAULT_CATALOG, CAMPUSES)).toBeNull();
+    });
+});
+
+describe('importing an exported PDF into an empty app', () => {
+    const ADMIN: User = { id: 'admin', username: 'admin', displayName: 'Admin', role: 'admin', campus: '', active: true };
+
+    // Exports the reports with the stock of `location`, then confirms the import of the PDF the way the preview does,
+    // with every row left at its default action, into a database holding nothing but the default campuses and catalog
+    const exportAndImport = async (reports: Report[], location: string, locationName: string) => {
+        const stockAt = (movements: StockMovement[], at: string) =>
+            stockQuantities(deriveStock(movementsAtLocation(movements, at), catalogItemIds(DEFAULT_CATALOG)));
+        const stock = deriveStock(movementsAtLocation(sampleLedger(), location), catalogItemIds(DEFAULT_CATALOG));
+        const { doc, writer } = newPdf();
+        addReportSections(doc, writer, reports, DEFAULT_CATALOG, CAMPUSES, { periodName: 'All Time', campusFilterName: 'All Campuses' },
+            { stock, locationName });
+        const parsed = parseExportedPdf(await readTextItems(doc), DEFAULT_CATALOG, CAMPUSES)!;
+        expect(parsed.stockLocationName).toBe(locationName);
+
+        const db = store.openDatabase(':memory:');
+        const route = createRoutes(db).find(candidate => candidate.method === 'POST' && candidate.path === '/api/reports/import')!;
+        let nextId = 0;
+        const imported = reportsToImport(reportImportRows(parsed.reports, []), location, () => `imported-${nextId++}`);
+        const current = stockAt(store.listStockMovements(db), location);
+        const reportMovements = imported.flatMap(report => movementsForReportChange(null, report, report.id));
+        expect(reportMovements.length).toBeGreaterThan(0);
+        const targets = stockBeforeImportedReports(stockImportRows(parsed.stock!), current, reportMovements, location);
+        route.handler({
+            req: {} as IncomingMessage, user: ADMIN, params: {}, query: new URLSearchParams(),
+            body: { reports: imported, stock: { location, quantities: targets, expected: current } },
+        });
+
+        return {
+            reports: store.listReports(db),
+            stock: stockQuantities(stock),
+            stockAt: (at: string) => stockAt(store.listStockMovements(db), at),
+        };
+    };
+
+    it('saves every request and ends at the stock in the file, after the fulfilled requests have taken their items', async () => {
+        const reports = sampleReports().filter(report => DEFAULT_CAMPUSES.some(campus => campus.id === report.campus));
+
+        const result = await exportAndImport(reports, CENTRAL_WAREHOUSE, CENTRAL_WAREHOUSE);
+
+        expect(result.reports).toHaveLength(reports.length);
+        expect(result.stockAt(CENTRAL_WAREHOUSE)).toEqual(result.stock);
+    });
+
+    it("takes a campus PDF's fulfilled requests from that campus, leaving the warehouse alone", async () => {
+        const campus = DEFAULT_CAMPUSES[0];
+        const reports = sampleReports().filter(report => report.campus === campus.id);
+        expect(reports.some(report => report.status === 'Fulfilled')).toBe(true);
+
+        const result = await exportAndImport(reports, campus.id, campus.name);
+
+        expect(result.reports).toHaveLength(reports.length);
+        expect(result.reports.filter(report => report.status === 'Approved' || report.status === 'Fulfilled')
+            .every(report => report.fulfilledFrom === campus.id)).toBe(true);
+        expect(result.stockAt(campus.id)).toEqual(result.stock);
+        expect(Object.values(result.stockAt(CENTRAL_WAREHOUSE)).every(quantity => quantity === 0)).toBe(true);
+    });
+});
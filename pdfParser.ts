@@ -0,0 +1,361 @@
+import type { Campus, CatalogItem, ExtraLine, Report, ReportStatus } from './types';
+import { mapItemsToCatalog } from './catalog';
+import { parseExtraLines } from './extraLines';
+import { findCampus } from './campuses';
+import { REPORT_STATUSES } from './workflow';
+import { hasKhmer, withoutKhmer } from './khmerScript';
+
+// The layout of the PDFs the app exports. The export code builds its titles and tables from these,
+// so the parser below can read them back without guessing.
+export const REPORT_PDF_TITLE = 'Stationary Report';
+export const STOCK_PDF_TITLE = 'Stock Inventory Report';
+export const STATUS_SECTION_PREFIX = 'Status: ';
+export const STOCK_SECTION_PREFIX = 'Current Stock Inventory: ';
+export const LOCATION_LINE_PREFIX = 'Location: ';
+export const REPORT_TABLE_COLUMNS = ['Requester Name', 'Campus', 'Import Date', 'Export Date', 'Description', 'Purpose', 'Remarks', 'Total'];
+// Reports tables of the sections whose requests are signed for on handover. The signature is drawn under the
+// receiver's name and is not read back.
+export const SIGNED_REPORT_TABLE_COLUMNS = ['Requester Name', 'Campus', 'Import Date', 'Export Date', 'Description', 'Purpose', 'Remarks', 'Received By', 'Total'];
+export const NOT_SIGNED = 'Not signed';
+// Reports tables exported before requests had a purpose and remarks
+const LEGACY_REPORT_TABLE_COLUMNS = ['Requester Name', 'Campus', 'Import Date', 'Export Date', 'Description', 'Total'];
+export const REPORT_STOCK_TABLE_COLUMNS = ['Item', 'Quantity in Stock', 'Date Added'];
+export const STOCK_TABLE_COLUMNS = ['Item', 'Quantity in Stock', 'Last Date In', 'Last Date Out'];
+export const LOCATION_TABLE_COLUMNS = ['Location', 'Item', 'Quantity in Stock'];
+export const EMPTY_DESCRIPTION = 'N/A';
+// Starts the free-form lines in a description, after the catalog items: "Black Toner (5), Other: Stapler (2)"
+export const OTHER_ITEMS_PREFIX = 'Other: ';
+
+// The Khmer printed after each title and under each column header. The parser only reads the English,
+// so a translation can change without breaking the import of PDFs exported before.
+export const KHMER_PDF_LABELS: Record<string, string> = {
+    [REPORT_PDF_TITLE]: 'របាយការណ៍សម្ភារៈការិយាល័យ',
+    [STOCK_PDF_TITLE]: 'របាយការណ៍សារពើភ័ណ្ឌ',
+    'Reorder List': 'បញ្ជីសម្ភារៈត្រូវបញ្ជាទិញ',
+    'Consumption Analytics': 'ការវិភាគការប្រើប្រាស់',
+    'Requester Name': 'ឈ្មោះអ្នកស្នើសុំ',
+    'Campus': 'សាខា',
+    'Import Date': 'ថ្ងៃនាំចូល',
+    'Export Date': 'ថ្ងៃនាំចេញ',
+    'Description': 'ការពិពណ៌នា',
+    'Purpose': 'គោលបំណង',
+    'Remarks': 'កំណត់សម្គាល់',
+    'Total': 'សរុប',
+    'Item': 'សម្ភារៈ',
+    'Quantity in Stock': 'ចំនួនក្នុងស្តុក',
+    'Date Added': 'ថ្ងៃបន្ថែម',
+    'Last Date In': 'ថ្ងៃចូលចុងក្រោយ',
+    'Last Date Out': 'ថ្ងៃចេញចុងក្រោយ',
+    'Location': 'ទីតាំង',
+    'Category': 'ប្រភេទ',
+    'In Stock': 'មានក្នុងស្តុក',
+    'Minimum Level': 'កម្រិតអប្បបរមា',
+    'Order Quantity': 'ចំនួនត្រូវបញ្ជាទិញ',
+    'Unit': 'ឯកតា',
+    'Quantity': 'ចំនួន',
+    'Requests': 'សំណើ',
+    'Stock-Out Forecast': 'ការព្យាករការអស់ស្តុក',
+    'Daily Use': 'ប្រើក្នុងមួយថ្ងៃ',
+    'Weekly Use': 'ប្រើក្នុងមួយសប្តាហ៍',
+    'Stock-Out Date': 'ថ្ងៃអស់ស្តុក',
+    'Lead Time (Days)': 'រយៈពេលដឹកជញ្ជូន (ថ្ងៃ)',
+    'Runs Out Before Delivery': 'អស់មុនពេលដឹកជញ្ជូន',
+    'Spending Report': 'របាយការណ៍ចំណាយ',
+    'Cost': 'តម្លៃ',
+    'Budgets': 'ថវិកា',
+    'Budget Period': 'រយៈពេលថវិកា',
+    'Budget': 'ថវិកា',
+    'Spent': 'បានចំណាយ',
+    'Remaining': 'នៅសល់',
+    'Delivery Note': 'លិខិតប្រគល់សម្ភារៈ',
+    'Request No.': 'លេខសំណើ',
+    'No.': 'ល.រ',
+    'Note': 'កំណត់ចំណាំ',
+    'Status': 'ស្ថានភាព',
+    'Fulfilled From': 'ដកចេញពី',
+    'Issued By': 'អ្នកប្រគល់',
+    'Received By': 'អ្នកទទួល',
+    'Name': 'ឈ្មោះ',
+    'Signature': 'ហត្ថលេខា',
+    'Date': 'កាលបរិច្ឆេទ',
+    'Scan to open this request': 'ស្កេនដើម្បីបើកសំណើនេះ',
+};
+
+// A title or column header followed by its Khmer: on the same line for titles, on a new line for headers.
+export const bilingualLabel = (label: string, separator = '\n'): string =>
+    KHMER_PDF_LABELS[label] ? `${label}${separator}${KHMER_PDF_LABELS[label]}` : label;
+
+// One run of text on a page. `x` is measured from the left edge and `y` from the top, in points.
+export interface PdfTextItem {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    page: number;
+}
+
+export interface ParsedPdf {
+    reports: Omit<Report, 'id'>[];
+    stock: Record<string, number> | null; // Quantities by catalog id; null when the document has no stock table
+    stockLocationName: string | null; // The stock location as printed, e.g. 'Central Warehouse' or 'All Locations'
+}
+
+interface TextLine {
+    page: number;
+    y: number;
+    items: PdfTextItem[]; // Left to right
+}
+
+type TableKind = 'reports' | 'stock' | 'locations';
+
+interface Table {
+    kind: TableKind;
+    columns: string[];
+    columnX: number[]; // Left edge of each column's text
+    status: ReportStatus; // The status section a reports table sits in
+    rows: string[][];
+}
+
+const TABLES: { kind: TableKind; columns: string[] }[] = [
+    { kind: 'reports', columns: REPORT_TABLE_COLUMNS },
+    { kind: 'reports', columns: SIGNED_REPORT_TABLE_COLUMNS },
+    { kind: 'reports', columns: LEGACY_REPORT_TABLE_COLUMNS },
+    { kind: 'stock', columns: REPORT_STOCK_TABLE_COLUMNS },
+    { kind: 'stock', columns: STOCK_TABLE_COLUMNS },
+    { kind: 'locations', columns: LOCATION_TABLE_COLUMNS },
+];
+
+// Runs closer together than this (in points) vertically belong to the same line, and a run starting
+// this far left of a column still belongs to it.
+const TOLERANCE = 2;
+// Runs of the same cell further apart than this (in points) are separate words. Even a small space is wider.
+const WORD_GAP = 1;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WHOLE_NUMBER_PATTERN = /^-?\d+$/;
+
+const groupIntoLines = (items: PdfTextItem[]): TextLine[] => {
+    const sorted = items
+        .filter(item => item.text.trim())
+        .sort((a, b) => a.page - b.page || a.y - b.y || a.x - b.x);
+    const lines: TextLine[] = [];
+    sorted.forEach(item => {
+        const last = lines[lines.length - 1];
+        if (last && last.page === item.page && Math.abs(last.y - item.y) <= TOLERANCE) {
+            last.items.push(item);
+        } else {
+            lines.push({ page: item.page, y: item.y, items: [item] });
+        }
+    });
+    lines.forEach(line => line.items.sort((a, b) => a.x - b.x));
+    return lines;
+};
+
+// Joins runs left to right. Khmer is written in runs of its own font, so a run that starts where the one
+// before it ends continues the same word; runs further apart are separate words.
+const joinRuns = (items: PdfTextItem[]): string => items
+    .reduce((text, item, index) => {
+        const previous = items[index - 1];
+        const touching = previous && item.x <= previous.x + previous.width + WORD_GAP;
+        return index === 0 || touching ? text + item.text : `${text} ${item.text}`;
+    }, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const lineText = (line: TextLine): string => joinRuns(line.items);
+
+const columnIndex = (columnX: number[], x: number): number => {
+    let index = 0;
+    columnX.forEach((left, i) => {
+        if (x + TOLERANCE >= left) index = i;
+    });
+    return index;
+};
+
+// Splits a line into the columns of a table. Text that wrapped inside a cell comes back on the
+// following lines, which the caller joins back onto the row (see joinWrapped).
+const lineCells = (line: TextLine, columnX: number[]): string[] =>
+    columnX.map((_, index) => joinRuns(line.items.filter(item => columnIndex(columnX, item.x) === index)));
+
+// Joins a cell's text with the part that wrapped onto the next line. Khmer is written without spaces between
+// words, so a line break inside Khmer text most likely split a word.
+const joinWrapped = (text: string, next: string): string =>
+    hasKhmer(text.slice(-1)) && hasKhmer(next.charAt(0)) ? text + next : `${text} ${next}`;
+
+// A campus name too long for its column wraps, and the break can fall inside a word, so a name that does not match
+// as printed is matched without its spaces.
+const findPrintedCampus = (campuses: Campus[], printed: string): Campus | undefined => {
+    const squashed = printed.replace(/\s+/g, '').toLowerCase();
+    return findCampus(campuses, printed) || campuses.find(campus => campus.name.replace(/\s+/g, '').toLowerCase() === squashed);
+};
+
+// Table headers can wrap too, so a header is the first line holding one run per column plus up to
+// four more lines, which together spell out the column titles in English. The Khmer under them is
+// skipped, including lines holding nothing else. Returns how many lines the header spans.
+const matchHeader = (lines: TextLine[], start: number, columns: string[]): { columnX: number[]; lineCount: number } | null => {
+    const first = lines[start];
+    if (first.items.length !== columns.length) return null;
+    const columnX = first.items.map(item => item.x);
+    const cells = columnX.map(() => '');
+    for (let count = 1; count <= 5 && start + count <= lines.length; count++) {
+        const line = lines[start + count - 1];
+        if (line.page !== first.page) return null;
+        lineCells(line, columnX).forEach((text, i) => {
+            if (text) cells[i] = cells[i] ? `${cells[i]} ${text}` : text;
+        });
+        if (cells.every((text, i) => withoutKhmer(text) === columns[i])) {
+            let lineCount = count;
+            while (start + lineCount < lines.length && lines[start + lineCount].page === first.page
+                && !withoutKhmer(lineText(lines[start + lineCount]))) {
+                lineCount++;
+            }
+            return { columnX, lineCount };
+        }
+    }
+    return null;
+};
+
+const findHeader = (lines: TextLine[], start: number) => {
+    for (const table of TABLES) {
+        const header = matchHeader(lines, start, table.columns);
+        if (header) return { kind: table.kind, columns: table.columns, ...header };
+    }
+    return null;
+};
+
+// The first line of a row always carries its key column (rows are top-aligned); lines without it
+// are the wrapped remainder of the row above.
+const startsRow = (kind: TableKind, cells: string[]): boolean => {
+    if (kind === 'reports') return DATE_PATTERN.test(cells[2]);
+    if (kind === 'stock') return WHOLE_NUMBER_PATTERN.test(cells[1]);
+    return WHOLE_NUMBER_PATTERN.test(cells[2]);
+};
+
+// Reads "Black Toner (5), ID Card (2)" back into quantities by item name.
+export const parseItemDescription = (description: string): Record<string, number> | null => {
+    const text = description.trim();
+    if (!text || text === EMPTY_DESCRIPTION) return {};
+    const items: Record<string, number> = {};
+    const pattern = /(.+?) \((\d+)\)(?:, |$)/gy;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    while (consumed < text.length && (match = pattern.exec(text))) {
+        items[match[1]] = (items[match[1]] || 0) + Number(match[2]);
+        consumed = pattern.lastIndex;
+    }
+    return consumed === text.length ? items : null;
+};
+
+// Splits a description into its catalog items and its other items, reading both back. Returns null when
+// either part does not read back cleanly.
+const parseReportDescription = (description: string): { items: Record<string, number>; extraLines: ExtraLine[] } | null => {
+    const text = description.trim();
+    const start = text.startsWith(OTHER_ITEMS_PREFIX) ? 0 : text.indexOf(`, ${OTHER_ITEMS_PREFIX}`);
+    if (start < 0) {
+        const items = parseItemDescription(text);
+        return items && { items, extraLines: [] };
+    }
+    const items = parseItemDescription(text.slice(0, start));
+    const extraLines = parseExtraLines(text.slice(start === 0 ? OTHER_ITEMS_PREFIX.length : start + 2 + OTHER_ITEMS_PREFIX.length));
+    return items && extraLines && { items, extraLines };
+};
+
+// Collects every table in reading order, along with the section titles that say what they hold.
+const readTables = (lines: TextLine[]): { tables: Table[]; stockLocationName: string | null } => {
+    const tables: Table[] = [];
+    let stockLocationName: string | null = null;
+    let status: ReportStatus = 'Submitted';
+    let table: Table | null = null;
+
+    for (let index = 1; index < lines.length; index++) {
+        const line = lines[index];
+        const header = findHeader(lines, index);
+        if (header) {
+            // autoTable repeats the header on every page a table runs onto
+            if (!table || table.kind !== header.kind) {
+                table = { kind: header.kind, columns: header.columns, columnX: header.columnX, status, rows: [] };
+                tables.push(table);
+            }
+            index += header.lineCount - 1;
+            continue;
+        }
+
+        // Titles and summaries start at the page margin, left of the first column's text
+        if (table && line.items[0].x + TOLERANCE < table.columnX[0]) table = null;
+
+        if (table) {
+            const cells = lineCells(line, table.columnX);
+            const row = table.rows[table.rows.length - 1];
+            if (!row || startsRow(table.kind, cells)) {
+                table.rows.push(cells);
+            } else {
+                cells.forEach((text, i) => {
+                    if (text) row[i] = row[i] ? joinWrapped(row[i], text) : text;
+                });
+            }
+            continue;
+        }
+
+        const text = lineText(line);
+        if (text.startsWith(STATUS_SECTION_PREFIX)) {
+            const named = text.slice(STATUS_SECTION_PREFIX.length) as ReportStatus;
+            status = REPORT_STATUSES.includes(named) ? named : 'Submitted';
+        } else if (text.startsWith(STOCK_SECTION_PREFIX)) {
+            stockLocationName = text.slice(STOCK_SECTION_PREFIX.length);
+        } else if (text.startsWith(LOCATION_LINE_PREFIX) && stockLocationName === null) {
+            stockLocationName = text.slice(LOCATION_LINE_PREFIX.length);
+        }
+    }
+    return { tables, stockLocationName };
+};
+
+// Reads back a Stationary Report or Stock Inventory Report exported by this app. Returns null for any
+// other document, or when a row does not read back cleanly, so the caller can fall back to a more
+// forgiving parser.
+export const parseExportedPdf = (items: PdfTextItem[], catalog: CatalogItem[], campuses: Campus[]): ParsedPdf | null => {
+    const lines = groupIntoLines(items);
+    // Titles are followed by their Khmer on the same line
+    const title = lines.length > 0 ? withoutKhmer(lineText(lines[0])) : '';
+    if (title !== REPORT_PDF_TITLE && title !== STOCK_PDF_TITLE) return null;
+
+    const { tables, stockLocationName } = readTables(lines);
+    const reports: Omit<Report, 'id'>[] = [];
+    let stock: Record<string, number> | null = null;
+
+    for (const table of tables) {
+        if (table.kind === 'reports') {
+            const column = (row: string[], name: string) => row[table.columns.indexOf(name)] || '';
+            for (const row of table.rows) {
+                const campusName = column(row, 'Campus');
+                const parsed = parseReportDescription(column(row, 'Description'));
+                // The Total column doubles as a checksum for the description
+                if (!parsed || [...Object.values(parsed.items), ...parsed.extraLines.map(line => line.quantity)]
+                    .reduce((sum, quantity) => sum + quantity, 0) !== Number(column(row, 'Total'))) {
+                    return null;
+                }
+                const report: Omit<Report, 'id'> = {
+                    requesterName: column(row, 'Requester Name'),
+                    campus: findPrintedCampus(campuses, campusName)?.id || campusName,
+                    importDate: column(row, 'Import Date'),
+                    exportDate: column(row, 'Export Date'),
+                    items: mapItemsToCatalog(catalog, parsed.items),
+                    status: table.status,
+                };
+                if (parsed.extraLines.length > 0) report.extraLines = parsed.extraLines;
+                if (column(row, 'Purpose')) report.purpose = column(row, 'Purpose');
+                if (column(row, 'Remarks')) report.remarks = column(row, 'Remarks');
+                reports.push(report);
+            }
+        } else if (table.kind === 'stock') {
+            const quantities: Record<string, number> = {};
+            for (const [item, quantity] of table.rows) {
+                if (!WHOLE_NUMBER_PATTERN.test(quantity)) return null;
+                quantities[item] = (quantities[item] || 0) + Number(quantity);
+            }
+            stock = { ...(stock || {}), ...mapItemsToCatalog(catalog, quantities) };
+        }
+        // The per-location breakdown of a consolidated stock report repeats the totals above it
+    }
+
+    return { reports, stock, stockLocationName };
+};
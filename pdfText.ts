@@ -0,0 +1,254 @@
+import type jsPDF from 'jspdf';
+import type { Cell, FontStyle, HAlignType, UserOptions, VAlignType } from 'jspdf-autotable';
+import type { HarfBuzz, HbFont, HbGlyphPosition, HbPathCommand } from 'harfbuzzjs/hbjs.js';
+import { hasKhmer, splitKhmerRuns } from './khmerScript';
+
+// The family the Khmer font is registered under in every exported PDF.
+export const KHMER_PDF_FONT = 'NotoSerifKhmer';
+
+type KhmerFontStyle = 'normal' | 'bold';
+
+const KHMER_FONT_STYLES: KhmerFontStyle[] = ['normal', 'bold'];
+
+// jsPDF cannot shape Khmer itself: it would place every character's glyph side by side, leaving subscript
+// consonants and vowel signs in the wrong place. HarfBuzz does the shaping, and the shaped glyphs are drawn
+// as outlines.
+interface ShapingFont {
+    font: HbFont;
+    upem: number;
+}
+
+// The Khmer font, ready for jsPDF (as a binary string) and for HarfBuzz.
+export interface KhmerFonts {
+    harfBuzz: HarfBuzz;
+    files: Record<KhmerFontStyle, string>;
+    shaping: Record<KhmerFontStyle, ShapingFont>;
+}
+
+export interface PdfTextWriter {
+    // Like `doc.text`, for text that may hold Khmer: uses the document's current font, size and colour. `align`
+    // places each line's left edge, centre or right edge at `x`.
+    text: (text: string | string[], x: number, y: number, options?: { align?: 'left' | 'center' | 'right' }) => void;
+    // autoTable hooks that draw the Khmer in table cells.
+    tableHooks: Pick<UserOptions, 'didParseCell' | 'willDrawCell' | 'didDrawCell'>;
+}
+
+// autoTable places the first line of a cell this many font sizes below the top of its text box.
+const AUTOTABLE_PHYSICAL_LINE_HEIGHT = 1.15;
+
+// jsPDF's raw content output, which its typings leave out.
+type PdfContentWriter = { write: (...content: string[]) => void };
+
+// A glyph outline as PDF path operators in font units, y pointing up. Quadratic curves become the
+// equivalent cubics, which is all PDF paths have.
+const glyphPathOperators = (path: HbPathCommand[]): string => {
+    const number = (value: number) => String(Math.round(value * 10) / 10);
+    let current = [0, 0];
+    const operators = path.map(({ type, values }) => {
+        let operator: string;
+        if (type === 'M' || type === 'L') {
+            operator = `${values.map(number).join(' ')} ${type === 'M' ? 'm' : 'l'}`;
+        } else if (type === 'Q') {
+            const [controlX, controlY, endX, endY] = values;
+            operator = [
+                current[0] + (2 / 3) * (controlX - current[0]), current[1] + (2 / 3) * (controlY - current[1]),
+                endX + (2 / 3) * (controlX - endX), endY + (2 / 3) * (controlY - endY),
+                endX, endY,
+            ].map(number).join(' ') + ' c';
+        } else if (type === 'C') {
+            operator = `${values.map(number).join(' ')} c`;
+        } else {
+            operator = 'h';
+        }
+        if (values.length >= 2) current = values.slice(-2);
+        return operator;
+    });
+    return `${operators.join(' ')} f`;
+};
+
+const binaryString = (data: ArrayBuffer): string => {
+    const bytes = new Uint8Array(data);
+    let text = '';
+    for (let start = 0; start < bytes.length; start += 0x8000) {
+        text += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+    }
+    return text;
+};
+
+export const prepareKhmerFonts = (harfBuzz: HarfBuzz, files: Record<KhmerFontStyle, ArrayBuffer>): KhmerFonts => {
+    const shapingFont = (data: ArrayBuffer): ShapingFont => {
+        const face = harfBuzz.createFace(harfBuzz.createBlob(data), 0);
+        return { font: harfBuzz.createFont(face), upem: face.upem };
+    };
+    return {
+        harfBuzz,
+        files: { normal: binaryString(files.normal), bold: binaryString(files.bold) },
+        shaping: { normal: shapingFont(files.normal), bold: shapingFont(files.bold) },
+    };
+};
+
+const khmerStyleOf = (fontStyle: string): KhmerFontStyle => fontStyle.includes('bold') ? 'bold' : 'normal';
+
+// Registers the Khmer font with `doc` and returns a writer that draws through it.
+export const createPdfTextWriter = (doc: jsPDF, fonts: KhmerFonts): PdfTextWriter => {
+    KHMER_FONT_STYLES.forEach(style => {
+        const fileName = `${KHMER_PDF_FONT}-${style}.ttf`;
+        doc.addFileToVFS(fileName, fonts.files[style]);
+        doc.addFont(fileName, KHMER_PDF_FONT, style);
+    });
+    const scaleFactor = doc.internal.scaleFactor;
+    const content = doc.internal as unknown as PdfContentWriter;
+
+    const shape = (text: string, style: KhmerFontStyle): HbGlyphPosition[] => {
+        const buffer = fonts.harfBuzz.createBuffer();
+        buffer.addText(text);
+        buffer.guessSegmentProperties();
+        fonts.harfBuzz.shape(fonts.shaping[style].font, buffer);
+        const glyphs = buffer.json();
+        buffer.destroy();
+        return glyphs;
+    };
+
+    // Each glyph is stored once per document as a form object and placed wherever it is used, which
+    // keeps documents full of Khmer names small. Returns null for glyphs with no outline, like spaces.
+    const glyphForms = new Map<string, string | null>();
+    const glyphForm = (style: KhmerFontStyle, glyph: number): string | null => {
+        const key = `${KHMER_PDF_FONT}-${style}-${glyph}`;
+        if (!glyphForms.has(key)) {
+            const { font, upem } = fonts.shaping[style];
+            const path = font.glyphToJson(glyph);
+            if (path.length > 0) {
+                // The bounding box clips the form, so it leaves room for marks drawn far from the origin
+                doc.beginFormObject(-upem, -upem, 4 * upem * scaleFactor, 3 * upem * scaleFactor, doc.unitMatrix);
+                content.write(glyphPathOperators(path));
+                doc.endFormObject(key);
+            }
+            glyphForms.set(key, path.length > 0 ? key : null);
+        }
+        return glyphForms.get(key) ?? null;
+    };
+
+    // Font units to document units at `fontSize` points.
+    const unitScale = (style: KhmerFontStyle, fontSize: number): number => fontSize / scaleFactor / fonts.shaping[style].upem;
+
+    const khmerRunWidth = (text: string, style: KhmerFontStyle, fontSize: number): number =>
+        shape(text, style).reduce((width, glyph) => width + glyph.ax, 0) * unitScale(style, fontSize);
+
+    // Fills each shaped glyph's outline in the text colour, then writes the run again as invisible text
+    // so it can still be selected, searched and read back by the PDF import. The invisible text is squeezed
+    // to the shaped width, so text extraction sees where the run ends.
+    const drawKhmerRun = (text: string, x: number, y: number, style: KhmerFontStyle, fontSize: number): number => {
+        const scale = unitScale(style, fontSize);
+        const pageHeight = doc.internal.pageSize.getHeight();
+        const fillColor = doc.getFillColor();
+        doc.setFillColor(doc.getTextColor());
+        let penX = x;
+        shape(text, style).forEach(glyph => {
+            const form = glyphForm(style, glyph.g);
+            if (form) {
+                // Form objects are placed in points from the bottom left of the page
+                const originX = (penX + glyph.dx * scale) * scaleFactor;
+                const originY = (pageHeight - y + glyph.dy * scale) * scaleFactor;
+                const size = scale * scaleFactor;
+                doc.doFormObject(form, doc.Matrix(size, 0, 0, size, originX, originY));
+            }
+            penX += glyph.ax * scale;
+        });
+        doc.setFillColor(fillColor);
+        doc.setFont(KHMER_PDF_FONT, style);
+        const width = penX - x;
+        const unshapedWidth = doc.getTextWidth(text);
+        // jsPDF leaves the horizontal scale set after the text, so it is kept inside its own graphics state
+        doc.saveGraphicsState();
+        doc.text(text, x, y, { renderingMode: 'invisible', horizontalScale: unshapedWidth > 0 ? width / unshapedWidth : 1 });
+        doc.restoreGraphicsState();
+        return width;
+    };
+
+    // Writes one line, switching between `latinFont` and the Khmer font run by run.
+    const writeLine = (line: string, x: number, y: number, latinFont: string, fontStyle: string): void => {
+        const fontSize = doc.getFontSize();
+        let penX = x;
+        splitKhmerRuns(line).forEach(run => {
+            if (run.khmer) {
+                penX += drawKhmerRun(run.text, penX, y, khmerStyleOf(fontStyle), fontSize);
+            } else {
+                doc.setFont(latinFont, fontStyle);
+                doc.text(run.text, penX, y);
+                penX += doc.getTextWidth(run.text);
+            }
+        });
+        doc.setFont(latinFont, fontStyle);
+    };
+
+    const lineWidth = (line: string, latinFont: string, fontStyle: string): number => {
+        const fontSize = doc.getFontSize();
+        doc.setFont(latinFont, fontStyle);
+        return splitKhmerRuns(line).reduce((width, run) => width + (run.khmer
+            ? khmerRunWidth(run.text, khmerStyleOf(fontStyle), fontSize)
+            : doc.getTextWidth(run.text)), 0);
+    };
+
+    // autoTable measures and wraps a Khmer cell in the Khmer font, but its own drawing would not be shaped,
+    // so the writer blanks the cell just before autoTable draws it and writes the lines itself afterwards,
+    // at the positions autoTable would have used.
+    // A row split across pages continues in a new cell with the same styles, so cells are told apart by font.
+    const latinFonts = new WeakMap<Cell, string>();
+    const pendingLines = new WeakMap<Cell, string[]>();
+
+    const drawCellLines = (cell: Cell, lines: string[]): void => {
+        const latinFont = latinFonts.get(cell) || 'helvetica';
+        const fontStyle: FontStyle = cell.styles.fontStyle;
+        const halign: HAlignType = cell.styles.halign;
+        const valign: VAlignType = cell.styles.valign;
+        const fontSize = cell.styles.fontSize / scaleFactor;
+        const lineHeight = fontSize * doc.getLineHeightFactor();
+        const position = cell.getTextPos();
+        let y = position.y + fontSize * (2 - AUTOTABLE_PHYSICAL_LINE_HEIGHT);
+        if (valign === 'middle') y -= (lines.length / 2) * lineHeight;
+        else if (valign === 'bottom') y -= lines.length * lineHeight;
+        lines.forEach(line => {
+            let x = position.x;
+            if (halign === 'right' || halign === 'center') {
+                const width = lineWidth(line, latinFont, fontStyle);
+                x -= halign === 'right' ? width : width / 2;
+            }
+            writeLine(line, x, y, latinFont, fontStyle);
+            y += lineHeight;
+        });
+    };
+
+    return {
+        text: (text, x, y, { align = 'left' } = {}) => {
+            const { fontName, fontStyle } = doc.getFont();
+            const latinFont = fontName === KHMER_PDF_FONT ? 'helvetica' : fontName;
+            const lines = Array.isArray(text) ? text : text.split(/\r\n|\r|\n/);
+            const lineHeight = (doc.getFontSize() / scaleFactor) * doc.getLineHeightFactor();
+            lines.forEach((line, index) => {
+                const width = align === 'left' ? 0 : lineWidth(line, latinFont, fontStyle);
+                const lineX = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+                writeLine(line, lineX, y + index * lineHeight, latinFont, fontStyle);
+            });
+        },
+        tableHooks: {
+            didParseCell: ({ cell }) => {
+                if (!cell.text.some(hasKhmer)) return;
+                latinFonts.set(cell, cell.styles.font);
+                cell.styles.font = KHMER_PDF_FONT;
+            },
+            willDrawCell: ({ cell }) => {
+                if (cell.styles.font !== KHMER_PDF_FONT) return;
+                pendingLines.set(cell, cell.text);
+                cell.text = [''];
+            },
+            didDrawCell: ({ cell }) => {
+                const lines = pendingLines.get(cell);
+                if (!lines) return;
+                pendingLines.delete(cell);
+                // Header cells are drawn again on every page the table runs onto
+                cell.text = lines;
+                drawCellLines(cell, lines);
+            },
+        },
+    };
+};
@@ -0,0 +1,40 @@
+import type { Report, User, UserRole } from './types';
+
+// Role checks shared by the UI and the API server, so both enforce the same rules.
+
+export const USER_ROLES: UserRole[] = ['requester', 'stockKeeper', 'admin'];
+
+// Stock keepers and admins edit stock, change report status, delete reports and run imports.
+export const STOCK_MANAGER_ROLES: UserRole[] = ['stockKeeper', 'admin'];
+
+export const USER_MANAGER_ROLES: UserRole[] = ['admin'];
+
+export const CAMPUS_MANAGER_ROLES: UserRole[] = ['admin'];
+
+export const BACKUP_MANAGER_ROLES: UserRole[] = ['admin'];
+
+// Campus budgets are set by admins; item prices belong with the catalog, which stock keepers manage.
+export const BUDGET_MANAGER_ROLES: UserRole[] = ['admin'];
+
+export const canManageStock = (user: Pick<User, 'role'> | null): boolean =>
+    !!user && STOCK_MANAGER_ROLES.includes(user.role);
+
+export const canManageUsers = (user: Pick<User, 'role'> | null): boolean =>
+    !!user && USER_MANAGER_ROLES.includes(user.role);
+
+export const canManageCampuses = (user: Pick<User, 'role'> | null): boolean =>
+    !!user && CAMPUS_MANAGER_ROLES.includes(user.role);
+
+export const canManageBudgets = (user: Pick<User, 'role'> | null): boolean =>
+    !!user && BUDGET_MANAGER_ROLES.includes(user.role);
+
+export const canManageBackups = (user: Pick<User, 'role'> | null): boolean =>
+    !!user && BACKUP_MANAGER_ROLES.includes(user.role);
+
+// Requesters only see the reports they created themselves.
+export const canViewReport = (user: Pick<User, 'id' | 'role'> | null, report: Pick<Report, 'requesterId'>): boolean =>
+    canManageStock(user) || (!!user && report.requesterId === user.id);
+
+// Requesters keep the request templates and recurring requests of their own campus, the campus they request for.
+export const canManageCampusRequests = (user: Pick<User, 'role' | 'campus'> | null, campus: string): boolean =>
+    canManageStock(user) || (!!user && (!user.campus || user.campus === campus));
@@ -0,0 +1,80 @@
+// The service worker that lets the app start and run without a connection. It is registered as
+// /sw.js?build=<id> (see pwa.ts), so every build installs afresh and caches its own files.
+
+const BUILD_ID = new URL(self.location.href).searchParams.get('build') || 'dev';
+const APP_CACHE = `stationary-app-${BUILD_ID}`;
+// The last answer to every API read, so the app can show the data it last saw while offline
+const API_CACHE = 'stationary-api';
+// Every file of the build, written by the precache plugin in vite.config.ts
+const PRECACHE_MANIFEST = '/precache-manifest.json';
+// Asked for by the page when changes are waiting to be sent (see pwa.ts)
+const SYNC_TAG = 'sync-changes';
+
+self.addEventListener('install', event => {
+    event.waitUntil((async () => {
+        const response = await fetch(PRECACHE_MANIFEST, { cache: 'no-store' });
+        const files = await response.json();
+        const cache = await caches.open(APP_CACHE);
+        await cache.addAll(files);
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names
+            .filter(name => name !== APP_CACHE && name !== API_CACHE)
+            .map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// API reads go to the network first and fall back to the last answer; the app itself comes from the cache.
+// Writes are never cached: the page queues them while offline.
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+    if (url.pathname.startsWith('/api/')) {
+        event.respondWith(networkFirst(request, API_CACHE));
+    } else if (request.mode === 'navigate') {
+        event.respondWith(networkFirst(request, APP_CACHE, '/index.html'));
+    } else {
+        event.respondWith(cacheFirst(request));
+    }
+});
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+    const cache = await caches.open(cacheName);
+    try {
+        const response = await fetch(request);
+        if (response.ok) await cache.put(request, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await cache.match(request) || (fallbackUrl && await caches.match(fallbackUrl));
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+const cacheFirst = async request => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(APP_CACHE);
+        await cache.put(request, response.clone());
+    }
+    return response;
+};
+
+// The queue of offline changes lives in the page, so a background sync only asks the open windows to send it.
+self.addEventListener('sync', event => {
+    if (event.tag !== SYNC_TAG) return;
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window' });
+        windows.forEach(client => client.postMessage({ type: SYNC_TAG }));
+    })());
+});
@@ -0,0 +1,53 @@
+import type { PurchaseOrder, PurchaseOrderStatus } from './types';
+
+export const formatPurchaseOrderNumber = (sequence: number): string => `PO-${String(sequence).padStart(4, '0')}`;
+
+// Orders still waiting for (part of) their goods.
+export const isOpenPurchaseOrder = (order: PurchaseOrder): boolean =>
+    order.status === 'Open' || order.status === 'Partially Received';
+
+// The quantity of each item received so far, over every receipt.
+export const receivedQuantities = (order: PurchaseOrder): Record<string, number> => {
+    const received: Record<string, number> = {};
+    order.receipts.forEach(receipt => {
+        for (const [item, quantity] of Object.entries(receipt.items)) {
+            received[item] = (received[item] || 0) + quantity;
+        }
+    });
+    return received;
+};
+
+// The quantity of each item still to be delivered. Cancelled orders have nothing outstanding.
+export const outstandingQuantities = (order: PurchaseOrder): Record<string, number> => {
+    if (!isOpenPurchaseOrder(order)) return {};
+    const received = receivedQuantities(order);
+    const outstanding: Record<string, number> = {};
+    order.lines.forEach(line => {
+        const remaining = line.quantity - (received[line.item] || 0);
+        if (remaining > 0) outstanding[line.item] = remaining;
+    });
+    return outstanding;
+};
+
+// The status an order has reached through its receipts. Cancelling is the only other way out of Open.
+export const receivingStatus = (order: PurchaseOrder): PurchaseOrderStatus => {
+    if (order.receipts.length === 0) return 'Open';
+    const received = receivedQuantities(order);
+    return order.lines.every(line => (received[line.item] || 0) >= line.quantity) ? 'Received' : 'Partially Received';
+};
+
+export const purchaseOrderTotal = (order: Pick<PurchaseOrder, 'lines'>): number =>
+    order.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+// What is on the way to one location, or to every location when `location` is null.
+export const quantitiesOnOrder = (orders: PurchaseOrder[], location: string | null): Record<string, number> => {
+    const onOrder: Record<string, number> = {};
+    orders
+        .filter(order => !location || order.location === location)
+        .forEach(order => {
+            for (const [item, quantity] of Object.entries(outstandingQuantities(order))) {
+                onOrder[item] = (onOrder[item] || 0) + quantity;
+            }
+        });
+    return onOrder;
+};
@@ -0,0 +1,58 @@
+/// <reference types="vite/client" />
+
+// The page's side of the service worker (public/sw.js): registering it, asking it to wake the app up when the
+// connection returns, and forgetting cached API answers when the user signs out.
+
+const SYNC_TAG = 'sync-changes';
+const API_CACHE = 'stationary-api';
+
+// Background Sync is not part of the DOM typings yet, and not every browser has it.
+interface SyncRegistration extends ServiceWorkerRegistration {
+    sync?: { register: (tag: string) => Promise<void> };
+}
+
+// Only production builds have a precache manifest, so the dev server runs without a service worker.
+export const registerServiceWorker = (): void => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register(`/sw.js?build=${process.env.BUILD_ID}`).catch(error => {
+            console.error("Error registering the service worker:", error);
+        });
+    });
+};
+
+// Asks the browser to wake the service worker once it is back online, even if the tab was in the background.
+// Browsers without Background Sync rely on the page's online event instead.
+export const requestBackgroundSync = async (): Promise<void> => {
+    if (!('serviceWorker' in navigator)) return;
+    try {
+        const registration = await navigator.serviceWorker.getRegistration() as SyncRegistration | undefined;
+        await registration?.sync?.register(SYNC_TAG);
+    } catch (error) {
+        console.error("Error requesting a background sync:", error);
+    }
+};
+
+// Calls `handler` whenever the connection returns or the service worker asks for the queued changes.
+// Returns a function that stops listening.
+export const onSyncRequested = (handler: () => void): (() => void) => {
+    const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type === SYNC_TAG) handler();
+    };
+    window.addEventListener('online', handler);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+        window.removeEventListener('online', handler);
+        navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+};
+
+// Forgets the data the last user saw, so the next one cannot read it offline.
+export const clearApiCache = async (): Promise<void> => {
+    if (!('caches' in window)) return;
+    try {
+        await caches.delete(API_CACHE);
+    } catch (error) {
+        console.error("Error clearing the cached API data:", error);
+    }
+};
@@ -0,0 +1,24 @@
+import type { CatalogItem, StockItem } from './types';
+import { activeCatalogItems } from './catalog';
+
+export interface ReorderLine {
+    item: CatalogItem;
+    quantity: number; // Current stock
+    orderQuantity: number; // Suggested quantity to order
+}
+
+// An item is low once its stock is at or below its minimum level. Items with a minimum of 0 are never low.
+export const isLowStock = (item: CatalogItem | undefined, quantity: number): boolean =>
+    !!item && item.minLevel > 0 && quantity <= item.minLevel;
+
+// The item's reorder quantity, raised when that alone would still leave the stock at or below the minimum.
+export const suggestedOrderQuantity = (item: CatalogItem, quantity: number): number =>
+    Math.max(item.reorderQuantity, item.minLevel + 1 - quantity);
+
+// Every active item whose stock is at or below its minimum level, emptiest first.
+export const findLowStock = (catalog: CatalogItem[], stock: Record<string, StockItem>): ReorderLine[] =>
+    activeCatalogItems(catalog)
+        .map(item => ({ item, quantity: stock[item.id]?.quantity || 0 }))
+        .filter(({ item, quantity }) => isLowStock(item, quantity))
+        .map(({ item, quantity }) => ({ item, quantity, orderQuantity: suggestedOrderQuantity(item, quantity) }))
+        .sort((a, b) => a.quantity - b.quantity || a.item.nameEn.localeCompare(b.item.nameEn));
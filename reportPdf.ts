@@ -0,0 +1,238 @@
+import type jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { CellInput, RowInput } from 'jspdf-autotable';
+import type { Campus, CatalogItem, Report, StockItem } from './types';
+import { itemLabel } from './catalog';
+import { campusName } from './campuses';
+import { extraLinesTotal, formatExtraLines } from './extraLines';
+import type { PdfTextWriter } from './pdfText';
+import {
+    bilingualLabel,
+    EMPTY_DESCRIPTION,
+    NOT_SIGNED,
+    OTHER_ITEMS_PREFIX,
+    REPORT_PDF_TITLE,
+    REPORT_STOCK_TABLE_COLUMNS,
+    REPORT_TABLE_COLUMNS,
+    SIGNED_REPORT_TABLE_COLUMNS,
+    STATUS_SECTION_PREFIX,
+    STOCK_SECTION_PREFIX,
+} from './pdfParser';
+import { REPORT_STATUSES, canSignHandover } from './workflow';
+
+const formatItemsForDisplay = (items: Record<string, number> | string[], catalog: CatalogItem[]): string => {
+    if (!items) return '';
+    // Legacy support for old data format
+    if (Array.isArray(items)) {
+        return items.length > 0 ? items.map(item => itemLabel(catalog, item)).join(', ') : EMPTY_DESCRIPTION;
+    }
+    if (typeof items === 'object') {
+        const entries = Object.entries(items).filter(([, quantity]) => quantity > 0);
+        if (entries.length === 0) return EMPTY_DESCRIPTION;
+        return entries.map(([item, quantity]) => `${itemLabel(catalog, item)} (${quantity})`).join(', ');
+    }
+    return EMPTY_DESCRIPTION;
+};
+
+// The catalog items of a report followed by its other items, as the table and the PDF show them
+export const formatReportForDisplay = (report: Report, catalog: CatalogItem[]): string => {
+    const items = formatItemsForDisplay(report.items, catalog);
+    if (!report.extraLines?.length) return items;
+    const otherItems = `${OTHER_ITEMS_PREFIX}${formatExtraLines(report.extraLines)}`;
+    return items && items !== EMPTY_DESCRIPTION ? `${items}, ${otherItems}` : otherItems;
+};
+
+const calculateTotalItems = (items: Record<string, number> | string[]): number => {
+    if (!items) return 0;
+    // Legacy support for old data format
+    if (Array.isArray(items)) {
+        return items.length;
+    }
+    if (typeof items === 'object') {
+        return Object.values(items).reduce((sum, quantity) => sum + (Number(quantity) || 0), 0);
+    }
+    return 0;
+};
+
+export const calculateReportTotal = (report: Report): number =>
+    calculateTotalItems(report.items) + extraLinesTotal(report.extraLines);
+
+const calculateItemCounts = (reports: Report[]): Record<string, number> =>
+    reports.reduce((acc, report) => {
+        if (report.items && typeof report.items === 'object') {
+            for (const [item, quantity] of Object.entries(report.items)) {
+                acc[item] = (acc[item] || 0) + (Number(quantity) || 0);
+            }
+        }
+        return acc;
+    }, {} as Record<string, number>);
+
+// What the report PDF is about, as printed under its title.
+export interface ReportPdfFilter {
+    periodName: string;
+    campusFilterName: string;
+}
+
+// The stock printed after the requests, for stock keepers.
+export interface ReportPdfStock {
+    stock: Record<string, StockItem>;
+    locationName: string;
+}
+
+const SIGNATURE_HEIGHT = 7;
+
+// Writes the Stationary Report: a summary, a section of requests per status and, when given, the stock.
+export const addReportSections = (
+    doc: jsPDF,
+    writer: PdfTextWriter,
+    reports: Report[],
+    catalog: CatalogItem[],
+    campuses: Campus[],
+    { periodName, campusFilterName }: ReportPdfFilter,
+    stockSection: ReportPdfStock | null
+): void => {
+    const itemCountsTotal = calculateItemCounts(reports); // Grand total
+
+    doc.setFontSize(18);
+    writer.text(bilingualLabel(REPORT_PDF_TITLE, ' '), 14, 22);
+    doc.setFontSize(12);
+    writer.text(`Campus: ${campusFilterName}`, 14, 30);
+    doc.text(`Period: ${periodName}`, 14, 36);
+
+    let currentY = 45;
+
+    // --- Overall Summary Section ---
+    if (Object.keys(itemCountsTotal).length > 0) {
+        doc.setFontSize(16);
+        doc.setTextColor(45, 55, 72);
+        doc.text('Overall Summary', 14, currentY);
+        currentY += 8;
+
+        doc.setFontSize(14);
+        doc.setTextColor(0, 0, 0);
+        doc.text('Grand Total (All Statuses)', 14, currentY);
+        currentY += 7;
+        doc.setFontSize(10);
+        const summaryText = Object.entries(itemCountsTotal).map(([item, count]) => `${itemLabel(catalog, item)}: ${count}`).join(' | ');
+        const splitSummary = doc.splitTextToSize(summaryText, 180);
+        doc.text(splitSummary, 14, currentY);
+        currentY += (splitSummary.length * 4) + 5;
+    }
+
+    const addSectionToPdf = (title: string, sectionReports: Report[], counts: Record<string, number>, startY: number, withHandover: boolean): number => {
+        if (sectionReports.length === 0) {
+            return startY;
+        }
+
+        if (startY > 45) { // Check ensures it's not the very first section on the page
+            startY += 10;
+        }
+
+        doc.setFontSize(16);
+        doc.setTextColor(45, 55, 72);
+        doc.text(title, 14, startY);
+        startY += 8;
+
+        if (Object.keys(counts).length > 0) {
+            doc.setFontSize(14);
+            doc.setTextColor(0, 0, 0);
+            doc.text('Summary (Total Items)', 14, startY);
+            startY += 7;
+            doc.setFontSize(10);
+            const summaryText = Object.entries(counts).map(([item, count]) => `${itemLabel(catalog, item)}: ${count}`).join(' | ');
+            const splitSummary = doc.splitTextToSize(summaryText, 180);
+            doc.text(splitSummary, 14, startY);
+            startY += (splitSummary.length * 4) + 5;
+        }
+
+        // Sections of requests that are signed for on handover get a column with the receiver's name and signature
+        const tableColumns = withHandover ? SIGNED_REPORT_TABLE_COLUMNS : REPORT_TABLE_COLUMNS;
+        const receivedByColumn = tableColumns.indexOf('Received By');
+        const receivedByCell = ({ handover }: Report): CellInput => handover
+            // Room under the name for the signature
+            ? { content: handover.receiverName, styles: { cellPadding: { top: 1.5, right: 1.5, bottom: SIGNATURE_HEIGHT + 2, left: 1.5 } } }
+            : { content: NOT_SIGNED, styles: { textColor: [200, 30, 30] } };
+        const tableRows: RowInput[] = sectionReports.map(report => [
+            report.requesterName,
+            campusName(campuses, report.campus),
+            report.importDate,
+            report.exportDate,
+            formatReportForDisplay(report, catalog),
+            report.purpose || '',
+            report.remarks || '',
+            ...(withHandover ? [receivedByCell(report)] : []),
+            calculateReportTotal(report).toString(),
+        ]);
+
+        autoTable(doc, {
+            head: [tableColumns.map(column => bilingualLabel(column))],
+            body: tableRows,
+            startY: startY,
+            theme: 'grid',
+            headStyles: { fillColor: [45, 55, 72] },
+            styles: { fontSize: 8 },
+            // Dates, totals and the English of the headers must not wrap mid-word or the PDF import cannot read
+            // them back. Khmer has no spaces to wrap at, so without these widths the signed sections run short.
+            columnStyles: {
+                0: { minCellWidth: 21 },
+                1: { minCellWidth: 16 },
+                2: { cellWidth: 'wrap' },
+                3: { cellWidth: 'wrap' },
+                4: { minCellWidth: withHandover ? 36 : 45 },
+                5: { minCellWidth: 17 },
+                6: { minCellWidth: 18 },
+                ...(withHandover ? { [receivedByColumn]: { cellWidth: SIGNATURE_HEIGHT * 3 + 2 } } : {}),
+                [tableColumns.length - 1]: { minCellWidth: 15 },
+            },
+            ...writer.tableHooks,
+            didDrawCell: data => {
+                writer.tableHooks.didDrawCell?.(data);
+                const signature = sectionReports[data.row.index]?.handover?.signature;
+                if (data.section !== 'body' || data.column.index !== receivedByColumn || !signature) return;
+                // The pad is three times as wide as it is high
+                const { cell } = data;
+                doc.addImage(signature, 'PNG', cell.x + 1, cell.y + cell.height - SIGNATURE_HEIGHT - 1, SIGNATURE_HEIGHT * 3, SIGNATURE_HEIGHT);
+            },
+        });
+
+        return (doc as any).lastAutoTable.finalY;
+    };
+
+    REPORT_STATUSES.forEach(status => {
+        const statusReports = reports.filter(r => r.status === status);
+        currentY = addSectionToPdf(`${STATUS_SECTION_PREFIX}${status}`, statusReports, calculateItemCounts(statusReports), currentY, canSignHandover(status));
+    });
+
+    // --- Stock Inventory Section ---
+    if (stockSection) {
+        let lastY = (doc as any).lastAutoTable.finalY || currentY;
+        if (lastY > 250) { // Check if new page is needed
+            doc.addPage();
+            lastY = 20;
+        } else {
+            lastY += 15;
+        }
+
+        doc.setFontSize(16);
+        doc.setTextColor(45, 55, 72);
+        writer.text(`${STOCK_SECTION_PREFIX}${stockSection.locationName}`, 14, lastY);
+        lastY += 8;
+
+        const stockTableRows = Object.entries(stockSection.stock)
+            .map(([item, { quantity, lastInDate }]) => [
+                itemLabel(catalog, item),
+                quantity.toString(),
+                lastInDate || 'N/A'
+            ])
+            .sort(([a], [b]) => a.localeCompare(b));
+
+        autoTable(doc, {
+            head: [REPORT_STOCK_TABLE_COLUMNS.map(column => bilingualLabel(column))],
+            body: stockTableRows,
+            startY: lastY,
+            theme: 'grid',
+            headStyles: { fillColor: [80, 80, 80] },
+            ...writer.tableHooks,
+        });
+    }
+};
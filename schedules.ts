@@ -0,0 +1,69 @@
+import type { RequestSchedule, RequestTemplate, ScheduleFailure } from './types';
+import { addDays } from './dates';
+
+// Recurring requests: when a schedule falls due and what each due date asks for. The server creates the requests
+// from this, and the app lists the due dates coming up so they can be skipped or changed first.
+
+// How far ahead the app lists upcoming requests.
+export const UPCOMING_DAYS = 60;
+
+type ScheduleTiming = Pick<RequestSchedule, 'frequency' | 'startDate'>;
+
+// The due date `index` repeats after the start date. A monthly schedule that starts on the 29th to 31st falls on
+// the last day of months too short to have that day.
+export const nthDueDate = (schedule: ScheduleTiming, index: number): string => {
+    if (schedule.frequency === 'weekly') return addDays(schedule.startDate, index * 7);
+    const [year, month, day] = schedule.startDate.split('-').map(Number);
+    const first = new Date(Date.UTC(year, month - 1 + index, 1));
+    const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+    return `${first.toISOString().slice(0, 7)}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+};
+
+// The due dates after `after` up to and including `until`, earliest first.
+export const dueDatesBetween = (schedule: ScheduleTiming, after: string, until: string): string[] => {
+    const dates: string[] = [];
+    for (let index = 0; ; index++) {
+        const date = nthDueDate(schedule, index);
+        if (date > until) return dates;
+        if (date > after) dates.push(date);
+    }
+};
+
+export const isDueDate = (schedule: ScheduleTiming, date: string): boolean =>
+    dueDatesBetween(schedule, addDays(date, -1), date).length > 0;
+
+// One due date of a schedule that has not been requested yet.
+export interface Occurrence {
+    schedule: RequestSchedule;
+    template?: RequestTemplate; // Missing only if the template was deleted under the schedule
+    date: string;
+    items: Record<string, number>;
+    skipped: boolean;
+    changed: boolean; // The quantities were changed for this date alone
+    missed?: ScheduleFailure; // Why the server could not request it on its due date
+}
+
+export const occurrenceOn = (schedule: RequestSchedule, template: RequestTemplate | undefined, date: string): Occurrence => ({
+    schedule,
+    template,
+    date,
+    items: schedule.changedItems[date] || template?.items || {},
+    skipped: schedule.skippedDates.includes(date),
+    changed: !!schedule.changedItems[date],
+    missed: schedule.missedDates?.find(missed => missed.date === date),
+});
+
+// The occurrences still to be requested, up to `days` after `today`, soonest first. Missed dates and those the
+// server has not caught up with yet are included, since they are requested next.
+export const upcomingOccurrences = (
+    schedules: RequestSchedule[],
+    templates: RequestTemplate[],
+    today: string,
+    days = UPCOMING_DAYS
+): Occurrence[] =>
+    schedules
+        .flatMap(schedule => [
+            ...(schedule.missedDates || []).map(missed => missed.date),
+            ...dueDatesBetween(schedule, schedule.createdThrough, addDays(today, days)),
+        ].map(date => occurrenceOn(schedule, templates.find(template => template.id === schedule.templateId), date)))
+        .sort((a, b) => a.date.localeCompare(b.date));
@@ -0,0 +1,61 @@
+import crypto from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { User } from '../types';
+import * as store from './db';
+import type { Db } from './db';
+
+const SESSION_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Stored as 'salt:hash', both hex, hashed with scrypt.
+export const hashPassword = (password: string): string => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+    return `${salt}:${hash}`;
+};
+
+export const verifyPassword = (password: string, stored: string): boolean => {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+};
+
+export const createSession = (db: Db, userId: string): string => {
+    const token = crypto.randomBytes(32).toString('hex');
+    store.insertSession(db, token, userId, new Date(Date.now() + SESSION_LIFETIME_MS).toISOString());
+    return token;
+};
+
+export const sessionToken = (req: IncomingMessage): string | null => {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+};
+
+export const authenticate = (db: Db, req: IncomingMessage): User | null => {
+    const token = sessionToken(req);
+    return token ? store.getSessionUser(db, token) || null : null;
+};
+
+// A fresh database has no way in, so the first start creates an admin account.
+// The password comes from ADMIN_PASSWORD, or is generated and printed once.
+export const ensureInitialAdmin = (db: Db): void => {
+    if (store.countUsers(db) > 0) return;
+
+    const username = process.env.ADMIN_USERNAME || 'admin';
+    const password = process.env.ADMIN_PASSWORD || crypto.randomBytes(9).toString('base64url');
+    store.insertUser(db, {
+        id: crypto.randomUUID(),
+        username,
+        displayName: 'Administrator',
+        role: 'admin',
+        campus: '',
+        active: true,
+    }, hashPassword(password));
+
+    console.log(`Created the initial admin account "${username}".`);
+    if (!process.env.ADMIN_PASSWORD) {
+        console.log(`Its password is: ${password}  (sign in and change it under Manage Users)`);
+    }
+};
@@ -0,0 +1,66 @@
+import crypto from 'node:crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Report } from '../types';
+import { DEFAULT_CAMPUSES } from '../campuses';
+import * as store from './db';
+import type { Db } from './db';
+import { BACKUP_FORMAT, createBackup, loadBackup, restoreBackup } from './backup';
+
+const REPORT: Report = {
+    id: 'report-1', requesterName: 'Requester', campus: DEFAULT_CAMPUSES[0].id, importDate: '2026-03-02', exportDate: '2026-03-02',
+    items: { Bk: 3 }, status: 'Submitted',
+};
+
+let db: Db;
+
+beforeEach(() => {
+    db = store.openDatabase(':memory:');
+});
+
+describe('backups', () => {
+    it('restores the data as it was when the backup was made', () => {
+        store.insertReport(db, REPORT);
+        const backup = JSON.parse(JSON.stringify(createBackup(db)));
+        store.deleteReport(db, REPORT.id);
+
+        const backupDb = loadBackup(backup);
+        try {
+            restoreBackup(db, backupDb);
+        } finally {
+            backupDb.close();
+        }
+        expect(store.getReport(db, REPORT.id)).toMatchObject({ items: { Bk: 3 }, status: 'Submitted' });
+    });
+
+    it('brings a backup made at an older schema up to date', () => {
+        // Schema 1: reports named their campus and still had the Process/Done statuses
+        const data = { ...REPORT, campus: DEFAULT_CAMPUSES[0].name, status: 'Done' };
+        const tables = {
+            reports: [{ id: REPORT.id, data: JSON.stringify(data), created_at: '2026-03-02T08:00:00.000Z', updated_at: '2026-03-02T08:00:00.000Z' }],
+            stock_movements: [],
+        };
+        const checksum = crypto.createHash('sha256').update(JSON.stringify(tables)).digest('hex');
+
+        const backupDb = loadBackup({ format: BACKUP_FORMAT, schemaVersion: 1, createdAt: '2026-03-02T08:00:00.000Z', checksum, tables });
+        try {
+            restoreBackup(db, backupDb);
+        } finally {
+            backupDb.close();
+        }
+        expect(store.getReport(db, REPORT.id)).toMatchObject({ campus: DEFAULT_CAMPUSES[0].id, status: 'Fulfilled' });
+    });
+
+    it('refuses a backup whose contents no longer match its checksum', () => {
+        store.insertReport(db, REPORT);
+        const backup = JSON.parse(JSON.stringify(createBackup(db)));
+        backup.tables.reports[0].data = JSON.stringify({ ...REPORT, items: { Bk: 300 } });
+
+        expect(() => loadBackup(backup)).toThrow('The backup checksum does not match its contents');
+    });
+
+    it('refuses a backup made by a newer version of the app', () => {
+        const backup = { ...createBackup(db), schemaVersion: store.SCHEMA_VERSION + 1 };
+
+        expect(() => loadBackup(backup)).toThrow('The backup was made by a newer version of the app');
+    });
+});
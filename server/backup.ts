@@ -0,0 +1,165 @@
+import crypto from 'node:crypto';
+import Database from 'better-sqlite3';
+import { findCampus } from '../campuses';
+import * as store from './db';
+import type { Db } from './db';
+import { HttpError } from './http';
+
+export const BACKUP_FORMAT = 'stationary-backup';
+
+// The tables a backup holds, under the names its summary uses. Accounts and sessions are not backed up:
+// they belong to the server, and restoring must not sign anyone out or bring back old passwords.
+const BACKUP_TABLES = {
+    campuses: 'campuses',
+    catalogItems: 'catalog_items',
+    reports: 'reports',
+    stockMovements: 'stock_movements',
+    transfers: 'stock_transfers',
+    purchaseOrders: 'purchase_orders',
+    itemPrices: 'item_prices',
+    campusBudgets: 'campus_budgets',
+    requestTemplates: 'request_templates',
+    requestSchedules: 'request_schedules',
+    auditLog: 'audit_log',
+} as const;
+
+type BackupSection = keyof typeof BACKUP_TABLES;
+
+type Row = Record<string, unknown>;
+
+// The raw rows of every backed-up table, as they stood at `schemaVersion`.
+export interface BackupDocument {
+    format: typeof BACKUP_FORMAT;
+    schemaVersion: number;
+    createdAt: string;
+    checksum: string; // SHA-256 of the JSON of `tables`
+    tables: Record<string, Row[]>;
+}
+
+export interface BackupSummary {
+    schemaVersion: number;
+    createdAt: string;
+    counts: Record<BackupSection, { current: number; backup: number }>;
+}
+
+const checksumOf = (tables: unknown): string =>
+    crypto.createHash('sha256').update(JSON.stringify(tables)).digest('hex');
+
+const tableExists = (db: Db, table: string): boolean =>
+    !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+
+const tableColumns = (db: Db, table: string): string[] =>
+    (db.pragma(`table_info(${table})`) as { name: string }[]).map(column => column.name);
+
+const readTable = (db: Db, table: string): Row[] => db.prepare(`SELECT * FROM ${table} ORDER BY rowid`).all() as Row[];
+
+const countRows = (db: Db, table: string): number =>
+    (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+
+const insertRows = (db: Db, table: string, rows: Row[]): void => {
+    const statements = new Map<string, Database.Statement>();
+    rows.forEach(row => {
+        const columns = Object.keys(row);
+        const key = columns.join(',');
+        let insert = statements.get(key);
+        if (!insert) {
+            insert = db.prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(column => `@${column}`).join(', ')})`);
+            statements.set(key, insert);
+        }
+        insert.run(row);
+    });
+};
+
+export const createBackup = (db: Db): BackupDocument => {
+    const tables: Record<string, Row[]> = {};
+    Object.values(BACKUP_TABLES).forEach(table => {
+        tables[table] = readTable(db, table);
+    });
+    return {
+        format: BACKUP_FORMAT,
+        schemaVersion: db.pragma('user_version', { simple: true }) as number,
+        createdAt: new Date().toISOString(),
+        checksum: checksumOf(tables),
+        tables,
+    };
+};
+
+// Checks a backup and loads it into a scratch database: one at the backup's own schema version, which the
+// regular migrations then bring up to date. The caller closes the database it gets back.
+export const loadBackup = (input: any): Db => {
+    if (!input || typeof input !== 'object' || input.format !== BACKUP_FORMAT) {
+        throw new HttpError(400, 'This file is not a backup made by this app.');
+    }
+    const { schemaVersion, tables } = input;
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 1) throw new HttpError(400, 'The backup has no valid schema version.');
+    if (schemaVersion > store.SCHEMA_VERSION) {
+        throw new HttpError(400, `The backup was made by a newer version of the app (schema ${schemaVersion}, this server is at ${store.SCHEMA_VERSION}).`);
+    }
+    if (!tables || typeof tables !== 'object' || Array.isArray(tables)) throw new HttpError(400, 'The backup holds no tables.');
+    if (input.checksum !== checksumOf(tables)) {
+        throw new HttpError(400, 'The backup checksum does not match its contents; the file is damaged or was edited.');
+    }
+
+    const backupDb = new Database(':memory:');
+    try {
+        store.migrate(backupDb, schemaVersion);
+        backupDb.transaction(() => {
+            Object.values(BACKUP_TABLES).filter(table => tableExists(backupDb, table)).forEach(table => {
+                const rows = tables[table];
+                if (!Array.isArray(rows)) throw new HttpError(400, `The backup has no ${table} table.`);
+                const columns = tableColumns(backupDb, table);
+                rows.forEach(row => {
+                    if (!row || typeof row !== 'object' || Array.isArray(row)) throw new HttpError(400, `The backup's ${table} table has a malformed row.`);
+                    const unknown = Object.keys(row).find(column => !columns.includes(column));
+                    if (unknown) throw new HttpError(400, `The backup's ${table} table has an unknown column ${unknown}.`);
+                });
+                // The backup replaces whatever the migrations seeded
+                backupDb.prepare(`DELETE FROM ${table}`).run();
+                insertRows(backupDb, table, rows);
+            });
+        })();
+        store.migrate(backupDb);
+    } catch (error) {
+        backupDb.close();
+        if (error instanceof HttpError) throw error;
+        throw new HttpError(400, `The backup could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return backupDb;
+};
+
+// What restoring the loaded backup would replace, table by table.
+export const summarizeBackup = (db: Db, backupDb: Db, input: BackupDocument): BackupSummary => {
+    const counts = {} as BackupSummary['counts'];
+    (Object.keys(BACKUP_TABLES) as BackupSection[]).forEach(section => {
+        const table = BACKUP_TABLES[section];
+        counts[section] = { current: countRows(db, table), backup: countRows(backupDb, table) };
+    });
+    return { schemaVersion: input.schemaVersion, createdAt: input.createdAt, counts };
+};
+
+// Replaces every backed-up table with the loaded backup's rows in one transaction.
+export const restoreBackup = (db: Db, backupDb: Db): void => {
+    db.transaction(() => {
+        const campusesBefore = store.listCampuses(db);
+        Object.values(BACKUP_TABLES).forEach(table => {
+            db.prepare(`DELETE FROM ${table}`).run();
+            insertRows(db, table, readTable(backupDb, table));
+        });
+
+        // Accounts stay as they are, so a user whose campus the backup does not know is moved to the campus
+        // of the same name, or keeps their campus in the directory
+        const campuses = store.listCampuses(db);
+        store.listUsers(db).forEach(user => {
+            if (!user.campus || campuses.some(campus => campus.id === user.campus)) return;
+            const previous = campusesBefore.find(campus => campus.id === user.campus);
+            if (!previous) return;
+            const sameName = findCampus(campuses, previous.name);
+            if (sameName) {
+                store.updateUser(db, { ...user, campus: sameName.id });
+            } else {
+                store.insertCampus(db, previous);
+                campuses.push(previous);
+            }
+        });
+    })();
+};
@@ -0,0 +1,42 @@
+import { BACKUP_MANAGER_ROLES } from '../permissions';
+import type { Db } from './db';
+import type { Route } from './http';
+import { createBackup, loadBackup, restoreBackup, summarizeBackup } from './backup';
+
+export const createBackupRoutes = (db: Db): Route[] => [
+    {
+        method: 'GET',
+        path: '/api/backup',
+        roles: BACKUP_MANAGER_ROLES,
+        handler: () => createBackup(db),
+    },
+    {
+        // Validates a backup and reports what restoring it would replace, without changing anything.
+        method: 'POST',
+        path: '/api/backup/check',
+        roles: BACKUP_MANAGER_ROLES,
+        handler: ({ body }) => {
+            const backupDb = loadBackup(body);
+            try {
+                return summarizeBackup(db, backupDb, body);
+            } finally {
+                backupDb.close();
+            }
+        },
+    },
+    {
+        method: 'POST',
+        path: '/api/backup/restore',
+        roles: BACKUP_MANAGER_ROLES,
+        handler: ({ body }) => {
+            const backupDb = loadBackup(body);
+            try {
+                const summary = summarizeBackup(db, backupDb, body);
+                restoreBackup(db, backupDb);
+                return summary;
+            } finally {
+                backupDb.close();
+            }
+        },
+    },
+];
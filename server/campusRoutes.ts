@@ -0,0 +1,63 @@
+import crypto from 'node:crypto';
+import type { Campus } from '../types';
+import { CAMPUS_MANAGER_ROLES } from '../permissions';
+import * as store from './db';
+import type { Db } from './db';
+import { HttpError } from './http';
+import type { Route } from './http';
+
+const optionalText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const parseCampus = (input: any, id: string): Campus => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A campus must be a JSON object.');
+    const name = optionalText(input.name);
+    if (!name) throw new HttpError(400, 'Campus name is required.');
+    return {
+        id,
+        name,
+        address: optionalText(input.address),
+        contactPerson: optionalText(input.contactPerson),
+        active: input.active !== false,
+    };
+};
+
+const ensureNameFree = (db: Db, campus: Campus) => {
+    const existing = store.listCampuses(db).find(other => other.id !== campus.id && other.name.toLowerCase() === campus.name.toLowerCase());
+    if (existing) throw new HttpError(409, `A campus called ${campus.name} already exists.`);
+};
+
+// Campuses are never deleted, since reports, users and stock refer to them; retire them with `active: false` instead.
+export const createCampusRoutes = (db: Db): Route[] => [
+    {
+        method: 'GET',
+        path: '/api/campuses',
+        handler: () => store.listCampuses(db),
+    },
+    {
+        method: 'POST',
+        path: '/api/campuses',
+        roles: CAMPUS_MANAGER_ROLES,
+        handler: ({ body }) => {
+            const campus = parseCampus(body, crypto.randomUUID());
+            return db.transaction(() => {
+                ensureNameFree(db, campus);
+                store.insertCampus(db, campus);
+                return campus;
+            })();
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/api/campuses/:id',
+        roles: CAMPUS_MANAGER_ROLES,
+        handler: ({ params, body }) => {
+            const campus = parseCampus(body, params.id);
+            return db.transaction(() => {
+                if (!store.getCampus(db, campus.id)) throw new HttpError(404, `Campus ${campus.id} not found.`);
+                ensureNameFree(db, campus);
+                store.updateCampus(db, campus);
+                return campus;
+            })();
+        },
+    },
+];
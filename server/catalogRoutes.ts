@@ -0,0 +1,77 @@
+import crypto from 'node:crypto';
+import type { CatalogItem } from '../types';
+import { STOCK_MANAGER_ROLES } from '../permissions';
+import * as store from './db';
+import type { Db } from './db';
+import { HttpError } from './http';
+import type { Route } from './http';
+
+const optionalText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// A level the request leaves out keeps `current`, the one the item has now.
+const parseLevel = (value: unknown, label: string, current: number): number => {
+    if (value === undefined) return current;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new HttpError(400, `${label} must be a non-negative whole number.`);
+    }
+    return value;
+};
+
+// `existing` is the item an edit changes; a new item starts without reorder levels.
+const parseCatalogItem = (input: any, id: string, existing?: CatalogItem): CatalogItem => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A catalog item must be a JSON object.');
+    const nameEn = optionalText(input.nameEn);
+    if (!nameEn) throw new HttpError(400, 'English name is required.');
+    return {
+        id,
+        nameEn,
+        nameKm: optionalText(input.nameKm),
+        category: optionalText(input.category),
+        unit: optionalText(input.unit),
+        active: input.active !== false,
+        minLevel: parseLevel(input.minLevel, 'Minimum level', existing?.minLevel ?? 0),
+        reorderQuantity: parseLevel(input.reorderQuantity, 'Reorder quantity', existing?.reorderQuantity ?? 0),
+    };
+};
+
+const ensureNameFree = (db: Db, item: CatalogItem) => {
+    const existing = store.listCatalogItems(db).find(other => other.id !== item.id && other.nameEn.toLowerCase() === item.nameEn.toLowerCase());
+    if (existing) throw new HttpError(409, `An item called ${item.nameEn} already exists.`);
+};
+
+// Items are never deleted, since reports and stock history refer to them; archive them with `active: false` instead.
+export const createCatalogRoutes = (db: Db): Route[] => [
+    {
+        method: 'GET',
+        path: '/api/catalog',
+        handler: () => store.listCatalogItems(db),
+    },
+    {
+        method: 'POST',
+        path: '/api/catalog',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ body }) => {
+            const item = parseCatalogItem(body, crypto.randomUUID());
+            return db.transaction(() => {
+                ensureNameFree(db, item);
+                store.insertCatalogItem(db, item);
+                return item;
+            })();
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/api/catalog/:id',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ params, body }) => {
+            return db.transaction(() => {
+                const existing = store.getCatalogItem(db, params.id);
+                if (!existing) throw new HttpError(404, `Item ${params.id} not found.`);
+                const item = parseCatalogItem(body, params.id, existing);
+                ensureNameFree(db, item);
+                store.updateCatalogItem(db, item);
+                return item;
+            })();
+        },
+    },
+];
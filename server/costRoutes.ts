@@ -0,0 +1,139 @@
+import crypto from 'node:crypto';
+import type { CampusBudget, ItemPrice, User } from '../types';
+import { BUDGET_MANAGER_ROLES, STOCK_MANAGER_ROLES, canManageStock } from '../permissions';
+import { budgetSpending, monthRange } from '../costing';
+import type { BudgetStatus } from '../costing';
+import { isDateString } from '../dates';
+import * as store from './db';
+import type { Db } from './db';
+import { HttpError } from './http';
+import type { Route } from './http';
+import { signedInUser } from './validation';
+
+const parseAmount = (value: unknown, label: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new HttpError(400, `${label} must be a non-negative number.`);
+    }
+    return value;
+};
+
+const parseItemPrice = (input: any, user: User): ItemPrice => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A price must be a JSON object.');
+    if (typeof input.item !== 'string' || !input.item) throw new HttpError(400, 'Item is required.');
+    const createdAt = new Date().toISOString();
+    const effectiveDate = input.effectiveDate === undefined || input.effectiveDate === '' ? createdAt.split('T')[0] : input.effectiveDate;
+    if (!isDateString(effectiveDate)) throw new HttpError(400, 'Effective date must be YYYY-MM-DD.');
+    return {
+        id: crypto.randomUUID(),
+        item: input.item,
+        unitCost: parseAmount(input.unitCost, 'Unit cost'),
+        effectiveDate,
+        createdAt,
+        byUserId: user.id,
+        byName: user.displayName,
+    };
+};
+
+// A month budget covers the whole of `label` ('YYYY-MM'); a term budget names its own dates.
+const parseCampusBudget = (input: any, id: string): CampusBudget => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A budget must be a JSON object.');
+    if (typeof input.campus !== 'string' || !input.campus) throw new HttpError(400, 'Campus is required.');
+    const amount = parseAmount(input.amount, 'Budget amount');
+    const label = typeof input.label === 'string' ? input.label.trim() : '';
+    if (input.period === 'month') {
+        if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(label)) throw new HttpError(400, 'A month budget needs its month as YYYY-MM.');
+        return { id, campus: input.campus, period: 'month', label, ...monthRange(label), amount };
+    }
+    if (input.period !== 'term') throw new HttpError(400, "Period must be 'month' or 'term'.");
+    if (!label) throw new HttpError(400, 'A term budget needs a name.');
+    if (!isDateString(input.startDate) || !isDateString(input.endDate)) throw new HttpError(400, 'Start and end dates must be YYYY-MM-DD.');
+    if (input.endDate < input.startDate) throw new HttpError(400, 'A term cannot end before it starts.');
+    return { id, campus: input.campus, period: 'term', label, startDate: input.startDate, endDate: input.endDate, amount };
+};
+
+// Each request date falls under at most one budget per campus.
+const ensureNoOverlap = (db: Db, budget: CampusBudget) => {
+    const overlapping = store.listCampusBudgets(db).find(other => other.id !== budget.id && other.campus === budget.campus
+        && other.startDate <= budget.endDate && budget.startDate <= other.endDate);
+    if (overlapping) throw new HttpError(409, `This campus already has a budget for ${overlapping.label} (${overlapping.startDate} to ${overlapping.endDate}).`);
+};
+
+const ensureCampusExists = (db: Db, campusId: string) => {
+    if (!store.getCampus(db, campusId)) throw new HttpError(400, `Campus ${campusId} is not in the directory.`);
+};
+
+// Spending is worked out here over every request, including those the user asking cannot see themselves.
+const withSpending = (db: Db, budgets: CampusBudget[]): BudgetStatus[] => {
+    const reports = store.listReports(db);
+    const prices = store.listItemPrices(db);
+    return budgets.map(budget => ({ ...budget, spent: budgetSpending(budget, reports, prices) }));
+};
+
+// Prices are never edited or removed, since they cost every request made while they applied; a new price takes over instead.
+export const createCostRoutes = (db: Db): Route[] => [
+    {
+        method: 'GET',
+        path: '/api/prices',
+        handler: () => store.listItemPrices(db),
+    },
+    {
+        method: 'POST',
+        path: '/api/prices',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, body }) => {
+            const actor = signedInUser(user);
+            const price = parseItemPrice(body, actor);
+            return db.transaction(() => {
+                if (!store.getCatalogItem(db, price.item)) throw new HttpError(400, `Item ${price.item} is not in the catalog.`);
+                store.insertItemPrice(db, price);
+                return price;
+            })();
+        },
+    },
+    {
+        // Requesters only see the budgets of their own campus.
+        method: 'GET',
+        path: '/api/budgets',
+        handler: ({ user }) => withSpending(db, store.listCampusBudgets(db)
+            .filter(budget => canManageStock(user) || (!!user && budget.campus === user.campus))),
+    },
+    {
+        method: 'POST',
+        path: '/api/budgets',
+        roles: BUDGET_MANAGER_ROLES,
+        handler: ({ body }) => {
+            const budget = parseCampusBudget(body, crypto.randomUUID());
+            return db.transaction(() => {
+                ensureCampusExists(db, budget.campus);
+                ensureNoOverlap(db, budget);
+                store.insertCampusBudget(db, budget);
+                return withSpending(db, [budget])[0];
+            })();
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/api/budgets/:id',
+        roles: BUDGET_MANAGER_ROLES,
+        handler: ({ params, body }) => {
+            const budget = parseCampusBudget(body, params.id);
+            return db.transaction(() => {
+                if (!store.getCampusBudget(db, budget.id)) throw new HttpError(404, `Budget ${budget.id} not found.`);
+                ensureCampusExists(db, budget.campus);
+                ensureNoOverlap(db, budget);
+                store.updateCampusBudget(db, budget);
+                return withSpending(db, [budget])[0];
+            })();
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/api/budgets/:id',
+        roles: BUDGET_MANAGER_ROLES,
+        handler: ({ params }) => db.transaction(() => {
+            if (!store.getCampusBudget(db, params.id)) throw new HttpError(404, `Budget ${params.id} not found.`);
+            store.deleteCampusBudget(db, params.id);
+            return { id: params.id };
+        })(),
+    },
+];
@@ -0,0 +1,705 @@
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { AuditEntity, AuditEntry, Campus, CampusBudget, CatalogItem, ItemPrice, PurchaseOrder, Report, RequestSchedule, RequestTemplate, StockMovement, StockTransfer, User } from '../types';
+import { normalizeLegacyStatus } from '../workflow';
+
+export type Db = Database.Database;
+
+// Each entry upgrades the schema by one version; `PRAGMA user_version` records how many have run.
+// Entries are SQL, or a function for changes SQL alone cannot express.
+// Never edit an entry once released, append a new one instead.
+const MIGRATIONS: Array<string | ((db: Db) => void)> = [
+    `
+    CREATE TABLE reports (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    CREATE TABLE stock_movements (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        item TEXT NOT NULL,
+        quantity INTEGER NOT NULL,
+        date TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        report_id TEXT,
+        note TEXT
+    );
+    CREATE INDEX stock_movements_item ON stock_movements (item);
+    CREATE INDEX stock_movements_report_id ON stock_movements (report_id);
+    `,
+    `
+    CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        display_name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        campus TEXT NOT NULL DEFAULT '',
+        active INTEGER NOT NULL DEFAULT 1,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    CREATE TABLE sessions (
+        token TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id),
+        expires_at TEXT NOT NULL
+    );
+    `,
+    // Process/Done statuses become Submitted/Fulfilled in the approval workflow
+    db => {
+        const rows = db.prepare('SELECT id, data FROM reports').all() as { id: string; data: string }[];
+        const update = db.prepare('UPDATE reports SET data = ? WHERE id = ?');
+        rows.forEach(row => {
+            const report = JSON.parse(row.data);
+            report.status = normalizeLegacyStatus(report.status);
+            update.run(JSON.stringify(report), row.id);
+        });
+    },
+    // Stock per location; everything recorded before then sat in the central warehouse
+    `
+    ALTER TABLE stock_movements ADD COLUMN location TEXT NOT NULL DEFAULT 'Central Warehouse';
+    ALTER TABLE stock_movements ADD COLUMN transfer_id TEXT;
+    CREATE INDEX stock_movements_location ON stock_movements (location);
+    CREATE TABLE stock_transfers (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    `,
+    // The item catalog, seeded with the items that used to be hard-coded
+    `
+    CREATE TABLE catalog_items (
+        id TEXT PRIMARY KEY,
+        name_en TEXT NOT NULL,
+        name_km TEXT NOT NULL DEFAULT '',
+        category TEXT NOT NULL DEFAULT '',
+        unit TEXT NOT NULL DEFAULT '',
+        active INTEGER NOT NULL DEFAULT 1,
+        sort_order INTEGER NOT NULL
+    );
+    INSERT INTO catalog_items (id, name_en, name_km, category, unit, active, sort_order) VALUES
+        ('Bk', 'Black Toner', 'ទឹកថ្នាំខ្មៅ', 'Toner', 'cartridge', 1, 1),
+        ('M', 'Magenta Toner', 'ទឹកថ្នាំក្រហម', 'Toner', 'cartridge', 1, 2),
+        ('Y', 'Yellow Toner', 'ទឹកថ្នាំលឿង', 'Toner', 'cartridge', 1, 3),
+        ('C', 'Cyan Toner', 'ទឹកថ្នាំខៀវ', 'Toner', 'cartridge', 1, 4),
+        ('Card', 'ID Card', 'កាត', 'Cards', 'piece', 1, 5),
+        ('Card line', 'Card Lanyard', 'ខ្សែកាត', 'Cards', 'piece', 1, 6),
+        ('Keyboard', 'Keyboard', 'ក្ដារចុច', 'Computer Accessories', 'piece', 1, 7),
+        ('Mouse', 'Mouse', 'កណ្ដុរ', 'Computer Accessories', 'piece', 1, 8),
+        ('Mouse Pad', 'Mouse Pad', 'ទ្រនាប់កណ្ដុរ', 'Computer Accessories', 'piece', 1, 9),
+        ('Paper A4', 'Paper A4', 'ក្រដាស A4', 'Paper', 'ream', 1, 10),
+        ('WiFi', 'WiFi Adapter', 'ឧបករណ៍ WiFi', 'Network', 'piece', 1, 11),
+        ('Camera', 'Camera', 'កាមេរ៉ា', 'Equipment', 'piece', 1, 12);
+    `,
+    // The campus directory, seeded with the campuses that used to be hard-coded. Reports and users stored campus
+    // names; those become campus ids, and any name that matches no campus (typos, imports) gets a campus of its own
+    // so no report is left orphaned. Names match whatever their case or surrounding spaces.
+    `
+    CREATE TABLE campuses (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        address TEXT NOT NULL DEFAULT '',
+        contact_person TEXT NOT NULL DEFAULT '',
+        active INTEGER NOT NULL DEFAULT 1,
+        sort_order INTEGER NOT NULL
+    );
+    INSERT INTO campuses (id, name, sort_order) VALUES
+        ('Campus1', 'Campus1', 1),
+        ('Campus2', 'Campus2', 2),
+        ('Campus3', 'Campus3', 3),
+        ('Campus4', 'Campus4', 4),
+        ('Campus5', 'Campus5', 5),
+        ('Campus6', 'Campus6', 6),
+        ('CampusMRT', 'CampusMRT', 7),
+        ('Campus72P', 'Campus72P', 8),
+        ('Campus86P', 'Campus86P', 9),
+        ('CampusBMU', 'CampusBMU', 10),
+        ('CampusBM2', 'CampusBM2', 11),
+        ('CampusMISPP', 'CampusMISPP', 12),
+        ('Campus Wat Toul', 'Campus Wat Toul', 13);
+    -- Unknown names in the order they first appear, reports before users, each written as it first was
+    INSERT INTO campuses (id, name, sort_order)
+    SELECT lower(hex(randomblob(16))), name, 13 + ROW_NUMBER() OVER (ORDER BY MIN(position))
+    FROM (
+        SELECT trim(COALESCE(json_extract(data, '$.campus'), '')) AS name, rowid AS position FROM reports
+        UNION ALL
+        SELECT trim(campus), (SELECT COALESCE(MAX(rowid), 0) FROM reports) + rowid FROM users
+    ) AS named
+    WHERE name <> '' AND NOT EXISTS (SELECT 1 FROM campuses WHERE campuses.name = named.name)
+    GROUP BY name COLLATE NOCASE;
+    UPDATE reports SET data = json_set(data, '$.campus', COALESCE(
+        (SELECT id FROM campuses WHERE campuses.name = trim(json_extract(reports.data, '$.campus'))), ''));
+    UPDATE users SET campus = COALESCE((SELECT id FROM campuses WHERE campuses.name = trim(users.campus)), '');
+    `,
+    // Reorder points per item. Existing items keep the old fixed threshold of 10.
+    `
+    ALTER TABLE catalog_items ADD COLUMN min_level INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE catalog_items ADD COLUMN reorder_quantity INTEGER NOT NULL DEFAULT 0;
+    UPDATE catalog_items SET min_level = 10, reorder_quantity = 10;
+    `,
+    // Purchase orders, with goods receipts posting stock-in movements that point back at them
+    `
+    ALTER TABLE stock_movements ADD COLUMN purchase_order_id TEXT;
+    CREATE INDEX stock_movements_purchase_order_id ON stock_movements (purchase_order_id);
+    CREATE TABLE purchase_orders (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    `,
+    // Item price history and campus budgets
+    `
+    CREATE TABLE item_prices (
+        id TEXT PRIMARY KEY,
+        item TEXT NOT NULL,
+        unit_cost REAL NOT NULL,
+        effective_date TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        by_user_id TEXT NOT NULL,
+        by_name TEXT NOT NULL
+    );
+    CREATE INDEX item_prices_item ON item_prices (item);
+    CREATE TABLE campus_budgets (
+        id TEXT PRIMARY KEY,
+        campus TEXT NOT NULL,
+        period TEXT NOT NULL,
+        label TEXT NOT NULL,
+        start_date TEXT NOT NULL,
+        end_date TEXT NOT NULL,
+        amount REAL NOT NULL
+    );
+    CREATE INDEX campus_budgets_campus ON campus_budgets (campus);
+    `,
+    // Audit trail of report and stock changes
+    `
+    CREATE TABLE audit_log (
+        id TEXT PRIMARY KEY,
+        at TEXT NOT NULL,
+        entity TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX audit_log_entity ON audit_log (entity, entity_id);
+    `,
+    // Reports count their saves, so a save made from an out-of-date copy can be refused
+    `
+    ALTER TABLE reports ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+    `,
+    // Request templates, and the schedules that request them on repeating dates
+    `
+    CREATE TABLE request_templates (
+        id TEXT PRIMARY KEY,
+        campus TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE request_schedules (
+        id TEXT PRIMARY KEY,
+        template_id TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX request_schedules_template_id ON request_schedules (template_id);
+    `,
+];
+
+// The schema version a fully migrated database is at.
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+// Runs the migrations a database has not had yet, up to `targetVersion`.
+export const migrate = (db: Db, targetVersion = SCHEMA_VERSION): void => {
+    const currentVersion = db.pragma('user_version', { simple: true }) as number;
+    MIGRATIONS.slice(currentVersion, targetVersion).forEach((migration, index) => {
+        db.transaction(() => {
+            if (typeof migration === 'string') {
+                db.exec(migration);
+            } else {
+                migration(db);
+            }
+            db.pragma(`user_version = ${currentVersion + index + 1}`);
+        })();
+    });
+};
+
+export const openDatabase = (file: string): Db => {
+    if (file !== ':memory:') {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+    return db;
+};
+
+// --- Reports ---
+
+interface ReportRow {
+    data: string;
+    revision: number;
+}
+
+// The revision is kept in its own column, never in the stored JSON, so only the server sets it.
+const rowToReport = (row: ReportRow): Report => ({ ...JSON.parse(row.data), revision: row.revision });
+
+const reportData = (report: Report): string => {
+    const { revision: _revision, ...data } = report;
+    return JSON.stringify(data);
+};
+
+export const listReports = (db: Db): Report[] => {
+    const rows = db.prepare('SELECT data, revision FROM reports ORDER BY created_at, id').all() as ReportRow[];
+    return rows.map(rowToReport);
+};
+
+export const getReport = (db: Db, id: string): Report | undefined => {
+    const row = db.prepare('SELECT data, revision FROM reports WHERE id = ?').get(id) as ReportRow | undefined;
+    return row ? rowToReport(row) : undefined;
+};
+
+// Both return the report as stored, with its new revision.
+export const insertReport = (db: Db, report: Report): Report => {
+    const now = new Date().toISOString();
+    db.prepare('INSERT INTO reports (id, data, created_at, updated_at) VALUES (?, ?, ?, ?)')
+        .run(report.id, reportData(report), now, now);
+    return getReport(db, report.id)!;
+};
+
+export const updateReport = (db: Db, report: Report): Report => {
+    db.prepare('UPDATE reports SET data = ?, updated_at = ?, revision = revision + 1 WHERE id = ?')
+        .run(reportData(report), new Date().toISOString(), report.id);
+    return getReport(db, report.id)!;
+};
+
+export const deleteReport = (db: Db, id: string): void => {
+    db.prepare('DELETE FROM reports WHERE id = ?').run(id);
+};
+
+// --- Stock movements ---
+
+interface StockMovementRow {
+    id: string;
+    item: string;
+    quantity: number;
+    date: string;
+    timestamp: string;
+    reason: StockMovement['reason'];
+    location: string;
+    report_id: string | null;
+    transfer_id: string | null;
+    purchase_order_id: string | null;
+    note: string | null;
+}
+
+const rowToMovement = (row: StockMovementRow): StockMovement => {
+    const movement: StockMovement = {
+        id: row.id,
+        item: row.item,
+        quantity: row.quantity,
+        date: row.date,
+        timestamp: row.timestamp,
+        reason: row.reason,
+        location: row.location,
+    };
+    if (row.report_id) movement.reportId = row.report_id;
+    if (row.transfer_id) movement.transferId = row.transfer_id;
+    if (row.purchase_order_id) movement.purchaseOrderId = row.purchase_order_id;
+    if (row.note) movement.note = row.note;
+    return movement;
+};
+
+// Movements come back in the order they were recorded, which is the order they must be replayed in.
+export const listStockMovements = (db: Db, filter: { item?: string; location?: string } = {}): StockMovement[] => {
+    const conditions: string[] = [];
+    if (filter.item) conditions.push('item = @item');
+    if (filter.location) conditions.push('location = @location');
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = db.prepare(`SELECT * FROM stock_movements ${where} ORDER BY seq`).all(filter) as StockMovementRow[];
+    return rows.map(rowToMovement);
+};
+
+export const countStockMovements = (db: Db): number => {
+    return (db.prepare('SELECT COUNT(*) AS count FROM stock_movements').get() as { count: number }).count;
+};
+
+export const insertStockMovements = (db: Db, movements: StockMovement[]): void => {
+    const statement = db.prepare(`
+        INSERT OR IGNORE INTO stock_movements (id, item, quantity, date, timestamp, reason, location, report_id, transfer_id, purchase_order_id, note)
+        VALUES (@id, @item, @quantity, @date, @timestamp, @reason, @location, @reportId, @transferId, @purchaseOrderId, @note)
+    `);
+    movements.forEach(movement => {
+        statement.run({ reportId: null, transferId: null, purchaseOrderId: null, note: null, ...movement });
+    });
+};
+
+// --- Stock transfers ---
+
+export const listTransfers = (db: Db): StockTransfer[] => {
+    const rows = db.prepare('SELECT data FROM stock_transfers ORDER BY created_at, id').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+};
+
+export const insertTransfer = (db: Db, transfer: StockTransfer): void => {
+    db.prepare('INSERT INTO stock_transfers (id, data, created_at) VALUES (?, ?, ?)')
+        .run(transfer.id, JSON.stringify(transfer), transfer.createdAt);
+};
+
+// --- Purchase orders ---
+
+export const listPurchaseOrders = (db: Db): PurchaseOrder[] => {
+    const rows = db.prepare('SELECT data FROM purchase_orders ORDER BY created_at, id').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+};
+
+export const getPurchaseOrder = (db: Db, id: string): PurchaseOrder | undefined => {
+    const row = db.prepare('SELECT data FROM purchase_orders WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+};
+
+export const countPurchaseOrders = (db: Db): number => {
+    return (db.prepare('SELECT COUNT(*) AS count FROM purchase_orders').get() as { count: number }).count;
+};
+
+export const insertPurchaseOrder = (db: Db, order: PurchaseOrder): void => {
+    db.prepare('INSERT INTO purchase_orders (id, data, created_at) VALUES (?, ?, ?)')
+        .run(order.id, JSON.stringify(order), order.createdAt);
+};
+
+export const updatePurchaseOrder = (db: Db, order: PurchaseOrder): void => {
+    db.prepare('UPDATE purchase_orders SET data = ? WHERE id = ?').run(JSON.stringify(order), order.id);
+};
+
+// --- Request templates and schedules ---
+
+export const listRequestTemplates = (db: Db): RequestTemplate[] => {
+    const rows = db.prepare('SELECT data FROM request_templates ORDER BY campus, rowid').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+};
+
+export const getRequestTemplate = (db: Db, id: string): RequestTemplate | undefined => {
+    const row = db.prepare('SELECT data FROM request_templates WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+};
+
+export const insertRequestTemplate = (db: Db, template: RequestTemplate): void => {
+    db.prepare('INSERT INTO request_templates (id, campus, data) VALUES (?, ?, ?)')
+        .run(template.id, template.campus, JSON.stringify(template));
+};
+
+export const updateRequestTemplate = (db: Db, template: RequestTemplate): void => {
+    db.prepare('UPDATE request_templates SET campus = ?, data = ? WHERE id = ?')
+        .run(template.campus, JSON.stringify(template), template.id);
+};
+
+export const deleteRequestTemplate = (db: Db, id: string): void => {
+    db.prepare('DELETE FROM request_templates WHERE id = ?').run(id);
+};
+
+export const listRequestSchedules = (db: Db): RequestSchedule[] => {
+    const rows = db.prepare('SELECT data FROM request_schedules ORDER BY rowid').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+};
+
+export const getRequestSchedule = (db: Db, id: string): RequestSchedule | undefined => {
+    const row = db.prepare('SELECT data FROM request_schedules WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+};
+
+export const insertRequestSchedule = (db: Db, schedule: RequestSchedule): void => {
+    db.prepare('INSERT INTO request_schedules (id, template_id, data) VALUES (?, ?, ?)')
+        .run(schedule.id, schedule.templateId, JSON.stringify(schedule));
+};
+
+export const updateRequestSchedule = (db: Db, schedule: RequestSchedule): void => {
+    db.prepare('UPDATE request_schedules SET template_id = ?, data = ? WHERE id = ?')
+        .run(schedule.templateId, JSON.stringify(schedule), schedule.id);
+};
+
+export const deleteRequestSchedule = (db: Db, id: string): void => {
+    db.prepare('DELETE FROM request_schedules WHERE id = ?').run(id);
+};
+
+// --- Audit trail ---
+
+// Entries come back newest first.
+export const listAuditEntries = (db: Db, filter: { entity?: AuditEntity; entityId?: string } = {}): AuditEntry[] => {
+    const conditions: string[] = [];
+    if (filter.entity) conditions.push('entity = @entity');
+    if (filter.entityId) conditions.push('entity_id = @entityId');
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = db.prepare(`SELECT data FROM audit_log ${where} ORDER BY at DESC, rowid DESC`).all(filter) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+};
+
+export const getAuditEntry = (db: Db, id: string): AuditEntry | undefined => {
+    const row = db.prepare('SELECT data FROM audit_log WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+};
+
+export const insertAuditEntry = (db: Db, entry: AuditEntry): void => {
+    db.prepare('INSERT INTO audit_log (id, at, entity, entity_id, data) VALUES (?, ?, ?, ?, ?)')
+        .run(entry.id, entry.at, entry.entity, entry.entityId, JSON.stringify(entry));
+};
+
+export const updateAuditEntry = (db: Db, entry: AuditEntry): void => {
+    db.prepare('UPDATE audit_log SET data = ? WHERE id = ?').run(JSON.stringify(entry), entry.id);
+};
+
+// --- Campus directory ---
+
+interface CampusRow {
+    id: string;
+    name: string;
+    address: string;
+    contact_person: string;
+    active: number;
+}
+
+const rowToCampus = (row: CampusRow): Campus => ({
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    contactPerson: row.contact_person,
+    active: row.active === 1,
+});
+
+export const listCampuses = (db: Db): Campus[] => {
+    const rows = db.prepare('SELECT * FROM campuses ORDER BY sort_order').all() as CampusRow[];
+    return rows.map(rowToCampus);
+};
+
+export const getCampus = (db: Db, id: string): Campus | undefined => {
+    const row = db.prepare('SELECT * FROM campuses WHERE id = ?').get(id) as CampusRow | undefined;
+    return row ? rowToCampus(row) : undefined;
+};
+
+export const insertCampus = (db: Db, campus: Campus): void => {
+    db.prepare(`
+        INSERT INTO campuses (id, name, address, contact_person, active, sort_order)
+        VALUES (@id, @name, @address, @contactPerson, @active, (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM campuses))
+    `).run({ ...campus, active: campus.active ? 1 : 0 });
+};
+
+export const updateCampus = (db: Db, campus: Campus): void => {
+    db.prepare(`
+        UPDATE campuses SET name = @name, address = @address, contact_person = @contactPerson, active = @active
+        WHERE id = @id
+    `).run({ ...campus, active: campus.active ? 1 : 0 });
+};
+
+// --- Item catalog ---
+
+interface CatalogItemRow {
+    id: string;
+    name_en: string;
+    name_km: string;
+    category: string;
+    unit: string;
+    active: number;
+    min_level: number;
+    reorder_quantity: number;
+}
+
+const rowToCatalogItem = (row: CatalogItemRow): CatalogItem => ({
+    id: row.id,
+    nameEn: row.name_en,
+    nameKm: row.name_km,
+    category: row.category,
+    unit: row.unit,
+    active: row.active === 1,
+    minLevel: row.min_level,
+    reorderQuantity: row.reorder_quantity,
+});
+
+// Items come back in the order they were added, which is the order the request form shows them in.
+export const listCatalogItems = (db: Db): CatalogItem[] => {
+    const rows = db.prepare('SELECT * FROM catalog_items ORDER BY sort_order').all() as CatalogItemRow[];
+    return rows.map(rowToCatalogItem);
+};
+
+export const getCatalogItem = (db: Db, id: string): CatalogItem | undefined => {
+    const row = db.prepare('SELECT * FROM catalog_items WHERE id = ?').get(id) as CatalogItemRow | undefined;
+    return row ? rowToCatalogItem(row) : undefined;
+};
+
+// New items go after every other one.
+export const insertCatalogItem = (db: Db, item: CatalogItem): void => {
+    db.prepare(`
+        INSERT INTO catalog_items (id, name_en, name_km, category, unit, active, min_level, reorder_quantity, sort_order)
+        VALUES (@id, @nameEn, @nameKm, @category, @unit, @active, @minLevel, @reorderQuantity,
+            (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM catalog_items))
+    `).run({ ...item, active: item.active ? 1 : 0 });
+};
+
+export const updateCatalogItem = (db: Db, item: CatalogItem): void => {
+    db.prepare(`
+        UPDATE catalog_items SET name_en = @nameEn, name_km = @nameKm, category = @category, unit = @unit, active = @active,
+            min_level = @minLevel, reorder_quantity = @reorderQuantity
+        WHERE id = @id
+    `).run({ ...item, active: item.active ? 1 : 0 });
+};
+
+// --- Item prices ---
+
+interface ItemPriceRow {
+    id: string;
+    item: string;
+    unit_cost: number;
+    effective_date: string;
+    created_at: string;
+    by_user_id: string;
+    by_name: string;
+}
+
+const rowToItemPrice = (row: ItemPriceRow): ItemPrice => ({
+    id: row.id,
+    item: row.item,
+    unitCost: row.unit_cost,
+    effectiveDate: row.effective_date,
+    createdAt: row.created_at,
+    byUserId: row.by_user_id,
+    byName: row.by_name,
+});
+
+export const listItemPrices = (db: Db): ItemPrice[] => {
+    const rows = db.prepare('SELECT * FROM item_prices ORDER BY created_at, id').all() as ItemPriceRow[];
+    return rows.map(rowToItemPrice);
+};
+
+export const insertItemPrice = (db: Db, price: ItemPrice): void => {
+    db.prepare(`
+        INSERT INTO item_prices (id, item, unit_cost, effective_date, created_at, by_user_id, by_name)
+        VALUES (@id, @item, @unitCost, @effectiveDate, @createdAt, @byUserId, @byName)
+    `).run(price);
+};
+
+// --- Campus budgets ---
+
+interface CampusBudgetRow {
+    id: string;
+    campus: string;
+    period: CampusBudget['period'];
+    label: string;
+    start_date: string;
+    end_date: string;
+    amount: number;
+}
+
+const rowToCampusBudget = (row: CampusBudgetRow): CampusBudget => ({
+    id: row.id,
+    campus: row.campus,
+    period: row.period,
+    label: row.label,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    amount: row.amount,
+});
+
+// Budgets come back in date order, earliest first.
+export const listCampusBudgets = (db: Db): CampusBudget[] => {
+    const rows = db.prepare('SELECT * FROM campus_budgets ORDER BY start_date, campus').all() as CampusBudgetRow[];
+    return rows.map(rowToCampusBudget);
+};
+
+export const getCampusBudget = (db: Db, id: string): CampusBudget | undefined => {
+    const row = db.prepare('SELECT * FROM campus_budgets WHERE id = ?').get(id) as CampusBudgetRow | undefined;
+    return row ? rowToCampusBudget(row) : undefined;
+};
+
+export const insertCampusBudget = (db: Db, budget: CampusBudget): void => {
+    db.prepare(`
+        INSERT INTO campus_budgets (id, campus, period, label, start_date, end_date, amount)
+        VALUES (@id, @campus, @period, @label, @startDate, @endDate, @amount)
+    `).run(budget);
+};
+
+export const updateCampusBudget = (db: Db, budget: CampusBudget): void => {
+    db.prepare(`
+        UPDATE campus_budgets SET campus = @campus, period = @period, label = @label, start_date = @startDate,
+            end_date = @endDate, amount = @amount
+        WHERE id = @id
+    `).run(budget);
+};
+
+export const deleteCampusBudget = (db: Db, id: string): void => {
+    db.prepare('DELETE FROM campus_budgets WHERE id = ?').run(id);
+};
+
+// --- Users and sessions ---
+
+interface UserRow {
+    id: string;
+    username: string;
+    display_name: string;
+    role: User['role'];
+    campus: string;
+    active: number;
+    password_hash: string;
+}
+
+const rowToUser = (row: UserRow): User => ({
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role,
+    campus: row.campus,
+    active: row.active === 1,
+});
+
+export const listUsers = (db: Db): User[] => {
+    const rows = db.prepare('SELECT * FROM users ORDER BY display_name COLLATE NOCASE').all() as UserRow[];
+    return rows.map(rowToUser);
+};
+
+export const countUsers = (db: Db): number => {
+    return (db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number }).count;
+};
+
+export const getUser = (db: Db, id: string): User | undefined => {
+    const row = db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+    return row ? rowToUser(row) : undefined;
+};
+
+// Returns the user together with their password hash, for checking a login.
+export const getUserCredentials = (db: Db, username: string): { user: User; passwordHash: string } | undefined => {
+    const row = db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
+    return row ? { user: rowToUser(row), passwordHash: row.password_hash } : undefined;
+};
+
+export const insertUser = (db: Db, user: User, passwordHash: string): void => {
+    db.prepare(`
+        INSERT INTO users (id, username, display_name, role, campus, active, password_hash, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(user.id, user.username, user.displayName, user.role, user.campus, user.active ? 1 : 0, passwordHash, new Date().toISOString());
+};
+
+export const updateUser = (db: Db, user: User): void => {
+    db.prepare('UPDATE users SET username = ?, display_name = ?, role = ?, campus = ?, active = ? WHERE id = ?')
+        .run(user.username, user.displayName, user.role, user.campus, user.active ? 1 : 0, user.id);
+};
+
+export const updateUserPassword = (db: Db, id: string, passwordHash: string): void => {
+    db.prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(passwordHash, id);
+};
+
+export const insertSession = (db: Db, token: string, userId: string, expiresAt: string): void => {
+    db.prepare('INSERT INTO sessions (token, user_id, expires_at) VALUES (?, ?, ?)').run(token, userId, expiresAt);
+};
+
+// Only active users with an unexpired session are returned.
+export const getSessionUser = (db: Db, token: string): User | undefined => {
+    const row = db.prepare(`
+        SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+        WHERE sessions.token = ? AND sessions.expires_at > ? AND users.active = 1
+    `).get(token, new Date().toISOString()) as UserRow | undefined;
+    return row ? rowToUser(row) : undefined;
+};
+
+export const deleteSession = (db: Db, token: string): void => {
+    db.prepare('DELETE FROM sessions WHERE token = ?').run(token);
+};
+
+export const deleteUserSessions = (db: Db, userId: string): void => {
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').run(userId);
+};
@@ -0,0 +1,130 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { User, UserRole } from '../types';
+
+export class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export interface RouteContext {
+    req: IncomingMessage;
+    user: User | null; // Only null on public routes
+    params: Record<string, string>;
+    query: URLSearchParams;
+    body: any;
+}
+
+export interface Route {
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    path: string; // e.g. '/api/reports/:id'
+    public?: boolean; // Reachable without signing in
+    roles?: UserRole[]; // Restricts a signed-in route to these roles
+    handler: (context: RouteContext) => unknown;
+}
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const readJsonBody = (req: IncomingMessage): Promise<any> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, 'Request body is too large.'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            const raw = Buffer.concat(chunks).toString('utf8');
+            if (!raw) {
+                resolve(undefined);
+                return;
+            }
+            try {
+                resolve(JSON.parse(raw));
+            } catch {
+                reject(new HttpError(400, 'Request body is not valid JSON.'));
+            }
+        });
+        req.on('error', reject);
+    });
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+    const payload = body === undefined ? '' : JSON.stringify(body);
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Access-Control-Allow-Origin': '*',
+    });
+    res.end(payload);
+};
+
+const matchPath = (pattern: string, pathname: string): Record<string, string> | null => {
+    const patternParts = pattern.split('/');
+    const pathParts = pathname.replace(/\/+$/, '').split('/');
+    if (patternParts.length !== pathParts.length) return null;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < patternParts.length; i++) {
+        if (patternParts[i].startsWith(':')) {
+            params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+        } else if (patternParts[i] !== pathParts[i]) {
+            return null;
+        }
+    }
+    return params;
+};
+
+export const createRequestHandler = (
+    routes: Route[],
+    authenticate: (req: IncomingMessage) => User | null
+) => async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        });
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+        let pathMatched = false;
+        for (const route of routes) {
+            const params = matchPath(route.path, url.pathname);
+            if (!params) continue;
+            pathMatched = true;
+            if (route.method !== req.method) continue;
+
+            const user = authenticate(req);
+            if (!route.public && !user) {
+                throw new HttpError(401, 'Please sign in to continue.');
+            }
+            if (route.roles && (!user || !route.roles.includes(user.role))) {
+                throw new HttpError(403, 'You do not have permission to do this.');
+            }
+
+            const body = req.method === 'POST' || req.method === 'PUT' ? await readJsonBody(req) : undefined;
+            const result = await route.handler({ req, user, params, query: url.searchParams, body });
+            sendJson(res, result === undefined ? 204 : 200, result);
+            return;
+        }
+        throw pathMatched
+            ? new HttpError(405, `Method ${req.method} is not allowed for ${url.pathname}.`)
+            : new HttpError(404, `No route for ${url.pathname}.`);
+    } catch (error) {
+        if (error instanceof HttpError) {
+            sendJson(res, error.status, { error: error.message });
+        } else {
+            console.error(`Unhandled error for ${req.method} ${url.pathname}:`, error);
+            sendJson(res, 500, { error: 'Internal server error.' });
+        }
+    }
+};
@@ -0,0 +1,41 @@
+import http from 'node:http';
+import path from 'node:path';
+import { authenticate, ensureInitialAdmin } from './auth';
+import { openDatabase } from './db';
+import { createRequestHandler } from './http';
+import { createRoutes } from './routes';
+import { createDueRequests } from './scheduleRoutes';
+
+const PORT = Number(process.env.PORT) || 3001;
+const SCHEDULE_CHECK_MS = 60 * 60 * 1000;
+const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), 'data', 'stationary.db');
+
+const db = openDatabase(DB_PATH);
+ensureInitialAdmin(db);
+const server = http.createServer(createRequestHandler(createRoutes(db), req => authenticate(db, req)));
+
+// Recurring requests are created on their due date: checked on start, then every hour
+const createScheduledRequests = () => {
+    try {
+        const created = createDueRequests(db);
+        if (created.length > 0) console.log(`Created ${created.length} scheduled request(s).`);
+    } catch (error) {
+        console.error('Error creating scheduled requests:', error);
+    }
+};
+createScheduledRequests();
+const scheduleTimer = setInterval(createScheduledRequests, SCHEDULE_CHECK_MS);
+
+server.listen(PORT, () => {
+    console.log(`Stationary API listening on http://localhost:${PORT} (database: ${DB_PATH})`);
+});
+
+const shutdown = () => {
+    clearInterval(scheduleTimer);
+    server.close(() => {
+        db.close();
+        process.exit(0);
+    });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
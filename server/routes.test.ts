@@ -0,0 +1,409 @@
+import type { IncomingMessage } from 'node:http';
+import Database from 'better-sqlite3';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { User } from '../types';
+import { CENTRAL_WAREHOUSE } from '../constants';
+import { DEFAULT_CAMPUSES } from '../campuses';
+import { DEFAULT_CATALOG } from '../catalog';
+import { canUndoEntry } from '../audit';
+import { STOCK_MANAGER_ROLES, canViewReport } from '../permissions';
+import * as store from './db';
+import type { Db } from './db';
+import type { Route } from './http';
+import { createRoutes } from './routes';
+import { createDueRequests } from './scheduleRoutes';
+
+const ADMIN: User = { id: 'admin', username: 'admin', displayName: 'Admin', role: 'admin', campus: '', active: true };
+
+let db: Db;
+let routes: Route[];
+
+beforeEach(() => {
+    db = store.openDatabase(':memory:');
+    routes = createRoutes(db);
+});
+
+// Runs a route's handler the way the request handler does once it has matched the route and read the body.
+const call = (method: Route['method'], path: string, { params = {}, body }: { params?: Record<string, string>; body?: unknown } = {}) => {
+    const route = routes.find(candidate => candidate.method === method && candidate.path === path);
+    if (!route) throw new Error(`No route ${method} ${path}`);
+    return route.handler({ req: {} as IncomingMessage, user: ADMIN, params, query: new URLSearchParams(), body });
+};
+
+// The quantity of `item` the ledger holds at the central warehouse
+const centralStock = (item: string): number => store.listStockMovements(db)
+    .filter(movement => movement.item === item && movement.location === CENTRAL_WAREHOUSE)
+    .reduce((sum, movement) => sum + movement.quantity, 0);
+
+const importedReport = (id: string, status: string, items: Record<string, number>) => ({
+    id, requesterName: 'Requester', campus: DEFAULT_CAMPUSES[0].id, importDate: '2026-03-02', exportDate: '2026-03-02', items, status,
+});
+
+describe('the item catalog', () => {
+    it('starts out with the items that used to be hard-coded, at the old low-stock threshold of 10', () => {
+        expect(store.listCatalogItems(db)).toEqual(DEFAULT_CATALOG);
+    });
+
+    it('saves the reorder levels of a new item with it, after every other item', () => {
+        const item = call('POST', '/api/catalog', { body: { nameEn: 'Stapler', unit: 'piece', minLevel: 4, reorderQuantity: 12 } }) as { id: string };
+
+        expect(store.getCatalogItem(db, item.id)).toMatchObject({ nameEn: 'Stapler', minLevel: 4, reorderQuantity: 12 });
+        expect(store.listCatalogItems(db).at(-1)?.id).toBe(item.id);
+        expect(store.getCatalogItem(db, (call('POST', '/api/catalog', { body: { nameEn: 'Glue' } }) as { id: string }).id))
+            .toMatchObject({ minLevel: 0, reorderQuantity: 0 });
+    });
+
+    it('keeps the reorder levels an edit leaves out, and refuses levels that are not whole numbers', () => {
+        call('PUT', '/api/catalog/:id', { params: { id: 'Bk' }, body: { nameEn: 'Black Toner', minLevel: 6 } });
+        call('PUT', '/api/catalog/:id', { params: { id: 'Bk' }, body: { nameEn: 'Black Toner (HP)' } });
+
+        expect(store.getCatalogItem(db, 'Bk')).toMatchObject({ nameEn: 'Black Toner (HP)', minLevel: 6, reorderQuantity: 10 });
+        expect(() => call('PUT', '/api/catalog/:id', { params: { id: 'Bk' }, body: { nameEn: 'Black Toner', reorderQuantity: -1 } }))
+            .toThrow('Reorder quantity must be a non-negative whole number.');
+    });
+});
+
+describe('the campus directory', () => {
+    it('turns the campus names reports and users stored into ids, giving names it does not know a campus of their own', () => {
+        // Schema 5 is the last before the directory
+        const legacy = new Database(':memory:');
+        try {
+            store.migrate(legacy, 5);
+            const insertReport = legacy.prepare("INSERT INTO reports (id, data, created_at, updated_at) VALUES (?, ?, '', '')");
+            insertReport.run('report-1', JSON.stringify({ id: 'report-1', campus: ' campus1 ' }));
+            insertReport.run('report-2', JSON.stringify({ id: 'report-2', campus: 'Old Campus' }));
+            insertReport.run('report-3', JSON.stringify({ id: 'report-3' }));
+            legacy.prepare("INSERT INTO users (id, username, display_name, role, campus, password_hash, created_at) VALUES ('dara', 'dara', 'Dara', 'requester', 'old campus', '', '')").run();
+            store.migrate(legacy);
+
+            const campuses = store.listCampuses(legacy);
+            const oldCampus = campuses.at(-1)!;
+            expect(campuses.slice(0, -1)).toEqual(DEFAULT_CAMPUSES);
+            expect(oldCampus).toMatchObject({ name: 'Old Campus', active: true });
+            expect(store.listReports(legacy).map(report => [report.id, report.campus]))
+                .toEqual([['report-1', 'Campus1'], ['report-2', oldCampus.id], ['report-3', '']]);
+            expect(store.getUser(legacy, 'dara')?.campus).toBe(oldCampus.id);
+        } finally {
+            legacy.close();
+        }
+    });
+});
+
+describe('importing reports', () => {
+    it('takes the stock of a fulfilled report, so deleting it afterwards gives back only that', () => {
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 10 }, reason: 'adjustment' } });
+
+        call('POST', '/api/reports/import', { body: { reports: [importedReport('report-1', 'Fulfilled', { Bk: 3 })] } });
+        expect(centralStock('Bk')).toBe(7);
+
+        call('DELETE', '/api/reports/:id', { params: { id: 'report-1' } });
+        expect(centralStock('Bk')).toBe(10);
+    });
+
+    it('refuses a fulfilled report whose items are not in stock, and saves none of the others', () => {
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 2 }, reason: 'adjustment' } });
+
+        expect(() => call('POST', '/api/reports/import', {
+            body: { reports: [importedReport('report-1', 'Submitted', { Bk: 1 }), importedReport('report-2', 'Fulfilled', { Bk: 3 })] },
+        })).toThrow('Insufficient stock');
+        expect(store.getReport(db, 'report-1')).toBeUndefined();
+        expect(centralStock('Bk')).toBe(2);
+    });
+
+    it('records the importer as who set the status of a new report, whatever history the file claims', () => {
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 10 }, reason: 'adjustment' } });
+        const claimed = [{ from: 'Approved', to: 'Fulfilled', at: '2026-03-02T00:00:00.000Z', byUserId: 'someone', byName: 'Someone' }];
+
+        call('POST', '/api/reports/import', { body: { reports: [{ ...importedReport('report-1', 'Fulfilled', { Bk: 3 }), statusHistory: claimed }] } });
+
+        const imported = store.getReport(db, 'report-1')!;
+        expect(imported.status).toBe('Fulfilled');
+        expect(imported.statusHistory).toEqual([{ from: null, to: 'Fulfilled', at: expect.any(String), byUserId: ADMIN.id, byName: ADMIN.displayName }]);
+    });
+
+    it('keeps the status and history of a report it replaces', () => {
+        call('POST', '/api/reports', {
+            body: { id: 'report-1', campus: DEFAULT_CAMPUSES[0].id, importDate: '2026-03-02', exportDate: '2026-03-02', items: { Bk: 2 } },
+        });
+        const submitted = store.getReport(db, 'report-1')!;
+
+        call('POST', '/api/reports/import', { body: { reports: [{ ...submitted, remarks: 'From the PDF', status: 'Fulfilled', statusHistory: [] }] } });
+
+        const replaced = store.getReport(db, 'report-1')!;
+        expect(replaced.remarks).toBe('From the PDF');
+        expect(replaced.status).toBe('Submitted');
+        expect(replaced.statusHistory).toEqual(submitted.statusHistory);
+        expect(store.listStockMovements(db)).toEqual([]);
+    });
+
+    it('refuses retired campuses and archived items, except those a replaced report already had', () => {
+        call('POST', '/api/reports', {
+            body: { id: 'report-1', campus: DEFAULT_CAMPUSES[0].id, importDate: '2026-03-02', exportDate: '2026-03-02', items: { Bk: 2 } },
+        });
+        const submitted = store.getReport(db, 'report-1')!;
+        store.updateCampus(db, { ...store.getCampus(db, DEFAULT_CAMPUSES[0].id)!, active: false });
+        store.updateCatalogItem(db, { ...store.getCatalogItem(db, 'Bk')!, active: false });
+
+        expect(() => call('POST', '/api/reports/import', { body: { reports: [importedReport('report-2', 'Submitted', { M: 1 })] } }))
+            .toThrow('has been retired');
+        expect(() => call('POST', '/api/reports/import', { body: { reports: [{ ...importedReport('report-2', 'Submitted', { Bk: 1 }), campus: DEFAULT_CAMPUSES[1].id }] } }))
+            .toThrow('have been archived: Bk');
+
+        call('POST', '/api/reports/import', { body: { reports: [{ ...submitted, remarks: 'From the sheet' }] } });
+        expect(store.getReport(db, 'report-1')?.remarks).toBe('From the sheet');
+    });
+
+    it('sets the stock lines before the reports take from them, and keeps neither when a report is refused', () => {
+        const campus = DEFAULT_CAMPUSES[1].id;
+        const stock = { location: campus, quantities: { Bk: 5 }, expected: { Bk: 0 } };
+
+        expect(() => call('POST', '/api/reports/import', {
+            body: { reports: [{ ...importedReport('report-1', 'Fulfilled', { Bk: 2 }), fulfilledFrom: campus }, importedReport('report-2', 'Submitted', { Gone: 1 })], stock },
+        })).toThrow('Gone');
+        expect(store.listReports(db)).toEqual([]);
+        expect(store.listStockMovements(db)).toEqual([]);
+        expect(store.listAuditEntries(db, {})).toEqual([]);
+
+        call('POST', '/api/reports/import', { body: { reports: [{ ...importedReport('report-1', 'Fulfilled', { Bk: 2 }), fulfilledFrom: campus }], stock } });
+        expect(store.listStockMovements(db).filter(movement => movement.location === campus).reduce((sum, movement) => sum + movement.quantity, 0)).toBe(3);
+        expect(centralStock('Bk')).toBe(0);
+    });
+});
+
+describe('undoing an import', () => {
+    it('is refused; an imported report is deleted instead', () => {
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 10 }, reason: 'adjustment' } });
+        call('POST', '/api/reports/import', { body: { reports: [importedReport('report-1', 'Fulfilled', { Bk: 2 })] } });
+        const movements = store.listStockMovements(db);
+
+        const [entry] = store.listAuditEntries(db, { entity: 'report', entityId: 'report-1' });
+        expect(entry.action).toBe('import');
+        expect(canUndoEntry(entry)).toBe(false);
+        expect(() => call('POST', '/api/audit/:id/undo', { params: { id: entry.id } })).toThrow('can no longer be undone');
+
+        expect(store.getReport(db, 'report-1')?.status).toBe('Fulfilled');
+        expect(store.listStockMovements(db)).toEqual(movements);
+    });
+});
+
+describe('saving from an out-of-date copy', () => {
+    const newReport = { id: 'report-1', campus: DEFAULT_CAMPUSES[0].id, importDate: '2026-03-02', exportDate: '2026-03-02', items: { Bk: 2 } };
+
+    it('refuses a report edit made from an older revision', () => {
+        call('POST', '/api/reports', { body: newReport });
+        const opened = store.getReport(db, 'report-1')!;
+        call('PUT', '/api/reports/:id', { params: { id: 'report-1' }, body: { ...opened, items: { Bk: 3 } } });
+        expect(store.getReport(db, 'report-1')!.revision).toBe(opened.revision! + 1);
+
+        expect(() => call('PUT', '/api/reports/:id', { params: { id: 'report-1' }, body: { ...opened, items: { Bk: 4 } } }))
+            .toThrow('The request has been changed since you opened it');
+        expect(store.getReport(db, 'report-1')!.items).toEqual({ Bk: 3 });
+    });
+
+    it('keeps stock saved meanwhile and refuses an edit of an item changed since', () => {
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 10, Card: 5 }, reason: 'adjustment' } });
+        const expected = { Bk: 10, Card: 5 };
+
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 8, Card: 5 }, expected, reason: 'adjustment' } });
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 10, Card: 7 }, expected, reason: 'adjustment' } });
+        expect([centralStock('Bk'), centralStock('Card')]).toEqual([8, 7]);
+
+        expect(() => call('PUT', '/api/stock', { body: { quantities: { Bk: 6, Card: 5 }, expected, reason: 'adjustment' } }))
+            .toThrow('Stock of Bk has changed since you started editing it');
+        expect(centralStock('Bk')).toBe(8);
+    });
+
+    it('keeps stock saved while an import was being confirmed, and refuses to import over an item changed since', () => {
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 10, Card: 5 }, reason: 'adjustment' } });
+        const expected = { Bk: 10, Card: 5 };
+
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 10, Card: 2 }, expected, reason: 'adjustment' } });
+        call('PUT', '/api/stock', { body: { quantities: { Bk: 20, Card: 5 }, expected, reason: 'import', note: 'stock.xlsx' } });
+        expect([centralStock('Bk'), centralStock('Card')]).toEqual([20, 2]);
+
+        expect(() => call('PUT', '/api/stock', { body: { quantities: { Bk: 10, Card: 9 }, expected, reason: 'import', note: 'stock.xlsx' } }))
+            .toThrow('Stock of Card has changed since you started editing it');
+        expect(centralStock('Card')).toBe(2);
+    });
+});
+
+describe('uploading browser storage', () => {
+    const DARA: User = { id: 'dara', username: 'dara', displayName: 'Dara', role: 'requester', campus: DEFAULT_CAMPUSES[0].id, active: true };
+    const legacyReport = (id: string, changes: Record<string, unknown> = {}) => ({
+        ...importedReport(id, 'Fulfilled', { Bk: 2 }), requesterName: 'Dara', campus: DEFAULT_CAMPUSES[0].name, ...changes,
+    });
+    const opening = (item: string, quantity: number) => ({
+        id: `opening-${item}`, item, quantity, date: '2026-03-01', timestamp: '2026-03-01T00:00:00.000Z', reason: 'opening',
+    });
+
+    beforeEach(() => {
+        store.insertUser(db, DARA, 'hash');
+    });
+
+    it('gives each report to its requester\'s account and campus, and lists the ones it cannot', () => {
+        const result = call('POST', '/api/migrate', {
+            body: {
+                reports: [
+                    legacyReport('report-1'),
+                    legacyReport('report-2', { requesterName: 'Nobody' }),
+                    legacyReport('report-3', { campus: 'Nowhere' }),
+                    legacyReport('report-4', { items: { Gone: 1 } }),
+                    legacyReport('report-5', { importDate: '2026-02-30' }),
+                ],
+                stockMovements: [opening('Bk', 10)],
+            },
+        });
+
+        expect(result).toEqual({
+            importedReports: 1,
+            rejectedReports: [
+                { id: 'report-2', reason: 'No account belongs to Nobody.' },
+                { id: 'report-3', reason: 'Campus Nowhere is not in the directory or has been retired.' },
+                { id: 'report-4', reason: 'These items are not in the catalog or have been archived: Gone.' },
+                { id: 'report-5', reason: 'Import and export dates must be YYYY-MM-DD.' },
+            ],
+            importedStockMovements: 1,
+            stockSkipped: false,
+        });
+        const report = store.getReport(db, 'report-1')!;
+        expect(report).toMatchObject({ campus: DEFAULT_CAMPUSES[0].id, requesterId: DARA.id });
+        expect(canViewReport(DARA, report)).toBe(true);
+        expect(centralStock('Bk')).toBe(10);
+    });
+
+    it('refuses a stock ledger with items the catalog does not have or that falls below zero', () => {
+        expect(call('POST', '/api/migrate', { body: { reports: [], stockMovements: [opening('Bk', 10), opening('Gone', 1)] } }))
+            .toMatchObject({ importedStockMovements: 0, stockRejected: 'These items are not in the catalog: Gone.' });
+        expect(call('POST', '/api/migrate', { body: { reports: [], stockMovements: [opening('Bk', -1)] } }))
+            .toMatchObject({ importedStockMovements: 0, stockRejected: `The stock would fall below zero: Bk at ${CENTRAL_WAREHOUSE} (-1).` });
+        expect(store.listStockMovements(db)).toEqual([]);
+    });
+});
+
+describe('signing for a handover', () => {
+    const SIGNATURE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+    beforeEach(() => {
+        call('POST', '/api/reports', {
+            body: { id: 'report-1', campus: DEFAULT_CAMPUSES[0].id, importDate: '2026-03-02', exportDate: '2026-03-02', items: { Bk: 2 } },
+        });
+    });
+
+    it('is refused until the request is approved', () => {
+        expect(() => call('POST', '/api/reports/:id/handover', { params: { id: 'report-1' }, body: { receiverName: 'Dara', signature: SIGNATURE } }))
+            .toThrow('A Submitted request cannot be signed for.');
+    });
+
+    it('records the receiver and their signature, with who recorded it', () => {
+        call('POST', '/api/reports/:id/transitions', { params: { id: 'report-1' }, body: { to: 'Approved' } });
+
+        call('POST', '/api/reports/:id/handover', { params: { id: 'report-1' }, body: { receiverName: ' Dara ', signature: SIGNATURE } });
+        expect(store.getReport(db, 'report-1')!.handover).toMatchObject({ receiverName: 'Dara', signature: SIGNATURE, recordedByName: ADMIN.displayName });
+        expect(store.listAuditEntries(db).some(entry => entry.note === 'Handover signed')).toBe(true);
+    });
+
+    it('cannot be undone or signed over, only signed again once a stock manager clears the signature', () => {
+        call('POST', '/api/reports/:id/transitions', { params: { id: 'report-1' }, body: { to: 'Approved' } });
+        call('POST', '/api/reports/:id/handover', { params: { id: 'report-1' }, body: { receiverName: 'Dara', signature: SIGNATURE } });
+        const signed = store.listAuditEntries(db).find(entry => entry.note === 'Handover signed')!;
+        expect(signed.action).toBe('handover');
+        expect(canUndoEntry(signed)).toBe(false);
+
+        expect(() => call('POST', '/api/reports/:id/handover', { params: { id: 'report-1' }, body: { receiverName: 'Sok', signature: SIGNATURE } }))
+            .toThrow('This request has been signed for already.');
+        expect(store.getReport(db, 'report-1')!.handover?.receiverName).toBe('Dara');
+
+        call('DELETE', '/api/reports/:id/handover', { params: { id: 'report-1' } });
+        expect(store.getReport(db, 'report-1')!.handover).toBeUndefined();
+        call('POST', '/api/reports/:id/handover', { params: { id: 'report-1' }, body: { receiverName: 'Sok', signature: SIGNATURE } });
+        expect(store.getReport(db, 'report-1')!.handover?.receiverName).toBe('Sok');
+        expect(routes.find(route => route.method === 'DELETE' && route.path === '/api/reports/:id/handover')?.roles).toEqual(STOCK_MANAGER_ROLES);
+    });
+
+    it('refuses a signature that is not a PNG image', () => {
+        call('POST', '/api/reports/:id/transitions', { params: { id: 'report-1' }, body: { to: 'Approved' } });
+
+        expect(() => call('POST', '/api/reports/:id/handover', { params: { id: 'report-1' }, body: { receiverName: 'Dara', signature: 'data:image/svg+xml,<svg/>' } }))
+            .toThrow('The signature must be a PNG image.');
+        expect(store.getReport(db, 'report-1')!.handover).toBeUndefined();
+    });
+});
+
+describe('recurring schedules', () => {
+    const weeklySchedule = (id: string, templateId: string, startDate: string) => ({
+        id, templateId, frequency: 'weekly' as const, startDate, requesterId: ADMIN.id, requesterName: ADMIN.displayName,
+        createdThrough: '2026-03-01', skippedDates: [] as string[], changedItems: {},
+    });
+
+    let templateId: string;
+    beforeEach(() => {
+        store.insertUser(db, ADMIN, 'hash');
+        ({ id: templateId } = call('POST', '/api/templates', {
+            body: { campus: DEFAULT_CAMPUSES[0].id, name: 'Weekly paper', items: { Bk: 2 } },
+        }) as { id: string });
+    });
+
+    it('refuses a start date that is not a day of the calendar', () => {
+        expect(() => call('POST', '/api/schedules', { body: { templateId, frequency: 'weekly', startDate: '2026-13-45' } }))
+            .toThrow('Start date must be YYYY-MM-DD.');
+        expect(() => call('POST', '/api/schedules', { body: { templateId, frequency: 'weekly', startDate: '2026-02-30' } }))
+            .toThrow('Start date must be YYYY-MM-DD.');
+        expect(store.listRequestSchedules(db)).toEqual([]);
+    });
+
+    it('creates one request for each due date that has not had one, passing over skipped dates', () => {
+        store.insertRequestSchedule(db, { ...weeklySchedule('schedule-1', templateId, '2026-03-02'), skippedDates: ['2026-03-09'] });
+
+        const created = createDueRequests(db, '2026-03-20');
+        expect(created.map(report => report.importDate)).toEqual(['2026-03-02', '2026-03-16']);
+        expect(created.every(report => report.status === 'Submitted' && report.items.Bk === 2)).toBe(true);
+        expect(store.getRequestSchedule(db, 'schedule-1')).toMatchObject({ createdThrough: '2026-03-20', skippedDates: [] });
+
+        expect(createDueRequests(db, '2026-03-20')).toEqual([]);
+    });
+
+    it('keeps going when one schedule cannot be caught up', () => {
+        store.insertRequestSchedule(db, weeklySchedule('broken', templateId, '2026-13-45'));
+        store.insertRequestSchedule(db, weeklySchedule('schedule-1', templateId, '2026-03-02'));
+        const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(createDueRequests(db, '2026-03-05').map(report => report.importDate)).toEqual(['2026-03-02']);
+        expect(store.getRequestSchedule(db, 'broken')?.createdThrough).toBe('2026-03-01');
+        expect(logged).toHaveBeenCalledWith('Schedule broken could not create its due requests:', expect.any(RangeError));
+        expect(store.getRequestSchedule(db, 'broken')?.failure).toMatchObject({ date: '2026-03-05', reason: 'error' });
+        logged.mockRestore();
+    });
+
+    it('keeps every due date it could not request on the schedule and tries them again until they are requested', () => {
+        store.insertRequestSchedule(db, weeklySchedule('schedule-1', templateId, '2026-03-02'));
+        store.updateCatalogItem(db, { ...store.getCatalogItem(db, 'Bk')!, active: false });
+
+        expect(createDueRequests(db, '2026-03-10')).toEqual([]);
+        const missedDates = [{ date: '2026-03-02', reason: 'noItems' }, { date: '2026-03-09', reason: 'noItems' }];
+        expect(store.getRequestSchedule(db, 'schedule-1')?.missedDates).toEqual(missedDates);
+        expect(call('GET', '/api/schedules')).toEqual([expect.objectContaining({ id: 'schedule-1', missedDates })]);
+
+        store.updateCatalogItem(db, { ...store.getCatalogItem(db, 'Bk')!, active: true });
+        expect(createDueRequests(db, '2026-03-16').map(report => report.importDate)).toEqual(['2026-03-02', '2026-03-09', '2026-03-16']);
+        expect(store.getRequestSchedule(db, 'schedule-1')?.missedDates).toBeUndefined();
+    });
+
+    it('gives up a missed due date that is skipped, and tries one given other quantities again straight away', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+        try {
+            store.insertRequestSchedule(db, weeklySchedule('schedule-1', templateId, '2026-03-02'));
+            store.updateCatalogItem(db, { ...store.getCatalogItem(db, 'Bk')!, active: false });
+            createDueRequests(db, '2026-03-10');
+
+            call('PUT', '/api/schedules/:id/occurrences/:date', { params: { id: 'schedule-1', date: '2026-03-02' }, body: { skipped: true } });
+            expect(store.getRequestSchedule(db, 'schedule-1')?.missedDates).toEqual([{ date: '2026-03-09', reason: 'noItems' }]);
+
+            call('PUT', '/api/schedules/:id/occurrences/:date', { params: { id: 'schedule-1', date: '2026-03-09' }, body: { skipped: false, items: { M: 1 } } });
+            expect(store.getRequestSchedule(db, 'schedule-1')?.missedDates).toBeUndefined();
+            expect(store.listReports(db).map(report => [report.importDate, report.items])).toEqual([['2026-03-09', { M: 1 }]]);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,926 @@
+import crypto from 'node:crypto';
+import type { AuditEntry, ExtraLine, GoodsReceipt, Handover, PurchaseOrder, PurchaseOrderLine, Report, ReportStatus, StatusChange, StockItem, StockMovement, StockTransfer, User } from '../types';
+import { CENTRAL_WAREHOUSE } from '../constants';
+import { campusName, findCampus, stockLocations } from '../campuses';
+import { catalogItemIds } from '../catalog';
+import { STOCK_MANAGER_ROLES, canManageStock, canViewReport } from '../permissions';
+import { formatPurchaseOrderNumber, isOpenPurchaseOrder, outstandingQuantities, receivingStatus } from '../purchasing';
+import {
+    defaultFulfilmentLocation,
+    deriveStock,
+    emptyStockItem,
+    findInsufficientStock,
+    movementsForReceipt,
+    movementsForReportChange,
+    movementsForTransfer,
+    movementsToReachQuantities,
+} from '../stockLedger';
+import { isDateString } from '../dates';
+import { REPORT_STATUSES, applyTransition, canSignHandover, findTransition, importHistory, isEditableStatus, submissionHistory } from '../workflow';
+import { canUndoEntry, stockChange } from '../audit';
+import * as store from './db';
+import type { Db } from './db';
+import { HttpError } from './http';
+import type { Route } from './http';
+import { ensureOpenCampus, ensureRequestableItems, signedInUser } from './validation';
+import { createCampusRoutes } from './campusRoutes';
+import { createCatalogRoutes } from './catalogRoutes';
+import { createUserRoutes } from './userRoutes';
+import { createBackupRoutes } from './backupRoutes';
+import { createCostRoutes } from './costRoutes';
+import { createScheduleRoutes } from './scheduleRoutes';
+
+// `locations` are the location ids accepted here (see knownLocations and openLocations below).
+const parseLocation = (value: unknown, locations: string[]): string => {
+    if (typeof value !== 'string' || !locations.includes(value)) {
+        throw new HttpError(400, `Unknown or retired stock location: ${String(value)}.`);
+    }
+    return value;
+};
+
+const parseStatusChange = (input: any): StatusChange => {
+    if (!input || typeof input !== 'object'
+        || (input.from !== null && !REPORT_STATUSES.includes(input.from)) || !REPORT_STATUSES.includes(input.to)
+        || typeof input.at !== 'string' || typeof input.byUserId !== 'string' || typeof input.byName !== 'string') {
+        throw new HttpError(400, 'Invalid status history entry.');
+    }
+    const change: StatusChange = { from: input.from, to: input.to, at: input.at, byUserId: input.byUserId, byName: input.byName };
+    if (typeof input.reason === 'string' && input.reason) change.reason = input.reason;
+    return change;
+};
+
+const parseExtraLine = (input: any): ExtraLine => {
+    if (!input || typeof input !== 'object' || typeof input.description !== 'string' || !input.description.trim()) {
+        throw new HttpError(400, 'Every other item needs a description.');
+    }
+    const { quantity } = input;
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1) {
+        throw new HttpError(400, `Quantity for ${input.description.trim()} must be a whole number of 1 or more.`);
+    }
+    if (input.note !== undefined && typeof input.note !== 'string') throw new HttpError(400, 'An item note must be text.');
+    const line: ExtraLine = { description: input.description.trim(), quantity };
+    if (input.note && input.note.trim()) line.note = input.note.trim();
+    return line;
+};
+
+// A drawn signature is a few kilobytes; anything much larger is not one
+const MAX_SIGNATURE_LENGTH = 200_000;
+
+const parseHandover = (input: any): Handover => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A handover must be a JSON object.');
+    const { receiverName, signature, signedAt, recordedByName } = input;
+    if (typeof receiverName !== 'string' || !receiverName.trim()) throw new HttpError(400, "The receiver's name is required.");
+    if (typeof signature !== 'string' || !/^data:image\/png;base64,[A-Za-z0-9+/]+=*$/.test(signature)) {
+        throw new HttpError(400, 'The signature must be a PNG image.');
+    }
+    if (signature.length > MAX_SIGNATURE_LENGTH) throw new HttpError(413, 'The signature image is too large.');
+    if (typeof signedAt !== 'string' || Number.isNaN(Date.parse(signedAt))) throw new HttpError(400, 'The signing time is invalid.');
+    if (typeof recordedByName !== 'string') throw new HttpError(400, 'Who recorded the signature must be text.');
+    return { receiverName: receiverName.trim(), signature, signedAt, recordedByName };
+};
+
+// Optional text fields are left out of the report when they are empty.
+const optionalText = (value: unknown, label: string): string | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string') throw new HttpError(400, `${label} must be text.`);
+    return value.trim() || undefined;
+};
+
+const parseReport = (input: any): Report => {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        throw new HttpError(400, 'A report must be a JSON object.');
+    }
+    const { id, requesterName, campus, importDate, exportDate, items, status } = input;
+    if (typeof id !== 'string' || !id) throw new HttpError(400, 'Report id is required.');
+    if (typeof requesterName !== 'string' || !requesterName) throw new HttpError(400, 'Requester name is required.');
+    if (typeof campus !== 'string' || !campus) throw new HttpError(400, 'Campus is required.');
+    if (!isDateString(importDate) || !isDateString(exportDate)) throw new HttpError(400, 'Import and export dates must be YYYY-MM-DD.');
+    if (!REPORT_STATUSES.includes(status)) throw new HttpError(400, `Status must be one of: ${REPORT_STATUSES.join(', ')}.`);
+    if (!items || typeof items !== 'object' || Array.isArray(items)) throw new HttpError(400, 'Items must be an object of quantities.');
+
+    const cleanItems: Record<string, number> = {};
+    for (const [item, quantity] of Object.entries(items)) {
+        if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 0) {
+            throw new HttpError(400, `Quantity for ${item} must be a non-negative whole number.`);
+        }
+        if (quantity > 0) cleanItems[item] = quantity;
+    }
+
+    const report: Report = { id, requesterName, campus, importDate, exportDate, items: cleanItems, status };
+    if (typeof input.requesterId === 'string' && input.requesterId) report.requesterId = input.requesterId;
+    if (Array.isArray(input.statusHistory)) report.statusHistory = input.statusHistory.map(parseStatusChange);
+    if (typeof input.fulfilledFrom === 'string' && input.fulfilledFrom) report.fulfilledFrom = input.fulfilledFrom;
+    if (input.extraLines !== undefined && !Array.isArray(input.extraLines)) throw new HttpError(400, 'Other items must be a list.');
+    if (input.extraLines?.length > 0) report.extraLines = input.extraLines.map(parseExtraLine);
+    const purpose = optionalText(input.purpose, 'Purpose');
+    if (purpose) report.purpose = purpose;
+    const remarks = optionalText(input.remarks, 'Remarks');
+    if (remarks) report.remarks = remarks;
+    if (input.handover) report.handover = parseHandover(input.handover);
+    return report;
+};
+
+// A change made from an older copy of a report than the server's is refused, so it cannot silently undo what was
+// saved since, from another tab or by someone else. Callers that send no revision are not checked.
+const ensureCurrentRevision = (original: Report, revision: unknown): void => {
+    if (revision === undefined || revision === null || revision === original.revision) return;
+    throw new HttpError(409, 'The request has been changed since you opened it, in another tab or by someone else. Open it again to see the changes.');
+};
+
+const optionalLocation = (value: unknown, locations: string[]): string | undefined =>
+    value === undefined || value === null || value === '' ? undefined : parseLocation(value, locations);
+
+const parseQuantity = (value: unknown, label: string): number => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new HttpError(400, `${label} must be a non-negative whole number.`);
+    }
+    return value;
+};
+
+const MOVEMENT_REASONS: StockMovement['reason'][] = ['opening', 'report', 'adjustment', 'clear', 'import', 'transfer', 'receipt'];
+
+const parseMovement = (input: any, locations: string[]): StockMovement => {
+    if (!input || typeof input !== 'object'
+        || typeof input.id !== 'string' || typeof input.item !== 'string'
+        || typeof input.quantity !== 'number' || !Number.isInteger(input.quantity)
+        || !isDateString(input.date) || typeof input.timestamp !== 'string'
+        || !MOVEMENT_REASONS.includes(input.reason)) {
+        throw new HttpError(400, 'Invalid stock movement.');
+    }
+    const movement: StockMovement = {
+        id: input.id,
+        item: input.item,
+        quantity: input.quantity,
+        date: input.date,
+        timestamp: input.timestamp,
+        reason: input.reason,
+        // Movements recorded before stock was kept per location all belong to the central warehouse
+        location: input.location === undefined ? CENTRAL_WAREHOUSE : parseLocation(input.location, locations),
+    };
+    if (typeof input.reportId === 'string') movement.reportId = input.reportId;
+    if (typeof input.transferId === 'string') movement.transferId = input.transferId;
+    if (typeof input.purchaseOrderId === 'string') movement.purchaseOrderId = input.purchaseOrderId;
+    if (typeof input.note === 'string') movement.note = input.note;
+    return movement;
+};
+
+const parseTransfer = (input: any, user: User, locations: string[]): StockTransfer => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A transfer must be a JSON object.');
+    const fromLocation = parseLocation(input.fromLocation, locations);
+    const toLocation = parseLocation(input.toLocation, locations);
+    if (fromLocation === toLocation) throw new HttpError(400, 'A transfer must move stock between two different locations.');
+    if (!input.items || typeof input.items !== 'object' || Array.isArray(input.items)) {
+        throw new HttpError(400, 'Items must be an object of quantities.');
+    }
+    const items: Record<string, number> = {};
+    for (const [item, quantity] of Object.entries(input.items)) {
+        const parsed = parseQuantity(quantity, `Quantity for ${item}`);
+        if (parsed > 0) items[item] = parsed;
+    }
+    if (Object.keys(items).length === 0) throw new HttpError(400, 'A transfer must move at least one item.');
+    const createdAt = new Date().toISOString();
+    const date = input.date === undefined ? createdAt.split('T')[0] : input.date;
+    if (!isDateString(date)) throw new HttpError(400, 'Transfer date must be YYYY-MM-DD.');
+
+    const transfer: StockTransfer = {
+        id: crypto.randomUUID(),
+        fromLocation,
+        toLocation,
+        items,
+        date,
+        createdAt,
+        byUserId: user.id,
+        byName: user.displayName,
+    };
+    if (typeof input.note === 'string' && input.note.trim()) transfer.note = input.note.trim();
+    return transfer;
+};
+
+const parseUnitCost = (value: unknown, item: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new HttpError(400, `Unit cost for ${item} must be a non-negative number.`);
+    }
+    return value;
+};
+
+// `number` is assigned by the caller, inside the transaction that saves the order.
+const parsePurchaseOrder = (input: any, user: User, locations: string[]): PurchaseOrder => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A purchase order must be a JSON object.');
+    const supplier = typeof input.supplier === 'string' ? input.supplier.trim() : '';
+    if (!supplier) throw new HttpError(400, 'Supplier is required.');
+    const location = parseLocation(input.location, locations);
+    if (!Array.isArray(input.lines)) throw new HttpError(400, 'Lines must be an array.');
+    const lines: PurchaseOrderLine[] = [];
+    input.lines.forEach((line: any) => {
+        if (!line || typeof line !== 'object' || typeof line.item !== 'string') throw new HttpError(400, 'Each line needs an item.');
+        if (lines.some(other => other.item === line.item)) throw new HttpError(400, `${line.item} is on the order twice.`);
+        const quantity = parseQuantity(line.quantity, `Quantity for ${line.item}`);
+        if (quantity > 0) lines.push({ item: line.item, quantity, unitCost: parseUnitCost(line.unitCost, line.item) });
+    });
+    if (lines.length === 0) throw new HttpError(400, 'A purchase order must have at least one item.');
+    const createdAt = new Date().toISOString();
+    const orderDate = input.orderDate === undefined ? createdAt.split('T')[0] : input.orderDate;
+    if (!isDateString(orderDate)) throw new HttpError(400, 'Order date must be YYYY-MM-DD.');
+    if (input.expectedDate !== undefined && input.expectedDate !== '' && !isDateString(input.expectedDate)) {
+        throw new HttpError(400, 'Expected date must be YYYY-MM-DD.');
+    }
+
+    const order: PurchaseOrder = {
+        id: crypto.randomUUID(),
+        number: '',
+        supplier,
+        location,
+        lines,
+        orderDate,
+        status: 'Open',
+        receipts: [],
+        createdAt,
+        byUserId: user.id,
+        byName: user.displayName,
+    };
+    if (input.expectedDate) order.expectedDate = input.expectedDate;
+    if (typeof input.note === 'string' && input.note.trim()) order.note = input.note.trim();
+    return order;
+};
+
+const parseReceipt = (input: any, user: User): GoodsReceipt => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A receipt must be a JSON object.');
+    if (!input.items || typeof input.items !== 'object' || Array.isArray(input.items)) {
+        throw new HttpError(400, 'Items must be an object of quantities.');
+    }
+    const items: Record<string, number> = {};
+    for (const [item, quantity] of Object.entries(input.items)) {
+        const parsed = parseQuantity(quantity, `Quantity for ${item}`);
+        if (parsed > 0) items[item] = parsed;
+    }
+    if (Object.keys(items).length === 0) throw new HttpError(400, 'A receipt must include at least one item.');
+    const createdAt = new Date().toISOString();
+    const date = input.date === undefined ? createdAt.split('T')[0] : input.date;
+    if (!isDateString(date)) throw new HttpError(400, 'Receipt date must be YYYY-MM-DD.');
+
+    const receipt: GoodsReceipt = {
+        id: crypto.randomUUID(),
+        date,
+        items,
+        createdAt,
+        byUserId: user.id,
+        byName: user.displayName,
+    };
+    if (typeof input.note === 'string' && input.note.trim()) receipt.note = input.note.trim();
+    return receipt;
+};
+
+const openPurchaseOrder = (db: Db, id: string): PurchaseOrder => {
+    const order = store.getPurchaseOrder(db, id);
+    if (!order) throw new HttpError(404, `Purchase order ${id} not found.`);
+    if (!isOpenPurchaseOrder(order)) throw new HttpError(409, `${order.number} is ${order.status.toLowerCase()} and can no longer change.`);
+    return order;
+};
+
+// Every location stock has ever been kept at: the warehouse and every campus, retired ones included.
+const knownLocations = (db: Db): string[] => [CENTRAL_WAREHOUSE, ...store.listCampuses(db).map(campus => campus.id)];
+
+// The locations that can take new stock: the warehouse and the active campuses.
+const openLocations = (db: Db): string[] => stockLocations(store.listCampuses(db)).map(location => location.id);
+
+// An uploaded stock ledger, refused whole if any movement is malformed, names an item the catalog does not have or
+// leaves an item below zero somewhere.
+const parseLedger = (db: Db, inputs: unknown[]): StockMovement[] => {
+    const locations = knownLocations(db);
+    const movements = inputs.map(input => parseMovement(input, locations));
+    const items = new Set(catalogItemIds(store.listCatalogItems(db)));
+    const unknown = Array.from(new Set(movements.map(movement => movement.item).filter(item => !items.has(item))));
+    if (unknown.length > 0) throw new HttpError(400, `These items are not in the catalog: ${unknown.join(', ')}.`);
+    const balances = new Map<string, number>();
+    movements.forEach(({ item, location, quantity }) => {
+        const key = `${item} at ${location}`;
+        balances.set(key, (balances.get(key) || 0) + quantity);
+    });
+    const negative = Array.from(balances).filter(([, quantity]) => quantity < 0).map(([key, quantity]) => `${key} (${quantity})`);
+    if (negative.length > 0) throw new HttpError(400, `The stock would fall below zero: ${negative.join(', ')}.`);
+    return movements;
+};
+
+// The stock of one location, or of every location added together when `location` is missing.
+const currentStock = (db: Db, location?: string) =>
+    deriveStock(store.listStockMovements(db, { location }), catalogItemIds(store.listCatalogItems(db)));
+
+// The quantities a stock edit that started from `expected` leaves at a location: the items it changed take their new
+// quantity and the others keep the one they have now, so the edit does not undo what was saved meanwhile. Refused if
+// one of the changed items has itself been changed since, in another tab or by someone else.
+const mergeStockEdit = (stock: Record<string, StockItem>, targets: Record<string, number>, expected: Record<string, number>): Record<string, number> => {
+    const edited = Array.from(new Set([...Object.keys(targets), ...Object.keys(expected)]))
+        .filter(item => (targets[item] || 0) !== (expected[item] || 0));
+    const moved = edited.filter(item => (stock[item]?.quantity || 0) !== (expected[item] || 0));
+    if (moved.length > 0) {
+        throw new HttpError(409, `Stock of ${moved.join(', ')} has changed since you started editing it, in another tab or by someone else.`);
+    }
+    return {
+        ...Object.fromEntries(Object.entries(stock).map(([item, { quantity }]) => [item, quantity])),
+        ...Object.fromEntries(edited.map(item => [item, targets[item] || 0])),
+    };
+};
+
+// Records movements, refusing them all if any item would go below zero at its location.
+const postMovements = (db: Db, movements: StockMovement[]): StockMovement[] => {
+    const insufficientItems = findInsufficientStock(movements, store.listStockMovements(db));
+    if (insufficientItems.length > 0) {
+        throw new HttpError(409, `Insufficient stock for: ${insufficientItems.join(', ')}.`);
+    }
+    store.insertStockMovements(db, movements);
+    return movements;
+};
+
+// Posts the stock effect of a report change.
+const applyReportChange = (db: Db, before: Report | null, after: Report | null, reportId: string, note?: string): StockMovement[] =>
+    postMovements(db, movementsForReportChange(before, after, reportId, note));
+
+// Adds a change made by `user` to the audit trail.
+const recordAudit = (db: Db, user: User, change: Omit<AuditEntry, 'id' | 'at' | 'byUserId' | 'byName'>): AuditEntry => {
+    const entry: AuditEntry = { id: crypto.randomUUID(), at: new Date().toISOString(), byUserId: user.id, byName: user.displayName, ...change };
+    store.insertAuditEntry(db, entry);
+    return entry;
+};
+
+const STOCK_EDIT_NOTES: Record<string, string> = {
+    adjustment: 'Stock edited',
+    clear: 'Stock cleared',
+    import: 'Stock imported',
+};
+
+// Records the stock quantities `movements` set at `location`, whose stock was `stock` before them.
+const recordStockEdit = (db: Db, user: User, location: string, stock: Record<string, StockItem>, movements: StockMovement[], note: string): void => {
+    if (movements.length === 0) return;
+    recordAudit(db, user, { entity: 'stock', entityId: location, action: 'stock', ...stockChange(stock, movements), note });
+};
+
+type StockEditReason = 'adjustment' | 'clear' | 'import';
+
+interface StockEdit {
+    location: string;
+    targets: Record<string, number>;
+    expected?: Record<string, number>; // The quantities the edit started from, if it sent them
+    reason: StockEditReason;
+    note?: string;
+}
+
+// A stock edit as PUT /api/stock takes it, at the central warehouse unless it names another open location.
+const parseStockEdit = (input: any, locations: string[]): StockEdit => {
+    const { quantities, reason, note, expected } = input || {};
+    const location = optionalLocation(input?.location, locations) || CENTRAL_WAREHOUSE;
+    if (!quantities || typeof quantities !== 'object') throw new HttpError(400, 'Expected an object of quantities.');
+    if (expected !== undefined && (!expected || typeof expected !== 'object')) throw new HttpError(400, 'Expected quantities must be an object.');
+    if (reason !== 'adjustment' && reason !== 'clear' && reason !== 'import') {
+        throw new HttpError(400, "Reason must be 'adjustment', 'clear' or 'import'.");
+    }
+    const targets: Record<string, number> = {};
+    for (const [item, quantity] of Object.entries(quantities)) {
+        targets[item] = parseQuantity(quantity, `Quantity for ${item}`);
+    }
+    const edit: StockEdit = { location, targets, reason };
+    if (expected) {
+        edit.expected = {};
+        for (const [item, quantity] of Object.entries(expected)) {
+            edit.expected[item] = parseQuantity(quantity, `Expected quantity for ${item}`);
+        }
+    }
+    if (typeof note === 'string' && note) edit.note = note;
+    return edit;
+};
+
+// Brings the stock at the edit's location to its quantities and records the edit. Call it inside a transaction.
+const applyStockEdit = (db: Db, user: User, edit: StockEdit): StockMovement[] => {
+    const stock = currentStock(db, edit.location);
+    const movements = movementsToReachQuantities(stock, edit.expected ? mergeStockEdit(stock, edit.targets, edit.expected) : edit.targets, edit.reason, {
+        location: edit.location,
+        note: edit.note,
+    });
+    store.insertStockMovements(db, movements);
+    recordStockEdit(db, user, edit.location, stock, movements, edit.note || STOCK_EDIT_NOTES[edit.reason]);
+    return movements;
+};
+
+// Takes back a deleted or edited report, or a stock edit, and posts the stock movements that undoes.
+// Refuses when the report or stock has changed again since, so a later change is never silently lost.
+const undoAuditEntry = (db: Db, user: User, entry: AuditEntry): { report: Report | null; movements: StockMovement[] } => {
+    if (!canUndoEntry(entry)) throw new HttpError(409, 'This change can no longer be undone.');
+    if (entry.entity === 'stock') {
+        const before = (entry.before || {}) as Record<string, number>;
+        const after = (entry.after || {}) as Record<string, number>;
+        const stock = currentStock(db, entry.entityId);
+        const changed = Object.keys(after).filter(item => (stock[item]?.quantity || 0) !== after[item]);
+        if (changed.length > 0) {
+            throw new HttpError(409, `Stock of ${changed.join(', ')} has changed since, so this edit can no longer be undone.`);
+        }
+        const edited = Object.fromEntries(Object.keys(after).filter(item => stock[item]).map(item => [item, stock[item]]));
+        const movements = postMovements(db, movementsToReachQuantities(edited, before, 'adjustment', { location: entry.entityId, note: 'Stock edit undone' }));
+        recordAudit(db, user, { entity: 'stock', entityId: entry.entityId, action: 'undo', ...stockChange(stock, movements), undoOf: entry.id });
+        return { report: null, movements };
+    }
+
+    const [latest] = store.listAuditEntries(db, { entity: 'report', entityId: entry.entityId });
+    if (latest.id !== entry.id) throw new HttpError(409, 'The request has changed since, so this change can no longer be undone.');
+    const restored = entry.before as Report;
+    const current = store.getReport(db, entry.entityId) || null;
+    let movements: StockMovement[];
+    let saved: Report;
+    if (entry.action === 'delete') {
+        if (current) throw new HttpError(409, `Report ${entry.entityId} already exists.`);
+        movements = applyReportChange(db, null, restored, restored.id, 'Deleted report restored');
+        saved = store.insertReport(db, restored);
+    } else {
+        if (!current) throw new HttpError(404, `Report ${entry.entityId} not found.`);
+        movements = applyReportChange(db, current, restored, restored.id, 'Report edit undone');
+        saved = store.updateReport(db, restored);
+    }
+    recordAudit(db, user, { entity: 'report', entityId: entry.entityId, action: 'undo', before: current, after: saved, undoOf: entry.id });
+    return { report: saved, movements };
+};
+
+export const createRoutes = (db: Db): Route[] => [
+    // --- Reports ---
+    {
+        method: 'GET',
+        path: '/api/reports',
+        handler: ({ user }) => store.listReports(db).filter(report => canViewReport(user, report)),
+    },
+    {
+        method: 'POST',
+        path: '/api/reports',
+        handler: ({ user, body }) => {
+            const requester = signedInUser(user);
+            // The requester is always the signed-in user, and every request starts out Submitted
+            const report = parseReport({
+                ...body,
+                requesterName: requester.displayName,
+                requesterId: requester.id,
+                status: 'Submitted',
+                statusHistory: submissionHistory(requester),
+                handover: undefined,
+            });
+            return db.transaction(() => {
+                if (!canManageStock(requester) && requester.campus && report.campus !== requester.campus) {
+                    throw new HttpError(403, `You can only create requests for ${campusName(store.listCampuses(db), requester.campus)}.`);
+                }
+                ensureOpenCampus(db, report.campus);
+                ensureRequestableItems(db, report.items);
+                if (store.getReport(db, report.id)) {
+                    throw new HttpError(409, `Report ${report.id} already exists.`);
+                }
+                const movements = applyReportChange(db, null, report, report.id);
+                const saved = store.insertReport(db, report);
+                recordAudit(db, requester, { entity: 'report', entityId: report.id, action: 'create', before: null, after: saved });
+                return { report: saved, movements };
+            })();
+        },
+    },
+    {
+        // Saves the reports picked in an import preview: reports with a known id overwrite it, the others are added.
+        // An overwritten report keeps its place in the workflow, since status only moves through transitions. Imported
+        // reports are held to the same campus and item rules as new ones, and take stock like any other: a fulfilled
+        // one is refused when its location does not hold the items. `stock`, a stock edit as PUT /api/stock takes it,
+        // is set first, in the same transaction, so a PDF's stock lines and its reports are saved together or not at all.
+        method: 'POST',
+        path: '/api/reports/import',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, body }) => {
+            const actor = signedInUser(user);
+            if (!body || typeof body !== 'object' || !Array.isArray(body.reports)) throw new HttpError(400, 'Expected an array of reports.');
+            const imported: Report[] = body.reports.map(parseReport);
+            const stockEdit = body.stock === undefined ? null : parseStockEdit({ ...body.stock, reason: 'import' }, openLocations(db));
+            return db.transaction(() => {
+                const movements: StockMovement[] = stockEdit ? applyStockEdit(db, actor, stockEdit) : [];
+                const reports = imported.map(input => {
+                    const original = store.getReport(db, input.id);
+                    const report: Report = original ? {
+                        ...input,
+                        requesterId: original.requesterId,
+                        status: original.status,
+                        statusHistory: original.statusHistory,
+                        fulfilledFrom: original.fulfilledFrom,
+                        handover: original.handover,
+                    } : { ...input, statusHistory: importHistory(input.status, actor) };
+                    ensureOpenCampus(db, report.campus, original?.campus);
+                    ensureRequestableItems(db, report.items, original ? Object.keys(original.items) : []);
+                    if (!original && report.fulfilledFrom) parseLocation(report.fulfilledFrom, openLocations(db));
+                    movements.push(...applyReportChange(db, original || null, report, report.id, 'Report imported'));
+                    const saved = original ? store.updateReport(db, report) : store.insertReport(db, report);
+                    recordAudit(db, actor, { entity: 'report', entityId: report.id, action: 'import', before: original || null, after: saved });
+                    return saved;
+                });
+                return { reports, movements };
+            })();
+        },
+    },
+    {
+        method: 'GET',
+        path: '/api/reports/:id',
+        handler: ({ user, params }) => {
+            const report = store.getReport(db, params.id);
+            if (!report || !canViewReport(user, report)) throw new HttpError(404, `Report ${params.id} not found.`);
+            return report;
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/api/reports/:id',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, params, body }) => {
+            const actor = signedInUser(user);
+            return db.transaction(() => {
+                const original = store.getReport(db, params.id);
+                if (!original) throw new HttpError(404, `Report ${params.id} not found.`);
+                ensureCurrentRevision(original, body?.revision);
+                if (!isEditableStatus(original.status)) {
+                    throw new HttpError(409, `A ${original.status} request can no longer be edited.`);
+                }
+                // Who asked for the items does not change when the report is edited, and status only moves through transitions
+                const report = parseReport({
+                    ...body,
+                    id: params.id,
+                    requesterName: original.requesterName,
+                    requesterId: original.requesterId,
+                    status: original.status,
+                    statusHistory: original.statusHistory,
+                    handover: original.handover,
+                });
+                ensureOpenCampus(db, report.campus, original.campus);
+                ensureRequestableItems(db, report.items, Object.keys(original.items));
+                const movements = applyReportChange(db, original, report, report.id);
+                const saved = store.updateReport(db, report);
+                recordAudit(db, actor, { entity: 'report', entityId: report.id, action: 'update', before: original, after: saved });
+                return { report: saved, movements };
+            })();
+        },
+    },
+    {
+        // Moves a request along the approval workflow (see workflow.ts). Fulfilling a request takes its items out of
+        // stock at `location`, which defaults to the request's own campus.
+        method: 'POST',
+        path: '/api/reports/:id/transitions',
+        handler: ({ user, params, body }) => {
+            const actor = signedInUser(user);
+            const to = body?.to as ReportStatus;
+            const reason = typeof body?.reason === 'string' ? body.reason : '';
+            if (!REPORT_STATUSES.includes(to)) throw new HttpError(400, `Status must be one of: ${REPORT_STATUSES.join(', ')}.`);
+            return db.transaction(() => {
+                const original = store.getReport(db, params.id);
+                if (!original || !canViewReport(actor, original)) throw new HttpError(404, `Report ${params.id} not found.`);
+                ensureCurrentRevision(original, body?.revision);
+                const rule = findTransition(original.status, to);
+                if (!rule) throw new HttpError(409, `A ${original.status} request cannot be moved to ${to}.`);
+                if (!rule.isAllowedFor(actor, original)) throw new HttpError(403, `You do not have permission to move this request to ${to}.`);
+                if (rule.reasonRequired && !reason.trim()) throw new HttpError(400, `Please give a reason for moving this request to ${to}.`);
+                const report = applyTransition(original, to, actor, reason);
+                if (to === 'Fulfilled') {
+                    const locations = openLocations(db);
+                    report.fulfilledFrom = body?.location === undefined
+                        ? defaultFulfilmentLocation(original, locations)
+                        : parseLocation(body.location, locations);
+                }
+                const movements = applyReportChange(db, original, report, report.id, `Request ${to.toLowerCase()}`);
+                const saved = store.updateReport(db, report);
+                recordAudit(db, actor, {
+                    entity: 'report', entityId: report.id, action: 'status', before: original, after: saved, note: reason.trim() || undefined,
+                });
+                return { report: saved, movements };
+            })();
+        },
+    },
+    {
+        // Records who received a request's items, with the signature they drew. A request signed for already
+        // cannot be signed again until a stock manager clears its signature.
+        method: 'POST',
+        path: '/api/reports/:id/handover',
+        handler: ({ user, params, body }) => {
+            const actor = signedInUser(user);
+            const handover = parseHandover({
+                receiverName: body?.receiverName,
+                signature: body?.signature,
+                signedAt: new Date().toISOString(),
+                recordedByName: actor.displayName,
+            });
+            return db.transaction(() => {
+                const original = store.getReport(db, params.id);
+                if (!original || !canViewReport(actor, original)) throw new HttpError(404, `Report ${params.id} not found.`);
+                ensureCurrentRevision(original, body?.revision);
+                if (!canSignHandover(original.status)) throw new HttpError(409, `A ${original.status} request cannot be signed for.`);
+                if (original.handover) {
+                    throw new HttpError(409, 'This request has been signed for already. A stock manager must clear the signature first.');
+                }
+                const saved = store.updateReport(db, { ...original, handover });
+                recordAudit(db, actor, { entity: 'report', entityId: saved.id, action: 'handover', before: original, after: saved, note: 'Handover signed' });
+                return { report: saved, movements: [] };
+            })();
+        },
+    },
+    {
+        // Clears a handover signature taken in error, so the request can be signed for again.
+        method: 'DELETE',
+        path: '/api/reports/:id/handover',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, params, query }) => {
+            const actor = signedInUser(user);
+            const revision = query.get('revision');
+            return db.transaction(() => {
+                const original = store.getReport(db, params.id);
+                if (!original) throw new HttpError(404, `Report ${params.id} not found.`);
+                ensureCurrentRevision(original, revision === null ? undefined : Number(revision));
+                if (!original.handover) throw new HttpError(409, 'This request has not been signed for.');
+                const { handover: _handover, ...unsigned } = original;
+                const saved = store.updateReport(db, unsigned);
+                recordAudit(db, actor, {
+                    entity: 'report', entityId: saved.id, action: 'handover', before: original, after: saved, note: 'Handover signature cleared',
+                });
+                return { report: saved, movements: [] };
+            })();
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/api/reports/:id',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, params, query }) => {
+            const actor = signedInUser(user);
+            const revision = query.get('revision');
+            return db.transaction(() => {
+                const original = store.getReport(db, params.id);
+                if (!original) throw new HttpError(404, `Report ${params.id} not found.`);
+                ensureCurrentRevision(original, revision === null ? undefined : Number(revision));
+                const movements = applyReportChange(db, original, null, original.id, 'Report deleted');
+                store.deleteReport(db, original.id);
+                recordAudit(db, actor, { entity: 'report', entityId: original.id, action: 'delete', before: original, after: null });
+                return { movements };
+            })();
+        },
+    },
+
+    // --- Stock ---
+    {
+        // ?location= limits the result to one location; without it every location is added together.
+        method: 'GET',
+        path: '/api/stock',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ query }) => currentStock(db, optionalLocation(query.get('location'), knownLocations(db))),
+    },
+    {
+        // Sets many items at one location (the central warehouse by default); items missing from `quantities` are brought to 0.
+        // With `expected`, the quantities an edit started from, only the items the edit changed are set (see mergeStockEdit).
+        method: 'PUT',
+        path: '/api/stock',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, body }) => {
+            const actor = signedInUser(user);
+            const edit = parseStockEdit(body, openLocations(db));
+            return db.transaction(() => ({ movements: applyStockEdit(db, actor, edit) }))();
+        },
+    },
+    {
+        method: 'GET',
+        path: '/api/stock/movements',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ query }) => store.listStockMovements(db, {
+            item: query.get('item') || undefined,
+            location: optionalLocation(query.get('location'), knownLocations(db)),
+        }),
+    },
+    {
+        method: 'GET',
+        path: '/api/stock/:item',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ params, query }) => currentStock(db, optionalLocation(query.get('location'), knownLocations(db)))[params.item] || emptyStockItem(),
+    },
+    {
+        method: 'PUT',
+        path: '/api/stock/:item',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, params, body }) => {
+            const actor = signedInUser(user);
+            const quantity = parseQuantity(body?.quantity, 'Quantity');
+            const location = optionalLocation(body?.location, openLocations(db)) || CENTRAL_WAREHOUSE;
+            return db.transaction(() => {
+                const stock = currentStock(db, location);
+                const movements = movementsToReachQuantities(
+                    { [params.item]: stock[params.item] || emptyStockItem() },
+                    { [params.item]: quantity },
+                    'adjustment',
+                    { location, note: typeof body?.note === 'string' ? body.note : undefined }
+                );
+                store.insertStockMovements(db, movements);
+                recordStockEdit(db, actor, location, stock, movements, typeof body?.note === 'string' && body.note ? body.note : STOCK_EDIT_NOTES.adjustment);
+                return { movements };
+            })();
+        },
+    },
+    {
+        // Stock history is permanent, so "deleting" an item's stock clears it to 0 with a movement.
+        // ?location= clears one location; without it the item is cleared everywhere.
+        method: 'DELETE',
+        path: '/api/stock/:item',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, params, query }) => {
+            const actor = signedInUser(user);
+            const location = optionalLocation(query.get('location'), knownLocations(db));
+            return db.transaction(() => {
+                const movements = (location ? [location] : knownLocations(db)).flatMap(stockLocation => {
+                    const stock = currentStock(db, stockLocation);
+                    const cleared = stock[params.item]
+                        ? movementsToReachQuantities({ [params.item]: stock[params.item] }, {}, 'clear', { location: stockLocation })
+                        : [];
+                    recordStockEdit(db, actor, stockLocation, stock, cleared, STOCK_EDIT_NOTES.clear);
+                    return cleared;
+                });
+                store.insertStockMovements(db, movements);
+                return { movements };
+            })();
+        },
+    },
+
+    // --- Transfers between stock locations ---
+    {
+        method: 'GET',
+        path: '/api/transfers',
+        roles: STOCK_MANAGER_ROLES,
+        handler: () => store.listTransfers(db),
+    },
+    {
+        method: 'POST',
+        path: '/api/transfers',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, body }) => {
+            const transfer = parseTransfer(body, signedInUser(user), openLocations(db));
+            return db.transaction(() => {
+                const movements = postMovements(db, movementsForTransfer(transfer));
+                store.insertTransfer(db, transfer);
+                return { transfer, movements };
+            })();
+        },
+    },
+
+    // --- Purchase orders and goods receiving ---
+    {
+        method: 'GET',
+        path: '/api/purchase-orders',
+        roles: STOCK_MANAGER_ROLES,
+        handler: () => store.listPurchaseOrders(db),
+    },
+    {
+        method: 'POST',
+        path: '/api/purchase-orders',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, body }) => {
+            const order = parsePurchaseOrder(body, signedInUser(user), openLocations(db));
+            return db.transaction(() => {
+                ensureRequestableItems(db, Object.fromEntries(order.lines.map(line => [line.item, line.quantity])));
+                order.number = formatPurchaseOrderNumber(store.countPurchaseOrders(db) + 1);
+                store.insertPurchaseOrder(db, order);
+                return order;
+            })();
+        },
+    },
+    {
+        // Receives a delivery, in full or in part. Each item may only come in up to what is still outstanding.
+        method: 'POST',
+        path: '/api/purchase-orders/:id/receipts',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ params, user, body }) => {
+            const receipt = parseReceipt(body, signedInUser(user));
+            return db.transaction(() => {
+                const order = openPurchaseOrder(db, params.id);
+                const outstanding = outstandingQuantities(order);
+                const excess = Object.entries(receipt.items)
+                    .filter(([item, quantity]) => quantity > (outstanding[item] || 0))
+                    .map(([item, quantity]) => `${item} (received ${quantity}, outstanding ${outstanding[item] || 0})`);
+                if (excess.length > 0) {
+                    throw new HttpError(409, `More than was ordered for: ${excess.join(', ')}.`);
+                }
+                const movements = postMovements(db, movementsForReceipt(order, receipt));
+                order.receipts.push(receipt);
+                order.status = receivingStatus(order);
+                store.updatePurchaseOrder(db, order);
+                return { purchaseOrder: order, movements };
+            })();
+        },
+    },
+    {
+        // Whatever has not arrived yet is no longer expected; receipts already posted stay in stock.
+        method: 'POST',
+        path: '/api/purchase-orders/:id/cancel',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ params }) => db.transaction(() => {
+            const order = openPurchaseOrder(db, params.id);
+            order.status = 'Cancelled';
+            store.updatePurchaseOrder(db, order);
+            return order;
+        })(),
+    },
+
+    // --- Audit trail ---
+    {
+        // ?entity= and ?entityId= narrow the trail to reports or stock, and to one report or location.
+        method: 'GET',
+        path: '/api/audit',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ query }) => {
+            const entity = query.get('entity') || undefined;
+            if (entity !== undefined && entity !== 'report' && entity !== 'stock') throw new HttpError(400, "Entity must be 'report' or 'stock'.");
+            return store.listAuditEntries(db, { entity, entityId: query.get('entityId') || undefined });
+        },
+    },
+    {
+        method: 'POST',
+        path: '/api/audit/:id/undo',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, params }) => {
+            const actor = signedInUser(user);
+            return db.transaction(() => {
+                const entry = store.getAuditEntry(db, params.id);
+                if (!entry) throw new HttpError(404, `Audit entry ${params.id} not found.`);
+                const result = undoAuditEntry(db, actor, entry);
+                store.updateAuditEntry(db, { ...entry, undoneAt: new Date().toISOString(), undoneByName: actor.displayName });
+                return result;
+            })();
+        },
+    },
+
+    // --- One-time upload of data kept in a browser's localStorage ---
+    {
+        // Each report is checked like a new one and made out to the account its requester's name belongs to; the
+        // reports that cannot be are left out and listed. The stock ledger is taken whole or not at all; it already
+        // holds what the browser's fulfilled reports took, so the reports move no stock themselves.
+        method: 'POST',
+        path: '/api/migrate',
+        roles: STOCK_MANAGER_ROLES,
+        handler: ({ user, body }) => {
+            const actor = signedInUser(user);
+            const inputs: unknown[] = Array.isArray(body?.reports) ? body.reports : [];
+            const movementInputs: unknown[] = Array.isArray(body?.stockMovements) ? body.stockMovements : [];
+
+            return db.transaction(() => {
+                const campuses = store.listCampuses(db);
+                const users = store.listUsers(db).filter(candidate => candidate.active);
+                let importedReports = 0;
+                const rejectedReports: { id: string; reason: string }[] = [];
+                inputs.forEach((input: any, index) => {
+                    try {
+                        const parsed = parseReport(input);
+                        if (store.getReport(db, parsed.id)) return;
+                        // Browsers kept the campus by name
+                        const campus = findCampus(campuses, parsed.campus);
+                        ensureOpenCampus(db, campus?.id || parsed.campus);
+                        ensureRequestableItems(db, parsed.items);
+                        const name = parsed.requesterName.trim().toLowerCase();
+                        const requesters = users.filter(candidate => candidate.displayName.toLowerCase() === name || candidate.username.toLowerCase() === name);
+                        if (requesters.length !== 1) {
+                            throw new HttpError(400, requesters.length === 0
+                                ? `No account belongs to ${parsed.requesterName}.`
+                                : `More than one account is called ${parsed.requesterName}.`);
+                        }
+                        const report: Report = {
+                            ...parsed,
+                            campus: campus!.id,
+                            requesterId: requesters[0].id,
+                            statusHistory: importHistory(parsed.status, actor),
+                        };
+                        const saved = store.insertReport(db, report);
+                        recordAudit(db, actor, {
+                            entity: 'report', entityId: report.id, action: 'create', before: null, after: saved, note: 'Uploaded from browser storage',
+                        });
+                        importedReports++;
+                    } catch (error) {
+                        if (!(error instanceof HttpError)) throw error;
+                        rejectedReports.push({ id: typeof input?.id === 'string' ? input.id : `#${index + 1}`, reason: error.message });
+                    }
+                });
+
+                // Two browsers' ledgers cannot both be true, so stock is only taken from the first one uploaded.
+                const stockSkipped = movementInputs.length > 0 && store.countStockMovements(db) > 0;
+                let stockMovements: StockMovement[] = [];
+                let stockRejected: string | undefined;
+                if (!stockSkipped) {
+                    try {
+                        stockMovements = parseLedger(db, movementInputs);
+                    } catch (error) {
+                        if (!(error instanceof HttpError)) throw error;
+                        stockRejected = error.message;
+                    }
+                }
+                store.insertStockMovements(db, stockMovements);
+                return {
+                    importedReports,
+                    rejectedReports,
+                    importedStockMovements: stockMovements.length,
+                    stockSkipped,
+                    ...(stockRejected ? { stockRejected } : {}),
+                };
+            })();
+        },
+    },
+
+    ...createCampusRoutes(db),
+    ...createCatalogRoutes(db),
+    ...createCostRoutes(db),
+    ...createScheduleRoutes(db),
+    ...createUserRoutes(db),
+    ...createBackupRoutes(db),
+];
@@ -0,0 +1,326 @@
+import crypto from 'node:crypto';
+import type { AuditEntry, Report, RequestSchedule, RequestTemplate, ScheduleFailure, ScheduleFailureReason, ScheduleFrequency, User } from '../types';
+import { canManageCampusRequests } from '../permissions';
+import { addDays, isDateString } from '../dates';
+import { dueDatesBetween, isDueDate } from '../schedules';
+import { submissionHistory } from '../workflow';
+import * as store from './db';
+import type { Db } from './db';
+import { HttpError } from './http';
+import type { Route } from './http';
+import { ensureOpenCampus, ensureRequestableItems, signedInUser } from './validation';
+
+const FREQUENCIES: ScheduleFrequency[] = ['weekly', 'monthly'];
+
+// Due dates are counted in UTC days, like every other date the server fills in.
+const todayUtc = (): string => new Date().toISOString().split('T')[0];
+
+// Zero quantities are dropped; a template or a changed due date must still ask for something.
+const parseItems = (input: unknown): Record<string, number> => {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) throw new HttpError(400, 'Items must be an object of quantities.');
+    const items: Record<string, number> = {};
+    for (const [item, quantity] of Object.entries(input)) {
+        if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 0) {
+            throw new HttpError(400, `Quantity for ${item} must be a non-negative whole number.`);
+        }
+        if (quantity > 0) items[item] = quantity;
+    }
+    if (Object.keys(items).length === 0) throw new HttpError(400, 'Ask for at least one item.');
+    return items;
+};
+
+const parseTemplate = (input: any, id: string): RequestTemplate => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A template must be a JSON object.');
+    if (typeof input.campus !== 'string' || !input.campus) throw new HttpError(400, 'Campus is required.');
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) throw new HttpError(400, 'A template needs a name.');
+    return { id, campus: input.campus, name, items: parseItems(input.items) };
+};
+
+// The parts of a schedule its owner sets; the server keeps track of the rest.
+const parseScheduleTiming = (input: any): Pick<RequestSchedule, 'templateId' | 'frequency' | 'startDate'> => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A schedule must be a JSON object.');
+    if (typeof input.templateId !== 'string' || !input.templateId) throw new HttpError(400, 'Template is required.');
+    if (!FREQUENCIES.includes(input.frequency)) throw new HttpError(400, "Frequency must be 'weekly' or 'monthly'.");
+    if (!isDateString(input.startDate)) throw new HttpError(400, 'Start date must be YYYY-MM-DD.');
+    return { templateId: input.templateId, frequency: input.frequency, startDate: input.startDate };
+};
+
+// A template the user may use, or a 404 so other campuses' templates stay hidden.
+const templateFor = (db: Db, user: User, id: string): RequestTemplate => {
+    const template = store.getRequestTemplate(db, id);
+    if (!template || !canManageCampusRequests(user, template.campus)) throw new HttpError(404, `Template ${id} not found.`);
+    return template;
+};
+
+const scheduleFor = (db: Db, user: User, id: string): RequestSchedule => {
+    const schedule = store.getRequestSchedule(db, id);
+    if (!schedule) throw new HttpError(404, `Schedule ${id} not found.`);
+    templateFor(db, user, schedule.templateId);
+    return schedule;
+};
+
+const canSeeSchedule = (db: Db, user: User | null, schedule: RequestSchedule): boolean => {
+    const template = store.getRequestTemplate(db, schedule.templateId);
+    return !!template && canManageCampusRequests(user, template.campus);
+};
+
+// Named after the moment it is created, like requests made in the app. Requests created within the same
+// millisecond take the next one free.
+const newReportId = (db: Db): string => {
+    let time = Date.now();
+    while (store.getReport(db, new Date(time).toISOString())) time++;
+    return new Date(time).toISOString();
+};
+
+// The request for one due date, or why it cannot be made any more: its template, campus or requester has gone,
+// or none of its items can still be requested.
+const scheduledReport = (db: Db, schedule: RequestSchedule, date: string): { report: Report; requester: User } | ScheduleFailureReason => {
+    const template = store.getRequestTemplate(db, schedule.templateId);
+    const requester = store.getUser(db, schedule.requesterId);
+    const campus = template && store.getCampus(db, template.campus);
+    if (!template || !requester || !requester.active || !campus || !campus.active) return 'unavailable';
+    const requestable = new Set(store.listCatalogItems(db).filter(item => item.active).map(item => item.id));
+    const items = Object.fromEntries(Object.entries(schedule.changedItems[date] || template.items)
+        .filter(([item, quantity]) => requestable.has(item) && quantity > 0));
+    if (Object.keys(items).length === 0) return 'noItems';
+    return {
+        requester,
+        report: {
+            id: newReportId(db),
+            requesterName: requester.displayName,
+            requesterId: requester.id,
+            campus: template.campus,
+            importDate: date,
+            exportDate: date,
+            items,
+            status: 'Submitted',
+            statusHistory: submissionHistory(requester),
+            remarks: `Recurring request: ${template.name}`,
+        },
+    };
+};
+
+// Creates the request of every due date of `schedule` up to `today` that has not had one, as a Submitted request
+// made by the schedule's owner, after trying its missed due dates again. Skipped due dates are passed over; those
+// that cannot be requested yet are kept on the schedule as missed, for its owner to see, and tried again next time.
+// Runs inside the caller's transaction.
+const createScheduleRequests = (db: Db, schedule: RequestSchedule, today: string): Report[] => {
+    const missedDates = (schedule.missedDates || []).map(missed => missed.date);
+    const dueDates = dueDatesBetween(schedule, schedule.createdThrough, today);
+    if (missedDates.length === 0 && dueDates.length === 0) return [];
+    const created: Report[] = [];
+    const missed: ScheduleFailure[] = [];
+    [...missedDates, ...dueDates].filter(date => !schedule.skippedDates.includes(date)).forEach(date => {
+        const scheduled = scheduledReport(db, schedule, date);
+        if (typeof scheduled === 'string') {
+            missed.push({ date, reason: scheduled });
+            return;
+        }
+        const saved = store.insertReport(db, scheduled.report);
+        const entry: AuditEntry = {
+            id: crypto.randomUUID(),
+            at: new Date().toISOString(),
+            byUserId: scheduled.requester.id,
+            byName: scheduled.requester.displayName,
+            entity: 'report',
+            entityId: saved.id,
+            action: 'create',
+            before: null,
+            after: saved,
+            note: 'Created by a recurring schedule',
+        };
+        store.insertAuditEntry(db, entry);
+        created.push(saved);
+    });
+    // Skipped and changed dates are only kept while they are still to come or missed
+    const { failure: _failure, missedDates: _previous, ...rest } = schedule;
+    const isKept = (date: string) => date > today || missed.some(missedDate => missedDate.date === date);
+    store.updateRequestSchedule(db, {
+        ...rest,
+        ...(missed.length > 0 ? { missedDates: missed } : {}),
+        createdThrough: today,
+        skippedDates: schedule.skippedDates.filter(isKept),
+        changedItems: Object.fromEntries(Object.entries(schedule.changedItems).filter(([date]) => isKept(date))),
+    });
+    return created;
+};
+
+// Catches every schedule up to `today`, each in its own transaction: a schedule that fails keeps the error as its
+// failure and its due dates are tried again next time, without holding back the others. Returns the requests created.
+export const createDueRequests = (db: Db, today = todayUtc()): Report[] =>
+    store.listRequestSchedules(db).flatMap(schedule => {
+        try {
+            return db.transaction(() => createScheduleRequests(db, schedule, today))();
+        } catch (error) {
+            console.error(`Schedule ${schedule.id} could not create its due requests:`, error);
+            const failure: ScheduleFailure = { date: today, reason: 'error', message: error instanceof Error ? error.message : String(error) };
+            try {
+                store.updateRequestSchedule(db, { ...schedule, failure });
+            } catch (recordError) {
+                console.error(`Schedule ${schedule.id} could not record its failure:`, recordError);
+            }
+            return [];
+        }
+    });
+
+export const createScheduleRoutes = (db: Db): Route[] => [
+    // --- Request templates ---
+    {
+        method: 'GET',
+        path: '/api/templates',
+        handler: ({ user }) => store.listRequestTemplates(db).filter(template => canManageCampusRequests(user, template.campus)),
+    },
+    {
+        method: 'POST',
+        path: '/api/templates',
+        handler: ({ user, body }) => {
+            const actor = signedInUser(user);
+            const template = parseTemplate(body, crypto.randomUUID());
+            return db.transaction(() => {
+                if (!canManageCampusRequests(actor, template.campus)) {
+                    throw new HttpError(403, 'You can only keep templates for your own campus.');
+                }
+                ensureOpenCampus(db, template.campus);
+                ensureRequestableItems(db, template.items);
+                store.insertRequestTemplate(db, template);
+                return template;
+            })();
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/api/templates/:id',
+        handler: ({ user, params, body }) => {
+            const actor = signedInUser(user);
+            const template = parseTemplate(body, params.id);
+            return db.transaction(() => {
+                templateFor(db, actor, params.id);
+                if (!canManageCampusRequests(actor, template.campus)) {
+                    throw new HttpError(403, 'You can only keep templates for your own campus.');
+                }
+                ensureOpenCampus(db, template.campus);
+                ensureRequestableItems(db, template.items);
+                store.updateRequestTemplate(db, template);
+                return template;
+            })();
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/api/templates/:id',
+        handler: ({ user, params }) => {
+            const actor = signedInUser(user);
+            return db.transaction(() => {
+                templateFor(db, actor, params.id);
+                if (store.listRequestSchedules(db).some(schedule => schedule.templateId === params.id)) {
+                    throw new HttpError(409, 'This template is requested on a schedule. Delete the schedule first.');
+                }
+                store.deleteRequestTemplate(db, params.id);
+                return { id: params.id };
+            })();
+        },
+    },
+
+    // --- Recurring schedules ---
+    {
+        method: 'GET',
+        path: '/api/schedules',
+        handler: ({ user }) => store.listRequestSchedules(db).filter(schedule => canSeeSchedule(db, user, schedule)),
+    },
+    {
+        // Due dates from today on are requested; a start date in the past only sets the day they fall on.
+        // A schedule due today has its request created straight away.
+        method: 'POST',
+        path: '/api/schedules',
+        handler: ({ user, body }) => {
+            const actor = signedInUser(user);
+            const timing = parseScheduleTiming(body);
+            const schedule: RequestSchedule = {
+                id: crypto.randomUUID(),
+                ...timing,
+                requesterId: actor.id,
+                requesterName: actor.displayName,
+                createdThrough: addDays(todayUtc(), -1),
+                skippedDates: [],
+                changedItems: {},
+            };
+            return db.transaction(() => {
+                templateFor(db, actor, schedule.templateId);
+                store.insertRequestSchedule(db, schedule);
+                createScheduleRequests(db, schedule, todayUtc());
+                return store.getRequestSchedule(db, schedule.id);
+            })();
+        },
+    },
+    {
+        // Moving a schedule's dates drops the skips and changes made to single due dates, which no longer line up.
+        method: 'PUT',
+        path: '/api/schedules/:id',
+        handler: ({ user, params, body }) => {
+            const actor = signedInUser(user);
+            const timing = parseScheduleTiming(body);
+            return db.transaction(() => {
+                const original = scheduleFor(db, actor, params.id);
+                templateFor(db, actor, timing.templateId);
+                const moved = timing.frequency !== original.frequency || timing.startDate !== original.startDate;
+                // Missed due dates stay missed and are tried again straight away, in case the edit is what they needed
+                const updated: RequestSchedule = {
+                    ...original,
+                    ...timing,
+                    skippedDates: moved ? [] : original.skippedDates,
+                    changedItems: moved ? {} : original.changedItems,
+                };
+                store.updateRequestSchedule(db, updated);
+                createScheduleRequests(db, updated, todayUtc());
+                return store.getRequestSchedule(db, params.id);
+            })();
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/api/schedules/:id',
+        handler: ({ user, params }) => {
+            const actor = signedInUser(user);
+            return db.transaction(() => {
+                scheduleFor(db, actor, params.id);
+                store.deleteRequestSchedule(db, params.id);
+                return { id: params.id };
+            })();
+        },
+    },
+    {
+        // Skips one upcoming or missed due date or asks for other quantities on it: `{ skipped, items }`, where
+        // `items` null goes back to the template's quantities. A missed due date is tried again straight away, so
+        // skipping it gives it up.
+        method: 'PUT',
+        path: '/api/schedules/:id/occurrences/:date',
+        handler: ({ user, params, body }) => {
+            const actor = signedInUser(user);
+            if (!body || typeof body !== 'object') throw new HttpError(400, 'An occurrence must be a JSON object.');
+            if (typeof body.skipped !== 'boolean') throw new HttpError(400, 'Skipped must be true or false.');
+            const items = body.items === undefined || body.items === null ? null : parseItems(body.items);
+            return db.transaction(() => {
+                const schedule = scheduleFor(db, actor, params.id);
+                const { date } = params;
+                const missed = (schedule.missedDates || []).some(missedDate => missedDate.date === date);
+                if (!missed && (!isDateString(date) || !isDueDate(schedule, date))) throw new HttpError(400, `The schedule is not due on ${date}.`);
+                if (date <= schedule.createdThrough && !missed) {
+                    throw new HttpError(409, `The due date ${date} has passed or already has its request.`);
+                }
+                if (items) ensureRequestableItems(db, items);
+                const { [date]: _previous, ...changedItems } = schedule.changedItems;
+                const updated: RequestSchedule = {
+                    ...schedule,
+                    skippedDates: body.skipped
+                        ? [...schedule.skippedDates.filter(skipped => skipped !== date), date].sort()
+                        : schedule.skippedDates.filter(skipped => skipped !== date),
+                    changedItems: items ? { ...changedItems, [date]: items } : changedItems,
+                };
+                store.updateRequestSchedule(db, updated);
+                if (missed) createScheduleRequests(db, updated, todayUtc());
+                return store.getRequestSchedule(db, params.id);
+            })();
+        },
+    },
+];
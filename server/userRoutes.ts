@@ -0,0 +1,124 @@
+import crypto from 'node:crypto';
+import type { User } from '../types';
+import { USER_MANAGER_ROLES, USER_ROLES } from '../permissions';
+import { createSession, hashPassword, sessionToken, verifyPassword } from './auth';
+import * as store from './db';
+import type { Db } from './db';
+import { HttpError } from './http';
+import type { Route } from './http';
+import { ensureOpenCampus } from './validation';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const parsePassword = (value: unknown): string => {
+    if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) {
+        throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+    return value;
+};
+
+const parseUser = (input: any, id: string): User => {
+    if (!input || typeof input !== 'object') throw new HttpError(400, 'A user must be a JSON object.');
+    const { username, displayName, role, campus, active } = input;
+    if (typeof username !== 'string' || !/^[\w.-]{3,}$/.test(username)) {
+        throw new HttpError(400, 'Username must be at least 3 letters, digits, dots, dashes or underscores.');
+    }
+    if (typeof displayName !== 'string' || !displayName.trim()) throw new HttpError(400, 'Display name is required.');
+    if (!USER_ROLES.includes(role)) throw new HttpError(400, `Role must be one of: ${USER_ROLES.join(', ')}.`);
+    return {
+        id,
+        username,
+        displayName: displayName.trim(),
+        role,
+        campus: typeof campus === 'string' ? campus : '',
+        active: active !== false,
+    };
+};
+
+const ensureUsernameFree = (db: Db, username: string, exceptId?: string) => {
+    const existing = store.getUserCredentials(db, username);
+    if (existing && existing.user.id !== exceptId) {
+        throw new HttpError(409, `The username ${username} is already taken.`);
+    }
+};
+
+export const createUserRoutes = (db: Db): Route[] => [
+    // --- Sessions ---
+    {
+        method: 'POST',
+        path: '/api/auth/login',
+        public: true,
+        handler: ({ body }) => {
+            const credentials = typeof body?.username === 'string' ? store.getUserCredentials(db, body.username) : undefined;
+            if (!credentials || typeof body?.password !== 'string' || !verifyPassword(body.password, credentials.passwordHash)) {
+                throw new HttpError(401, 'Incorrect username or password.');
+            }
+            if (!credentials.user.active) {
+                throw new HttpError(403, 'This account has been deactivated.');
+            }
+            return { token: createSession(db, credentials.user.id), user: credentials.user };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/api/auth/logout',
+        handler: ({ req }) => {
+            const token = sessionToken(req);
+            if (token) store.deleteSession(db, token);
+            return undefined;
+        },
+    },
+    {
+        method: 'GET',
+        path: '/api/auth/me',
+        handler: ({ user }) => user,
+    },
+
+    // --- User management ---
+    {
+        method: 'GET',
+        path: '/api/users',
+        roles: USER_MANAGER_ROLES,
+        handler: () => store.listUsers(db),
+    },
+    {
+        method: 'POST',
+        path: '/api/users',
+        roles: USER_MANAGER_ROLES,
+        handler: ({ body }) => {
+            const user = parseUser(body, crypto.randomUUID());
+            const password = parsePassword(body?.password);
+            return db.transaction(() => {
+                ensureUsernameFree(db, user.username);
+                // Users without a home campus work across all of them
+                if (user.campus) ensureOpenCampus(db, user.campus);
+                store.insertUser(db, user, hashPassword(password));
+                return user;
+            })();
+        },
+    },
+    {
+        // A password in the body resets the user's password; leave it out to keep the current one.
+        method: 'PUT',
+        path: '/api/users/:id',
+        roles: USER_MANAGER_ROLES,
+        handler: ({ user: admin, params, body }) => {
+            const user = parseUser(body, params.id);
+            const password = body?.password ? parsePassword(body.password) : null;
+            if (admin?.id === user.id && (!user.active || !USER_MANAGER_ROLES.includes(user.role))) {
+                throw new HttpError(400, 'You cannot deactivate your own account or remove your own admin role.');
+            }
+            return db.transaction(() => {
+                const original = store.getUser(db, user.id);
+                if (!original) throw new HttpError(404, `User ${user.id} not found.`);
+                ensureUsernameFree(db, user.username, user.id);
+                if (user.campus) ensureOpenCampus(db, user.campus, original.campus);
+                store.updateUser(db, user);
+                if (password) store.updateUserPassword(db, user.id, hashPassword(password));
+                // Deactivated users are signed out everywhere straight away
+                if (!user.active) store.deleteUserSessions(db, user.id);
+                return user;
+            })();
+        },
+    },
+];
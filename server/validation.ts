@@ -0,0 +1,31 @@
+import type { User } from '../types';
+import * as store from './db';
+import type { Db } from './db';
+import { HttpError } from './http';
+
+// Checks more than one route module makes on what it is sent.
+
+// Routes that only run behind a signed-in user can rely on the handler context having one.
+export const signedInUser = (user: User | null): User => {
+    if (!user) throw new HttpError(401, 'Please sign in to continue.');
+    return user;
+};
+
+// New records must name an active campus. `allowed` is the campus a record already had,
+// so an edit does not fail just because that campus has been retired since.
+export const ensureOpenCampus = (db: Db, campusId: string, allowed?: string) => {
+    const campus = store.getCampus(db, campusId);
+    if (campusId !== allowed && (!campus || !campus.active)) {
+        throw new HttpError(400, `Campus ${campus ? campus.name : campusId} is not in the directory or has been retired.`);
+    }
+};
+
+// New requests may only ask for active catalog items. `allowed` lists items a request already had,
+// so an edit does not fail just because one of them has been archived since.
+export const ensureRequestableItems = (db: Db, items: Record<string, number>, allowed: string[] = []) => {
+    const requestable = new Set(store.listCatalogItems(db).filter(item => item.active).map(item => item.id));
+    const unknown = Object.keys(items).filter(item => !requestable.has(item) && !allowed.includes(item));
+    if (unknown.length > 0) {
+        throw new HttpError(400, `These items are not in the catalog or have been archived: ${unknown.join(', ')}.`);
+    }
+};
@@ -0,0 +1,96 @@
+import type jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { Campus, CatalogItem } from './types';
+import type { BudgetStatus, CampusSpending } from './costing';
+import { formatCost } from './costing';
+import type { PdfTextWriter } from './pdfText';
+import type { Language } from './i18n';
+import { itemLabel } from './catalog';
+import { campusName } from './campuses';
+import { bilingualLabel } from './pdfParser';
+
+export const SPENDING_PDF_TITLE = 'Spending Report';
+const SPENDING_ITEM_COLUMNS = ['Item', 'Quantity', 'Cost'];
+const SPENDING_BUDGET_COLUMNS = ['Campus', 'Budget Period', 'Budget', 'Spent', 'Remaining'];
+
+const MARGIN = 14;
+// Roughly where the page's usable height ends, before autoTable's bottom margin
+const PAGE_BOTTOM = 270;
+
+// Adds a section per campus with what its requests cost item by item, then the budgets the report's period
+// touches, below `startY`. Costs marked * leave out quantities that had no price yet; all are written as `language`
+// writes numbers.
+export const addSpendingSections = (
+    doc: jsPDF,
+    writer: PdfTextWriter,
+    spending: CampusSpending[],
+    budgets: BudgetStatus[],
+    catalog: CatalogItem[],
+    campuses: Campus[],
+    language: Language,
+    startY: number
+): void => {
+    let y = startY;
+    const startSection = (title: string) => {
+        if (y > PAGE_BOTTOM - 30) {
+            doc.addPage();
+            y = 20;
+        }
+        doc.setFontSize(16);
+        doc.setTextColor(45, 55, 72);
+        writer.text(title, MARGIN, y);
+        doc.setTextColor(0, 0, 0);
+    };
+
+    const sections = [...spending].sort((a, b) => campusName(campuses, a.campus).localeCompare(campusName(campuses, b.campus)));
+    if (sections.length === 0) {
+        doc.setFontSize(12);
+        doc.text('No request in this period has cost anything yet.', MARGIN, y);
+        y += 12;
+    }
+    sections.forEach(({ campus, lines, total }) => {
+        startSection(campusName(campuses, campus));
+        autoTable(doc, {
+            head: [SPENDING_ITEM_COLUMNS.map(column => bilingualLabel(column))],
+            body: lines.map(({ item, quantity, cost, unpriced }) => [
+                itemLabel(catalog, item),
+                quantity.toString(),
+                `${formatCost(cost, language)}${unpriced ? ' *' : ''}`,
+            ]),
+            foot: [['Total', '', { content: formatCost(total, language), styles: { halign: 'right' } }]],
+            startY: y + 4,
+            theme: 'grid',
+            headStyles: { fillColor: [45, 55, 72] },
+            footStyles: { fillColor: [230, 230, 230], textColor: [0, 0, 0] },
+            columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+            ...writer.tableHooks,
+        });
+        y = (doc as any).lastAutoTable.finalY + 12;
+    });
+
+    if (sections.some(({ lines }) => lines.some(line => line.unpriced))) {
+        doc.setFontSize(9);
+        doc.text('* Some of the quantity had no unit cost on its request date and is not counted.', MARGIN, y - 6);
+        y += 2;
+    }
+
+    if (budgets.length === 0) return;
+    startSection(bilingualLabel('Budgets', ' '));
+    autoTable(doc, {
+        head: [SPENDING_BUDGET_COLUMNS.map(column => bilingualLabel(column))],
+        body: budgets.map(budget => [
+            campusName(campuses, budget.campus),
+            `${budget.label} (${budget.startDate} to ${budget.endDate})`,
+            formatCost(budget.amount, language),
+            formatCost(budget.spent, language),
+            budget.spent > budget.amount
+                ? { content: formatCost(budget.amount - budget.spent, language), styles: { textColor: [200, 30, 30] } }
+                : formatCost(budget.amount - budget.spent, language),
+        ]),
+        startY: y + 4,
+        theme: 'grid',
+        headStyles: { fillColor: [80, 80, 80] },
+        columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+        ...writer.tableHooks,
+    });
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { Report } from './types';
+import { DEFAULT_CATALOG } from './catalog';
+import { DEFAULT_CAMPUSES } from './campuses';
+import { guessColumnMapping, readReportRows, sheetFields } from './spreadsheet';
+
+const HEADER = ['Requester Name', 'Campus', 'Import Date', 'Export Date', 'Status', 'Black Toner'];
+const CAMPUS = DEFAULT_CAMPUSES[0];
+
+// Reads data rows under HEADER, with each column mapped by its header as the import does.
+const readRows = (rows: string[][], existing: Report[] = []) =>
+    readReportRows(rows, guessColumnMapping(sheetFields('reports', DEFAULT_CATALOG), HEADER, DEFAULT_CATALOG), DEFAULT_CATALOG, DEFAULT_CAMPUSES, existing);
+
+describe('readReportRows', () => {
+    it('reads a valid row as a Submitted report, a missing status included', () => {
+        const [row] = readRows([['Dara', CAMPUS.name, '2026-03-02', '2026-03-03', '', '2']]);
+
+        expect(row.errors).toEqual([]);
+        expect(row.value).toEqual({
+            requesterName: 'Dara', campus: CAMPUS.id, importDate: '2026-03-02', exportDate: '2026-03-03', items: { Bk: 2 }, status: 'Submitted',
+        });
+    });
+
+    it('flags days that do not exist in the dry run rather than leaving them to the server', () => {
+        const [row] = readRows([['Dara', CAMPUS.name, '2026-02-30', '2026-13-01', 'Submitted', '2']]);
+
+        expect(row.value).toBeNull();
+        expect(row.errors).toEqual([
+            'Import Date must be a day of the calendar as YYYY-MM-DD, not "2026-02-30".',
+            'Export Date must be a day of the calendar as YYYY-MM-DD, not "2026-13-01".',
+        ]);
+    });
+
+    it('keeps the status a row gives, as the export writes it, and refuses statuses the workflow does not have', () => {
+        const rows = readRows([
+            ['Dara', CAMPUS.name, '2026-03-02', '2026-03-02', 'Fulfilled', '2'],
+            ['Dara', CAMPUS.name, '2026-03-02', '2026-03-02', 'approved', '2'],
+            ['Dara', CAMPUS.name, '2026-03-02', '2026-03-02', 'Shipped', '2'],
+        ]);
+
+        expect(rows.map(row => row.value?.status ?? null)).toEqual(['Fulfilled', 'Approved', null]);
+        expect(rows[2].errors[0]).toContain('Status must be one of');
+    });
+
+    it('checks the campus, quantities and duplicates of each row and numbers rows as the sheet does', () => {
+        const existing: Report = {
+            id: 'report-1', requesterName: 'Dara', campus: CAMPUS.id, importDate: '2026-03-02', exportDate: '2026-03-02', items: { Bk: 2 }, status: 'Submitted',
+        };
+        const rows = readRows([
+            ['Dara', 'Nowhere', '2026-03-02', '2026-03-02', '', '2'],
+            ['', '', '', '', '', ''],
+            ['Dara', CAMPUS.name, '2026-03-02', '2026-03-02', '', '1.5'],
+            ['dara', CAMPUS.name, '2026-03-02', '2026-03-02', '', '2'],
+        ], [existing]);
+
+        expect(rows.map(row => row.rowNumber)).toEqual([2, 4, 5]);
+        expect(rows[0].errors).toEqual(['There is no campus called "Nowhere".']);
+        expect(rows[1].errors).toEqual(['Black Toner must be a whole number of 0 or more, not "1.5".']);
+        expect(rows[2].errors).toEqual(['The same report already exists (same requester, campus, dates and items).']);
+    });
+});
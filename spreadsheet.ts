@@ -0,0 +1,270 @@
+import type { Campus, CatalogItem, Report, ReportStatus, StockItem } from './types';
+import { activeCatalogItems, findCatalogItem } from './catalog';
+import { campusName, findCampus } from './campuses';
+import type { StockLocation } from './campuses';
+import { REPORT_STATUSES } from './workflow';
+import { isDateString } from './dates';
+import { isDuplicateReport } from './importPreview';
+import { formatExtraLines, parseExtraLines } from './extraLines';
+
+// A sheet as plain rows of cells, header row first.
+export type SheetCell = string | number;
+
+export interface Sheet {
+    name: string;
+    rows: SheetCell[][];
+}
+
+export const REPORT_SHEET_NAME = 'Reports';
+export const STOCK_SHEET_NAME = 'Stock';
+
+const WHOLE_NUMBER_PATTERN = /^\d+$/;
+
+// --- Export ---
+
+// One row per report and one column per item, so the sheet can be summed and filtered in Excel. Archived items
+// only get a column when one of the reports asks for them. Other items come after the total, as text.
+export const reportSheet = (reports: Report[], catalog: CatalogItem[], campuses: Campus[]): Sheet => {
+    const items = catalog.filter(item => item.active || reports.some(report => (report.items[item.id] || 0) > 0));
+    const header: SheetCell[] = [
+        'Requester Name', 'Campus', 'Import Date', 'Export Date', 'Status', ...items.map(item => item.nameEn), 'Total',
+        'Other Items', 'Purpose', 'Remarks',
+    ];
+    const rows = reports.map(report => {
+        const quantities = items.map(item => report.items[item.id] || 0);
+        return [
+            report.requesterName,
+            campusName(campuses, report.campus),
+            report.importDate,
+            report.exportDate,
+            report.status,
+            ...quantities,
+            quantities.reduce((sum, quantity) => sum + quantity, 0),
+            formatExtraLines(report.extraLines || []),
+            report.purpose || '',
+            report.remarks || '',
+        ];
+    });
+    return { name: REPORT_SHEET_NAME, rows: [header, ...rows] };
+};
+
+// One row per item and one column per location, with the stock of each location taken from `stockByLocation`.
+export const stockSheet = (
+    catalog: CatalogItem[],
+    locations: StockLocation[],
+    stockByLocation: Record<string, Record<string, StockItem>>
+): Sheet => {
+    const header: SheetCell[] = ['Item', 'Category', 'Unit', ...locations.map(location => location.name), 'Total'];
+    const rows = catalog
+        .filter(item => item.active || locations.some(location => stockByLocation[location.id]?.[item.id]?.quantity))
+        .map(item => {
+            const quantities = locations.map(location => stockByLocation[location.id]?.[item.id]?.quantity || 0);
+            return [item.nameEn, item.category, item.unit, ...quantities, quantities.reduce((sum, quantity) => sum + quantity, 0)];
+        });
+    return { name: STOCK_SHEET_NAME, rows: [header, ...rows] };
+};
+
+// --- CSV ---
+
+const csvField = (cell: SheetCell): string => {
+    const text = String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: SheetCell[][]): string => rows.map(row => row.map(csvField).join(',')).join('\r\n');
+
+// Reads RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks.
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, ''); // Excel starts UTF-8 CSV files with a byte order mark
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+// --- Import ---
+
+export type SheetImportKind = 'reports' | 'stock';
+
+// A value the import needs, and the sheet column it is read from.
+export interface SheetField {
+    key: string;
+    label: string;
+    required: boolean;
+}
+
+// Field keys mapped to a column index; -1 leaves the field unmapped.
+export type ColumnMapping = Record<string, number>;
+
+export interface SheetRowResult<T> {
+    rowNumber: number; // As numbered in the spreadsheet, the header being row 1
+    value: T | null; // null when the row has errors
+    errors: string[];
+}
+
+export interface StockSheetLine {
+    item: string;
+    quantity: number;
+}
+
+const ITEM_FIELD_PREFIX = 'item:';
+
+export const sheetFields = (kind: SheetImportKind, catalog: CatalogItem[]): SheetField[] => kind === 'reports'
+    ? [
+        { key: 'requesterName', label: 'Requester Name', required: true },
+        { key: 'campus', label: 'Campus', required: true },
+        { key: 'importDate', label: 'Import Date', required: true },
+        { key: 'exportDate', label: 'Export Date', required: true },
+        { key: 'status', label: 'Status', required: false },
+        { key: 'otherItems', label: 'Other Items', required: false },
+        { key: 'purpose', label: 'Purpose', required: false },
+        { key: 'remarks', label: 'Remarks', required: false },
+        ...activeCatalogItems(catalog).map(item => ({ key: `${ITEM_FIELD_PREFIX}${item.id}`, label: item.nameEn, required: false })),
+    ]
+    : [
+        { key: 'item', label: 'Item', required: true },
+        { key: 'quantity', label: 'Quantity', required: true },
+    ];
+
+// Maps each field to the column whose header matches its label, or for items any of the item's names.
+export const guessColumnMapping = (fields: SheetField[], headers: string[], catalog: CatalogItem[]): ColumnMapping => {
+    const normalized = headers.map(header => header.trim().toLowerCase());
+    const mapping: ColumnMapping = {};
+    fields.forEach(field => {
+        let index = normalized.indexOf(field.label.toLowerCase());
+        if (index < 0 && field.key.startsWith(ITEM_FIELD_PREFIX)) {
+            const id = field.key.slice(ITEM_FIELD_PREFIX.length);
+            index = headers.findIndex(header => header.trim() && findCatalogItem(catalog, header)?.id === id);
+        }
+        mapping[field.key] = index;
+    });
+    return mapping;
+};
+
+const cellOf = (row: string[], mapping: ColumnMapping, key: string): string => {
+    const index = mapping[key];
+    return index === undefined || index < 0 ? '' : (row[index] || '').trim();
+};
+
+const isBlankRow = (row: string[]): boolean => row.every(cell => !cell.trim());
+
+const parseWholeNumber = (text: string, label: string, errors: string[]): number => {
+    if (!text) return 0;
+    if (!WHOLE_NUMBER_PATTERN.test(text)) {
+        errors.push(`${label} must be a whole number of 0 or more, not "${text}".`);
+        return 0;
+    }
+    return Number(text);
+};
+
+// Checks every data row of a reports sheet. Blank rows are left out; rows with errors keep them all.
+// Rows that duplicate one of the `existing` reports are refused so importing the same sheet twice is harmless.
+export const readReportRows = (
+    rows: string[][],
+    mapping: ColumnMapping,
+    catalog: CatalogItem[],
+    campuses: Campus[],
+    existing: Report[]
+): SheetRowResult<Omit<Report, 'id'>>[] => rows
+    .map((row, index) => ({ row, rowNumber: index + 2 }))
+    .filter(({ row }) => !isBlankRow(row))
+    .map(({ row, rowNumber }) => {
+        const errors: string[] = [];
+        const requesterName = cellOf(row, mapping, 'requesterName');
+        if (!requesterName) errors.push('Requester Name is empty.');
+
+        const campusText = cellOf(row, mapping, 'campus');
+        const campus = campusText ? findCampus(campuses, campusText) : undefined;
+        if (!campusText) errors.push('Campus is empty.');
+        else if (!campus) errors.push(`There is no campus called "${campusText}".`);
+        else if (!campus.active) errors.push(`${campus.name} has been retired and cannot receive new requests.`);
+
+        const importDate = cellOf(row, mapping, 'importDate');
+        const exportDate = cellOf(row, mapping, 'exportDate');
+        if (!isDateString(importDate)) errors.push(`Import Date must be a day of the calendar as YYYY-MM-DD, not "${importDate}".`);
+        if (!isDateString(exportDate)) errors.push(`Export Date must be a day of the calendar as YYYY-MM-DD, not "${exportDate}".`);
+
+        // The status is kept as the sheet gives it, as the export writes it; the server records who imported it
+        const statusText = cellOf(row, mapping, 'status');
+        const status = statusText
+            ? REPORT_STATUSES.find(candidate => candidate.toLowerCase() === statusText.toLowerCase())
+            : 'Submitted' as ReportStatus;
+        if (!status) errors.push(`Status must be one of ${REPORT_STATUSES.join(', ')}, not "${statusText}".`);
+
+        const items: Record<string, number> = {};
+        Object.keys(mapping).filter(key => key.startsWith(ITEM_FIELD_PREFIX)).forEach(key => {
+            const id = key.slice(ITEM_FIELD_PREFIX.length);
+            const quantity = parseWholeNumber(cellOf(row, mapping, key), catalog.find(item => item.id === id)?.nameEn || id, errors);
+            if (quantity > 0) items[id] = quantity;
+        });
+
+        const otherItemsText = cellOf(row, mapping, 'otherItems');
+        const extraLines = parseExtraLines(otherItemsText);
+        if (!extraLines) errors.push(`Other Items must read like "Stapler (2), Glue (1; white)", not "${otherItemsText}".`);
+
+        if (errors.length > 0 || !campus || !status || !extraLines) return { rowNumber, value: null, errors };
+        const report: Omit<Report, 'id'> = { requesterName, campus: campus.id, importDate, exportDate, items, status };
+        if (extraLines.length > 0) report.extraLines = extraLines;
+        const purpose = cellOf(row, mapping, 'purpose');
+        if (purpose) report.purpose = purpose;
+        const remarks = cellOf(row, mapping, 'remarks');
+        if (remarks) report.remarks = remarks;
+        if (existing.some(candidate => isDuplicateReport(report, candidate))) {
+            return { rowNumber, value: null, errors: ['The same report already exists (same requester, campus, dates and items).'] };
+        }
+        return { rowNumber, value: report, errors };
+    });
+
+// Checks every data row of a stock sheet. An item may only appear once.
+export const readStockRows = (rows: string[][], mapping: ColumnMapping, catalog: CatalogItem[]): SheetRowResult<StockSheetLine>[] => {
+    const seen = new Set<string>();
+    return rows
+        .map((row, index) => ({ row, rowNumber: index + 2 }))
+        .filter(({ row }) => !isBlankRow(row))
+        .map(({ row, rowNumber }) => {
+            const errors: string[] = [];
+            const itemText = cellOf(row, mapping, 'item');
+            const item = itemText ? findCatalogItem(catalog, itemText) : undefined;
+            if (!itemText) errors.push('Item is empty.');
+            else if (!item) errors.push(`There is no item called "${itemText}" in the catalog.`);
+            else if (seen.has(item.id)) errors.push(`${item.nameEn} appears more than once.`);
+            if (item) seen.add(item.id);
+
+            const quantityText = cellOf(row, mapping, 'quantity');
+            if (!quantityText) errors.push('Quantity is empty.');
+            const quantity = parseWholeNumber(quantityText, 'Quantity', errors);
+
+            return { rowNumber, value: errors.length > 0 || !item ? null : { item: item.id, quantity }, errors };
+        });
+};
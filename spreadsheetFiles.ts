@@ -0,0 +1,68 @@
+import ExcelJS from 'exceljs';
+import type { Sheet } from './spreadsheet';
+import { parseCsv, toCsv } from './spreadsheet';
+
+// A sheet read from a file, every cell as text.
+export interface ReadSheet {
+    name: string;
+    rows: string[][];
+}
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Starts with a byte order mark so Excel reads the Khmer item names as UTF-8.
+export const downloadCsv = (sheet: Sheet, fileName: string): void =>
+    downloadBlob(new Blob(['\uFEFF', toCsv(sheet.rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+
+export const downloadWorkbook = async (sheets: Sheet[], fileName: string): Promise<void> => {
+    const workbook = new ExcelJS.Workbook();
+    sheets.forEach(sheet => {
+        const worksheet = workbook.addWorksheet(sheet.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+        worksheet.addRows(sheet.rows);
+        worksheet.getRow(1).font = { bold: true };
+        worksheet.columns.forEach((column, index) => {
+            const longest = Math.max(...sheet.rows.map(row => String(row[index] ?? '').length));
+            column.width = Math.min(Math.max(longest + 2, 8), 40);
+        });
+    });
+    const buffer = await workbook.xlsx.writeBuffer();
+    downloadBlob(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), fileName);
+};
+
+// Dates come back as YYYY-MM-DD, formulas as their last computed value.
+const cellText = (value: ExcelJS.CellValue): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString().split('T')[0];
+    if (typeof value !== 'object') return String(value);
+    if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+    return '';
+};
+
+// Reads a .csv file as one sheet, or every worksheet of an .xlsx file.
+export const readSpreadsheet = async (file: File): Promise<ReadSheet[]> => {
+    if (file.name.toLowerCase().endsWith('.csv')) {
+        return [{ name: file.name, rows: parseCsv(await file.text()) }];
+    }
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    return workbook.worksheets.map(worksheet => {
+        const rows: string[][] = [];
+        worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+            const cells: string[] = [];
+            row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+                cells[columnNumber - 1] = cellText(cell.value);
+            });
+            rows[rowNumber - 1] = Array.from(cells, cell => cell || '');
+        });
+        return { name: worksheet.name, rows: Array.from(rows, row => row || []) };
+    });
+};
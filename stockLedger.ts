@@ -0,0 +1,204 @@
+import type { GoodsReceipt, PurchaseOrder, Report, StockItem, StockMovement, StockMovementReason, StockTransfer } from './types';
+import { CENTRAL_WAREHOUSE } from './constants';
+import { reportHoldsStock } from './workflow';
+import type { MessageKey } from './i18n';
+
+export const MOVEMENT_REASON_MESSAGES: Record<StockMovementReason, MessageKey> = {
+    opening: 'movement.opening',
+    report: 'movement.report',
+    adjustment: 'movement.adjustment',
+    clear: 'movement.clear',
+    import: 'movement.import',
+    transfer: 'movement.transfer',
+    receipt: 'movement.receipt',
+};
+
+export const emptyStockItem = (): StockItem => ({ quantity: 0, lastInDate: '', lastOutDate: '', lastUpdateQuantity: 0 });
+
+interface MovementDetails {
+    date?: string;
+    location?: string; // Defaults to the central warehouse
+    reportId?: string;
+    transferId?: string;
+    purchaseOrderId?: string;
+    note?: string;
+}
+
+export const createMovement = (item: string, quantity: number, reason: StockMovementReason, details: MovementDetails = {}): StockMovement => {
+    const timestamp = new Date().toISOString();
+    const movement: StockMovement = {
+        id: `mv-${timestamp}-${Math.random().toString(36).slice(2, 10)}`,
+        item,
+        quantity,
+        date: details.date || timestamp.split('T')[0],
+        timestamp,
+        reason,
+        location: details.location || CENTRAL_WAREHOUSE,
+    };
+    if (details.reportId) movement.reportId = details.reportId;
+    if (details.transferId) movement.transferId = details.transferId;
+    if (details.purchaseOrderId) movement.purchaseOrderId = details.purchaseOrderId;
+    if (details.note) movement.note = details.note;
+    return movement;
+};
+
+// The movements of one location, or every movement for a consolidated view when `location` is null.
+export const movementsAtLocation = (movements: StockMovement[], location: string | null): StockMovement[] =>
+    location ? movements.filter(movement => movement.location === location) : movements;
+
+// Replays the ledger to produce the current stock of every item.
+// `items` seeds the result so items without any movement still show up with 0.
+export const deriveStock = (movements: StockMovement[], items: string[]): Record<string, StockItem> => {
+    const stock: Record<string, StockItem> = {};
+    items.forEach(item => {
+        stock[item] = emptyStockItem();
+    });
+
+    movements.forEach(movement => {
+        const entry = stock[movement.item] || (stock[movement.item] = emptyStockItem());
+        entry.quantity += movement.quantity;
+        if (movement.quantity > 0 && movement.date >= entry.lastInDate) {
+            entry.lastInDate = movement.date;
+        } else if (movement.quantity < 0 && movement.date >= entry.lastOutDate) {
+            entry.lastOutDate = movement.date;
+        }
+        entry.lastUpdateQuantity = movement.quantity;
+    });
+
+    return stock;
+};
+
+// Just the quantity of every item, as setStockQuantities takes them.
+export const stockQuantities = (stock: Record<string, StockItem>): Record<string, number> =>
+    Object.fromEntries(Object.entries(stock).map(([item, { quantity }]) => [item, quantity]));
+
+type ReportStockFields = Pick<Report, 'items' | 'status' | 'fulfilledFrom'>;
+
+// Quantities keyed by location, then item.
+type StockEffect = Record<string, Record<string, number>>;
+
+// The quantities a report currently holds out of stock. Only fulfilled reports take stock,
+// from the location they were fulfilled from.
+const reportStockEffect = (report: ReportStockFields | null): StockEffect => {
+    if (!report || !reportHoldsStock(report.status) || !report.items) return {};
+    const itemEffect: Record<string, number> = {};
+    for (const [item, quantity] of Object.entries(report.items)) {
+        itemEffect[item] = -(Number(quantity) || 0);
+    }
+    return { [report.fulfilledFrom || CENTRAL_WAREHOUSE]: itemEffect };
+};
+
+// Builds the movements needed to move a report from its `before` to its `after` state.
+// Pass `null` as `before` for a new report, or as `after` for a deleted one.
+export const movementsForReportChange = (
+    before: ReportStockFields | null,
+    after: ReportStockFields | null,
+    reportId: string,
+    note?: string
+): StockMovement[] => {
+    const beforeEffect = reportStockEffect(before);
+    const afterEffect = reportStockEffect(after);
+    const allLocations = new Set([...Object.keys(beforeEffect), ...Object.keys(afterEffect)]);
+
+    const movements: StockMovement[] = [];
+    allLocations.forEach(location => {
+        const beforeItems = beforeEffect[location] || {};
+        const afterItems = afterEffect[location] || {};
+        const allItems = new Set([...Object.keys(beforeItems), ...Object.keys(afterItems)]);
+        allItems.forEach(item => {
+            const delta = (afterItems[item] || 0) - (beforeItems[item] || 0);
+            if (delta !== 0) {
+                movements.push(createMovement(item, delta, 'report', { location, reportId, note }));
+            }
+        });
+    });
+    return movements;
+};
+
+// Builds the pair of movements for every item a transfer moves between locations.
+export const movementsForTransfer = (transfer: StockTransfer): StockMovement[] => {
+    const movements: StockMovement[] = [];
+    const details = { date: transfer.date, transferId: transfer.id, note: transfer.note };
+    for (const [item, quantity] of Object.entries(transfer.items)) {
+        if (quantity <= 0) continue;
+        movements.push(createMovement(item, -quantity, 'transfer', { ...details, location: transfer.fromLocation }));
+        movements.push(createMovement(item, quantity, 'transfer', { ...details, location: transfer.toLocation }));
+    }
+    return movements;
+};
+
+// Builds the stock-in movements for a delivery received against a purchase order.
+export const movementsForReceipt = (order: PurchaseOrder, receipt: GoodsReceipt): StockMovement[] => {
+    const details = {
+        date: receipt.date,
+        location: order.location,
+        purchaseOrderId: order.id,
+        note: `${order.number} from ${order.supplier}`,
+    };
+    return Object.entries(receipt.items)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([item, quantity]) => createMovement(item, quantity, 'receipt', details));
+};
+
+// Builds the movements needed to bring every item at one location to the given target quantity.
+// `stock` must be the stock of that same location.
+export const movementsToReachQuantities = (
+    stock: Record<string, StockItem>,
+    targets: Record<string, number>,
+    reason: StockMovementReason,
+    details: Pick<MovementDetails, 'location' | 'note'> = {}
+): StockMovement[] => {
+    const allItems = new Set([...Object.keys(stock), ...Object.keys(targets)]);
+    const movements: StockMovement[] = [];
+    allItems.forEach(item => {
+        const delta = (targets[item] || 0) - (stock[item]?.quantity || 0);
+        if (delta !== 0) {
+            movements.push(createMovement(item, delta, reason, details));
+        }
+    });
+    return movements;
+};
+
+// Lists every outgoing movement that would take an item below zero at its location.
+// `ledger` is every movement recorded so far.
+export const findInsufficientStock = (movements: StockMovement[], ledger: StockMovement[]): string[] => {
+    const available = (movement: StockMovement) => ledger
+        .filter(recorded => recorded.location === movement.location && recorded.item === movement.item)
+        .reduce((sum, recorded) => sum + recorded.quantity, 0);
+    return movements
+        .filter(movement => movement.quantity < 0 && available(movement) < -movement.quantity)
+        .map(movement => `${movement.item} at ${movement.location} (requested ${-movement.quantity}, available ${available(movement)})`);
+};
+
+// Converts the legacy stock record (every shape it has ever been saved in) into opening-balance movements.
+export const migrateLegacyStock = (savedStock: Record<string, any>): StockMovement[] => {
+    const movements: StockMovement[] = [];
+    const today = new Date().toISOString().split('T')[0];
+
+    for (const [item, stockItem] of Object.entries(savedStock || {})) {
+        let quantity = 0;
+        let date = today;
+        if (typeof stockItem === 'number') {
+            // Migrate from: number
+            quantity = stockItem;
+        } else if (typeof stockItem === 'object' && stockItem !== null && 'dateAdded' in stockItem) {
+            // Migrate from: { quantity, dateAdded }
+            quantity = Number(stockItem.quantity) || 0;
+            date = stockItem.dateAdded || today;
+        } else if (typeof stockItem === 'object' && stockItem !== null && 'quantity' in stockItem) {
+            // Migrate from: { quantity, lastInDate, lastOutDate, lastUpdateQuantity }
+            quantity = Number(stockItem.quantity) || 0;
+            date = stockItem.lastInDate || today;
+        }
+        if (quantity !== 0) {
+            movements.push(createMovement(item, quantity, 'opening', { date, note: 'Migrated from previous stock record' }));
+        }
+    }
+
+    return movements;
+};
+
+// Requests are fulfilled from their own campus's cupboard unless the stock keeper picks another location.
+// `locations` are the ids of the locations open for stock.
+export const defaultFulfilmentLocation = (report: Pick<Report, 'campus'>, locations: string[]): string =>
+    locations.includes(report.campus) ? report.campus : CENTRAL_WAREHOUSE;
@@ -0,0 +1,76 @@
+import type jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { Campus, CatalogItem, StockItem, StockMovement } from './types';
+import { catalogItemIds, itemLabel } from './catalog';
+import { locationName } from './campuses';
+import { formatDate } from './i18n';
+import type { PdfTextWriter } from './pdfText';
+import { bilingualLabel, LOCATION_LINE_PREFIX, LOCATION_TABLE_COLUMNS, STOCK_PDF_TITLE, STOCK_TABLE_COLUMNS } from './pdfParser';
+import { deriveStock, movementsAtLocation } from './stockLedger';
+
+// Writes the Stock Inventory Report of one location, or of every location added together. The consolidated
+// report is given the whole ledger in `ledger`, and breaks the totals down by the locations that hold them.
+export const addStockSections = (
+    doc: jsPDF,
+    writer: PdfTextWriter,
+    stock: Record<string, StockItem>,
+    stockLocationName: string,
+    ledger: StockMovement[] | null,
+    catalog: CatalogItem[],
+    campuses: Campus[],
+    generatedAt: Date
+): void => {
+    const formattedDate = formatDate('en', generatedAt, { year: 'numeric', month: 'long', day: 'numeric' });
+    const formattedTime = formatDate('en', generatedAt, { hour: '2-digit', minute: '2-digit' });
+
+    doc.setFontSize(18);
+    writer.text(bilingualLabel(STOCK_PDF_TITLE, ' '), 14, 22);
+    doc.setFontSize(12);
+    writer.text(`${LOCATION_LINE_PREFIX}${stockLocationName}`, 14, 30);
+    doc.text(`Generated on: ${formattedDate} at ${formattedTime}`, 14, 36);
+
+    const stockTableRows = Object.entries(stock)
+        .map(([item, { quantity, lastInDate, lastOutDate }]) => [
+            itemLabel(catalog, item),
+            quantity.toString(),
+            lastInDate || 'N/A',
+            lastOutDate || 'N/A'
+        ])
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    autoTable(doc, {
+        head: [STOCK_TABLE_COLUMNS.map(column => bilingualLabel(column))],
+        body: stockTableRows,
+        startY: 46,
+        theme: 'grid',
+        headStyles: { fillColor: [45, 55, 72] }, // Dark grey header
+        ...writer.tableHooks,
+    });
+
+    if (!ledger) return;
+    // Every location found in the ledger, so stock left at a retired campus still shows up
+    const ledgerLocations = Array.from(new Set(ledger.map(movement => movement.location)));
+    const locationRows = ledgerLocations.flatMap(location =>
+        Object.entries(deriveStock(movementsAtLocation(ledger, location), catalogItemIds(catalog)))
+            .filter(([, { quantity }]) => quantity !== 0)
+            .map(([item, { quantity }]) => [locationName(campuses, location), itemLabel(catalog, item), quantity.toString()])
+            .sort(([, a], [, b]) => a.localeCompare(b))
+    );
+    if (locationRows.length === 0) return;
+    let lastY = (doc as any).lastAutoTable.finalY + 15;
+    if (lastY > 250) {
+        doc.addPage();
+        lastY = 20;
+    }
+    doc.setFontSize(16);
+    doc.setTextColor(45, 55, 72);
+    doc.text('Stock by Location', 14, lastY);
+    autoTable(doc, {
+        head: [LOCATION_TABLE_COLUMNS.map(column => bilingualLabel(column))],
+        body: locationRows,
+        startY: lastY + 8,
+        theme: 'grid',
+        headStyles: { fillColor: [80, 80, 80] },
+        ...writer.tableHooks,
+    });
+};
@@ -0,0 +1,33 @@
+// Keeps the app's tabs and windows in step. Every tab reads its data from the server and never writes it back
+// wholesale, so the only thing they need to share is that something changed: a tab that saved something tells the
+// others, which load the data again.
+
+const CHANNEL_NAME = 'stationary-app';
+const CHANGED = 'changed';
+
+// A channel does not hear its own messages, so one per tab both tells and listens. Browsers without
+// BroadcastChannel keep their tabs apart; the server still refuses changes made from an out-of-date copy.
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export const announceChange = (): void => {
+    channel?.postMessage({ type: CHANGED });
+};
+
+// Calls `handler` after another tab has saved something. Saves that come close together, like the rows of an
+// import, are handled in one go. Returns a function that stops listening.
+export const onOtherTabChange = (handler: () => void, delayMs = 300): (() => void) => {
+    let timeout: number | null = null;
+    const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type !== CHANGED) return;
+        if (timeout !== null) clearTimeout(timeout);
+        timeout = window.setTimeout(() => {
+            timeout = null;
+            handler();
+        }, delayMs);
+    };
+    channel?.addEventListener('message', handleMessage);
+    return () => {
+        if (timeout !== null) clearTimeout(timeout);
+        channel?.removeEventListener('message', handleMessage);
+    };
+};
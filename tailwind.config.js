@@ -0,0 +1,14 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.{ts,tsx}', './components/**/*.{ts,tsx}'],
+  theme: {
+    extend: {
+      fontFamily: {
+        'sans': ['Roboto', 'sans-serif'],
+        'serif-khmer': ['Noto Serif Khmer', 'serif'],
+        'koulen': ['Koulen', 'sans-serif'],
+        'battambang': ['Battambang', 'sans-serif'],
+      }
+    }
+  }
+}
@@ -1,9 +1,234 @@
 export interface Report {
   id: string;
   requesterName: string;
-  campus: string;
+  requesterId?: string; // The signed-in user who created the report; missing on older reports
+  campus: string; // Campus id
   importDate: string;
   exportDate: string;
   items: Record<string, number>;
-  status: 'Process' | 'Done';
-}
\ No newline at end of file
+  status: ReportStatus;
+  statusHistory?: StatusChange[]; // Oldest first; missing on reports created before the approval workflow
+  fulfilledFrom?: string; // Stock location id the items were taken from; set when the report is Fulfilled
+  extraLines?: ExtraLine[]; // Things asked for that the catalog does not list
+  purpose?: string; // What the items are needed for
+  remarks?: string;
+  handover?: Handover; // Set once someone at the campus has signed for the items
+  revision?: number; // How many times the server has saved the report; a save made from an older copy is refused
+}
+
+// Proof that a request's items reached the campus: who received them, with their signature drawn on screen.
+export interface Handover {
+  receiverName: string; // Printed name of whoever signed
+  signature: string; // The signature as a PNG data URL
+  signedAt: string; // ISO timestamp
+  recordedByName: string; // The signed-in user the signature was taken on
+}
+
+// A free-form line on a request, for something the catalog does not list. It is printed and exported with the
+// request but never moves stock and has no cost.
+export interface ExtraLine {
+  description: string;
+  quantity: number;
+  note?: string;
+}
+
+export type ReportStatus = 'Submitted' | 'Approved' | 'Rejected' | 'Fulfilled' | 'Cancelled';
+
+export interface StatusChange {
+  from: ReportStatus | null; // null for the change that created the report
+  to: ReportStatus;
+  at: string; // ISO timestamp
+  byUserId: string;
+  byName: string;
+  reason?: string;
+}
+
+// A campus in the campus directory. Reports, users and stock locations refer to campuses by `id`,
+// which never changes, so a campus can be renamed or retired without orphaning its history.
+export interface Campus {
+  id: string;
+  name: string;
+  address: string;
+  contactPerson: string;
+  active: boolean; // Retired campuses can no longer be chosen for new requests or stock
+}
+
+// One consumable in the item catalog. Reports, stock movements and transfers refer to items by `id`,
+// which never changes; the names can be edited freely.
+export interface CatalogItem {
+  id: string;
+  nameEn: string;
+  nameKm: string;
+  category: string;
+  unit: string; // Unit of measure, e.g. 'cartridge', 'ream'
+  active: boolean; // Archived items can no longer be requested but keep their history
+  minLevel: number; // Reorder point: stock at or below this is low. 0 turns the alert off
+  reorderQuantity: number; // How much to order once the item runs low
+}
+
+export interface StockItem {
+  quantity: number;
+  lastInDate: string;
+  lastOutDate: string;
+  lastUpdateQuantity: number;
+}
+
+export type StockMovementReason = 'opening' | 'report' | 'adjustment' | 'clear' | 'import' | 'transfer' | 'receipt';
+
+// A single immutable change to the stock of one item. Current quantities are
+// derived by summing these in order; movements are never edited or removed.
+export interface StockMovement {
+  id: string;
+  item: string;
+  quantity: number; // Signed: positive for stock in, negative for stock out
+  date: string; // 'YYYY-MM-DD'
+  timestamp: string; // Full ISO timestamp, used for ordering within a day
+  reason: StockMovementReason;
+  location: string; // CENTRAL_WAREHOUSE or a campus id
+  reportId?: string;
+  transferId?: string;
+  purchaseOrderId?: string;
+  note?: string;
+}
+
+// Moves quantities from one stock location to another. Posted as a pair of 'transfer' movements per item.
+export interface StockTransfer {
+  id: string;
+  fromLocation: string;
+  toLocation: string;
+  items: Record<string, number>;
+  date: string; // 'YYYY-MM-DD'
+  createdAt: string; // ISO timestamp
+  byUserId: string;
+  byName: string;
+  note?: string;
+}
+
+export type PurchaseOrderStatus = 'Open' | 'Partially Received' | 'Received' | 'Cancelled';
+
+export interface PurchaseOrderLine {
+  item: string; // Catalog item id
+  quantity: number; // Quantity ordered
+  unitCost: number;
+}
+
+// One delivery against a purchase order. Posted as a 'receipt' movement per item.
+export interface GoodsReceipt {
+  id: string;
+  date: string; // 'YYYY-MM-DD'
+  items: Record<string, number>;
+  createdAt: string; // ISO timestamp
+  byUserId: string;
+  byName: string;
+  note?: string;
+}
+
+// An order placed with a supplier. Stock only comes in through its receipts, which may each cover part of the order.
+export interface PurchaseOrder {
+  id: string;
+  number: string; // 'PO-0001', for people and paperwork
+  supplier: string;
+  location: string; // Where the goods are delivered: CENTRAL_WAREHOUSE or a campus id
+  lines: PurchaseOrderLine[];
+  orderDate: string; // 'YYYY-MM-DD'
+  expectedDate?: string; // 'YYYY-MM-DD'
+  status: PurchaseOrderStatus;
+  receipts: GoodsReceipt[];
+  createdAt: string; // ISO timestamp
+  byUserId: string;
+  byName: string;
+  note?: string;
+}
+
+// The unit cost of an item from `effectiveDate` until the next price takes over. Prices are never edited,
+// so requests keep the cost they had when they were made.
+export interface ItemPrice {
+  id: string;
+  item: string; // Catalog item id
+  unitCost: number;
+  effectiveDate: string; // 'YYYY-MM-DD'
+  createdAt: string; // ISO timestamp
+  byUserId: string;
+  byName: string;
+}
+
+export type BudgetPeriod = 'month' | 'term';
+
+// What a campus may spend on requests over one month or school term.
+export interface CampusBudget {
+  id: string;
+  campus: string; // Campus id
+  period: BudgetPeriod;
+  label: string; // 'YYYY-MM' for a month, a name such as 'Term 1 2026' for a term
+  startDate: string; // 'YYYY-MM-DD'
+  endDate: string; // 'YYYY-MM-DD', included
+  amount: number;
+}
+
+// A set of quantities a campus asks for again and again, to fill the request form with instead of typing them.
+export interface RequestTemplate {
+  id: string;
+  campus: string; // Campus id
+  name: string;
+  items: Record<string, number>;
+}
+
+export type ScheduleFrequency = 'weekly' | 'monthly';
+
+// Why a schedule passed over a due date: its template, campus or requester has gone or been retired, none of its
+// items can still be requested, or creating the request failed.
+export type ScheduleFailureReason = 'unavailable' | 'noItems' | 'error';
+
+export interface ScheduleFailure {
+  date: string; // 'YYYY-MM-DD', the due date it could not request, or the day the catch-up failed
+  reason: ScheduleFailureReason;
+  message?: string; // For 'error', what went wrong
+}
+
+// A template requested on a repeating date. On each due date the server creates a Submitted request from it.
+export interface RequestSchedule {
+  id: string;
+  templateId: string;
+  frequency: ScheduleFrequency;
+  startDate: string; // 'YYYY-MM-DD', the first due date; later ones fall on the same weekday or day of the month
+  requesterId: string; // The account the requests are made under: whoever set the schedule up
+  requesterName: string;
+  createdThrough: string; // 'YYYY-MM-DD'; due dates up to this one have had their request created or were passed over
+  skippedDates: string[]; // Upcoming due dates that will not be requested
+  changedItems: Record<string, Record<string, number>>; // Quantities for a single due date instead of the template's
+  missedDates?: ScheduleFailure[]; // Due dates it could not request, tried again on every check until requested or skipped
+  failure?: ScheduleFailure; // The last catch-up that failed as a whole, until one succeeds; its due dates are tried again
+}
+
+export type AuditEntity = 'report' | 'stock';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'status' | 'stock' | 'import' | 'handover' | 'undo';
+
+// One change to a report or to stock quantities, as it was made. `before` and `after` hold the whole report
+// (null when it did not exist) or, for stock, the quantities of the items that changed at the location.
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  byUserId: string;
+  byName: string;
+  entity: AuditEntity;
+  entityId: string; // Report id, or the stock location id
+  action: AuditAction;
+  before: Report | Record<string, number> | null;
+  after: Report | Record<string, number> | null;
+  note?: string;
+  undoOf?: string; // For an undo, the entry it took back
+  undoneAt?: string; // Set on an entry once it has been undone
+  undoneByName?: string;
+}
+
+export type UserRole = 'requester' | 'stockKeeper' | 'admin';
+
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  campus: string; // Campus id of a requester's home campus, '' when the user is not tied to one
+  active: boolean;
+}
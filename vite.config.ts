@@ -1,12 +1,32 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
+
+// Lists every file of the build in precache-manifest.json, for the service worker (public/sw.js) to cache
+// when it installs, so the app starts offline and can still export and import PDFs.
+const precacheManifest = (): Plugin => ({
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+        const publicFiles = fs.readdirSync(path.resolve(__dirname, 'public')).filter(file => file !== 'sw.js');
+        // Every browser with service workers reads woff2, so the woff fallbacks of the fonts are left out
+        const bundleFiles = Object.keys(bundle).filter(file => !file.endsWith('.woff'));
+        const files = new Set(['/', 'index.html', ...publicFiles, ...bundleFiles].map(file => file.startsWith('/') ? file : `/${file}`));
+        this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source: JSON.stringify(Array.from(files)) });
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [precacheManifest()],
       define: {
+        'process.env.BUILD_ID': JSON.stringify(Date.now().toString(36)),
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || '')
       },
       resolve: {
         alias: {
@@ -17,6 +37,14 @@ export default defineConfig(({ mode }) => {
       host: '0.0.0.0', // 👈 this allows external access (like Render)
       port: 5173,
       allowedHosts: ['tvs-request.onrender.com'], // ✅ Add this line       // 👈 optional, or use process.env.PORT
-    }
+      proxy: {
+        '/api': env.API_SERVER_URL || 'http://localhost:3001', // API server from `npm run server`
+      },
+    },
+      preview: {
+        proxy: {
+          '/api': env.API_SERVER_URL || 'http://localhost:3001',
+        },
+      }
     };
 });
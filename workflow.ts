@@ -0,0 +1,97 @@
+import type { Report, ReportStatus, StatusChange, User } from './types';
+import { canManageStock } from './permissions';
+import type { MessageKey } from './i18n';
+
+// The request lifecycle. Every status change goes through the rules below, on the server and in the UI alike:
+//
+//   Submitted -> Approved -> Fulfilled
+//       |            |
+//       +-> Rejected +-> Cancelled
+//       +-> Cancelled
+//
+// Stock is only taken when a request is Fulfilled.
+
+export const REPORT_STATUSES: ReportStatus[] = ['Submitted', 'Approved', 'Rejected', 'Fulfilled', 'Cancelled'];
+
+export interface TransitionRule {
+    from: ReportStatus;
+    to: ReportStatus;
+    label: MessageKey;
+    reasonRequired: boolean;
+    isAllowedFor: (user: User, report: Report) => boolean;
+}
+
+const byStockManager = (user: User) => canManageStock(user);
+const byStockManagerOrRequester = (user: User, report: Report) => canManageStock(user) || report.requesterId === user.id;
+
+const TRANSITIONS: TransitionRule[] = [
+    { from: 'Submitted', to: 'Approved', label: 'workflow.approve', reasonRequired: false, isAllowedFor: byStockManager },
+    { from: 'Submitted', to: 'Rejected', label: 'workflow.reject', reasonRequired: true, isAllowedFor: byStockManager },
+    { from: 'Submitted', to: 'Cancelled', label: 'workflow.cancel', reasonRequired: true, isAllowedFor: byStockManagerOrRequester },
+    { from: 'Approved', to: 'Fulfilled', label: 'workflow.fulfil', reasonRequired: false, isAllowedFor: byStockManager },
+    { from: 'Approved', to: 'Cancelled', label: 'workflow.cancel', reasonRequired: true, isAllowedFor: byStockManagerOrRequester },
+];
+
+export const findTransition = (from: ReportStatus, to: ReportStatus): TransitionRule | undefined =>
+    TRANSITIONS.find(rule => rule.from === from && rule.to === to);
+
+// The transitions this user may apply to the report right now, in display order.
+export const availableTransitions = (report: Report, user: User): TransitionRule[] =>
+    TRANSITIONS.filter(rule => rule.from === report.status && rule.isAllowedFor(user, report));
+
+// Why a transition cannot happen, as a message for the interface to translate. The statuses are left for
+// it to translate too.
+export interface TransitionError {
+    key: MessageKey;
+    params: { from: ReportStatus; to: ReportStatus };
+}
+
+// Returns why the transition cannot happen, or null if it can.
+export const transitionError = (report: Report, to: ReportStatus, user: User, reason: string): TransitionError | null => {
+    const params = { from: report.status, to };
+    const rule = findTransition(report.status, to);
+    if (!rule) return { key: 'error.transitionNotAllowed', params };
+    if (!rule.isAllowedFor(user, report)) return { key: 'error.transitionNotPermitted', params };
+    if (rule.reasonRequired && !reason.trim()) return { key: 'error.transitionNeedsReason', params };
+    return null;
+};
+
+const statusChange = (from: ReportStatus | null, to: ReportStatus, user: User, reason: string, at: string): StatusChange => {
+    const change: StatusChange = { from, to, at, byUserId: user.id, byName: user.displayName };
+    if (reason.trim()) change.reason = reason.trim();
+    return change;
+};
+
+// Assumes the transition has been checked with transitionError.
+export const applyTransition = (report: Report, to: ReportStatus, user: User, reason: string, at = new Date().toISOString()): Report => ({
+    ...report,
+    status: to,
+    statusHistory: [...(report.statusHistory || []), statusChange(report.status, to, user, reason, at)],
+});
+
+export const submissionHistory = (user: User, at = new Date().toISOString()): StatusChange[] => [
+    statusChange(null, 'Submitted', user, '', at),
+];
+
+// An imported report comes in at the status its file gives, with the person who imported it as the one who set it.
+export const importHistory = (status: ReportStatus, user: User, at = new Date().toISOString()): StatusChange[] => [
+    statusChange(null, status, user, '', at),
+];
+
+// Items and dates can only be changed before the request is fulfilled or closed.
+export const isEditableStatus = (status: ReportStatus): boolean => status === 'Submitted' || status === 'Approved';
+
+export const reportHoldsStock = (status: ReportStatus): boolean => status === 'Fulfilled';
+
+// The receiver can sign for the items once the request is approved, on handing them over, or after it is fulfilled.
+export const canSignHandover = (status: ReportStatus): boolean => status === 'Approved' || status === 'Fulfilled';
+
+// Fulfilled requests nobody has signed for yet, so there is no proof the campus received the items.
+export const isMissingHandover = (report: Report): boolean => report.status === 'Fulfilled' && !report.handover;
+
+// Reports saved before the workflow existed were either 'Process' or 'Done'.
+export const normalizeLegacyStatus = (status: unknown): ReportStatus => {
+    if (status === 'Done') return 'Fulfilled';
+    if (REPORT_STATUSES.includes(status as ReportStatus)) return status as ReportStatus;
+    return 'Submitted';
+};